@@ -20,18 +20,31 @@ import { ViewCube } from './components/viewport/ViewCube';
 import { NavigationBar } from './components/viewport/NavigationBar';
 import { SketchOverlay } from './components/sketch/SketchOverlay';
 import { ExtrudeDialog } from './components/dialogs/ExtrudeDialog';
+import { RevolveDialog } from './components/dialogs/RevolveDialog';
 import { BooleanDialog } from './components/dialogs/BooleanDialog';
+import { ParameterTableDialog } from './components/dialogs/ParameterTableDialog';
+import { ExportDialog } from './components/dialogs/ExportDialog';
+import { DocumentSettingsDialog } from './components/dialogs/DocumentSettingsDialog';
+import { ConstructionDialog } from './components/dialogs/ConstructionDialog';
+import type { ConstructionKind } from './components/dialogs/ConstructionDialog';
+import { FilletDialog } from './components/dialogs/FilletDialog';
+import type { BlendKind } from './components/dialogs/FilletDialog';
 import { ViewportManager } from './viewport/ViewportManager';
-import { ManifoldEngine } from './engine/ManifoldEngine';
-import { FeatureEvaluator } from './engine/FeatureEvaluator';
+import { ConstructionRenderer } from './viewport/ConstructionRenderer';
+import { RebuildService } from './engine/RebuildService';
+import { resolveFeatureParameters } from './engine/ExpressionEvaluator';
+import { CHORD_TOLERANCES } from './types/document';
 import { useDocumentStore } from './store/documentStore';
-import type { CachedBody, SketchFeature } from './types/features';
+import { isSameFace, useSceneStore } from './store/sceneStore';
+import type { SketchFeature } from './types/features';
 import type { SketchData, SketchPlane } from './types/sketch';
+import { getSketchPlane } from './utils/sketchPlane';
 import './App.css';
 
 function App() {
   const initialized = useRef(false);
   const rebuildTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const constructionRenderer = useRef<ConstructionRenderer | null>(null);
 
   // Sketch mode state
   const [sketchModeFeatureId, setSketchModeFeatureId] = useState<string | null>(null);
@@ -40,16 +53,27 @@ function App() {
 
   // Dialog state
   const [showExtrudeDialog, setShowExtrudeDialog] = useState(false);
+  const [showRevolveDialog, setShowRevolveDialog] = useState(false);
   const [showBooleanDialog, setShowBooleanDialog] = useState(false);
+  const [showParameterTable, setShowParameterTable] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [constructionDialog, setConstructionDialog] = useState<{ kind: ConstructionKind; method?: string } | null>(null);
+  const [filletDialog, setFilletDialog] = useState<BlendKind | null>(null);
   const [editingFeatureId, setEditingFeatureId] = useState<string | null>(null);
 
   const document = useDocumentStore(state => state.document);
   const setRebuilding = useDocumentStore(state => state.setRebuilding);
   const setRebuildError = useDocumentStore(state => state.setRebuildError);
   const updateBodies = useDocumentStore(state => state.updateBodies);
-  const setCachedResult = useDocumentStore(state => state.setCachedResult);
+  const markFeaturesBuilt = useDocumentStore(state => state.markFeaturesBuilt);
+  const pruneSelection = useSceneStore(state => state.pruneSelection);
   const updateFeature = useDocumentStore(state => state.updateFeature);
   const getFeature = useDocumentStore(state => state.getFeature);
+  const bodies = useDocumentStore(state => state.bodies);
+  const construction = useDocumentStore(state => state.construction);
+  const undo = useDocumentStore(state => state.undo);
+  const redo = useDocumentStore(state => state.redo);
 
   // Rebuild function
   const performRebuild = useCallback(async () => {
@@ -58,9 +82,21 @@ function App() {
 
     setRebuilding(true);
     setRebuildError(null);
+    let superseded = false;
 
     try {
-      const result = await FeatureEvaluator.rebuild(document.features);
+      // Evaluate parameter expressions before the features are rebuilt
+      const { features, errors: expressionErrors } = resolveFeatureParameters(
+        document.features,
+        document.globalParameters
+      );
+      const result = await RebuildService.rebuild(features, CHORD_TOLERANCES[document.settings.previewQuality]);
+
+      // A newer rebuild is already under way and will update the viewport
+      if (result.cancelled) {
+        superseded = true;
+        return;
+      }
 
       // Remove all old CAD body meshes
       const scene = viewport.getScene();
@@ -76,9 +112,7 @@ function App() {
       });
 
       // Add new meshes for each body
-      result.bodies.forEach((body, bodyId) => {
-        const tessellated = ManifoldEngine.tessellate(body.manifold);
-
+      result.bodies.forEach(({ mesh: tessellated }, bodyId) => {
         const geometry = new THREE.BufferGeometry();
         geometry.setAttribute('position', new THREE.BufferAttribute(tessellated.vertices, 3));
         geometry.setAttribute('normal', new THREE.BufferAttribute(tessellated.normals, 3));
@@ -99,26 +133,25 @@ function App() {
         viewport.addMesh(bodyId, mesh);
       });
 
-      // Update cached results for each feature
-      for (const feature of document.features) {
-        if (feature.suppressed) continue;
-
-        const featureBodies: CachedBody[] = [];
-        result.bodies.forEach((body) => {
-          if (body.originFeatureId === feature.id) {
-            featureBodies.push(body);
-          }
-        });
-
-        if (featureBodies.length > 0) {
-          setCachedResult(feature.id, featureBodies);
-        }
-      }
-
-      updateBodies(result.bodies);
+      // The worker now caches these features' results
+      markFeaturesBuilt(document.features);
+      updateBodies(result.bodies, result.sketchPlanes, result.construction);
+
+      // Body IDs are stable across rebuilds, so selections carry over unless
+      // their body is gone or their triangle now belongs to another face
+      pruneSelection(selection => {
+        const body = result.bodies.get(selection.objectId);
+        if (!body) return false;
+        if (selection.faceIndex === undefined) return true;
+        const face = body.faces[body.triangleFaces[selection.faceIndex]];
+        return !!face && !!selection.face && isSameFace(face, selection.face);
+      });
 
-      if (!result.success) {
-        const errorMessages = Array.from(result.errors.values()).join(', ');
+      if (!result.success || expressionErrors.size > 0) {
+        const errorMessages = [
+          ...expressionErrors.values(),
+          ...result.errors.values(),
+        ].join(', ');
         setRebuildError(errorMessages);
       }
     } catch (error) {
@@ -126,9 +159,11 @@ function App() {
       setRebuildError(message);
       console.error('[App] Rebuild error:', error);
     } finally {
-      setRebuilding(false);
+      if (!superseded) {
+        setRebuilding(false);
+      }
     }
-  }, [document.features, setRebuilding, setRebuildError, updateBodies, setCachedResult]);
+  }, [document.features, document.globalParameters, document.settings.previewQuality, setRebuilding, setRebuildError, updateBodies, markFeaturesBuilt, pruneSelection]);
 
   // Debounced rebuild on feature changes
   useEffect(() => {
@@ -137,7 +172,13 @@ function App() {
 
     // Check if any features are dirty
     const hasDirty = document.features.some(f => f._dirty && !f.suppressed);
-    if (!hasDirty) return;
+
+    // Bodies of deleted or suppressed features (e.g. after undo) also need a rebuild to disappear
+    const activeIds = new Set(document.features.filter(f => !f.suppressed).map(f => f.id));
+    const hasStaleBodies = Array.from(bodies.values()).some(body => !activeIds.has(body.originFeatureId)) ||
+      Array.from(construction.keys()).some(featureId => !activeIds.has(featureId));
+
+    if (!hasDirty && !hasStaleBodies) return;
 
     // Debounce rebuild
     if (rebuildTimeout.current) {
@@ -153,18 +194,45 @@ function App() {
         clearTimeout(rebuildTimeout.current);
       }
     };
-  }, [document.features, performRebuild, sketchModeFeatureId]);
+  }, [document.features, bodies, construction, performRebuild, sketchModeFeatureId]);
 
-  // Initialize ManifoldEngine
+  // Construction geometry is drawn apart from the bodies
+  useEffect(() => {
+    const viewport = (window as unknown as { viewport: ViewportManager }).viewport;
+    if (!viewport) return;
+
+    constructionRenderer.current ??= new ConstructionRenderer(viewport.getScene());
+    constructionRenderer.current.update(construction);
+  }, [construction]);
+
+  // Undo/redo shortcuts (Ctrl+Z, Ctrl+Y / Ctrl+Shift+Z)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Sketch mode and text fields handle their own undo
+      if (sketchModeFeatureId) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [sketchModeFeatureId, undo, redo]);
+
+  // Start the rebuild worker so the WASM kernel loads before the first rebuild
   useEffect(() => {
     if (initialized.current) return;
     initialized.current = true;
 
-    ManifoldEngine.initialize().then(() => {
-      console.log('[App] ManifoldEngine initialized');
-    }).catch((error) => {
-      console.error('[App] Failed to initialize ManifoldEngine:', error);
-    });
+    RebuildService.initialize();
   }, []);
 
   // Enter sketch mode for a feature
@@ -173,24 +241,7 @@ function App() {
     if (!feature || feature.type !== 'sketch') return;
 
     const sketchFeature = feature as SketchFeature;
-    const planeType = sketchFeature.parameters.plane.value as 'XY' | 'XZ' | 'YZ';
-    const offset = sketchFeature.parameters.planeOffset.value;
-
-    // Create plane definition
-    const plane: SketchPlane = {
-      type: planeType,
-      origin: { x: 0, y: 0, z: 0 },
-      normal: planeType === 'XY' ? { x: 0, y: 0, z: 1 } :
-              planeType === 'XZ' ? { x: 0, y: 1, z: 0 } :
-              { x: 1, y: 0, z: 0 },
-      xAxis: planeType === 'XY' ? { x: 1, y: 0, z: 0 } :
-             planeType === 'XZ' ? { x: 1, y: 0, z: 0 } :
-             { x: 0, y: 0, z: -1 },
-      yAxis: planeType === 'XY' ? { x: 0, y: 1, z: 0 } :
-             planeType === 'XZ' ? { x: 0, y: 0, z: -1 } :
-             { x: 0, y: 1, z: 0 },
-      offset,
-    };
+    const plane = getSketchPlane(sketchFeature, useDocumentStore.getState().sketchPlanes);
 
     // Get existing sketch data if any
     setInitialSketchData(sketchFeature.sketchData);
@@ -212,9 +263,21 @@ function App() {
       case 'extrude':
         setShowExtrudeDialog(true);
         break;
+      case 'revolve':
+        setShowRevolveDialog(true);
+        break;
       case 'boolean':
         setShowBooleanDialog(true);
         break;
+      case 'plane':
+      case 'axis':
+      case 'point':
+        setConstructionDialog({ kind: feature.type });
+        break;
+      case 'fillet':
+      case 'chamfer':
+        setFilletDialog(feature.type);
+        break;
       case 'primitive':
         // TODO: Add primitive edit dialog
         console.log('Edit primitive:', featureId);
@@ -234,6 +297,7 @@ function App() {
 
   // Handle finish sketch
   const handleFinishSketch = useCallback((data: SketchData | null) => {
+    // The whole sketch session becomes a single document undo step
     if (sketchModeFeatureId && data) {
       updateFeature(sketchModeFeatureId, { sketchData: data } as Partial<SketchFeature>);
     }
@@ -261,7 +325,12 @@ function App() {
       <Toolbar
         onStartSketch={handleStartSketch}
         onOpenExtrudeDialog={() => setShowExtrudeDialog(true)}
+        onOpenRevolveDialog={() => setShowRevolveDialog(true)}
         onOpenBooleanDialog={() => setShowBooleanDialog(true)}
+        onOpenConstructionDialog={(kind, method) => setConstructionDialog({ kind, method })}
+        onOpenFilletDialog={setFilletDialog}
+        onOpenParameterTable={() => setShowParameterTable(true)}
+        onExportSTL={() => setShowExportDialog(true)}
       />
 
       {/* Main content area */}
@@ -273,7 +342,7 @@ function App() {
           minWidth={160}
           maxWidth={400}
         >
-          <BrowserPanel onEditFeature={handleEditFeature} />
+          <BrowserPanel onEditFeature={handleEditFeature} onOpenSettings={() => setShowSettingsDialog(true)} />
         </ResizablePanel>
 
         {/* Center viewport area */}
@@ -322,6 +391,15 @@ function App() {
           }}
         />
       )}
+      {showRevolveDialog && (
+        <RevolveDialog
+          editFeatureId={editingFeatureId}
+          onClose={() => {
+            setShowRevolveDialog(false);
+            setEditingFeatureId(null);
+          }}
+        />
+      )}
       {showBooleanDialog && (
         <BooleanDialog
           editFeatureId={editingFeatureId}
@@ -331,6 +409,36 @@ function App() {
           }}
         />
       )}
+      {constructionDialog && (
+        <ConstructionDialog
+          kind={constructionDialog.kind}
+          method={constructionDialog.method}
+          editFeatureId={editingFeatureId}
+          onClose={() => {
+            setConstructionDialog(null);
+            setEditingFeatureId(null);
+          }}
+        />
+      )}
+      {filletDialog && (
+        <FilletDialog
+          kind={filletDialog}
+          editFeatureId={editingFeatureId}
+          onClose={() => {
+            setFilletDialog(null);
+            setEditingFeatureId(null);
+          }}
+        />
+      )}
+      {showParameterTable && (
+        <ParameterTableDialog onClose={() => setShowParameterTable(false)} />
+      )}
+      {showExportDialog && (
+        <ExportDialog onClose={() => setShowExportDialog(false)} />
+      )}
+      {showSettingsDialog && (
+        <DocumentSettingsDialog onClose={() => setShowSettingsDialog(false)} />
+      )}
     </div>
   );
 }
@@ -1,6 +1,15 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { ViewportManager, type RaycastHit } from '../viewport/ViewportManager';
 import { useSceneStore } from '../store/sceneStore';
+import { useDocumentStore } from '../store/documentStore';
+import { findEdgeNear, findEdgeSegments } from '../utils/edgePicking';
+import type { FaceName } from '../types/features';
+
+// Topology name of the face under a hit, so the selection can be checked after a rebuild
+function pickedFace(hit: RaycastHit): FaceName | undefined {
+  const body = useDocumentStore.getState().bodies.get(hit.objectId);
+  return body?.faces[body.triangleFaces[hit.faceIndex]];
+}
 
 export function Viewport() {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -12,6 +21,7 @@ export function Viewport() {
     clearSelection,
     selectedItems,
   } = useSceneStore();
+  const bodies = useDocumentStore(state => state.bodies);
 
   // Handle hover
   const handleHover = useCallback((hit: RaycastHit | null) => {
@@ -19,6 +29,7 @@ export function Viewport() {
       setHoveredSelection({
         objectId: hit.objectId,
         faceIndex: hit.faceIndex,
+        face: pickedFace(hit),
       });
     } else {
       setHoveredSelection(null);
@@ -34,14 +45,25 @@ export function Viewport() {
     }
 
     if (hit && hit.faceIndex >= 0) {
+      if (useSceneStore.getState().selectionMode === 'edge') {
+        // Select the edge of the clicked face nearest the click
+        const body = useDocumentStore.getState().bodies.get(hit.objectId);
+        const edge = body && findEdgeNear(body, hit.faceIndex, hit.point.toArray());
+        if (edge) {
+          toggleSelection({ objectId: hit.objectId, edge });
+        }
+        return;
+      }
+
       toggleSelection({
         objectId: hit.objectId,
         faceIndex: hit.faceIndex,
+        face: pickedFace(hit),
       });
     }
   }, [clearSelection, toggleSelection]);
 
-  // Update selection highlights when selection changes
+  // Update selection highlights when selection changes or bodies are rebuilt
   useEffect(() => {
     const viewport = viewportRef.current;
     if (!viewport) return;
@@ -51,8 +73,13 @@ export function Viewport() {
       if (item.faceIndex !== undefined) {
         viewport.addSelectionHighlight(item.objectId, item.faceIndex);
       }
+      const body = bodies.get(item.objectId);
+      if (item.edge && body) {
+        const [a, b] = item.edge.faces.map(({ key }) => `${key.featureId}:${key.slot}:${key.faceId}`);
+        viewport.addEdgeHighlight(`${item.objectId}-${a}-${b}`, findEdgeSegments(body, item.edge));
+      }
     });
-  }, [selectedItems]);
+  }, [selectedItems, bodies]);
 
   // Initialize viewport
   useEffect(() => {
@@ -4,6 +4,7 @@
 
 import React, { useState, useCallback, useMemo } from 'react';
 import { useDocumentStore } from '../../store/documentStore';
+import { useSceneStore } from '../../store/sceneStore';
 import type { Feature } from '../../types/features';
 import {
   DocumentIcon,
@@ -11,13 +12,17 @@ import {
   OriginIcon,
   PlaneIcon,
   AxisIcon,
+  PointIcon,
   BodyIcon,
   BoxIcon,
   CylinderIcon,
   SphereIcon,
   SketchIcon,
   ExtrudeIcon,
+  RevolveIcon,
   BooleanUnionIcon,
+  FilletIcon,
+  ChamferIcon,
   EyeIcon,
   EyeOffIcon,
   ChevronRightIcon,
@@ -28,13 +33,14 @@ import './BrowserPanel.css';
 
 interface BrowserPanelProps {
   onEditFeature: (featureId: string) => void;
+  onOpenSettings: () => void;
 }
 
 interface TreeNode {
   id: string;
   label: string;
   iconType: string;
-  type: 'folder' | 'feature';
+  type: 'folder' | 'feature' | 'body';
   children?: TreeNode[];
   featureId?: string;
   expanded?: boolean;
@@ -49,31 +55,40 @@ function getIcon(iconType: string, size: number = 14): React.ReactNode {
     case 'origin': return <OriginIcon {...props} />;
     case 'plane': return <PlaneIcon {...props} />;
     case 'axis': return <AxisIcon {...props} />;
+    case 'point': return <PointIcon {...props} />;
     case 'body': return <BodyIcon {...props} />;
     case 'box': return <BoxIcon {...props} />;
     case 'cylinder': return <CylinderIcon {...props} />;
     case 'sphere': return <SphereIcon {...props} />;
     case 'sketch': return <SketchIcon {...props} />;
     case 'extrude': return <ExtrudeIcon {...props} />;
+    case 'revolve': return <RevolveIcon {...props} />;
     case 'boolean': return <BooleanUnionIcon {...props} />;
+    case 'fillet': return <FilletIcon {...props} />;
+    case 'chamfer': return <ChamferIcon {...props} />;
     default: return <DocumentIcon {...props} />;
   }
 }
 
-export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
+export function BrowserPanel({ onEditFeature, onOpenSettings }: BrowserPanelProps) {
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(
     new Set(['document', 'bodies', 'sketches', 'origin'])
   );
 
   const document = useDocumentStore(state => state.document);
+  const bodyMap = useDocumentStore(state => state.bodies);
   const selectedFeatureId = useDocumentStore(state => state.selectedFeatureId);
   const selectFeature = useDocumentStore(state => state.selectFeature);
   const suppressFeature = useDocumentStore(state => state.suppressFeature);
+  const selectedItems = useSceneStore(state => state.selectedItems);
+  const clearSelection = useSceneStore(state => state.clearSelection);
+  const addSelection = useSceneStore(state => state.addSelection);
 
   // Build tree structure from features
   const treeData = useMemo((): TreeNode[] => {
     const bodies: TreeNode[] = [];
     const sketches: TreeNode[] = [];
+    const construction: TreeNode[] = [];
 
     for (const feature of document.features) {
       const node: TreeNode = {
@@ -86,7 +101,22 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
 
       if (feature.type === 'sketch') {
         sketches.push(node);
-      } else if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'boolean') {
+      } else if (feature.type === 'plane' || feature.type === 'axis' || feature.type === 'point') {
+        construction.push(node);
+      } else if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'revolve' ||
+        feature.type === 'boolean' || feature.type === 'fillet' || feature.type === 'chamfer') {
+        // List each body of a multi-body feature; body IDs are stable, so
+        // these nodes keep their expanded state across rebuilds
+        const featureBodies = Array.from(bodyMap.values()).filter(body => body.originFeatureId === feature.id);
+        if (featureBodies.length > 1) {
+          node.children = featureBodies.map((body, index) => ({
+            id: body.bodyId,
+            label: `Body ${index + 1}`,
+            iconType: 'body',
+            type: 'body',
+            featureId: feature.id,
+          }));
+        }
         bodies.push(node);
       }
     }
@@ -110,6 +140,7 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
               { id: 'origin-x', label: 'X Axis', iconType: 'axis', type: 'feature' },
               { id: 'origin-y', label: 'Y Axis', iconType: 'axis', type: 'feature' },
               { id: 'origin-z', label: 'Z Axis', iconType: 'axis', type: 'feature' },
+              ...construction,
             ],
           },
           {
@@ -129,7 +160,7 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
         ],
       },
     ];
-  }, [document]);
+  }, [document, bodyMap]);
 
   const toggleExpand = useCallback((nodeId: string) => {
     setExpandedNodes(prev => {
@@ -146,6 +177,10 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
   const handleNodeClick = useCallback((node: TreeNode, e: React.MouseEvent) => {
     if (node.type === 'folder') {
       toggleExpand(node.id);
+    } else if (node.type === 'body') {
+      // Select the whole body, as a viewport selection without a face or edge
+      clearSelection();
+      addSelection({ objectId: node.id });
     } else if (node.featureId) {
       if (e.detail === 2) {
         onEditFeature(node.featureId);
@@ -153,7 +188,7 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
         selectFeature(node.featureId);
       }
     }
-  }, [toggleExpand, selectFeature, onEditFeature]);
+  }, [toggleExpand, selectFeature, onEditFeature, clearSelection, addSelection]);
 
   const handleVisibilityToggle = useCallback((e: React.MouseEvent, featureId: string) => {
     e.stopPropagation();
@@ -167,7 +202,9 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
     const isExpanded = expandedNodes.has(node.id);
     const hasChildren = node.children && node.children.length > 0;
     const feature = node.featureId ? document.features.find(f => f.id === node.featureId) : null;
-    const isSelected = node.featureId === selectedFeatureId;
+    const isSelected = node.type === 'body'
+      ? selectedItems.some(item => item.objectId === node.id && item.faceIndex === undefined && !item.edge)
+      : node.type === 'feature' && node.featureId === selectedFeatureId;
     const isSuppressed = feature?.suppressed;
 
     return (
@@ -195,7 +232,7 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
           <span className="tree-label">{node.label}</span>
 
           {/* Visibility toggle for features */}
-          {node.featureId && (
+          {node.type === 'feature' && node.featureId && (
             <button
               className="visibility-toggle"
               onClick={(e) => handleVisibilityToggle(e, node.featureId!)}
@@ -230,7 +267,7 @@ export function BrowserPanel({ onEditFeature }: BrowserPanelProps) {
         <button className="browser-action" title="Search">
           <SearchIcon size={14} />
         </button>
-        <button className="browser-action" title="Settings">
+        <button className="browser-action" title="Document Settings" onClick={onOpenSettings}>
           <SettingsIcon size={14} />
         </button>
       </div>
@@ -250,8 +287,16 @@ function getFeatureIconType(feature: Feature): string {
       return 'sketch';
     case 'extrude':
       return 'extrude';
+    case 'revolve':
+      return 'revolve';
     case 'boolean':
       return 'boolean';
+    case 'fillet':
+    case 'chamfer':
+    case 'plane':
+    case 'axis':
+    case 'point':
+      return feature.type;
     default:
       return 'document';
   }
@@ -4,7 +4,9 @@
 
 import { useState, useCallback, useMemo } from 'react';
 import { useDocumentStore, createBooleanFeature } from '../../store/documentStore';
-import type { Feature } from '../../types/features';
+import type { Feature, TargetScope } from '../../types/features';
+import { TargetBodiesField } from './TargetBodiesField';
+import { createTargetBodyRefs } from '../../utils/targetBodies';
 import './DialogStyles.css';
 
 interface BooleanDialogProps {
@@ -21,7 +23,7 @@ export function BooleanDialog({ onClose, editFeatureId: _editFeatureId }: Boolea
     const features: Feature[] = [];
     for (const feature of document.features) {
       if (feature.suppressed) continue;
-      if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'boolean') {
+      if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'revolve' || feature.type === 'boolean') {
         features.push(feature);
       }
     }
@@ -29,16 +31,27 @@ export function BooleanDialog({ onClose, editFeatureId: _editFeatureId }: Boolea
   }, [document.features]);
 
   const [operation, setOperation] = useState<'union' | 'difference' | 'intersect'>('union');
-  const [targetId, setTargetId] = useState<string>(bodyFeatures[0]?.id || '');
+  const [targetIds, setTargetIds] = useState<string[]>(bodyFeatures.slice(0, 1).map(f => f.id));
+  const [targetScope, setTargetScope] = useState<TargetScope>('selected');
   const [toolId, setToolId] = useState<string>(bodyFeatures[1]?.id || bodyFeatures[0]?.id || '');
 
+  // The tool can't also be a target
+  const selectedTargetIds = targetIds.filter(id => id !== toolId);
+  const isValid = !!toolId && (targetScope === 'intersecting' || selectedTargetIds.length > 0);
+
   const handleCreate = useCallback(() => {
-    if (!targetId || !toolId || targetId === toolId) return;
+    if (!isValid) return;
 
-    const feature = createBooleanFeature(targetId, toolId, operation);
+    const primaryTargetId = selectedTargetIds[0] ?? bodyFeatures.find(f => f.id !== toolId)?.id ?? '';
+    const feature = createBooleanFeature(primaryTargetId, toolId, operation);
+    if (targetScope === 'intersecting') {
+      feature.targetScope = targetScope;
+    } else if (selectedTargetIds.length > 1) {
+      feature.targetBodyRefs = createTargetBodyRefs(selectedTargetIds);
+    }
     addFeature(feature);
     onClose();
-  }, [targetId, toolId, operation, addFeature, onClose]);
+  }, [isValid, selectedTargetIds, bodyFeatures, toolId, targetScope, operation, addFeature, onClose]);
 
   if (bodyFeatures.length < 2) {
     return (
@@ -95,23 +108,15 @@ export function BooleanDialog({ onClose, editFeatureId: _editFeatureId }: Boolea
             </div>
           </div>
 
-          <div className="dialog-field">
-            <label>Target Body (keeps material)</label>
-            <select
-              value={targetId}
-              onChange={(e) => setTargetId(e.target.value)}
-            >
-              {bodyFeatures.map(feature => (
-                <option
-                  key={feature.id}
-                  value={feature.id}
-                  disabled={feature.id === toolId}
-                >
-                  {feature.name}
-                </option>
-              ))}
-            </select>
-          </div>
+          <TargetBodiesField
+            label="Target Bodies (keep material)"
+            bodyFeatures={bodyFeatures}
+            selectedIds={selectedTargetIds}
+            scope={targetScope}
+            onSelectedIdsChange={setTargetIds}
+            onScopeChange={setTargetScope}
+            excludedId={toolId}
+          />
 
           <div className="dialog-field">
             <label>
@@ -125,7 +130,6 @@ export function BooleanDialog({ onClose, editFeatureId: _editFeatureId }: Boolea
                 <option
                   key={feature.id}
                   value={feature.id}
-                  disabled={feature.id === targetId}
                 >
                   {feature.name}
                 </option>
@@ -136,13 +140,13 @@ export function BooleanDialog({ onClose, editFeatureId: _editFeatureId }: Boolea
           <div className="operation-preview">
             <div className="preview-description">
               {operation === 'union' && (
-                <>Combines both bodies into a single solid.</>
+                <>Combines the targets and the tool into a single solid.</>
               )}
               {operation === 'difference' && (
-                <>Removes the tool body from the target body.</>
+                <>Removes the tool body from each target body.</>
               )}
               {operation === 'intersect' && (
-                <>Keeps only the overlapping region of both bodies.</>
+                <>Keeps only the region of each target that overlaps the tool.</>
               )}
             </div>
           </div>
@@ -153,7 +157,7 @@ export function BooleanDialog({ onClose, editFeatureId: _editFeatureId }: Boolea
           <button
             className="dialog-btn primary"
             onClick={handleCreate}
-            disabled={!targetId || !toolId || targetId === toolId}
+            disabled={!isValid}
           >
             Create Boolean
           </button>
@@ -0,0 +1,438 @@
+/**
+ * ConstructionDialog - Dialog for creating/editing construction planes, axes and points
+ * Supports both create mode (new feature) and edit mode (existing feature)
+ */
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  useDocumentStore,
+  createConstructionPlaneFeature,
+  createConstructionAxisFeature,
+  createConstructionPointFeature,
+  CONSTRUCTION_PLANE_METHOD_OPTIONS,
+  CONSTRUCTION_AXIS_METHOD_OPTIONS,
+} from '../../store/documentStore';
+import { useSceneStore } from '../../store/sceneStore';
+import { createNumberParam, createEnumParam } from '../../types/features';
+import type {
+  Feature,
+  ConstructionFeature,
+  ConstructionPlaneMethod,
+  ConstructionAxisMethod,
+  PlaneRef,
+  AxisRef,
+  PointRef,
+} from '../../types/features';
+import type { ViewportManager } from '../../viewport/ViewportManager';
+import { findEdgeNear } from '../../utils/edgePicking';
+import './DialogStyles.css';
+
+export type ConstructionKind = 'plane' | 'axis' | 'point';
+
+interface ConstructionDialogProps {
+  onClose: () => void;
+  kind?: ConstructionKind;
+  method?: string;
+  editFeatureId?: string | null; // If provided, edit existing feature
+}
+
+const KIND_TITLES: Record<ConstructionKind, string> = {
+  plane: 'Plane',
+  axis: 'Axis',
+  point: 'Point',
+};
+
+// References each method is built from
+const PLANE_SLOTS: Record<string, number> = { offset: 1, angle: 1, midplane: 2 };
+const POINT_SLOTS: Record<string, number> = { threePoints: 3, twoPoints: 2 };
+const USES_AXIS = new Set(['angle', 'edge']);
+
+function getPlaneKey(ref: PlaneRef | undefined): string {
+  if (!ref) return '';
+  switch (ref.type) {
+    case 'origin': return `origin:${ref.plane}`;
+    case 'plane': return `plane:${ref.featureId}`;
+    case 'face': return 'face';
+  }
+}
+
+function getAxisKey(ref: AxisRef | undefined): string {
+  if (!ref) return '';
+  switch (ref.type) {
+    case 'origin': return `origin:${ref.axis}`;
+    case 'axis': return `axis:${ref.featureId}`;
+    case 'edge': return 'edge';
+  }
+}
+
+function getPointKey(ref: PointRef | undefined): string {
+  if (!ref) return '';
+  return ref.type === 'origin' ? 'origin' : `point:${ref.featureId}`;
+}
+
+function parsePlaneKey(key: string): PlaneRef {
+  const [type, value] = key.split(':');
+  return type === 'origin'
+    ? { type: 'origin', plane: value as 'XY' | 'XZ' | 'YZ' }
+    : { type: 'plane', featureId: value };
+}
+
+function parseAxisKey(key: string): AxisRef {
+  const [type, value] = key.split(':');
+  return type === 'origin'
+    ? { type: 'origin', axis: value as 'X' | 'Y' | 'Z' }
+    : { type: 'axis', featureId: value };
+}
+
+function parsePointKey(key: string): PointRef {
+  const [type, value] = key.split(':');
+  return type === 'origin' ? { type: 'origin' } : { type: 'point', featureId: value };
+}
+
+/**
+ * Fill a list of references out to a number of slots
+ */
+function toSlots<T>(refs: T[] | undefined, count: number): Array<T | undefined> {
+  return Array.from({ length: count }, (_, i) => refs?.[i]);
+}
+
+export function ConstructionDialog({ onClose, kind: initialKind = 'plane', method: initialMethod, editFeatureId }: ConstructionDialogProps) {
+  const document = useDocumentStore(state => state.document);
+  const addFeature = useDocumentStore(state => state.addFeature);
+  const updateFeature = useDocumentStore(state => state.updateFeature);
+
+  // Check if we're in edit mode
+  const isEditMode = !!editFeatureId;
+  const editingFeature = isEditMode
+    ? document.features.find(f => f.id === editFeatureId) as ConstructionFeature | undefined
+    : undefined;
+  const kind: ConstructionKind = editingFeature?.type ?? initialKind;
+
+  // Construction geometry earlier in the timeline can be built on
+  const availableConstruction = useMemo(() => {
+    const index = document.features.findIndex(f => f.id === editFeatureId);
+    const earlier = index >= 0 ? document.features.slice(0, index) : document.features;
+    return earlier.filter(f => !f.suppressed && (f.type === 'plane' || f.type === 'axis' || f.type === 'point'));
+  }, [document.features, editFeatureId]);
+
+  const availablePlanes = availableConstruction.filter(f => f.type === 'plane');
+  const availableAxes = availableConstruction.filter(f => f.type === 'axis');
+  const availablePoints = availableConstruction.filter(f => f.type === 'point');
+
+  // Initialize state from editing feature or defaults
+  const [method, setMethod] = useState<string>(() => {
+    if (editingFeature && editingFeature.type !== 'point') return editingFeature.parameters.method.value;
+    return initialMethod ?? (kind === 'axis' ? 'twoPoints' : 'offset');
+  });
+  const [planeRefs, setPlaneRefs] = useState<Array<PlaneRef | undefined>>(() =>
+    toSlots(editingFeature?.type === 'plane' ? editingFeature.planeRefs : [{ type: 'origin', plane: 'XY' }], 2)
+  );
+  const [axisRef, setAxisRef] = useState<AxisRef | undefined>(
+    editingFeature?.type === 'plane' || editingFeature?.type === 'axis' ? editingFeature.axisRef : undefined
+  );
+  const [pointRefs, setPointRefs] = useState<Array<PointRef | undefined>>(() =>
+    toSlots(editingFeature?.type === 'plane' || editingFeature?.type === 'axis' ? editingFeature.pointRefs : [{ type: 'origin' }], 3)
+  );
+  const [offset, setOffset] = useState(
+    editingFeature?.type === 'plane' ? editingFeature.parameters.offset.value : 10
+  );
+  const [angle, setAngle] = useState(
+    editingFeature?.type === 'plane' ? editingFeature.parameters.angle.value : 45
+  );
+  const [position, setPosition] = useState(() => editingFeature?.type === 'point'
+    ? {
+        x: editingFeature.parameters.x.value,
+        y: editingFeature.parameters.y.value,
+        z: editingFeature.parameters.z.value,
+      }
+    : { x: 0, y: 0, z: 0 });
+
+  const planeSlots = kind === 'plane' ? PLANE_SLOTS[method] ?? 0 : 0;
+  const pointSlots = kind === 'point' ? 0 : POINT_SLOTS[method] ?? 0;
+  const usesAxis = kind !== 'point' && USES_AXIS.has(method);
+
+  // Faces and edges are named after the feature that created them
+  const getFeatureName = (featureId: string) =>
+    document.features.find(f => f.id === featureId)?.name ?? 'a deleted feature';
+
+  const setPlaneRef = (slot: number, ref: PlaneRef) => {
+    setPlaneRefs(prev => prev.map((existing, i) => i === slot ? ref : existing));
+  };
+
+  const setPointRef = (slot: number, ref: PointRef) => {
+    setPointRefs(prev => prev.map((existing, i) => i === slot ? ref : existing));
+  };
+
+  // Use the face currently selected in the viewport
+  const handleUseSelectedFace = (slot: number) => {
+    const selection = useSceneStore.getState().selectedItems[0];
+    if (!selection || selection.faceIndex === undefined) return;
+
+    const body = useDocumentStore.getState().bodies.get(selection.objectId);
+    const face = body?.faces[body.triangleFaces[selection.faceIndex]];
+    if (!body || !face) return;
+
+    setPlaneRef(slot, { type: 'face', featureId: body.originFeatureId, face });
+  };
+
+  // Edges are picked by clicking near them on a face
+  const [isPickingEdge, setIsPickingEdge] = useState(false);
+
+  useEffect(() => {
+    const viewport = (window as unknown as { viewport: ViewportManager }).viewport;
+    if (!viewport || !isPickingEdge) return;
+
+    viewport.onPick = (raycaster) => {
+      const hit = viewport.raycastBodies(raycaster);
+      const body = hit && hit.faceIndex >= 0 ? useDocumentStore.getState().bodies.get(hit.objectId) : undefined;
+      if (!hit || !body) return false;
+
+      const edge = findEdgeNear(body, hit.faceIndex, [hit.point.x, hit.point.y, hit.point.z]);
+      if (!edge) return false;
+
+      setAxisRef({ type: 'edge', featureId: body.originFeatureId, edge });
+      setIsPickingEdge(false);
+      return true;
+    };
+
+    return () => {
+      viewport.onPick = null;
+    };
+  }, [isPickingEdge]);
+
+  const isValid = planeRefs.slice(0, planeSlots).every(Boolean) &&
+    pointRefs.slice(0, pointSlots).every(Boolean) &&
+    (!usesAxis || !!axisRef);
+
+  const handleSubmit = useCallback(() => {
+    if (!isValid) return;
+
+    const refs = {
+      planeRefs: planeRefs.slice(0, planeSlots).filter((ref): ref is PlaneRef => !!ref),
+      axisRef: usesAxis ? axisRef : undefined,
+      pointRefs: pointSlots > 0 ? pointRefs.slice(0, pointSlots).filter((ref): ref is PointRef => !!ref) : undefined,
+    };
+
+    if (isEditMode && editFeatureId) {
+      // Update existing feature
+      let updates: Partial<Feature>;
+      switch (kind) {
+        case 'plane':
+          updates = {
+            parameters: {
+              method: createEnumParam('method', 'Method', method, CONSTRUCTION_PLANE_METHOD_OPTIONS),
+              offset: createNumberParam('offset', 'Offset', offset, { unit: 'mm' }),
+              angle: createNumberParam('angle', 'Angle', angle, { min: -360, max: 360, unit: 'deg' }),
+            },
+            ...refs,
+          } as Partial<Feature>;
+          break;
+        case 'axis':
+          updates = {
+            parameters: {
+              method: createEnumParam('method', 'Method', method, CONSTRUCTION_AXIS_METHOD_OPTIONS),
+            },
+            axisRef: refs.axisRef,
+            pointRefs: refs.pointRefs,
+          } as Partial<Feature>;
+          break;
+        case 'point':
+          updates = {
+            parameters: {
+              x: createNumberParam('x', 'X', position.x, { unit: 'mm' }),
+              y: createNumberParam('y', 'Y', position.y, { unit: 'mm' }),
+              z: createNumberParam('z', 'Z', position.z, { unit: 'mm' }),
+            },
+          } as Partial<Feature>;
+          break;
+      }
+      updateFeature(editFeatureId, { ...updates, _dirty: true });
+    } else {
+      // Create new feature
+      switch (kind) {
+        case 'plane':
+          addFeature(createConstructionPlaneFeature(method as ConstructionPlaneMethod, refs, offset, angle));
+          break;
+        case 'axis':
+          addFeature(createConstructionAxisFeature(method as ConstructionAxisMethod, refs));
+          break;
+        case 'point':
+          addFeature(createConstructionPointFeature(position.x, position.y, position.z));
+          break;
+      }
+    }
+    onClose();
+  }, [isValid, kind, method, planeRefs, planeSlots, axisRef, usesAxis, pointRefs, pointSlots, offset, angle, position, isEditMode, editFeatureId, addFeature, updateFeature, onClose]);
+
+  const methodOptions = kind === 'plane' ? CONSTRUCTION_PLANE_METHOD_OPTIONS : CONSTRUCTION_AXIS_METHOD_OPTIONS;
+  const title = isEditMode
+    ? `Edit ${KIND_TITLES[kind]}`
+    : kind === 'point' ? 'Point' : methodOptions.find(option => option.value === method)?.label ?? KIND_TITLES[kind];
+
+  return (
+    <div className="dialog-overlay docked">
+      <div className="dialog">
+        <div className="dialog-header">
+          <h2>{title}</h2>
+          <button className="dialog-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="dialog-body">
+          {kind !== 'point' && (
+            <div className="dialog-field">
+              <label>Method</label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+              >
+                {methodOptions.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {planeRefs.slice(0, planeSlots).map((ref, slot) => (
+            <div className="dialog-field" key={`plane-${slot}`}>
+              <label>{planeSlots > 1 ? `Plane ${slot + 1}` : 'Reference Plane'}</label>
+              <select
+                value={getPlaneKey(ref)}
+                onChange={(e) => setPlaneRef(slot, parsePlaneKey(e.target.value))}
+              >
+                {!ref && <option value="">Select a plane or face</option>}
+                {ref?.type === 'face' && (
+                  <option value="face">Face of {getFeatureName(ref.featureId)}</option>
+                )}
+                <option value="origin:XY">XY Plane</option>
+                <option value="origin:XZ">XZ Plane</option>
+                <option value="origin:YZ">YZ Plane</option>
+                {availablePlanes.map(feature => (
+                  <option key={feature.id} value={`plane:${feature.id}`}>
+                    {feature.name}
+                  </option>
+                ))}
+              </select>
+              <div className="direction-toggle">
+                <button
+                  className="direction-btn"
+                  onClick={() => handleUseSelectedFace(slot)}
+                >
+                  Use Selected Face
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {usesAxis && (
+            <div className="dialog-field">
+              <label>{method === 'edge' ? 'Edge' : 'Axis'}</label>
+              <select
+                value={getAxisKey(axisRef)}
+                onChange={(e) => setAxisRef(parseAxisKey(e.target.value))}
+              >
+                {!axisRef && <option value="">Select an axis or edge</option>}
+                {axisRef?.type === 'edge' && (
+                  <option value="edge">Edge of {getFeatureName(axisRef.featureId)}</option>
+                )}
+                <option value="origin:X">X Axis</option>
+                <option value="origin:Y">Y Axis</option>
+                <option value="origin:Z">Z Axis</option>
+                {availableAxes.map(feature => (
+                  <option key={feature.id} value={`axis:${feature.id}`}>
+                    {feature.name}
+                  </option>
+                ))}
+              </select>
+              <div className="direction-toggle">
+                <button
+                  className={`direction-btn ${isPickingEdge ? 'active' : ''}`}
+                  onClick={() => setIsPickingEdge(picking => !picking)}
+                >
+                  {isPickingEdge ? 'Click an Edge…' : 'Pick Edge'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {pointRefs.slice(0, pointSlots).map((ref, slot) => (
+            <div className="dialog-field" key={`point-${slot}`}>
+              <label>Point {slot + 1}</label>
+              <select
+                value={getPointKey(ref)}
+                onChange={(e) => setPointRef(slot, parsePointKey(e.target.value))}
+              >
+                {!ref && <option value="">Select a point</option>}
+                <option value="origin">Origin</option>
+                {availablePoints.map(feature => (
+                  <option key={feature.id} value={`point:${feature.id}`}>
+                    {feature.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          {kind === 'plane' && method === 'offset' && (
+            <div className="dialog-field">
+              <label>Offset</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  value={offset}
+                  onChange={(e) => setOffset(parseFloat(e.target.value) || 0)}
+                  step={5}
+                />
+                <span className="unit">mm</span>
+              </div>
+            </div>
+          )}
+
+          {kind === 'plane' && method === 'angle' && (
+            <div className="dialog-field">
+              <label>Angle</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  value={angle}
+                  onChange={(e) => setAngle(parseFloat(e.target.value) || 0)}
+                  min={-360}
+                  max={360}
+                  step={15}
+                />
+                <span className="unit">deg</span>
+              </div>
+            </div>
+          )}
+
+          {kind === 'point' && (['x', 'y', 'z'] as const).map(coordinate => (
+            <div className="dialog-field" key={coordinate}>
+              <label>{coordinate.toUpperCase()}</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  value={position[coordinate]}
+                  onChange={(e) => setPosition(prev => ({ ...prev, [coordinate]: parseFloat(e.target.value) || 0 }))}
+                  step={5}
+                />
+                <span className="unit">mm</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-btn secondary" onClick={onClose}>Cancel</button>
+          <button
+            className="dialog-btn primary"
+            onClick={handleSubmit}
+            disabled={!isValid}
+          >
+            {isEditMode ? 'Update' : `Create ${KIND_TITLES[kind]}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * DocumentSettingsDialog - Settings saved with the document
+ */
+
+import { useDocumentStore } from '../../store/documentStore';
+import {
+  CHORD_TOLERANCES,
+  TESSELLATION_QUALITY_OPTIONS,
+  type DocumentSettings,
+  type TessellationQuality,
+} from '../../types/document';
+import './DialogStyles.css';
+
+interface DocumentSettingsDialogProps {
+  onClose: () => void;
+}
+
+const QUALITY_FIELDS: Array<{ key: keyof DocumentSettings; label: string }> = [
+  { key: 'previewQuality', label: 'Preview Quality' },
+  { key: 'exportQuality', label: 'Export Quality' },
+];
+
+export function DocumentSettingsDialog({ onClose }: DocumentSettingsDialogProps) {
+  const settings = useDocumentStore(state => state.document.settings);
+  const setDocumentSettings = useDocumentStore(state => state.setDocumentSettings);
+
+  return (
+    <div className="dialog-overlay">
+      <div className="dialog">
+        <div className="dialog-header">
+          <h2>Document Settings</h2>
+          <button className="dialog-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="dialog-body">
+          {QUALITY_FIELDS.map(({ key, label }) => (
+            <div className="dialog-field" key={key}>
+              <label>{label}</label>
+              <select
+                value={settings[key]}
+                onChange={(e) => setDocumentSettings({ [key]: e.target.value as TessellationQuality })}
+              >
+                {TESSELLATION_QUALITY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} ({CHORD_TOLERANCES[option.value]} mm)
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          <div className="operation-preview">
+            <div className="preview-description">
+              Arcs and circles in sketches are sampled so that no edge of a body
+              strays further than this from the curve.
+            </div>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-btn primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
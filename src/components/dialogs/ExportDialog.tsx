@@ -0,0 +1,254 @@
+/**
+ * ExportDialog - Export the current bodies as STL or 3MF
+ * Bodies are rebuilt first when the export quality differs from the viewport's
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useDocumentStore } from '../../store/documentStore';
+import { RebuildService } from '../../engine/RebuildService';
+import { resolveFeatureParameters } from '../../engine/ExpressionEvaluator';
+import {
+  CHORD_TOLERANCES,
+  TESSELLATION_QUALITY_OPTIONS,
+  type TessellationQuality,
+} from '../../types/document';
+import {
+  DEFAULT_STL_OPTIONS,
+  downloadStl,
+  type StlExportOptions,
+  type StlUnit,
+} from '../../utils/stlExport';
+import { DEFAULT_BODY_COLOR, download3mf } from '../../utils/threeMfExport';
+import { toFileName } from '../../utils/download';
+import './DialogStyles.css';
+
+interface ExportDialogProps {
+  onClose: () => void;
+}
+
+type ExportFileType = 'stl' | '3mf';
+
+const UNIT_OPTIONS: Array<{ value: StlUnit; label: string }> = [
+  { value: 'mm', label: 'Millimeters (mm)' },
+  { value: 'cm', label: 'Centimeters (cm)' },
+  { value: 'm', label: 'Meters (m)' },
+  { value: 'in', label: 'Inches (in)' },
+];
+
+export function ExportDialog({ onClose }: ExportDialogProps) {
+  const document = useDocumentStore(state => state.document);
+  const bodyMap = useDocumentStore(state => state.bodies);
+  const setDocumentSettings = useDocumentStore(state => state.setDocumentSettings);
+
+  const [fileType, setFileType] = useState<ExportFileType>('stl');
+  const [options, setOptions] = useState<StlExportOptions>(DEFAULT_STL_OPTIONS);
+  const [includeColors, setIncludeColors] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const bodies = useMemo(() => Array.from(bodyMap.values()), [bodyMap]);
+
+  // Name each body after the feature that created it, numbering repeats
+  const bodyNames = useMemo(() => {
+    const names = new Map<string, string>();
+    const counts = new Map<string, number>();
+    for (const body of bodies) {
+      const feature = document.features.find(f => f.id === body.originFeatureId);
+      const name = feature?.name ?? 'Body';
+      const count = (counts.get(name) ?? 0) + 1;
+      counts.set(name, count);
+      names.set(body.bodyId, count > 1 ? `${name} ${count}` : name);
+    }
+    return names;
+  }, [bodies, document.features]);
+
+  const update = (changes: Partial<StlExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      // Curves are sampled to the export quality, which the viewport may not show
+      let exportBodies = bodies;
+      const { previewQuality, exportQuality } = document.settings;
+      if (exportQuality !== previewQuality) {
+        const { features } = resolveFeatureParameters(document.features, document.globalParameters);
+        const result = await RebuildService.rebuildForExport(features, CHORD_TOLERANCES[exportQuality]);
+        // A feature that fails only at export quality would be missing from the file
+        if (result.errors.size > 0) {
+          setError(Array.from(result.errors.values()).join(', '));
+          return;
+        }
+        exportBodies = Array.from(result.bodies.values());
+      }
+
+      if (fileType === '3mf') {
+        const bodyColors = includeColors
+          ? new Map(exportBodies.map(body => [body.bodyId, DEFAULT_BODY_COLOR]))
+          : undefined;
+        download3mf(exportBodies, document, { bodyNames, bodyColors });
+      } else {
+        downloadStl(exportBodies, document.name, options, bodyNames);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  }, [fileType, includeColors, bodies, document, options, bodyNames, onClose]);
+
+  if (bodies.length === 0) {
+    return (
+      <div className="dialog-overlay">
+        <div className="dialog">
+          <div className="dialog-header">
+            <h2>Export</h2>
+            <button className="dialog-close" onClick={onClose}>×</button>
+          </div>
+          <div className="dialog-body">
+            <div className="dialog-message">
+              There are no bodies to export.<br />
+              Create a primitive or extrusion first.
+            </div>
+          </div>
+          <div className="dialog-footer">
+            <button className="dialog-btn secondary" onClick={onClose}>Close</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const stem = toFileName(document.name);
+  const perBody = options.perBody && bodies.length > 1;
+
+  return (
+    <div className="dialog-overlay">
+      <div className="dialog">
+        <div className="dialog-header">
+          <h2>Export</h2>
+          <button className="dialog-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="dialog-body">
+          <div className="dialog-field">
+            <label>File Type</label>
+            <div className="operation-buttons">
+              <button
+                className={`operation-btn ${fileType === 'stl' ? 'active' : ''}`}
+                onClick={() => { setFileType('stl'); setError(null); }}
+              >
+                STL
+              </button>
+              <button
+                className={`operation-btn ${fileType === '3mf' ? 'active' : ''}`}
+                onClick={() => { setFileType('3mf'); setError(null); }}
+              >
+                3MF
+              </button>
+            </div>
+          </div>
+
+          {fileType === 'stl' ? (
+            <>
+              <div className="dialog-field">
+                <label>Format</label>
+                <div className="direction-toggle">
+                  <button
+                    className={`direction-btn ${options.format === 'binary' ? 'active' : ''}`}
+                    onClick={() => update({ format: 'binary' })}
+                  >
+                    Binary
+                  </button>
+                  <button
+                    className={`direction-btn ${options.format === 'ascii' ? 'active' : ''}`}
+                    onClick={() => update({ format: 'ascii' })}
+                  >
+                    ASCII
+                  </button>
+                </div>
+              </div>
+
+              <div className="dialog-field">
+                <label>Bodies ({bodies.length})</label>
+                <div className="direction-toggle">
+                  <button
+                    className={`direction-btn ${!options.perBody ? 'active' : ''}`}
+                    onClick={() => update({ perBody: false })}
+                  >
+                    One File
+                  </button>
+                  <button
+                    className={`direction-btn ${options.perBody ? 'active' : ''}`}
+                    onClick={() => update({ perBody: true })}
+                    disabled={bodies.length < 2}
+                  >
+                    File per Body
+                  </button>
+                </div>
+              </div>
+
+              <div className="dialog-field">
+                <label>Units</label>
+                <select
+                  value={options.unit}
+                  onChange={(e) => update({ unit: e.target.value as StlUnit })}
+                >
+                  {UNIT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          ) : (
+            <div className="dialog-field">
+              <label className="dialog-checkbox">
+                <input
+                  type="checkbox"
+                  checked={includeColors}
+                  onChange={(e) => setIncludeColors(e.target.checked)}
+                />
+                <span className="checkbox-box" />
+                <span>Include body colors</span>
+              </label>
+            </div>
+          )}
+
+          <div className="dialog-field">
+            <label>Curve Quality</label>
+            <select
+              value={document.settings.exportQuality}
+              onChange={(e) => setDocumentSettings({ exportQuality: e.target.value as TessellationQuality })}
+            >
+              {TESSELLATION_QUALITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label} ({CHORD_TOLERANCES[option.value]} mm)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="operation-preview">
+            <div className="preview-description">
+              {error ?? (fileType === '3mf'
+                ? <>Saves {stem}.3mf with {bodies.length} {bodies.length === 1 ? 'object' : 'objects'} in millimeters</>
+                : perBody
+                  ? <>Saves {bodies.length} files named {stem}-&lt;body&gt;.stl</>
+                  : <>Saves {stem}.stl</>)}
+            </div>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-btn secondary" onClick={onClose}>Cancel</button>
+          <button className="dialog-btn primary" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,13 @@
  */
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { useDocumentStore, createExtrudeFeature } from '../../store/documentStore';
-import type { SketchFeature, Feature, ExtrudeFeature } from '../../types/features';
+import { useDocumentStore, createExtrudeFeature, EXTRUDE_EXTENT_OPTIONS } from '../../store/documentStore';
+import { useSceneStore } from '../../store/sceneStore';
+import { createNumberParam, createEnumParam, mergeParameterValues } from '../../types/features';
+import type { SketchFeature, Feature, ExtrudeFeature, ExtrudeExtent, ExtentRef, TargetScope } from '../../types/features';
+import { useProfileSelection } from './useProfileSelection';
+import { TargetBodiesField } from './TargetBodiesField';
+import { getTargetFeatureIds, createTargetBodyRefs } from '../../utils/targetBodies';
 import './DialogStyles.css';
 
 interface ExtrudeDialogProps {
@@ -39,7 +44,7 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
     const bodyFeatures: Feature[] = [];
     for (const feature of document.features) {
       if (feature.suppressed) continue;
-      if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'boolean') {
+      if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'revolve' || feature.type === 'boolean') {
         bodyFeatures.push(feature);
       }
     }
@@ -56,12 +61,60 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
   const [direction, setDirection] = useState<'normal' | 'reverse' | 'symmetric'>(
     (editingFeature?.parameters?.direction?.value as 'normal' | 'reverse' | 'symmetric') || 'normal'
   );
+  const [extent, setExtent] = useState<ExtrudeExtent>(
+    (editingFeature?.parameters?.extent?.value as ExtrudeExtent) || 'distance'
+  );
+  const [distance2, setDistance2] = useState(
+    editingFeature?.parameters?.distance2?.value ?? 50
+  );
+  const [taperAngle, setTaperAngle] = useState(
+    editingFeature?.parameters?.taperAngle?.value ?? 0
+  );
+  const [extentRef, setExtentRef] = useState<ExtentRef | undefined>(editingFeature?.extentRef);
   const [mode, setMode] = useState<'new' | 'join' | 'cut'>(
     (editingFeature?.parameters?.mode?.value as 'new' | 'join' | 'cut') || 'new'
   );
-  const [targetBodyId, setTargetBodyId] = useState<string>(
-    editingFeature?.targetBodyRef?.featureId || availableBodies[0]?.id || ''
+  const [targetBodyIds, setTargetBodyIds] = useState<string[]>(
+    editingFeature ? getTargetFeatureIds(editingFeature) : availableBodies.slice(0, 1).map(f => f.id)
   );
+  const [targetScope, setTargetScope] = useState<TargetScope>(editingFeature?.targetScope ?? 'selected');
+  const selectedSketch = availableSketches.find(sketch => sketch.id === selectedSketchId);
+  const {
+    profiles,
+    selectedProfileIds,
+    profileRefs,
+    resetSelection,
+    selectAllRegions,
+    clearSelection,
+  } = useProfileSelection(selectedSketch, editingFeature?.profileRefs);
+
+  // Bodies an extrude can end at (never its own)
+  const extentBodies = availableBodies.filter(feature => feature.id !== editFeatureId);
+  // Faces are named after the feature that created them
+  const extentFaceFeature = extentRef?.type === 'face'
+    ? document.features.find(f => f.id === extentRef.face.key.featureId)
+    : undefined;
+
+  // End at the face currently selected in the viewport
+  const handleUseSelectedFace = () => {
+    const selection = useSceneStore.getState().selectedItems[0];
+    if (!selection || selection.faceIndex === undefined) return;
+
+    const body = useDocumentStore.getState().bodies.get(selection.objectId);
+    const face = body?.faces[body.triangleFaces[selection.faceIndex]];
+    if (!body || !face) return;
+
+    setExtentRef({ type: 'face', featureId: body.originFeatureId, face });
+  };
+
+  const isValid = !!selectedSketchId && profileRefs.length > 0 && (extent !== 'toObject' || !!extentRef) &&
+    (mode === 'new' || targetScope === 'intersecting' || targetBodyIds.length > 0);
+
+  const handleSketchChange = (sketchId: string) => {
+    setSelectedSketchId(sketchId);
+    const sketch = availableSketches.find(s => s.id === sketchId);
+    resetSelection(sketch, sketchId === editingFeature?.sketchRef?.featureId ? editingFeature.profileRefs : undefined);
+  };
 
   // Update state when editing feature changes
   useEffect(() => {
@@ -69,62 +122,78 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
       setSelectedSketchId(editingFeature.sketchRef?.featureId || '');
       setDistance(editingFeature.parameters?.distance?.value ?? 50);
       setDirection((editingFeature.parameters?.direction?.value as 'normal' | 'reverse' | 'symmetric') || 'normal');
+      setExtent((editingFeature.parameters?.extent?.value as ExtrudeExtent) || 'distance');
+      setDistance2(editingFeature.parameters?.distance2?.value ?? 50);
+      setTaperAngle(editingFeature.parameters?.taperAngle?.value ?? 0);
+      setExtentRef(editingFeature.extentRef);
       setMode((editingFeature.parameters?.mode?.value as 'new' | 'join' | 'cut') || 'new');
-      setTargetBodyId(editingFeature.targetBodyRef?.featureId || '');
+      setTargetBodyIds(getTargetFeatureIds(editingFeature));
+      setTargetScope(editingFeature.targetScope ?? 'selected');
     }
   }, [editingFeature]);
 
   const handleSubmit = useCallback(() => {
-    if (!selectedSketchId) return;
+    if (!isValid) return;
+
+    // Only keep the parameters the chosen extent uses
+    const parameters: ExtrudeFeature['parameters'] = {
+      distance: createNumberParam('distance', 'Distance', distance, { min: 0.1, unit: 'mm' }),
+      direction: createEnumParam('direction', 'Direction', direction, [
+        { value: 'normal', label: 'Normal' },
+        { value: 'reverse', label: 'Reverse' },
+        { value: 'symmetric', label: 'Symmetric' },
+      ]),
+      mode: createEnumParam('mode', 'Mode', mode, [
+        { value: 'new', label: 'New Body' },
+        { value: 'join', label: 'Join' },
+        { value: 'cut', label: 'Cut' },
+      ]),
+      extent: createEnumParam('extent', 'Extent', extent, EXTRUDE_EXTENT_OPTIONS),
+    };
+    if (extent === 'twoSides') {
+      parameters.distance2 = createNumberParam('distance2', 'Distance 2', distance2, { min: 0, unit: 'mm' });
+    }
+    if ((extent === 'distance' || extent === 'twoSides') && taperAngle !== 0) {
+      parameters.taperAngle = createNumberParam('taperAngle', 'Taper Angle', taperAngle, { min: -89, max: 89, unit: 'deg' });
+    }
+
+    const usesTargets = mode === 'join' || mode === 'cut';
+    const targetBodyRefs = usesTargets && targetScope === 'selected'
+      ? createTargetBodyRefs(targetBodyIds, editingFeature?.targetBodyRefs)
+      : undefined;
 
     if (isEditMode && editFeatureId) {
       // Update existing feature
       const updates: Partial<ExtrudeFeature> = {
         sketchRef: { featureId: selectedSketchId, type: 'sketch' },
-        parameters: {
-          distance: { id: 'distance', name: 'Distance', value: distance, type: 'number', min: 0.1, unit: 'mm' },
-          direction: {
-            id: 'direction',
-            name: 'Direction',
-            value: direction,
-            type: 'enum',
-            options: [
-              { value: 'normal', label: 'Normal' },
-              { value: 'reverse', label: 'Reverse' },
-              { value: 'symmetric', label: 'Symmetric' },
-            ],
-          },
-          mode: {
-            id: 'mode',
-            name: 'Mode',
-            value: mode,
-            type: 'enum',
-            options: [
-              { value: 'new', label: 'New Body' },
-              { value: 'join', label: 'Join' },
-              { value: 'cut', label: 'Cut' },
-            ],
-          },
-        },
-        targetBodyRef: (mode === 'join' || mode === 'cut') && targetBodyId
-          ? { featureId: targetBodyId, type: 'body' }
-          : undefined,
+        profileRefs,
+        parameters: mergeParameterValues(parameters, editingFeature?.parameters),
+        extentRef: extent === 'toObject' ? extentRef : undefined,
+        targetBodyRefs,
+        targetScope: usesTargets && targetScope === 'intersecting' ? targetScope : undefined,
+        targetBodyRef: undefined,
         _dirty: true,
       };
       updateFeature(editFeatureId, updates);
     } else {
       // Create new feature
       const feature = createExtrudeFeature(selectedSketchId, distance, direction, mode);
+      feature.profileRefs = profileRefs;
+      feature.parameters = parameters;
+      if (extent === 'toObject') {
+        feature.extentRef = extentRef;
+      }
 
-      // Set target body ref if join/cut
-      if ((mode === 'join' || mode === 'cut') && targetBodyId) {
-        feature.targetBodyRef = { featureId: targetBodyId, type: 'body' };
+      // Set target bodies if join/cut
+      feature.targetBodyRefs = targetBodyRefs;
+      if (usesTargets && targetScope === 'intersecting') {
+        feature.targetScope = targetScope;
       }
 
       addFeature(feature);
     }
     onClose();
-  }, [selectedSketchId, distance, direction, mode, targetBodyId, isEditMode, editFeatureId, addFeature, updateFeature, onClose]);
+  }, [isValid, selectedSketchId, profileRefs, distance, direction, mode, extent, distance2, taperAngle, extentRef, targetBodyIds, targetScope, editingFeature, isEditMode, editFeatureId, addFeature, updateFeature, onClose]);
 
   if (availableSketches.length === 0) {
     return (
@@ -149,7 +218,7 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
   }
 
   return (
-    <div className="dialog-overlay">
+    <div className="dialog-overlay docked">
       <div className="dialog">
         <div className="dialog-header">
           <h2>{isEditMode ? 'Edit Extrude' : 'Extrude'}</h2>
@@ -161,7 +230,7 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
             <label>Sketch</label>
             <select
               value={selectedSketchId}
-              onChange={(e) => setSelectedSketchId(e.target.value)}
+              onChange={(e) => handleSketchChange(e.target.value)}
             >
               {availableSketches.map(sketch => (
                 <option key={sketch.id} value={sketch.id}>
@@ -172,31 +241,137 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
           </div>
 
           <div className="dialog-field">
-            <label>Distance</label>
-            <div className="input-with-unit">
-              <input
-                type="number"
-                value={distance}
-                onChange={(e) => setDistance(parseFloat(e.target.value) || 0)}
-                min={0.1}
-                step={1}
-              />
-              <span className="unit">mm</span>
+            <label>Profiles</label>
+            <div className="operation-preview">
+              <div className="preview-description">
+                {selectedProfileIds.length} of {profiles.length} selected.
+                Click regions in the viewport to add or remove them.
+              </div>
+            </div>
+            <div className="direction-toggle">
+              <button
+                className="direction-btn"
+                onClick={selectAllRegions}
+              >
+                All Regions
+              </button>
+              <button
+                className="direction-btn"
+                onClick={clearSelection}
+                disabled={selectedProfileIds.length === 0}
+              >
+                Clear
+              </button>
             </div>
           </div>
 
           <div className="dialog-field">
-            <label>Direction</label>
+            <label>Extent</label>
             <select
-              value={direction}
-              onChange={(e) => setDirection(e.target.value as typeof direction)}
+              value={extent}
+              onChange={(e) => setExtent(e.target.value as ExtrudeExtent)}
             >
-              <option value="normal">Normal</option>
-              <option value="reverse">Reverse</option>
-              <option value="symmetric">Symmetric</option>
+              {EXTRUDE_EXTENT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
             </select>
           </div>
 
+          {(extent === 'distance' || extent === 'twoSides') && (
+            <div className="dialog-field">
+              <label>{extent === 'twoSides' ? 'Side 1' : 'Distance'}</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  value={distance}
+                  onChange={(e) => setDistance(parseFloat(e.target.value) || 0)}
+                  min={0.1}
+                  step={1}
+                />
+                <span className="unit">mm</span>
+              </div>
+            </div>
+          )}
+
+          {extent === 'twoSides' && (
+            <div className="dialog-field">
+              <label>Side 2</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  value={distance2}
+                  onChange={(e) => setDistance2(parseFloat(e.target.value) || 0)}
+                  min={0}
+                  step={1}
+                />
+                <span className="unit">mm</span>
+              </div>
+            </div>
+          )}
+
+          {(extent === 'distance' || extent === 'throughAll') && (
+            <div className="dialog-field">
+              <label>Direction</label>
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as typeof direction)}
+              >
+                <option value="normal">Normal</option>
+                <option value="reverse">Reverse</option>
+                <option value="symmetric">Symmetric</option>
+              </select>
+            </div>
+          )}
+
+          {(extent === 'distance' || extent === 'twoSides') && (
+            <div className="dialog-field">
+              <label>Taper Angle</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  value={taperAngle}
+                  onChange={(e) => setTaperAngle(parseFloat(e.target.value) || 0)}
+                  min={-89}
+                  max={89}
+                  step={1}
+                />
+                <span className="unit">deg</span>
+              </div>
+            </div>
+          )}
+
+          {extent === 'toObject' && (
+            <div className="dialog-field">
+              <label>Object</label>
+              <select
+                value={extentRef?.type === 'body' ? extentRef.featureId : extentRef ? 'face' : ''}
+                onChange={(e) => setExtentRef({ type: 'body', featureId: e.target.value })}
+              >
+                {!extentRef && <option value="">Select a body or face</option>}
+                {extentRef?.type === 'face' && (
+                  <option value="face">
+                    Face of {extentFaceFeature?.name ?? 'a deleted feature'}
+                  </option>
+                )}
+                {extentBodies.map(feature => (
+                  <option key={feature.id} value={feature.id}>
+                    {feature.name}
+                  </option>
+                ))}
+              </select>
+              <div className="direction-toggle">
+                <button
+                  className="direction-btn"
+                  onClick={handleUseSelectedFace}
+                >
+                  Use Selected Face
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="dialog-field">
             <label>Mode</label>
             <select
@@ -210,19 +385,14 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
           </div>
 
           {(mode === 'join' || mode === 'cut') && (
-            <div className="dialog-field">
-              <label>Target Body</label>
-              <select
-                value={targetBodyId}
-                onChange={(e) => setTargetBodyId(e.target.value)}
-              >
-                {availableBodies.map(feature => (
-                  <option key={feature.id} value={feature.id}>
-                    {feature.name}
-                  </option>
-                ))}
-              </select>
-            </div>
+            <TargetBodiesField
+              label="Target Bodies"
+              bodyFeatures={availableBodies}
+              selectedIds={targetBodyIds}
+              scope={targetScope}
+              onSelectedIdsChange={setTargetBodyIds}
+              onScopeChange={setTargetScope}
+            />
           )}
         </div>
 
@@ -231,7 +401,7 @@ export function ExtrudeDialog({ onClose, editFeatureId }: ExtrudeDialogProps) {
           <button
             className="dialog-btn primary"
             onClick={handleSubmit}
-            disabled={!selectedSketchId}
+            disabled={!isValid}
           >
             {isEditMode ? 'Update' : 'Create Extrude'}
           </button>
@@ -0,0 +1,164 @@
+/**
+ * FilletDialog - Dialog for creating/editing fillet and chamfer features
+ * Edges are picked in the viewport while the dialog is open
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  useDocumentStore,
+  createFilletFeature,
+  createChamferFeature,
+} from '../../store/documentStore';
+import { useSceneStore, type SelectionInfo } from '../../store/sceneStore';
+import { createNumberParam, mergeParameterValues } from '../../types/features';
+import type { Feature, FilletFeature, ChamferFeature, GeometryRef } from '../../types/features';
+import './DialogStyles.css';
+
+export type BlendKind = 'fillet' | 'chamfer';
+
+interface FilletDialogProps {
+  onClose: () => void;
+  kind?: BlendKind;
+  editFeatureId?: string | null; // If provided, edit existing feature
+}
+
+const KIND_TITLES: Record<BlendKind, string> = {
+  fillet: 'Fillet',
+  chamfer: 'Chamfer',
+};
+
+/**
+ * Edge references for the edges selected in the viewport
+ */
+function getSelectedEdgeRefs(selectedItems: SelectionInfo[]): GeometryRef[] {
+  const bodies = useDocumentStore.getState().bodies;
+  return selectedItems.flatMap(item => {
+    const body = bodies.get(item.objectId);
+    return item.edge && body
+      ? [{ featureId: body.originFeatureId, type: 'edge' as const, edge: item.edge }]
+      : [];
+  });
+}
+
+export function FilletDialog({ onClose, kind: initialKind = 'fillet', editFeatureId }: FilletDialogProps) {
+  const document = useDocumentStore(state => state.document);
+  const addFeature = useDocumentStore(state => state.addFeature);
+  const updateFeature = useDocumentStore(state => state.updateFeature);
+
+  // Check if we're in edit mode
+  const isEditMode = !!editFeatureId;
+  const editingFeature = isEditMode
+    ? document.features.find(f => f.id === editFeatureId) as FilletFeature | ChamferFeature | undefined
+    : undefined;
+  const kind: BlendKind = editingFeature?.type ?? initialKind;
+
+  // Initialize state from editing feature or the current edge selection
+  const [edgeRefs, setEdgeRefs] = useState<GeometryRef[]>(() =>
+    editingFeature?.edgeRefs ?? getSelectedEdgeRefs(useSceneStore.getState().selectedItems)
+  );
+  const [size, setSize] = useState(() => {
+    if (editingFeature?.type === 'fillet') return editingFeature.parameters.radius.value;
+    if (editingFeature?.type === 'chamfer') return editingFeature.parameters.distance.value;
+    return 2;
+  });
+
+  // Pick edges while the dialog is open; edits start from the feature's edges
+  // and switch to the viewport selection once it changes
+  useEffect(() => {
+    const previousMode = useSceneStore.getState().selectionMode;
+    useSceneStore.getState().setSelectionMode('edge');
+
+    const unsubscribe = useSceneStore.subscribe((state, prev) => {
+      if (state.selectedItems !== prev.selectedItems) {
+        setEdgeRefs(getSelectedEdgeRefs(state.selectedItems));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      useSceneStore.getState().setSelectionMode(previousMode);
+    };
+  }, []);
+
+  const handleClearEdges = useCallback(() => {
+    useSceneStore.getState().clearSelection();
+    setEdgeRefs([]);
+  }, []);
+
+  const isValid = edgeRefs.length > 0 && size > 0;
+
+  const handleSubmit = useCallback(() => {
+    if (!isValid) return;
+
+    if (isEditMode && editFeatureId) {
+      // Update existing feature
+      const parameters = kind === 'fillet'
+        ? { radius: createNumberParam('radius', 'Radius', size, { min: 0.01, unit: 'mm' }) }
+        : { distance: createNumberParam('distance', 'Distance', size, { min: 0.01, unit: 'mm' }) };
+      updateFeature(editFeatureId, {
+        parameters: mergeParameterValues(parameters, editingFeature?.parameters),
+        edgeRefs,
+        _dirty: true,
+      } as Partial<Feature>);
+    } else {
+      // Create new feature
+      addFeature(kind === 'fillet' ? createFilletFeature(edgeRefs, size) : createChamferFeature(edgeRefs, size));
+    }
+    useSceneStore.getState().clearSelection();
+    onClose();
+  }, [isValid, kind, size, edgeRefs, editingFeature, isEditMode, editFeatureId, addFeature, updateFeature, onClose]);
+
+  return (
+    <div className="dialog-overlay docked">
+      <div className="dialog">
+        <div className="dialog-header">
+          <h2>{isEditMode ? `Edit ${KIND_TITLES[kind]}` : KIND_TITLES[kind]}</h2>
+          <button className="dialog-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="dialog-body">
+          <div className="dialog-field">
+            <label>Edges</label>
+            <div className="preview-description">
+              {edgeRefs.length > 0
+                ? `${edgeRefs.length} edge${edgeRefs.length > 1 ? 's' : ''} selected`
+                : 'Click edges in the viewport (Shift+click to add)'}
+            </div>
+            {edgeRefs.length > 0 && (
+              <div className="direction-toggle">
+                <button className="direction-btn" onClick={handleClearEdges}>
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="dialog-field">
+            <label>{kind === 'fillet' ? 'Radius' : 'Distance'}</label>
+            <div className="input-with-unit">
+              <input
+                type="number"
+                value={size}
+                onChange={(e) => setSize(parseFloat(e.target.value) || 0)}
+                min={0.01}
+                step={0.5}
+              />
+              <span className="unit">mm</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-btn secondary" onClick={onClose}>Cancel</button>
+          <button
+            className="dialog-btn primary"
+            onClick={handleSubmit}
+            disabled={!isValid}
+          >
+            {isEditMode ? 'Update' : `Create ${KIND_TITLES[kind]}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+/**
+ * ParameterTableDialog - Spreadsheet-style table of every parameter in the document
+ *
+ * User parameters (Document.globalParameters) can be added, renamed, edited
+ * and deleted. Model parameters are the number parameters of each feature.
+ * Every change goes through the document store, which marks the affected
+ * features dirty so the model rebuilds live.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useDocumentStore } from '../../store/documentStore';
+import {
+  evaluateExpression,
+  getExpressionReferences,
+  getParameterExpression,
+  isPlainNumber,
+  isValidParameterName,
+  resolveParameters,
+} from '../../engine/ExpressionEvaluator';
+import type { Feature, NumberParameter, Parameter } from '../../types/features';
+import './DialogStyles.css';
+import './ParameterTableDialog.css';
+
+interface ParameterTableDialogProps {
+  onClose: () => void;
+}
+
+const UNIT_OPTIONS = [
+  { value: 'mm', label: 'mm' },
+  { value: 'deg', label: 'deg' },
+  { value: '', label: 'No units' },
+];
+
+/**
+ * Format an evaluated value for display
+ */
+function formatValue(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+/**
+ * Next free default name for a new user parameter (d1, d2, ...)
+ */
+function nextParameterName(globals: Record<string, Parameter>): string {
+  let index = 1;
+  while (`d${index}` in globals) index++;
+  return `d${index}`;
+}
+
+/**
+ * Number parameters of a feature, in declaration order
+ */
+function getNumberParameters(feature: Feature): Array<{ key: string; param: NumberParameter }> {
+  const params = feature.parameters as Record<string, Parameter | undefined>;
+  const result: Array<{ key: string; param: NumberParameter }> = [];
+  for (const [key, param] of Object.entries(params)) {
+    if (param?.type === 'number') {
+      result.push({ key, param });
+    }
+  }
+  return result;
+}
+
+// ============ EDITABLE CELL ============
+
+interface EditableCellProps {
+  value: string;
+  className?: string;
+  placeholder?: string;
+  // Returns an error message to reject the edit, or null to accept it
+  onCommit: (text: string) => string | null;
+}
+
+function EditableCell({ value, className = '', placeholder, onCommit }: EditableCellProps) {
+  // Text being edited; null while the cell shows the stored value
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft === value) {
+      setDraft(null);
+      setError(null);
+      return;
+    }
+
+    const message = onCommit(draft);
+    setError(message);
+    if (!message) setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      className={`parameter-table-input ${className} ${error ? 'error' : ''}`}
+      value={draft ?? value}
+      placeholder={placeholder}
+      title={error ?? undefined}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        setError(null);
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+          commit();
+        } else if (e.key === 'Escape') {
+          setDraft(null);
+          setError(null);
+        }
+      }}
+    />
+  );
+}
+
+// ============ DIALOG ============
+
+export function ParameterTableDialog({ onClose }: ParameterTableDialogProps) {
+  const document = useDocumentStore(state => state.document);
+  const setGlobalParameter = useDocumentStore(state => state.setGlobalParameter);
+  const deleteGlobalParameter = useDocumentStore(state => state.deleteGlobalParameter);
+  const renameGlobalParameter = useDocumentStore(state => state.renameGlobalParameter);
+  const setGlobalParameterComment = useDocumentStore(state => state.setGlobalParameterComment);
+  const updateParameter = useDocumentStore(state => state.updateParameter);
+  const setParameterComment = useDocumentStore(state => state.setParameterComment);
+
+  const globals = document.globalParameters;
+  const resolution = useMemo(() => resolveParameters(globals), [globals]);
+
+  const userParameters = useMemo(
+    () => Object.entries(globals).filter(
+      (entry): entry is [string, NumberParameter] => entry[1].type === 'number'
+    ),
+    [globals]
+  );
+
+  const modelParameters = useMemo(
+    () => document.features
+      .map(feature => ({ feature, params: getNumberParameters(feature) }))
+      .filter(group => group.params.length > 0),
+    [document.features]
+  );
+
+  // ============ USER PARAMETERS ============
+
+  const handleAdd = useCallback(() => {
+    setGlobalParameter(nextParameterName(globals), '10', 'mm');
+  }, [globals, setGlobalParameter]);
+
+  const handleRename = useCallback((oldName: string, newName: string): string | null => {
+    const name = newName.trim();
+    if (!isValidParameterName(name)) {
+      return 'Names must start with a letter and may not be a unit, function or constant';
+    }
+    if (name !== oldName && name in globals) {
+      return `A parameter named ${name} already exists`;
+    }
+    renameGlobalParameter(oldName, name);
+    return null;
+  }, [globals, renameGlobalParameter]);
+
+  const handleUserExpression = useCallback((param: NumberParameter, text: string): string | null => {
+    if (text.trim() === '') return 'Expression is empty';
+
+    // Check the new expression against the rest of the table, including cycles
+    const candidate = { ...globals, [param.name]: { ...param, expression: text.trim() } };
+    const error = resolveParameters(candidate).errors[param.name];
+    if (error) return error;
+
+    setGlobalParameter(param.name, text);
+    return null;
+  }, [globals, setGlobalParameter]);
+
+  const handleDelete = useCallback((name: string) => {
+    const dependents = [
+      ...userParameters
+        .filter(([other, p]) => other !== name && p.expression !== undefined && referencesName(p.expression, name))
+        .map(([other]) => other),
+      ...modelParameters.flatMap(({ feature, params }) => params
+        .filter(({ param }) => param.expression !== undefined && referencesName(param.expression, name))
+        .map(({ param }) => `${feature.name} ${param.name}`)),
+    ];
+
+    if (dependents.length > 0 && !confirm(`"${name}" is used by ${dependents.join(', ')}. Delete anyway?`)) {
+      return;
+    }
+    deleteGlobalParameter(name);
+  }, [userParameters, modelParameters, deleteGlobalParameter]);
+
+  // ============ MODEL PARAMETERS ============
+
+  const handleModelExpression = useCallback((
+    featureId: string,
+    key: string,
+    param: NumberParameter,
+    text: string
+  ): string | null => {
+    let value: number;
+    try {
+      value = evaluateExpression(text, resolution.values);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+
+    if (param.min !== undefined && value < param.min) return `Value must be at least ${param.min}`;
+    if (param.max !== undefined && value > param.max) return `Value must be at most ${param.max}`;
+
+    updateParameter(featureId, key, isPlainNumber(text) ? value : text);
+    return null;
+  }, [resolution, updateParameter]);
+
+  const getModelError = (param: NumberParameter): string | null => {
+    if (param.expression === undefined) return null;
+    try {
+      evaluateExpression(param.expression, resolution.values);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  };
+
+  return (
+    <div className="dialog-overlay">
+      <div className="dialog parameter-table-dialog">
+        <div className="dialog-header">
+          <h2>Parameters</h2>
+          <button className="dialog-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="dialog-body parameter-table-body">
+          <div className="parameter-table-section">
+            <div className="parameter-table-section-header">
+              <span>User Parameters</span>
+              <button className="parameter-table-add" onClick={handleAdd} title="Add user parameter">
+                + Add
+              </button>
+            </div>
+
+            <table className="parameter-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Expression</th>
+                  <th>Value</th>
+                  <th>Unit</th>
+                  <th>Comment</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {userParameters.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="parameter-table-empty">
+                      No user parameters. Add one and reference it by name in any expression.
+                    </td>
+                  </tr>
+                )}
+                {userParameters.map(([name, param]) => {
+                  const error = resolution.errors[name];
+                  return (
+                    <tr key={param.id}>
+                      <td>
+                        <EditableCell
+                          value={name}
+                          className="name"
+                          onCommit={(text) => handleRename(name, text)}
+                        />
+                      </td>
+                      <td>
+                        <EditableCell
+                          value={getParameterExpression(param)}
+                          className="expression"
+                          onCommit={(text) => handleUserExpression(param, text)}
+                        />
+                      </td>
+                      <td className={`parameter-table-value ${error ? 'error' : ''}`} title={error}>
+                        {error ? 'Error' : formatValue(param.value)}
+                      </td>
+                      <td>
+                        <select
+                          className="parameter-table-select"
+                          value={param.unit ?? ''}
+                          onChange={(e) => setGlobalParameter(name, getParameterExpression(param), e.target.value)}
+                        >
+                          {UNIT_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <EditableCell
+                          value={param.comment ?? ''}
+                          placeholder="Comment"
+                          onCommit={(text) => {
+                            setGlobalParameterComment(name, text);
+                            return null;
+                          }}
+                        />
+                      </td>
+                      <td>
+                        <button
+                          className="parameter-table-delete"
+                          onClick={() => handleDelete(name)}
+                          title={`Delete ${name}`}
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="parameter-table-section">
+            <div className="parameter-table-section-header">
+              <span>Model Parameters</span>
+            </div>
+
+            <table className="parameter-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Expression</th>
+                  <th>Value</th>
+                  <th>Unit</th>
+                  <th>Comment</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {modelParameters.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="parameter-table-empty">
+                      No features with numeric parameters
+                    </td>
+                  </tr>
+                )}
+                {modelParameters.map(({ feature, params }) => (
+                  <FeatureRows
+                    key={feature.id}
+                    feature={feature}
+                    params={params}
+                    getError={getModelError}
+                    onExpression={(key, param, text) => handleModelExpression(feature.id, key, param, text)}
+                    onComment={(key, text) => setParameterComment(feature.id, key, text)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-btn secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============ FEATURE ROWS ============
+
+interface FeatureRowsProps {
+  feature: Feature;
+  params: Array<{ key: string; param: NumberParameter }>;
+  getError: (param: NumberParameter) => string | null;
+  onExpression: (key: string, param: NumberParameter, text: string) => string | null;
+  onComment: (key: string, text: string) => void;
+}
+
+function FeatureRows({ feature, params, getError, onExpression, onComment }: FeatureRowsProps) {
+  return (
+    <>
+      <tr className="parameter-table-group">
+        <td colSpan={6}>
+          {feature.name}
+          {feature.suppressed && <span className="parameter-table-suppressed"> (suppressed)</span>}
+        </td>
+      </tr>
+      {params.map(({ key, param }) => {
+        const error = getError(param);
+        return (
+          <tr key={key}>
+            <td className="parameter-table-name">{param.name}</td>
+            <td>
+              <EditableCell
+                value={getParameterExpression(param)}
+                className="expression"
+                onCommit={(text) => onExpression(key, param, text)}
+              />
+            </td>
+            <td className={`parameter-table-value ${error ? 'error' : ''}`} title={error ?? undefined}>
+              {error ? 'Error' : formatValue(param.value)}
+            </td>
+            <td className="parameter-table-unit">{param.unit ?? ''}</td>
+            <td>
+              <EditableCell
+                value={param.comment ?? ''}
+                placeholder="Comment"
+                onCommit={(text) => {
+                  onComment(key, text);
+                  return null;
+                }}
+              />
+            </td>
+            <td />
+          </tr>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Whether an expression references a parameter (false for invalid expressions)
+ */
+function referencesName(expression: string, name: string): boolean {
+  try {
+    return getExpressionReferences(expression).includes(name);
+  } catch {
+    return false;
+  }
+}
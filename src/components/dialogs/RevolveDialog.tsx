@@ -0,0 +1,340 @@
+/**
+ * RevolveDialog - Dialog for creating/editing revolve features
+ * Supports both create mode (new feature) and edit mode (existing feature)
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useDocumentStore, createRevolveFeature } from '../../store/documentStore';
+import { createNumberParam, createEnumParam, mergeParameterValues } from '../../types/features';
+import type { SketchFeature, Feature, RevolveFeature, RevolveAxisRef, TargetScope } from '../../types/features';
+import { useProfileSelection } from './useProfileSelection';
+import { TargetBodiesField } from './TargetBodiesField';
+import { getTargetFeatureIds, createTargetBodyRefs } from '../../utils/targetBodies';
+import './DialogStyles.css';
+
+interface RevolveDialogProps {
+  onClose: () => void;
+  editFeatureId?: string | null; // If provided, edit existing feature
+}
+
+interface AxisOption {
+  key: string;
+  label: string;
+  ref: RevolveAxisRef;
+}
+
+// Origin axes lying in each sketch plane
+const PLANE_AXES: Record<string, Array<'X' | 'Y' | 'Z'>> = {
+  XY: ['X', 'Y'],
+  XZ: ['X', 'Z'],
+  YZ: ['Y', 'Z'],
+};
+
+function getAxisKey(ref: RevolveAxisRef): string {
+  switch (ref.type) {
+    case 'origin': return `origin:${ref.axis}`;
+    case 'line': return `line:${ref.entityId}`;
+    case 'axis': return `axis:${ref.featureId}`;
+  }
+}
+
+/**
+ * Axes a sketch can be revolved around: its in-plane origin axes, lines and
+ * construction axes (checked against the sketch plane on rebuild)
+ */
+function getAxisOptions(sketch: SketchFeature | undefined, features: Feature[]): AxisOption[] {
+  if (!sketch) return [];
+
+  const options: AxisOption[] = (PLANE_AXES[sketch.parameters.plane.value] ?? []).map(axis => ({
+    key: `origin:${axis}`,
+    label: `${axis} Axis`,
+    ref: { type: 'origin', axis },
+  }));
+
+  let lineCount = 0;
+  let constructionCount = 0;
+  for (const entity of sketch.sketchData?.entities ?? []) {
+    if (entity.type !== 'line') continue;
+    const label = entity.construction
+      ? `Construction Line ${++constructionCount}`
+      : `Line ${++lineCount}`;
+    options.push({ key: `line:${entity.id}`, label, ref: { type: 'line', entityId: entity.id } });
+  }
+
+  for (const feature of features) {
+    if (feature.type !== 'axis' || feature.suppressed) continue;
+    options.push({ key: `axis:${feature.id}`, label: feature.name, ref: { type: 'axis', featureId: feature.id } });
+  }
+
+  return options;
+}
+
+/**
+ * Axis to preselect: a construction line if the sketch has one
+ */
+function getDefaultAxisKey(options: AxisOption[]): string {
+  const construction = options.find(option => option.label.startsWith('Construction'));
+  return (construction ?? options[0])?.key ?? '';
+}
+
+export function RevolveDialog({ onClose, editFeatureId }: RevolveDialogProps) {
+  const document = useDocumentStore(state => state.document);
+  const addFeature = useDocumentStore(state => state.addFeature);
+  const updateFeature = useDocumentStore(state => state.updateFeature);
+
+  // Check if we're in edit mode
+  const isEditMode = !!editFeatureId;
+  const editingFeature = isEditMode
+    ? document.features.find(f => f.id === editFeatureId) as RevolveFeature | undefined
+    : undefined;
+
+  // Find available sketches with profiles
+  const availableSketches = useMemo(() => {
+    return document.features.filter(
+      (f): f is SketchFeature =>
+        f.type === 'sketch' &&
+        !f.suppressed &&
+        !!f.sketchData?.profiles?.length
+    );
+  }, [document.features]);
+
+  // Find available bodies for join/cut
+  const availableBodies = useMemo(() => {
+    const bodyFeatures: Feature[] = [];
+    for (const feature of document.features) {
+      if (feature.suppressed || feature.id === editFeatureId) continue;
+      if (feature.type === 'primitive' || feature.type === 'extrude' || feature.type === 'revolve' || feature.type === 'boolean') {
+        bodyFeatures.push(feature);
+      }
+    }
+    return bodyFeatures;
+  }, [document.features, editFeatureId]);
+
+  // Initialize state from editing feature or defaults
+  const [selectedSketchId, setSelectedSketchId] = useState<string>(
+    editingFeature?.sketchRef?.featureId || availableSketches[0]?.id || ''
+  );
+  const selectedSketch = availableSketches.find(sketch => sketch.id === selectedSketchId);
+  const axisOptions = useMemo(
+    () => getAxisOptions(selectedSketch, document.features),
+    [selectedSketch, document.features]
+  );
+
+  const [axisKey, setAxisKey] = useState<string>(() =>
+    editingFeature?.axisRef ? getAxisKey(editingFeature.axisRef) : getDefaultAxisKey(axisOptions)
+  );
+  const [angle, setAngle] = useState(
+    editingFeature?.parameters?.angle?.value ?? 360
+  );
+  const [mode, setMode] = useState<'new' | 'join' | 'cut'>(
+    (editingFeature?.parameters?.mode?.value as 'new' | 'join' | 'cut') || 'new'
+  );
+  const [targetBodyIds, setTargetBodyIds] = useState<string[]>(
+    editingFeature ? getTargetFeatureIds(editingFeature) : availableBodies.slice(0, 1).map(f => f.id)
+  );
+  const [targetScope, setTargetScope] = useState<TargetScope>(editingFeature?.targetScope ?? 'selected');
+
+  const axis = axisOptions.find(option => option.key === axisKey);
+
+  const {
+    profiles,
+    selectedProfileIds,
+    profileRefs,
+    resetSelection,
+    selectAllRegions,
+    clearSelection,
+  } = useProfileSelection(
+    selectedSketch,
+    editingFeature?.profileRefs,
+    axis?.ref.type === 'line' ? axis.ref.entityId : null
+  );
+
+  const handleSketchChange = (sketchId: string) => {
+    setSelectedSketchId(sketchId);
+    const sketch = availableSketches.find(s => s.id === sketchId);
+    const isOriginalSketch = sketchId === editingFeature?.sketchRef?.featureId;
+    resetSelection(sketch, isOriginalSketch ? editingFeature.profileRefs : undefined);
+    setAxisKey(isOriginalSketch ? getAxisKey(editingFeature.axisRef) : getDefaultAxisKey(getAxisOptions(sketch, document.features)));
+  };
+
+  const isValid = !!selectedSketchId && profileRefs.length > 0 && !!axis && angle > 0 && angle <= 360 &&
+    (mode === 'new' || targetScope === 'intersecting' || targetBodyIds.length > 0);
+
+  const handleSubmit = useCallback(() => {
+    if (!isValid || !axis) return;
+
+    const usesTargets = mode === 'join' || mode === 'cut';
+    const targetBodyRefs = usesTargets && targetScope === 'selected'
+      ? createTargetBodyRefs(targetBodyIds, editingFeature?.targetBodyRefs)
+      : undefined;
+    const scope = usesTargets && targetScope === 'intersecting' ? targetScope : undefined;
+
+    if (isEditMode && editFeatureId) {
+      // Update existing feature
+      const updates: Partial<RevolveFeature> = {
+        sketchRef: { featureId: selectedSketchId, type: 'sketch' },
+        profileRefs,
+        axisRef: axis.ref,
+        parameters: mergeParameterValues({
+          angle: createNumberParam('angle', 'Angle', angle, { min: 0.1, max: 360, unit: 'deg' }),
+          mode: createEnumParam('mode', 'Mode', mode, [
+            { value: 'new', label: 'New Body' },
+            { value: 'join', label: 'Join' },
+            { value: 'cut', label: 'Cut' },
+          ]),
+        }, editingFeature?.parameters),
+        targetBodyRefs,
+        targetScope: scope,
+        targetBodyRef: undefined,
+        _dirty: true,
+      };
+      updateFeature(editFeatureId, updates);
+    } else {
+      // Create new feature
+      const feature = createRevolveFeature(selectedSketchId, axis.ref, angle, mode);
+      feature.profileRefs = profileRefs;
+      feature.targetBodyRefs = targetBodyRefs;
+      feature.targetScope = scope;
+      addFeature(feature);
+    }
+    onClose();
+  }, [isValid, axis, mode, targetBodyIds, targetScope, editingFeature, isEditMode, editFeatureId, selectedSketchId, profileRefs, angle, addFeature, updateFeature, onClose]);
+
+  if (availableSketches.length === 0) {
+    return (
+      <div className="dialog-overlay">
+        <div className="dialog">
+          <div className="dialog-header">
+            <h2>Revolve</h2>
+            <button className="dialog-close" onClick={onClose}>×</button>
+          </div>
+          <div className="dialog-body">
+            <div className="dialog-message">
+              No sketches with profiles available.<br />
+              Create a sketch with closed shapes first.
+            </div>
+          </div>
+          <div className="dialog-footer">
+            <button className="dialog-btn secondary" onClick={onClose}>Close</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dialog-overlay docked">
+      <div className="dialog">
+        <div className="dialog-header">
+          <h2>{isEditMode ? 'Edit Revolve' : 'Revolve'}</h2>
+          <button className="dialog-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="dialog-body">
+          <div className="dialog-field">
+            <label>Sketch</label>
+            <select
+              value={selectedSketchId}
+              onChange={(e) => handleSketchChange(e.target.value)}
+            >
+              {availableSketches.map(sketch => (
+                <option key={sketch.id} value={sketch.id}>
+                  {sketch.name} ({sketch.sketchData?.profiles?.length || 0} profiles)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="dialog-field">
+            <label>Profiles</label>
+            <div className="operation-preview">
+              <div className="preview-description">
+                {selectedProfileIds.length} of {profiles.length} selected.
+                Click regions in the viewport to add or remove them.
+              </div>
+            </div>
+            <div className="direction-toggle">
+              <button
+                className="direction-btn"
+                onClick={selectAllRegions}
+              >
+                All Regions
+              </button>
+              <button
+                className="direction-btn"
+                onClick={clearSelection}
+                disabled={selectedProfileIds.length === 0}
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="dialog-field">
+            <label>Axis</label>
+            <select
+              value={axisKey}
+              onChange={(e) => setAxisKey(e.target.value)}
+            >
+              {!axis && <option value={axisKey}>Missing axis</option>}
+              {axisOptions.map(option => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="dialog-field">
+            <label>Angle</label>
+            <div className="input-with-unit">
+              <input
+                type="number"
+                value={angle}
+                onChange={(e) => setAngle(parseFloat(e.target.value) || 0)}
+                min={0.1}
+                max={360}
+                step={15}
+              />
+              <span className="unit">deg</span>
+            </div>
+          </div>
+
+          <div className="dialog-field">
+            <label>Mode</label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as typeof mode)}
+            >
+              <option value="new">New Body</option>
+              <option value="join">Join</option>
+              <option value="cut">Cut</option>
+            </select>
+          </div>
+
+          {(mode === 'join' || mode === 'cut') && (
+            <TargetBodiesField
+              label="Target Bodies"
+              bodyFeatures={availableBodies}
+              selectedIds={targetBodyIds}
+              scope={targetScope}
+              onSelectedIdsChange={setTargetBodyIds}
+              onScopeChange={setTargetScope}
+            />
+          )}
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-btn secondary" onClick={onClose}>Cancel</button>
+          <button
+            className="dialog-btn primary"
+            onClick={handleSubmit}
+            disabled={!isValid}
+          >
+            {isEditMode ? 'Update' : 'Create Revolve'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
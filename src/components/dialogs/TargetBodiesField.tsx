@@ -0,0 +1,69 @@
+/**
+ * TargetBodiesField - Pick the bodies a join, cut or boolean applies to
+ *
+ * Either a set of body features (each contributing all of its bodies) or
+ * every body the new solid intersects.
+ */
+
+import type { Feature, TargetScope } from '../../types/features';
+import './DialogStyles.css';
+
+interface TargetBodiesFieldProps {
+  label: string;
+  bodyFeatures: Feature[];
+  selectedIds: string[];
+  scope: TargetScope;
+  onSelectedIdsChange: (ids: string[]) => void;
+  onScopeChange: (scope: TargetScope) => void;
+  // Feature that cannot be a target (e.g. the boolean tool)
+  excludedId?: string;
+}
+
+export function TargetBodiesField({
+  label,
+  bodyFeatures,
+  selectedIds,
+  scope,
+  onSelectedIdsChange,
+  onScopeChange,
+  excludedId,
+}: TargetBodiesFieldProps) {
+  const toggle = (id: string) => {
+    onSelectedIdsChange(selectedIds.includes(id)
+      ? selectedIds.filter(selected => selected !== id)
+      : [...selectedIds, id]);
+  };
+
+  return (
+    <div className="dialog-field">
+      <label>{label}</label>
+      <div className="direction-toggle">
+        <button
+          className={`direction-btn ${scope === 'selected' ? 'active' : ''}`}
+          onClick={() => onScopeChange('selected')}
+        >
+          Selected
+        </button>
+        <button
+          className={`direction-btn ${scope === 'intersecting' ? 'active' : ''}`}
+          onClick={() => onScopeChange('intersecting')}
+        >
+          All Intersecting
+        </button>
+      </div>
+      {scope === 'selected' && bodyFeatures
+        .filter(feature => feature.id !== excludedId)
+        .map(feature => (
+          <label key={feature.id} className="dialog-checkbox">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(feature.id)}
+              onChange={() => toggle(feature.id)}
+            />
+            <span className="checkbox-box" />
+            <span>{feature.name}</span>
+          </label>
+        ))}
+    </div>
+  );
+}
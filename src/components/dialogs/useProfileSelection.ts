@@ -0,0 +1,109 @@
+/**
+ * useProfileSelection - Pick sketch profiles in the viewport from a dialog
+ *
+ * Draws the sketch's profiles on its plane while the dialog is open. Clicking
+ * a profile toggles it; other clicks fall through to the normal selection.
+ */
+
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { createProfileRef, resolveProfileRef } from '../../engine/ProfileDetector';
+import { SketchRenderer } from '../../viewport/SketchRenderer';
+import type { ViewportManager } from '../../viewport/ViewportManager';
+import { getSketchPlane } from '../../utils/sketchPlane';
+import { useDocumentStore } from '../../store/documentStore';
+import type { SketchFeature } from '../../types/features';
+import type { ProfileRef } from '../../types/sketch';
+
+/**
+ * Profile IDs to preselect for a sketch: the stored references when editing,
+ * otherwise every material region
+ */
+function getInitialProfileIds(sketch: SketchFeature | undefined, refs?: ProfileRef[]): string[] {
+  const profiles = sketch?.sketchData?.profiles ?? [];
+  if (refs && refs.length > 0) {
+    const ids = new Set<string>();
+    for (const ref of refs) {
+      const profile = resolveProfileRef(ref, profiles);
+      if (profile) ids.add(profile.id);
+    }
+    return Array.from(ids);
+  }
+  return profiles.filter(profile => profile.depth % 2 === 0).map(profile => profile.id);
+}
+
+export function useProfileSelection(
+  sketch: SketchFeature | undefined,
+  initialRefs?: ProfileRef[],
+  highlightedEntityId: string | null = null
+) {
+  const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>(
+    () => getInitialProfileIds(sketch, initialRefs)
+  );
+
+  const profiles = useMemo(() => sketch?.sketchData?.profiles ?? [], [sketch]);
+
+  // References to store on the feature, in sketch order
+  const profileRefs = useMemo(
+    () => profiles.filter(profile => selectedProfileIds.includes(profile.id)).map(createProfileRef),
+    [profiles, selectedProfileIds]
+  );
+
+  const rendererRef = useRef<SketchRenderer | null>(null);
+
+  useEffect(() => {
+    const viewport = (window as unknown as { viewport: ViewportManager }).viewport;
+    if (!viewport || !sketch) return;
+
+    const renderer = new SketchRenderer(viewport.getScene());
+    renderer.setPlane(getSketchPlane(sketch, useDocumentStore.getState().sketchPlanes));
+    rendererRef.current = renderer;
+
+    viewport.onPick = (raycaster) => {
+      const profileId = renderer.pickProfile(raycaster);
+      if (!profileId) return false;
+
+      setSelectedProfileIds(prev => prev.includes(profileId)
+        ? prev.filter(id => id !== profileId)
+        : [...prev, profileId]);
+      return true;
+    };
+
+    return () => {
+      viewport.onPick = null;
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [sketch]);
+
+  useEffect(() => {
+    if (rendererRef.current && sketch?.sketchData) {
+      rendererRef.current.renderProfileSelection(
+        sketch.sketchData,
+        selectedProfileIds,
+        highlightedEntityId ? [highlightedEntityId] : []
+      );
+    }
+  }, [sketch, selectedProfileIds, highlightedEntityId]);
+
+  // Start over for another sketch (refs only apply to the sketch they came from)
+  const resetSelection = useCallback((nextSketch: SketchFeature | undefined, refs?: ProfileRef[]) => {
+    setSelectedProfileIds(getInitialProfileIds(nextSketch, refs));
+  }, []);
+
+  const selectAllRegions = useCallback(() => {
+    setSelectedProfileIds(getInitialProfileIds(sketch));
+  }, [sketch]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedProfileIds([]);
+  }, []);
+
+  return {
+    profiles,
+    selectedProfileIds,
+    profileRefs,
+    resetSelection,
+    selectAllRegions,
+    clearSelection,
+  };
+}
@@ -134,6 +134,63 @@ export const ArcIcon: React.FC<IconProps> = ({ size = defaultProps.size, color =
   </svg>
 );
 
+export const ThreePointRectangleIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M3 15L15 3L21 9L9 21Z" stroke={color} strokeWidth="2" strokeLinejoin="round"/>
+    <circle cx="3" cy="15" r="1.5" fill={color}/>
+    <circle cx="15" cy="3" r="1.5" fill={color}/>
+    <circle cx="21" cy="9" r="1.5" fill={color}/>
+  </svg>
+);
+
+export const EllipseIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <ellipse cx="12" cy="12" rx="9" ry="5.5" stroke={color} strokeWidth="2"/>
+    <circle cx="12" cy="12" r="1.5" fill={color}/>
+  </svg>
+);
+
+export const EllipticalArcIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M3 14C3 10.9624 7.02944 8.5 12 8.5C16.9706 8.5 21 10.9624 21 14" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+    <circle cx="3" cy="14" r="2" fill={color}/>
+    <circle cx="21" cy="14" r="2" fill={color}/>
+  </svg>
+);
+
+export const PolygonIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M7.5 4.2H16.5L21 12L16.5 19.8H7.5L3 12Z" stroke={color} strokeWidth="2" strokeLinejoin="round"/>
+    <circle cx="12" cy="12" r="1.5" fill={color}/>
+  </svg>
+);
+
+export const SlotIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <rect x="2" y="7" width="20" height="10" rx="5" stroke={color} strokeWidth="2"/>
+    <circle cx="7" cy="12" r="1.5" fill={color}/>
+    <circle cx="17" cy="12" r="1.5" fill={color}/>
+  </svg>
+);
+
+export const SplineIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M3 17C6 7 10 7 12 12C14 17 18 17 21 7" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+    <circle cx="3" cy="17" r="2" fill={color}/>
+    <circle cx="12" cy="12" r="2" fill={color}/>
+    <circle cx="21" cy="7" r="2" fill={color}/>
+  </svg>
+);
+
+export const ControlSplineIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M3 19L8 5L16 19L21 5" stroke={color} strokeWidth="1" strokeDasharray="2 2"/>
+    <path d="M3 19C6 11 9 9 12 12C15 15 18 13 21 5" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+    <rect x="6.5" y="3.5" width="3" height="3" fill={color}/>
+    <rect x="14.5" y="17.5" width="3" height="3" fill={color}/>
+  </svg>
+);
+
 export const PointIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
   <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
     <circle cx="12" cy="12" r="3" fill={color}/>
@@ -152,6 +209,15 @@ export const ExtrudeIcon: React.FC<IconProps> = ({ size = defaultProps.size, col
   </svg>
 );
 
+export const RevolveIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M4 3V21" stroke={color} strokeWidth="2" strokeLinecap="round" strokeDasharray="2 2"/>
+    <rect x="9" y="8" width="5" height="8" stroke={color} strokeWidth="2"/>
+    <path d="M17 5C19.5 7 20.5 9.5 20.5 12C20.5 14.5 19.5 17 17 19" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+    <path d="M17 19L17.5 15.5M17 19L20.5 19.5" stroke={color} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
 export const BooleanUnionIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
   <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
     <circle cx="9" cy="12" r="6" stroke={color} strokeWidth="2"/>
@@ -197,6 +263,14 @@ export const ShellIcon: React.FC<IconProps> = ({ size = defaultProps.size, color
   </svg>
 );
 
+export const ParametersIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M9 4C7 4 7 6 7 8V11H5M7 11H10M7 11V16C7 18 7 20 5 20" stroke={color} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M13 10L19 18" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+    <path d="M19 10L13 18" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+  </svg>
+);
+
 // Navigation
 export const OrbitIcon: React.FC<IconProps> = ({ size = defaultProps.size, color = defaultProps.color, className }) => (
   <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
@@ -4,17 +4,20 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import type { Parameter, NumberParameter, EnumParameter, BooleanParameter } from '../../types/features';
+import { evaluateExpression, isPlainNumber } from '../../engine/ExpressionEvaluator';
 import './ParameterInput.css';
 
 interface ParameterInputProps {
   parameter: Parameter;
   onChange: (value: number | string | boolean) => void;
+  // Global parameter values available to number expressions
+  scope?: Record<string, number>;
 }
 
-export function ParameterInput({ parameter, onChange }: ParameterInputProps) {
+export function ParameterInput({ parameter, onChange, scope }: ParameterInputProps) {
   switch (parameter.type) {
     case 'number':
-      return <NumberInput parameter={parameter} onChange={onChange} />;
+      return <NumberInput parameter={parameter} onChange={onChange} scope={scope} />;
     case 'enum':
       return <EnumInput parameter={parameter} onChange={onChange} />;
     case 'boolean':
@@ -30,34 +33,65 @@ export function ParameterInput({ parameter, onChange }: ParameterInputProps) {
 
 interface NumberInputProps {
   parameter: NumberParameter;
-  onChange: (value: number) => void;
+  // Plain numbers are passed as numbers, expressions as their source text
+  onChange: (value: number | string) => void;
+  scope?: Record<string, number>;
 }
 
-function NumberInput({ parameter, onChange }: NumberInputProps) {
-  const [inputValue, setInputValue] = useState(String(parameter.value));
+function NumberInput({ parameter, onChange, scope = {} }: NumberInputProps) {
+  const displayText = parameter.expression ?? String(parameter.value);
+  const [inputValue, setInputValue] = useState(displayText);
   const [isFocused, setIsFocused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   // Sync input when parameter value changes externally
   useEffect(() => {
     if (!isFocused) {
-      setInputValue(String(parameter.value));
+      setInputValue(displayText);
     }
-  }, [parameter.value, isFocused]);
+  }, [displayText, isFocused]);
 
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
+    setError(null);
   }, []);
 
   const handleBlur = useCallback(() => {
     setIsFocused(false);
-    let num = parseFloat(inputValue);
 
-    if (isNaN(num)) {
-      num = parameter.value;
-      setInputValue(String(num));
+    if (inputValue.trim() === '') {
+      setInputValue(displayText);
       return;
     }
 
+    // Expressions are validated but not clamped
+    if (!isPlainNumber(inputValue)) {
+      if (inputValue.trim() === displayText) return;
+
+      let evaluated: number;
+      try {
+        evaluated = evaluateExpression(inputValue, scope);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        return;
+      }
+
+      if (parameter.min !== undefined && evaluated < parameter.min) {
+        setError(`Value ${evaluated} is below the minimum of ${parameter.min}`);
+        return;
+      }
+      if (parameter.max !== undefined && evaluated > parameter.max) {
+        setError(`Value ${evaluated} is above the maximum of ${parameter.max}`);
+        return;
+      }
+
+      setInputValue(inputValue.trim());
+      onChange(inputValue.trim());
+      return;
+    }
+
+    let num = parseFloat(inputValue);
+
     // Apply min/max constraints
     if (parameter.min !== undefined && num < parameter.min) {
       num = parameter.min;
@@ -67,19 +101,20 @@ function NumberInput({ parameter, onChange }: NumberInputProps) {
     }
 
     setInputValue(String(num));
-    if (num !== parameter.value) {
+    if (num !== parameter.value || parameter.expression !== undefined) {
       onChange(num);
     }
-  }, [inputValue, parameter, onChange]);
+  }, [inputValue, displayText, scope, parameter, onChange]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleBlur();
       (e.target as HTMLInputElement).blur();
     } else if (e.key === 'Escape') {
-      setInputValue(String(parameter.value));
+      setInputValue(displayText);
+      setError(null);
       (e.target as HTMLInputElement).blur();
-    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+    } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && isPlainNumber(inputValue)) {
       e.preventDefault();
       const step = parameter.step ?? 1;
       const delta = e.key === 'ArrowUp' ? step : -step;
@@ -91,7 +126,7 @@ function NumberInput({ parameter, onChange }: NumberInputProps) {
       setInputValue(String(num));
       onChange(num);
     }
-  }, [inputValue, parameter, onChange, handleBlur]);
+  }, [inputValue, displayText, parameter, onChange, handleBlur]);
 
   return (
     <div className="parameter-input number-input">
@@ -104,10 +139,16 @@ function NumberInput({ parameter, onChange }: NumberInputProps) {
           onBlur={handleBlur}
           onFocus={() => setIsFocused(true)}
           onKeyDown={handleKeyDown}
-          className="number-input-field"
+          className={`number-input-field ${error ? 'error' : ''}`}
+          title={error ?? undefined}
         />
         {parameter.unit && <span className="parameter-unit">{parameter.unit}</span>}
       </div>
+      {error ? (
+        <div className="parameter-expression-error">{error}</div>
+      ) : parameter.expression !== undefined && !isFocused && (
+        <div className="parameter-expression-value">= {Number(parameter.value.toFixed(4))}</div>
+      )}
     </div>
   );
 }
@@ -5,6 +5,7 @@
 import { useMemo, useCallback } from 'react';
 import { useDocumentStore } from '../../store/documentStore';
 import { ParameterInput } from './ParameterInput';
+import { resolveParameters } from '../../engine/ExpressionEvaluator';
 import type { Parameter, Feature } from '../../types/features';
 import './ParameterPanel.css';
 
@@ -16,6 +17,10 @@ export function ParameterPanel({ onStartSketch }: ParameterPanelProps) {
   const selectedFeatureId = useDocumentStore(state => state.selectedFeatureId);
   const getFeature = useDocumentStore(state => state.getFeature);
   const updateParameter = useDocumentStore(state => state.updateParameter);
+  const globalParameters = useDocumentStore(state => state.document.globalParameters);
+
+  // Values of the global parameters that number expressions can reference
+  const scope = useMemo(() => resolveParameters(globalParameters).values, [globalParameters]);
 
   const selectedFeature = useMemo(() => {
     if (!selectedFeatureId) return null;
@@ -63,6 +68,7 @@ export function ParameterPanel({ onStartSketch }: ParameterPanelProps) {
               <ParameterInput
                 key={key}
                 parameter={param}
+                scope={scope}
                 onChange={(value) => handleParameterChange(key, value)}
               />
             ))}
@@ -0,0 +1,183 @@
+/**
+ * DimensionLabels - Editable value labels for driving dimensions
+ *
+ * Labels are HTML elements laid over the viewport. Whenever the view or the
+ * sketch changes, each dimension's sketch-space anchor is projected through
+ * the camera so the labels follow orbit, pan and zoom.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { useSketchStore } from '../../store/sketchStore';
+import {
+  getDimensionLabelPosition,
+  isDimensionConstraint,
+  type SketchRenderer,
+} from '../../viewport/SketchRenderer';
+import type { ViewportManager } from '../../viewport/ViewportManager';
+import type { DimensionConstraint } from '../../types/sketch';
+import './DimensionLabels.css';
+
+interface DimensionLabelsProps {
+  rendererRef: React.RefObject<SketchRenderer | null>;
+  containerRef: React.RefObject<HTMLDivElement | null>;
+}
+
+/**
+ * Format a dimension value for display (R for radius, ⌀ for diameter, ° for angles)
+ */
+function formatDimension(constraint: DimensionConstraint): string {
+  const value = Number(constraint.value.toFixed(2)).toString();
+  switch (constraint.type) {
+    case 'radius': return `R${value}`;
+    case 'diameter': return `⌀${value}`;
+    case 'angle': return `${value}°`;
+    default: return value;
+  }
+}
+
+/**
+ * Check a typed value is acceptable for the dimension type
+ */
+function isValidDimensionValue(constraint: DimensionConstraint, value: number): boolean {
+  if (!Number.isFinite(value)) return false;
+  if (constraint.type === 'angle') return value > 0 && value < 180;
+  return value > 0;
+}
+
+// ============ VALUE INPUT ============
+
+interface DimensionValueInputProps {
+  constraint: DimensionConstraint;
+  onCommit: (value: number) => boolean;
+  onCancel: () => void;
+}
+
+function DimensionValueInput({ constraint, onCommit, onCancel }: DimensionValueInputProps) {
+  const [text, setText] = useState(Number(constraint.value.toFixed(4)).toString());
+  const [hasError, setHasError] = useState(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+
+    if (e.key === 'Enter') {
+      const value = parseFloat(text);
+      if (!isValidDimensionValue(constraint, value) || !onCommit(value)) {
+        setHasError(true);
+      }
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      className={`dimension-label-input ${hasError ? 'error' : ''}`}
+      type="text"
+      value={text}
+      autoFocus
+      onFocus={(e) => e.target.select()}
+      onChange={(e) => {
+        setText(e.target.value);
+        setHasError(false);
+      }}
+      onKeyDown={handleKeyDown}
+      onBlur={onCancel}
+    />
+  );
+}
+
+// ============ LABELS ============
+
+export function DimensionLabels({ rendererRef, containerRef }: DimensionLabelsProps) {
+  const sketchData = useSketchStore(state => state.sketchData);
+  const showDimensions = useSketchStore(state => state.displaySettings.showDimensions);
+  const editingDimensionId = useSketchStore(state => state.editingDimensionId);
+  const setEditingDimension = useSketchStore(state => state.setEditingDimension);
+  const setDimensionValue = useSketchStore(state => state.setDimensionValue);
+
+  const labelRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const dimensions = useMemo(
+    () => sketchData?.constraints.filter(isDimensionConstraint) ?? [],
+    [sketchData]
+  );
+
+  // Keep labels attached to their geometry while the camera moves
+  useEffect(() => {
+    const viewport = (window as unknown as { viewport: ViewportManager }).viewport;
+    if (!viewport || !sketchData || !showDimensions || dimensions.length === 0) return;
+
+    const projected = new THREE.Vector3();
+
+    const updatePositions = () => {
+      const renderer = rendererRef.current;
+      const container = containerRef.current;
+      if (!renderer || !container) return;
+
+      const camera = viewport.getCamera();
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+
+      for (const dimension of dimensions) {
+        const label = labelRefs.current.get(dimension.id);
+        if (!label) continue;
+
+        const anchor = getDimensionLabelPosition(dimension, sketchData.entities);
+        if (!anchor) {
+          label.style.display = 'none';
+          continue;
+        }
+
+        projected.copy(renderer.sketchToWorld(anchor)).project(camera);
+        const x = ((projected.x + 1) / 2) * width;
+        const y = ((1 - projected.y) / 2) * height;
+
+        label.style.display = projected.z < 1 ? '' : 'none';
+        label.style.transform = `translate(${x}px, ${y}px) translate(-50%, -50%)`;
+      }
+    };
+
+    updatePositions();
+    return viewport.addCameraListener(updatePositions);
+  }, [sketchData, showDimensions, dimensions, rendererRef, containerRef]);
+
+  if (!showDimensions || dimensions.length === 0) return null;
+
+  return (
+    <div className="dimension-labels">
+      {dimensions.map((dimension) => {
+        const isEditing = dimension.id === editingDimensionId;
+
+        return (
+          <div
+            key={dimension.id}
+            ref={(el) => {
+              if (el) labelRefs.current.set(dimension.id, el);
+              else labelRefs.current.delete(dimension.id);
+            }}
+            className={`dimension-label ${isEditing ? 'editing' : ''}`}
+            title="Double-click to edit"
+            onMouseDown={(e) => e.stopPropagation()}
+            onMouseUp={(e) => e.stopPropagation()}
+            onDoubleClick={() => setEditingDimension(dimension.id)}
+          >
+            {isEditing ? (
+              <DimensionValueInput
+                constraint={dimension}
+                onCommit={(value) => {
+                  const success = setDimensionValue(dimension.id, value);
+                  if (success) setEditingDimension(null);
+                  return success;
+                }}
+                onCancel={() => setEditingDimension(null)}
+              />
+            ) : (
+              formatDimension(dimension)
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { useSketchStore } from '../../store/sketchStore';
 import { SketchToolbar } from './SketchToolbar';
 import { SketchPalette } from './SketchPalette';
 import { SketchRenderer } from '../../viewport/SketchRenderer';
+import { DimensionLabels } from './DimensionLabels';
 import { SketchEngine } from '../../engine/SketchEngine';
 import { ViewportManager } from '../../viewport/ViewportManager';
 import type { Point2D, SketchPlane } from '../../types/sketch';
@@ -32,6 +33,8 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
   const selectedEntityIds = useSketchStore(state => state.selectedEntityIds);
   const hoveredEntityId = useSketchStore(state => state.hoveredEntityId);
   const previewEntity = useSketchStore(state => state.previewEntity);
+  const solverReport = useSketchStore(state => state.solverReport);
+  const degreesOfFreedom = useSketchStore(state => state.degreesOfFreedom);
 
   const enterSketchMode = useSketchStore(state => state.enterSketchMode);
   const exitSketchMode = useSketchStore(state => state.exitSketchMode);
@@ -44,8 +47,13 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
   const deleteSelectedEntities = useSketchStore(state => state.deleteSelectedEntities);
   const toggleConstruction = useSketchStore(state => state.toggleConstruction);
   const trimAtPoint = useSketchStore(state => state.trimAtPoint);
+  const filletAtPoint = useSketchStore(state => state.filletAtPoint);
+  const chamferAtPoint = useSketchStore(state => state.chamferAtPoint);
   const selectEntityForOffset = useSketchStore(state => state.selectEntityForOffset);
   const applyOffset = useSketchStore(state => state.applyOffset);
+  const dimensionClick = useSketchStore(state => state.dimensionClick);
+  const undo = useSketchStore(state => state.undo);
+  const redo = useSketchStore(state => state.redo);
 
   // Initialize sketch mode
   useEffect(() => {
@@ -79,9 +87,9 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
   // Update renderer when sketch data changes
   useEffect(() => {
     if (rendererRef.current) {
-      rendererRef.current.render(sketchData, selectedEntityIds, hoveredEntityId, previewEntity);
+      rendererRef.current.render(sketchData, selectedEntityIds, hoveredEntityId, previewEntity, degreesOfFreedom);
     }
-  }, [sketchData, selectedEntityIds, hoveredEntityId, previewEntity]);
+  }, [sketchData, selectedEntityIds, hoveredEntityId, previewEntity, degreesOfFreedom]);
 
   // Update snap point display
   useEffect(() => {
@@ -128,7 +136,8 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
         break;
       default:
         planeNormal = new THREE.Vector3(plane.normal.x, plane.normal.y, plane.normal.z);
-        planePoint = new THREE.Vector3(plane.origin.x, plane.origin.y, plane.origin.z);
+        planePoint = new THREE.Vector3(plane.origin.x, plane.origin.y, plane.origin.z)
+          .addScaledVector(planeNormal, plane.offset);
     }
 
     // Create Three.js Plane
@@ -191,6 +200,15 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
     } else if (toolState.activeTool === 'trim') {
       // Trim mode - click to trim line at intersection
       trimAtPoint(finalPoint);
+    } else if (toolState.activeTool === 'fillet') {
+      // Fillet mode - click near a corner to round it
+      filletAtPoint(finalPoint);
+    } else if (toolState.activeTool === 'chamfer') {
+      // Chamfer mode - click near a corner to cut it
+      chamferAtPoint(finalPoint);
+    } else if (toolState.activeTool === 'dimension') {
+      // Dimension mode - pick geometry directly (Shift picks radius instead of diameter)
+      dimensionClick(point, e.shiftKey);
     } else if (toolState.activeTool === 'offset') {
       // Offset mode - first click selects entity, second click applies offset
       if (toolState.offsetEntityId) {
@@ -198,8 +216,8 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
       } else {
         selectEntityForOffset(finalPoint);
       }
-    } else if (toolState.activeTool === 'line') {
-      // For line tool, double-click finishes the chain
+    } else if (toolState.activeTool === 'line' || toolState.activeTool === 'spline' || toolState.activeTool === 'controlSpline') {
+      // For line and spline tools, double-click finishes the chain
       if (e.detail === 2) {
         cancelDrawing(); // This will finish the line chain
         return;
@@ -210,7 +228,7 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
       // Drawing mode for other tools
       startDrawing(finalPoint);
     }
-  }, [screenToSketch, toolState.activeTool, toolState.offsetEntityId, displaySettings.snapEnabled, startDrawing, clearSelection, cancelDrawing, trimAtPoint, selectEntityForOffset, applyOffset]);
+  }, [screenToSketch, toolState.activeTool, toolState.offsetEntityId, displaySettings.snapEnabled, startDrawing, clearSelection, cancelDrawing, trimAtPoint, filletAtPoint, chamferAtPoint, selectEntityForOffset, applyOffset, dimensionClick]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     const point = screenToSketch(e.clientX, e.clientY);
@@ -281,8 +299,10 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
 
   // Handle finish/cancel - defined before handleKeyDown so they can be referenced
   const handleFinish = useCallback(() => {
+    // Without edits the document (and its history) stays untouched
+    const hasEdits = useSketchStore.getState().undoStack.length > 0;
     const data = exitSketchMode(true);
-    onFinish(data);
+    onFinish(hasEdits ? data : null);
   }, [exitSketchMode, onFinish]);
 
   const handleCancel = useCallback(() => {
@@ -295,8 +315,23 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
     // Don't handle if typing in an input
     if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
+    // Sketch-local undo/redo (Ctrl+Z, Ctrl+Y / Ctrl+Shift+Z)
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+        return;
+      }
+      if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+        return;
+      }
+    }
+
     if (e.key === 'Escape') {
-      if (toolState.isDrawing) {
+      if (toolState.isDrawing || toolState.dimensionPick) {
         cancelDrawing();
       } else {
         clearSelection();
@@ -338,7 +373,7 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
         handleFinish();
       }
     }
-  }, [toolState.isDrawing, cancelDrawing, clearSelection, deleteSelectedEntities, setActiveTool, selectedEntityIds, toggleConstruction, handleFinish, onFinishAndExtrude]);
+  }, [toolState.isDrawing, toolState.dimensionPick, cancelDrawing, clearSelection, deleteSelectedEntities, setActiveTool, selectedEntityIds, toggleConstruction, handleFinish, onFinishAndExtrude, undo, redo]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -358,6 +393,7 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
     >
       <SketchToolbar onFinish={handleFinish} onCancel={handleCancel} />
       <SketchPalette onFinish={handleFinish} />
+      <DimensionLabels rendererRef={rendererRef} containerRef={containerRef} />
 
       <div className="sketch-status-bar">
         <span className="sketch-tool-indicator">
@@ -367,10 +403,20 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
           {toolState.activeTool === 'arc' && toolState.arcStep === 0 && ' (click start point)'}
           {toolState.activeTool === 'arc' && toolState.arcStep === 1 && ' (click end point)'}
           {toolState.activeTool === 'arc' && toolState.arcStep === 2 && ' (click point on arc)'}
+          {(toolState.activeTool === 'spline' || toolState.activeTool === 'controlSpline') && toolState.isDrawing && ' (click to add points, double-click or Esc to finish)'}
+          {(toolState.activeTool === 'spline' || toolState.activeTool === 'controlSpline') && !toolState.isDrawing && ' (click first point)'}
+          {toolState.activeTool === 'threePointRectangle' && [' (click first corner)', ' (click second corner)', ' (click point on opposite side)'][toolState.clickPoints.length]}
+          {toolState.activeTool === 'ellipse' && [' (click center)', ' (click axis end)', ' (click point on ellipse)'][toolState.clickPoints.length]}
+          {toolState.activeTool === 'ellipticalArc' && [' (click center)', ' (click axis end)', ' (click start point)', ' (click end point)'][toolState.clickPoints.length]}
+          {toolState.activeTool === 'polygon' && ` (drag from center, ${toolState.polygonSides} sides, ${toolState.polygonMode})`}
+          {toolState.activeTool === 'slot' && [' (click first center)', ' (click second center)', ' (click point on side)'][toolState.clickPoints.length]}
           {toolState.activeTool === 'trim' && ' (click on line segment to trim)'}
+          {toolState.activeTool === 'fillet' && ` (click near a corner, radius: ${toolState.filletRadius})`}
+          {toolState.activeTool === 'chamfer' && ` (click near a corner, distance: ${toolState.chamferDistance})`}
           {toolState.activeTool === 'offset' && !toolState.offsetEntityId && ' (click on entity to offset)'}
           {toolState.activeTool === 'offset' && toolState.offsetEntityId && ` (click to set offset direction, distance: ${toolState.offsetDistance})`}
-          {toolState.activeTool === 'dimension' && ' (click entity to add dimension)'}
+          {toolState.activeTool === 'dimension' && !toolState.dimensionPick && ' (click line, circle, arc or point to add dimension)'}
+          {toolState.activeTool === 'dimension' && toolState.dimensionPick && ' (click second point or line, or empty space to place length)'}
         </span>
         {toolState.isDrawing && toolState.startPoint && previewEntity && (
           <span className="sketch-dimension-indicator">
@@ -402,6 +448,14 @@ export function SketchOverlay({ featureId, plane, initialSketchData, onFinish, o
             : ({toolState.snapPoint.x.toFixed(1)}, {toolState.snapPoint.y.toFixed(1)})
           </span>
         )}
+        {solverReport && solverReport.status !== 'ok' && (
+          <span
+            className={`sketch-solver-indicator solver-${solverReport.status}`}
+            title={`${solverReport.conflictingConstraintIds.length} conflicting constraint(s)`}
+          >
+            {solverReport.status === 'over-constrained' ? '⚠ Over-constrained' : '✕ Constraints cannot be solved'}
+          </span>
+        )}
         {sketchData && (
           <span className="sketch-info">
             {sketchData.entities.length} entities | {sketchData.profiles.length} profiles
@@ -3,6 +3,7 @@
  */
 
 import { useSketchStore } from '../../store/sketchStore';
+import type { PolygonMode } from '../../types/sketch';
 import { ChevronDownIcon, ChevronRightIcon } from '../icons/Icons';
 import './SketchPalette.css';
 
@@ -13,8 +14,13 @@ interface SketchPaletteProps {
 export function SketchPalette({ onFinish }: SketchPaletteProps) {
   const sketchData = useSketchStore(state => state.sketchData);
   const toolState = useSketchStore(state => state.toolState);
+  const degreesOfFreedom = useSketchStore(state => state.degreesOfFreedom);
   const displaySettings = useSketchStore(state => state.displaySettings);
   const toggleDisplaySetting = useSketchStore(state => state.toggleDisplaySetting);
+  const setPolygonSides = useSketchStore(state => state.setPolygonSides);
+  const setPolygonMode = useSketchStore(state => state.setPolygonMode);
+  const setFilletRadius = useSketchStore(state => state.setFilletRadius);
+  const setChamferDistance = useSketchStore(state => state.setChamferDistance);
 
   return (
     <div className="sketch-palette">
@@ -36,11 +42,20 @@ export function SketchPalette({ onFinish }: SketchPaletteProps) {
               {toolState.activeTool === 'select' ? 'Select' :
                toolState.activeTool === 'line' ? 'Line' :
                toolState.activeTool === 'rectangle' ? 'Rectangle' :
+               toolState.activeTool === 'threePointRectangle' ? '3-Point Rectangle' :
                toolState.activeTool === 'circle' ? 'Circle' :
                toolState.activeTool === 'arc' ? 'Arc' :
+               toolState.activeTool === 'ellipse' ? 'Ellipse' :
+               toolState.activeTool === 'ellipticalArc' ? 'Elliptical Arc' :
+               toolState.activeTool === 'polygon' ? 'Polygon' :
+               toolState.activeTool === 'slot' ? 'Slot' :
+               toolState.activeTool === 'spline' ? 'Spline' :
+               toolState.activeTool === 'controlSpline' ? 'Control Spline' :
                toolState.activeTool === 'point' ? 'Point' :
                toolState.activeTool === 'trim' ? 'Trim' :
-               toolState.activeTool === 'offset' ? 'Offset' : 'Tool'}
+               toolState.activeTool === 'offset' ? 'Offset' :
+               toolState.activeTool === 'fillet' ? 'Fillet' :
+               toolState.activeTool === 'chamfer' ? 'Chamfer' : 'Tool'}
             </span>
             <div className="feature-mode-icons">
               <button className="feature-mode-btn active" title="Standard mode">
@@ -55,6 +70,62 @@ export function SketchPalette({ onFinish }: SketchPaletteProps) {
               </button>
             </div>
           </div>
+          {toolState.activeTool === 'polygon' && (
+            <div className="grid-settings">
+              <div className="grid-setting-row">
+                <label htmlFor="polygon-sides">Sides</label>
+                <input
+                  id="polygon-sides"
+                  type="number"
+                  min={3}
+                  max={64}
+                  value={toolState.polygonSides}
+                  onChange={(e) => setPolygonSides(Number(e.target.value) || 3)}
+                />
+              </div>
+              <div className="grid-setting-row">
+                <label htmlFor="polygon-mode">Mode</label>
+                <select
+                  id="polygon-mode"
+                  value={toolState.polygonMode}
+                  onChange={(e) => setPolygonMode(e.target.value as PolygonMode)}
+                >
+                  <option value="inscribed">Inscribed</option>
+                  <option value="circumscribed">Circumscribed</option>
+                </select>
+              </div>
+            </div>
+          )}
+          {toolState.activeTool === 'fillet' && (
+            <div className="grid-settings">
+              <div className="grid-setting-row">
+                <label htmlFor="fillet-radius">Radius</label>
+                <input
+                  id="fillet-radius"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={toolState.filletRadius}
+                  onChange={(e) => setFilletRadius(Math.max(0, Number(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+          )}
+          {toolState.activeTool === 'chamfer' && (
+            <div className="grid-settings">
+              <div className="grid-setting-row">
+                <label htmlFor="chamfer-distance">Distance</label>
+                <input
+                  id="chamfer-distance"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={toolState.chamferDistance}
+                  onChange={(e) => setChamferDistance(Math.max(0, Number(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -172,6 +243,12 @@ export function SketchPalette({ onFinish }: SketchPaletteProps) {
             <span>Constraints:</span>
             <span>{sketchData.constraints.length}</span>
           </div>
+          {degreesOfFreedom && sketchData.entities.length > 0 && (
+            <div className={`stat-row ${degreesOfFreedom.total === 0 ? 'fully-constrained' : ''}`}>
+              <span>Degrees of Freedom:</span>
+              <span>{degreesOfFreedom.total === 0 ? 'Fully constrained' : degreesOfFreedom.total}</span>
+            </div>
+          )}
         </div>
       )}
 
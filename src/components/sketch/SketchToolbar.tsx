@@ -9,8 +9,15 @@ import {
   SelectIcon,
   LineIcon,
   RectangleIcon,
+  ThreePointRectangleIcon,
   CircleIcon,
   ArcIcon,
+  EllipseIcon,
+  EllipticalArcIcon,
+  PolygonIcon,
+  SlotIcon,
+  SplineIcon,
+  ControlSplineIcon,
   PointIcon,
   TrashIcon,
   ProfileIcon,
@@ -19,6 +26,8 @@ import {
   ConstructionIcon,
   TrimIcon,
   OffsetIcon,
+  FilletIcon,
+  ChamferIcon,
   DimensionIcon,
 } from '../icons/Icons';
 import './SketchToolbar.css';
@@ -37,6 +46,8 @@ export function SketchToolbar({ onFinish, onCancel }: SketchToolbarProps) {
   const toggleConstruction = useSketchStore(state => state.toggleConstruction);
   const sketchData = useSketchStore(state => state.sketchData);
   const isDrawing = useSketchStore(state => state.toolState.isDrawing);
+  const polygonMode = useSketchStore(state => state.toolState.polygonMode);
+  const cornerMessage = useSketchStore(state => state.toolState.cornerMessage);
 
   const handleToolSelect = useCallback((tool: SketchTool) => {
     setActiveTool(tool);
@@ -70,11 +81,20 @@ export function SketchToolbar({ onFinish, onCancel }: SketchToolbarProps) {
     { tool: 'select', icon: <SelectIcon size={18} color={activeTool === 'select' ? activeColor : iconColor} />, label: 'Select', shortcut: 'S' },
     { tool: 'line', icon: <LineIcon size={18} color={activeTool === 'line' ? activeColor : iconColor} />, label: 'Line', shortcut: 'L' },
     { tool: 'rectangle', icon: <RectangleIcon size={18} color={activeTool === 'rectangle' ? activeColor : iconColor} />, label: 'Rectangle', shortcut: 'R' },
+    { tool: 'threePointRectangle', icon: <ThreePointRectangleIcon size={18} color={activeTool === 'threePointRectangle' ? activeColor : iconColor} />, label: '3-Point Rectangle' },
     { tool: 'circle', icon: <CircleIcon size={18} color={activeTool === 'circle' ? activeColor : iconColor} />, label: 'Circle', shortcut: 'C' },
     { tool: 'arc', icon: <ArcIcon size={18} color={activeTool === 'arc' ? activeColor : iconColor} />, label: 'Arc', shortcut: 'A' },
+    { tool: 'ellipse', icon: <EllipseIcon size={18} color={activeTool === 'ellipse' ? activeColor : iconColor} />, label: 'Ellipse' },
+    { tool: 'ellipticalArc', icon: <EllipticalArcIcon size={18} color={activeTool === 'ellipticalArc' ? activeColor : iconColor} />, label: 'Elliptical Arc' },
+    { tool: 'polygon', icon: <PolygonIcon size={18} color={activeTool === 'polygon' ? activeColor : iconColor} />, label: 'Polygon' },
+    { tool: 'slot', icon: <SlotIcon size={18} color={activeTool === 'slot' ? activeColor : iconColor} />, label: 'Slot' },
+    { tool: 'spline', icon: <SplineIcon size={18} color={activeTool === 'spline' ? activeColor : iconColor} />, label: 'Spline' },
+    { tool: 'controlSpline', icon: <ControlSplineIcon size={18} color={activeTool === 'controlSpline' ? activeColor : iconColor} />, label: 'Control Spline' },
     { tool: 'point', icon: <PointIcon size={18} color={activeTool === 'point' ? activeColor : iconColor} />, label: 'Point', shortcut: 'P' },
     { tool: 'trim', icon: <TrimIcon size={18} color={activeTool === 'trim' ? activeColor : iconColor} />, label: 'Trim', shortcut: 'T' },
     { tool: 'offset', icon: <OffsetIcon size={18} color={activeTool === 'offset' ? activeColor : iconColor} />, label: 'Offset', shortcut: 'O' },
+    { tool: 'fillet', icon: <FilletIcon size={18} color={activeTool === 'fillet' ? activeColor : iconColor} />, label: 'Fillet' },
+    { tool: 'chamfer', icon: <ChamferIcon size={18} color={activeTool === 'chamfer' ? activeColor : iconColor} />, label: 'Chamfer' },
     { tool: 'dimension', icon: <DimensionIcon size={18} color={activeTool === 'dimension' ? activeColor : iconColor} />, label: 'Dimension', shortcut: 'D' },
   ];
 
@@ -143,6 +163,36 @@ export function SketchToolbar({ onFinish, onCancel }: SketchToolbarProps) {
           3-point arc: Click start, end, then point on arc
         </div>
       )}
+      {activeTool === 'threePointRectangle' && (
+        <div className="sketch-toolbar-hint">
+          3-point rectangle: Click two corners, then a point on the opposite side
+        </div>
+      )}
+      {activeTool === 'ellipse' && (
+        <div className="sketch-toolbar-hint">
+          Ellipse: Click center, axis end, then a point on the ellipse
+        </div>
+      )}
+      {activeTool === 'ellipticalArc' && (
+        <div className="sketch-toolbar-hint">
+          Elliptical arc: Click center, axis end, start, then end (counterclockwise)
+        </div>
+      )}
+      {activeTool === 'polygon' && (
+        <div className="sketch-toolbar-hint">
+          Drag from center to a {polygonMode === 'inscribed' ? 'corner' : 'side midpoint'}. Set sides and mode in the palette
+        </div>
+      )}
+      {activeTool === 'slot' && (
+        <div className="sketch-toolbar-hint">
+          Slot: Click both end centers, then a point on the side
+        </div>
+      )}
+      {(activeTool === 'spline' || activeTool === 'controlSpline') && (
+        <div className="sketch-toolbar-hint">
+          Click to add {activeTool === 'spline' ? 'fit' : 'control'} points, double-click or Esc to finish. Ends on a line or arc end join it, tangent if drawn nearly tangent
+        </div>
+      )}
       {activeTool === 'trim' && (
         <div className="sketch-toolbar-hint">
           Click on line segment to trim between intersections
@@ -153,9 +203,14 @@ export function SketchToolbar({ onFinish, onCancel }: SketchToolbarProps) {
           Click entity to select, then click to set offset direction
         </div>
       )}
+      {(activeTool === 'fillet' || activeTool === 'chamfer') && (
+        <div className={`sketch-toolbar-hint ${cornerMessage ? 'error' : ''}`}>
+          {cornerMessage ?? `Click near a corner where two lines or arcs meet to ${activeTool === 'fillet' ? 'round' : 'cut'} it. Set the ${activeTool === 'fillet' ? 'radius' : 'distance'} in the palette`}
+        </div>
+      )}
       {activeTool === 'dimension' && (
         <div className="sketch-toolbar-hint">
-          Click entity or two points to add/edit dimension constraint
+          Click entity or two points to add dimension. Double-click a value to edit. Shift+click circle for radius
         </div>
       )}
 
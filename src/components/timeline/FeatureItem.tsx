@@ -59,7 +59,13 @@ export function FeatureItem({ feature, isSelected, onSelect, onEdit }: FeatureIt
       case 'primitive': return '📦';
       case 'sketch': return '✏️';
       case 'extrude': return '⬆️';
+      case 'revolve': return '🌀';
       case 'boolean': return '🔗';
+      case 'fillet': return '◜';
+      case 'chamfer': return '◸';
+      case 'plane': return '▱';
+      case 'axis': return '↕️';
+      case 'point': return '•';
       default: return '📄';
     }
   };
@@ -11,7 +11,13 @@ import {
   SphereIcon,
   SketchIcon,
   ExtrudeIcon,
+  RevolveIcon,
   BooleanUnionIcon,
+  FilletIcon,
+  ChamferIcon,
+  PlaneIcon,
+  AxisIcon,
+  PointIcon,
   OriginIcon,
   StepBackIcon,
   StepForwardIcon,
@@ -76,7 +82,13 @@ export function HorizontalTimeline({ onEditFeature }: HorizontalTimelineProps) {
       case 'primitive': return '#4fc3f7';
       case 'sketch': return '#81c784';
       case 'extrude': return '#ffb74d';
+      case 'revolve': return '#ff8a65';
       case 'boolean': return '#ce93d8';
+      case 'fillet':
+      case 'chamfer': return '#4db6ac';
+      case 'plane':
+      case 'axis':
+      case 'point': return '#d9a441';
       default: return '#90a4ae';
     }
   };
@@ -97,7 +109,13 @@ export function HorizontalTimeline({ onEditFeature }: HorizontalTimelineProps) {
     switch (feature.type) {
       case 'sketch': return <SketchIcon {...props} />;
       case 'extrude': return <ExtrudeIcon {...props} />;
+      case 'revolve': return <RevolveIcon {...props} />;
       case 'boolean': return <BooleanUnionIcon {...props} />;
+      case 'fillet': return <FilletIcon {...props} />;
+      case 'chamfer': return <ChamferIcon {...props} />;
+      case 'plane': return <PlaneIcon {...props} />;
+      case 'axis': return <AxisIcon {...props} />;
+      case 'point': return <PointIcon {...props} />;
       default: return <BoxIcon {...props} />;
     }
   };
@@ -68,7 +68,7 @@ export function TimelinePanel({
 
   // Check if we have at least 2 bodies for boolean
   const bodyCount = document.features.filter(
-    f => !f.suppressed && (f.type === 'primitive' || f.type === 'extrude' || f.type === 'boolean')
+    f => !f.suppressed && (f.type === 'primitive' || f.type === 'extrude' || f.type === 'revolve' || f.type === 'boolean')
   ).length;
 
   return (
@@ -2,8 +2,21 @@
  * Toolbar - Fusion 360 style top toolbar with categorized tools
  */
 
-import { useState, useCallback } from 'react';
-import { useDocumentStore, createPrimitiveFeature, createSketchFeature } from '../../store/documentStore';
+import { useState, useCallback, useEffect } from 'react';
+import {
+  useDocumentStore,
+  createPrimitiveFeature,
+  createSketchFeature,
+  createFaceSketchFeature,
+  createPlaneSketchFeature,
+} from '../../store/documentStore';
+import { useSketchStore } from '../../store/sketchStore';
+import { useSceneStore } from '../../store/sceneStore';
+import type { ViewportManager } from '../../viewport/ViewportManager';
+import type { ConstructionKind } from '../dialogs/ConstructionDialog';
+import type { BlendKind } from '../dialogs/FilletDialog';
+import { getFacePlane } from '../../utils/sketchPlane';
+import { isCurvedFacet } from '../../utils/edgePicking';
 import {
   SaveIcon,
   FolderOpenIcon,
@@ -14,6 +27,7 @@ import {
   CylinderIcon,
   SphereIcon,
   ExtrudeIcon,
+  RevolveIcon,
   BooleanUnionIcon,
   SketchIcon,
   PlaneIcon,
@@ -21,13 +35,19 @@ import {
   ChamferIcon,
   ShellIcon,
   AxisIcon,
+  PointIcon,
+  ParametersIcon,
 } from '../icons/Icons';
 import './Toolbar.css';
 
 interface ToolbarProps {
   onStartSketch: () => void;
   onOpenExtrudeDialog: () => void;
+  onOpenRevolveDialog: () => void;
   onOpenBooleanDialog: () => void;
+  onOpenConstructionDialog: (kind: ConstructionKind, method?: string) => void;
+  onOpenFilletDialog: (kind: BlendKind) => void;
+  onOpenParameterTable: () => void;
   onSaveDocument?: () => void;
   onLoadDocument?: () => void;
   onExportSTL?: () => void;
@@ -38,7 +58,11 @@ type ToolCategory = 'solid' | 'sketch' | 'modify' | 'assemble' | 'construct';
 export function Toolbar({
   onStartSketch,
   onOpenExtrudeDialog,
+  onOpenRevolveDialog,
   onOpenBooleanDialog,
+  onOpenConstructionDialog,
+  onOpenFilletDialog,
+  onOpenParameterTable,
   onSaveDocument,
   onLoadDocument,
   onExportSTL,
@@ -46,24 +70,86 @@ export function Toolbar({
   const [activeCategory, setActiveCategory] = useState<ToolCategory>('solid');
   const addFeature = useDocumentStore(state => state.addFeature);
   const document = useDocumentStore(state => state.document);
+  const undoDocument = useDocumentStore(state => state.undo);
+  const redoDocument = useDocumentStore(state => state.redo);
+  const documentUndoLabel = useDocumentStore(state => state.undoStack[state.undoStack.length - 1]?.label);
+  const documentRedoLabel = useDocumentStore(state => state.redoStack[state.redoStack.length - 1]?.label);
+
+  // In sketch mode undo/redo act on the sketch's own history
+  const isSketchMode = useSketchStore(state => state.isSketchMode);
+  const undoSketch = useSketchStore(state => state.undo);
+  const redoSketch = useSketchStore(state => state.redo);
+  const sketchUndoLabel = useSketchStore(state => state.undoStack[state.undoStack.length - 1]?.label);
+  const sketchRedoLabel = useSketchStore(state => state.redoStack[state.redoStack.length - 1]?.label);
+
+  const undo = isSketchMode ? undoSketch : undoDocument;
+  const redo = isSketchMode ? redoSketch : redoDocument;
+  const undoLabel = isSketchMode ? sketchUndoLabel : documentUndoLabel;
+  const redoLabel = isSketchMode ? sketchRedoLabel : documentRedoLabel;
 
   const handleAddPrimitive = useCallback((shape: 'box' | 'cylinder' | 'sphere') => {
     const feature = createPrimitiveFeature(shape);
     addFeature(feature);
   }, [addFeature]);
 
+  // New sketches go on the selected construction plane, or the XY plane
   const handleNewSketch = useCallback(() => {
-    const feature = createSketchFeature('XY', 0);
+    const { selectedFeatureId, construction } = useDocumentStore.getState();
+    const geometry = selectedFeatureId ? construction.get(selectedFeatureId) : undefined;
+    const feature = selectedFeatureId && geometry?.type === 'plane'
+      ? createPlaneSketchFeature(selectedFeatureId, geometry.plane)
+      : createSketchFeature('XY', 0);
     addFeature(feature);
     onStartSketch();
   }, [addFeature, onStartSketch]);
 
+  // Sketch on a face: uses the selected face, or waits for one to be clicked
+  const [isPickingFace, setIsPickingFace] = useState(false);
+
+  const handleFaceSketch = useCallback((bodyId: string, faceIndex: number) => {
+    const body = useDocumentStore.getState().bodies.get(bodyId);
+    const face = body?.faces[body.triangleFaces[faceIndex]];
+    // Named faces are groups of coplanar triangles, but curved surfaces are
+    // made of many such facets and cannot hold a sketch
+    if (!body || !face || isCurvedFacet(body, faceIndex)) return false;
+
+    const [nx, ny, nz] = face.signature.normal;
+    const [px, py, pz] = face.signature.centroid;
+    const plane = getFacePlane({ x: nx, y: ny, z: nz }, { x: px, y: py, z: pz });
+    addFeature(createFaceSketchFeature({ type: 'face', featureId: body.originFeatureId, face }, plane));
+    setIsPickingFace(false);
+    onStartSketch();
+    return true;
+  }, [addFeature, onStartSketch]);
+
+  const handleSketchOnFace = useCallback(() => {
+    const selection = useSceneStore.getState().selectedItems[0];
+    if (selection?.faceIndex !== undefined && handleFaceSketch(selection.objectId, selection.faceIndex)) {
+      return;
+    }
+    setIsPickingFace(picking => !picking);
+  }, [handleFaceSketch]);
+
+  useEffect(() => {
+    const viewport = (window as unknown as { viewport: ViewportManager }).viewport;
+    if (!viewport || !isPickingFace) return;
+
+    viewport.onPick = (raycaster) => {
+      const hit = viewport.raycastBodies(raycaster);
+      return !!hit && hit.faceIndex >= 0 && handleFaceSketch(hit.objectId, hit.faceIndex);
+    };
+
+    return () => {
+      viewport.onPick = null;
+    };
+  }, [isPickingFace, handleFaceSketch]);
+
   // Check capabilities
   const hasSketchesWithProfiles = document.features.some(
     f => f.type === 'sketch' && !f.suppressed && f.sketchData?.profiles?.length
   );
   const bodyCount = document.features.filter(
-    f => !f.suppressed && (f.type === 'primitive' || f.type === 'extrude' || f.type === 'boolean')
+    f => !f.suppressed && (f.type === 'primitive' || f.type === 'extrude' || f.type === 'revolve' || f.type === 'boolean')
   ).length;
 
   return (
@@ -87,15 +173,25 @@ export function Toolbar({
         <button
           className="toolbar-btn file-btn"
           onClick={() => onExportSTL?.()}
-          title="Export STL"
+          title="Export"
         >
           <ExportIcon size={18} />
         </button>
         <div className="toolbar-divider" />
-        <button className="toolbar-btn file-btn" title="Undo (Ctrl+Z)" disabled>
+        <button
+          className="toolbar-btn file-btn"
+          onClick={undo}
+          disabled={!undoLabel}
+          title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+        >
           <UndoIcon size={18} />
         </button>
-        <button className="toolbar-btn file-btn" title="Redo (Ctrl+Y)" disabled>
+        <button
+          className="toolbar-btn file-btn"
+          onClick={redo}
+          disabled={!redoLabel}
+          title={redoLabel ? `Redo ${redoLabel} (Ctrl+Y)` : 'Redo (Ctrl+Y)'}
+        >
           <RedoIcon size={18} />
         </button>
         <div className="toolbar-divider" />
@@ -151,7 +247,7 @@ export function Toolbar({
               </div>
             </div>
             <div className="tool-group">
-              <span className="tool-group-label">Extrude</span>
+              <span className="tool-group-label">Form</span>
               <div className="tool-group-buttons">
                 <button
                   className="toolbar-btn tool-btn"
@@ -162,6 +258,15 @@ export function Toolbar({
                   <ExtrudeIcon size={20} />
                   <span className="btn-label">Extrude</span>
                 </button>
+                <button
+                  className="toolbar-btn tool-btn"
+                  onClick={onOpenRevolveDialog}
+                  disabled={!hasSketchesWithProfiles}
+                  title="Revolve"
+                >
+                  <RevolveIcon size={20} />
+                  <span className="btn-label">Revolve</span>
+                </button>
               </div>
             </div>
             <div className="tool-group">
@@ -219,6 +324,15 @@ export function Toolbar({
                   <PlaneIcon size={20} />
                   <span className="btn-label">YZ Plane</span>
                 </button>
+                <button
+                  className={`toolbar-btn tool-btn ${isPickingFace ? 'active' : ''}`}
+                  onClick={handleSketchOnFace}
+                  disabled={bodyCount === 0}
+                  title={isPickingFace ? 'Click a planar face to sketch on' : 'Sketch on Face'}
+                >
+                  <PlaneIcon size={20} />
+                  <span className="btn-label">Face</span>
+                </button>
               </div>
             </div>
           </>
@@ -229,11 +343,21 @@ export function Toolbar({
             <div className="tool-group">
               <span className="tool-group-label">Modify</span>
               <div className="tool-group-buttons">
-                <button className="toolbar-btn tool-btn" title="Fillet (Coming Soon)" disabled>
+                <button
+                  className="toolbar-btn tool-btn"
+                  onClick={() => onOpenFilletDialog('fillet')}
+                  title="Fillet"
+                  disabled={bodyCount === 0}
+                >
                   <FilletIcon size={20} />
                   <span className="btn-label">Fillet</span>
                 </button>
-                <button className="toolbar-btn tool-btn" title="Chamfer (Coming Soon)" disabled>
+                <button
+                  className="toolbar-btn tool-btn"
+                  onClick={() => onOpenFilletDialog('chamfer')}
+                  title="Chamfer"
+                  disabled={bodyCount === 0}
+                >
                   <ChamferIcon size={20} />
                   <span className="btn-label">Chamfer</span>
                 </button>
@@ -243,21 +367,65 @@ export function Toolbar({
                 </button>
               </div>
             </div>
+            <div className="tool-group">
+              <span className="tool-group-label">Parameters</span>
+              <div className="tool-group-buttons">
+                <button className="toolbar-btn tool-btn" onClick={onOpenParameterTable} title="Change Parameters">
+                  <ParametersIcon size={20} />
+                  <span className="btn-label">Parameters</span>
+                </button>
+              </div>
+            </div>
           </>
         )}
 
         {activeCategory === 'construct' && (
           <>
             <div className="tool-group">
-              <span className="tool-group-label">Work Features</span>
+              <span className="tool-group-label">Planes</span>
               <div className="tool-group-buttons">
-                <button className="toolbar-btn tool-btn" title="Offset Plane (Coming Soon)" disabled>
+                <button className="toolbar-btn tool-btn" onClick={() => onOpenConstructionDialog('plane', 'offset')} title="Offset Plane">
+                  <PlaneIcon size={20} />
+                  <span className="btn-label">Offset</span>
+                </button>
+                <button className="toolbar-btn tool-btn" onClick={() => onOpenConstructionDialog('plane', 'angle')} title="Plane at Angle">
+                  <PlaneIcon size={20} />
+                  <span className="btn-label">At Angle</span>
+                </button>
+                <button className="toolbar-btn tool-btn" onClick={() => onOpenConstructionDialog('plane', 'midplane')} title="Midplane">
+                  <PlaneIcon size={20} />
+                  <span className="btn-label">Midplane</span>
+                </button>
+                <button className="toolbar-btn tool-btn" onClick={() => onOpenConstructionDialog('plane', 'threePoints')} title="Plane Through Three Points">
                   <PlaneIcon size={20} />
-                  <span className="btn-label">Offset Plane</span>
+                  <span className="btn-label">3 Points</span>
                 </button>
-                <button className="toolbar-btn tool-btn" title="Axis (Coming Soon)" disabled>
+              </div>
+            </div>
+            <div className="tool-group">
+              <span className="tool-group-label">Axes</span>
+              <div className="tool-group-buttons">
+                <button className="toolbar-btn tool-btn" onClick={() => onOpenConstructionDialog('axis', 'twoPoints')} title="Axis Through Two Points">
+                  <AxisIcon size={20} />
+                  <span className="btn-label">2 Points</span>
+                </button>
+                <button
+                  className="toolbar-btn tool-btn"
+                  onClick={() => onOpenConstructionDialog('axis', 'edge')}
+                  disabled={bodyCount === 0}
+                  title="Axis Along Edge"
+                >
                   <AxisIcon size={20} />
-                  <span className="btn-label">Axis</span>
+                  <span className="btn-label">Edge</span>
+                </button>
+              </div>
+            </div>
+            <div className="tool-group">
+              <span className="tool-group-label">Points</span>
+              <div className="tool-group-buttons">
+                <button className="toolbar-btn tool-btn" onClick={() => onOpenConstructionDialog('point')} title="Point">
+                  <PointIcon size={20} />
+                  <span className="btn-label">Point</span>
                 </button>
               </div>
             </div>
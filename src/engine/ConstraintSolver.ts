@@ -0,0 +1,1042 @@
+/**
+ * ConstraintSolver - Numeric geometric constraint solver for sketches
+ *
+ * Maps every sketch entity onto a vector of scalar parameters, turns each
+ * constraint into one or more residual equations and drives the residuals
+ * to zero with a damped minimum-norm Gauss-Newton (Levenberg-Marquardt)
+ * iteration. The minimum-norm step keeps under-constrained geometry as
+ * close as possible to where the user drew it.
+ */
+
+import type {
+  SketchEntity,
+  SplineEntity,
+  Constraint,
+  BinaryConstraint,
+  DimensionConstraint,
+  Point2D,
+} from '../types/sketch';
+import { getSplineCurve, splineDerivative } from './Spline';
+
+// ============ TYPES ============
+
+export type SolverStatus = 'ok' | 'over-constrained' | 'inconsistent';
+
+export interface SolverReport {
+  status: SolverStatus;
+  converged: boolean;
+  iterations: number;
+  maxResidual: number;
+  // Constraints that are redundant (over-constrained) or cannot be satisfied
+  conflictingConstraintIds: string[];
+}
+
+export interface SolveResult extends SolverReport {
+  entities: SketchEntity[];
+}
+
+export interface DofAnalysis {
+  // Remaining degrees of freedom of the whole sketch
+  total: number;
+  // Remaining degrees of freedom per entity id (0 = fully constrained)
+  entities: Record<string, number>;
+}
+
+// ============ SOLVER SETTINGS ============
+
+const MAX_ITERATIONS = 100;
+const RESIDUAL_TOLERANCE = 1e-7;
+const RANK_TOLERANCE = 1e-6;
+const FINITE_DIFFERENCE_STEP = 1e-6;
+const EPSILON = 1e-12;
+
+// ============ SYSTEM TYPES ============
+
+type Vector = Float64Array;
+
+interface PointRef {
+  get: (v: Vector) => Point2D;
+  // Parameter indices when the point maps directly onto parameters
+  direct: [number, number] | null;
+}
+
+interface Equation {
+  constraintId: string;
+  evaluate: (v: Vector) => number;
+}
+
+interface ConstraintSystem {
+  values: Vector;
+  free: boolean[];
+  equations: Equation[];
+  // Parameter index range owned by each entity
+  ranges: Map<string, { offset: number; count: number }>;
+}
+
+// ============ PUBLIC API ============
+
+/**
+ * Solve the constraints of a sketch.
+ *
+ * Returns updated copies of the entities together with a report. When the
+ * system cannot be satisfied the original entities are returned unchanged.
+ */
+export function solveConstraints(entities: SketchEntity[], constraints: Constraint[]): SolveResult {
+  const system = buildSystem(entities, constraints);
+
+  if (system.equations.length === 0) {
+    return {
+      entities,
+      status: 'ok',
+      converged: true,
+      iterations: 0,
+      maxResidual: 0,
+      conflictingConstraintIds: [],
+    };
+  }
+
+  const { iterations, maxResidual } = iterate(system);
+  const converged = maxResidual < RESIDUAL_TOLERANCE;
+
+  // Rows of the Jacobian that are linearly dependent on earlier rows
+  // belong to redundant constraints
+  const jacobian = computeJacobian(system, system.values);
+  const dependentRows = findDependentRows(jacobian);
+  const redundant = new Set<string>();
+  for (const row of dependentRows) {
+    redundant.add(system.equations[row].constraintId);
+  }
+
+  if (!converged) {
+    // Prefer blaming the dependent constraints; fall back to every
+    // constraint that is still unsatisfied
+    const unsatisfied = new Set<string>(redundant);
+    if (unsatisfied.size === 0) {
+      const residuals = evaluateResiduals(system, system.values);
+      residuals.forEach((r, i) => {
+        if (Math.abs(r) >= RESIDUAL_TOLERANCE) {
+          unsatisfied.add(system.equations[i].constraintId);
+        }
+      });
+    }
+
+    return {
+      entities,
+      status: 'inconsistent',
+      converged,
+      iterations,
+      maxResidual,
+      conflictingConstraintIds: Array.from(unsatisfied),
+    };
+  }
+
+  return {
+    entities: writeBack(entities, system),
+    status: redundant.size > 0 ? 'over-constrained' : 'ok',
+    converged,
+    iterations,
+    maxResidual,
+    conflictingConstraintIds: Array.from(redundant),
+  };
+}
+
+/**
+ * Degrees-of-freedom analysis at the current geometry.
+ *
+ * The sketch DOF is the number of free parameters minus the rank of the
+ * constraint Jacobian. An entity's DOF is how many independent directions
+ * its own parameters can still move in, i.e. how much the rank grows when
+ * its parameters are pinned on top of the existing constraints.
+ */
+export function analyzeDegreesOfFreedom(entities: SketchEntity[], constraints: Constraint[]): DofAnalysis {
+  const system = buildSystem(entities, constraints);
+  const freeIndices = getFreeIndices(system);
+  const columns = new Map(freeIndices.map((paramIndex, column) => [paramIndex, column]));
+
+  const basis: Float64Array[] = [];
+  if (system.equations.length > 0) {
+    for (const row of computeJacobian(system, system.values)) {
+      extendBasis(basis, row);
+    }
+  }
+  const rank = basis.length;
+
+  const analysis: DofAnalysis = {
+    total: freeIndices.length - rank,
+    entities: {},
+  };
+
+  for (const entity of entities) {
+    const { offset, count } = system.ranges.get(entity.id)!;
+    const pinned = [...basis];
+
+    for (let i = offset; i < offset + count; i++) {
+      const column = columns.get(i);
+      if (column === undefined) continue;
+      const unit = new Float64Array(freeIndices.length);
+      unit[column] = 1;
+      extendBasis(pinned, unit);
+    }
+
+    analysis.entities[entity.id] = pinned.length - rank;
+  }
+
+  return analysis;
+}
+
+/**
+ * Degrees-of-freedom analysis after adding an entity no constraint refers to
+ * yet. All its parameters are free and independent of the rest, so they add
+ * to the previous analysis without re-ranking the Jacobian.
+ */
+export function addUnconstrainedEntity(analysis: DofAnalysis, entity: SketchEntity): DofAnalysis {
+  const count = readParameters(entity).length;
+  return {
+    total: analysis.total + count,
+    entities: { ...analysis.entities, [entity.id]: count },
+  };
+}
+
+/**
+ * Current measured value of a dimension (sketch units, or degrees for angles).
+ * Evaluates the dimension's own equation with a zero target so the measurement
+ * matches exactly what the solver drives. Returns null if the dimension does
+ * not apply to the referenced geometry.
+ */
+export function measureDimension(constraint: DimensionConstraint, entities: SketchEntity[]): number | null {
+  const system = buildSystem(entities, []);
+  const entityMap = new Map(entities.map(e => [e.id, e]));
+
+  addConstraintEquations(system, { ...constraint, value: 0 }, entityMap);
+  if (system.equations.length !== 1) return null;
+
+  const measured = system.equations[0].evaluate(system.values);
+  return constraint.type === 'angle' ? (Math.abs(measured) * 180) / Math.PI : measured;
+}
+
+// ============ SYSTEM CONSTRUCTION ============
+
+/**
+ * Read an entity's parameters in solver order
+ */
+function readParameters(entity: SketchEntity): number[] {
+  switch (entity.type) {
+    case 'point':
+      return [entity.position.x, entity.position.y];
+    case 'line':
+      return [entity.start.x, entity.start.y, entity.end.x, entity.end.y];
+    case 'rectangle':
+      return [entity.corner1.x, entity.corner1.y, entity.corner2.x, entity.corner2.y];
+    case 'circle':
+      return [entity.center.x, entity.center.y, entity.radius];
+    case 'arc':
+      return [entity.center.x, entity.center.y, entity.radius, entity.startAngle, entity.endAngle];
+    case 'ellipse':
+      return [entity.center.x, entity.center.y, entity.majorRadius, entity.minorRadius, entity.rotation];
+    case 'ellipticalArc':
+      return [
+        entity.center.x, entity.center.y, entity.majorRadius, entity.minorRadius, entity.rotation,
+        entity.startAngle, entity.endAngle,
+      ];
+    case 'spline':
+      return entity.points.flatMap(p => [p.x, p.y]);
+  }
+}
+
+function buildSystem(entities: SketchEntity[], constraints: Constraint[]): ConstraintSystem {
+  const ranges = new Map<string, { offset: number; count: number }>();
+  const initial: number[] = [];
+
+  for (const entity of entities) {
+    const params = readParameters(entity);
+    ranges.set(entity.id, { offset: initial.length, count: params.length });
+    initial.push(...params);
+  }
+
+  const system: ConstraintSystem = {
+    values: Float64Array.from(initial),
+    free: initial.map(() => true),
+    equations: [],
+    ranges,
+  };
+
+  const entityMap = new Map(entities.map(e => [e.id, e]));
+
+  for (const constraint of constraints) {
+    addConstraintEquations(system, constraint, entityMap);
+  }
+
+  return system;
+}
+
+/**
+ * Resolve a point on an entity.
+ *
+ * pointIndex convention:
+ * - point: 0 = position
+ * - line: 0 = start, 1 = end
+ * - rectangle: 0 = corner1, 1 = (corner2.x, corner1.y), 2 = corner2, 3 = (corner1.x, corner2.y)
+ * - circle: 0 = center
+ * - arc: 0 = start, 1 = end, 2 = center
+ * - spline: i = i-th fit or control point
+ */
+function resolvePoint(
+  system: ConstraintSystem,
+  entity: SketchEntity,
+  pointIndex: number | undefined
+): PointRef | null {
+  const o = system.ranges.get(entity.id)!.offset;
+  const direct = (ix: number, iy: number): PointRef => ({
+    get: (v) => ({ x: v[ix], y: v[iy] }),
+    direct: [ix, iy],
+  });
+
+  switch (entity.type) {
+    case 'point':
+      return direct(o, o + 1);
+    case 'line':
+      if (pointIndex === 0) return direct(o, o + 1);
+      if (pointIndex === 1) return direct(o + 2, o + 3);
+      return null;
+    case 'rectangle':
+      if (pointIndex === 0) return direct(o, o + 1);
+      if (pointIndex === 1) return direct(o + 2, o + 1);
+      if (pointIndex === 2) return direct(o + 2, o + 3);
+      if (pointIndex === 3) return direct(o, o + 3);
+      return null;
+    case 'circle':
+      return pointIndex === 0 ? direct(o, o + 1) : null;
+    case 'arc':
+      if (pointIndex === 2) return direct(o, o + 1);
+      if (pointIndex === 0 || pointIndex === 1) {
+        const angleIndex = pointIndex === 0 ? o + 3 : o + 4;
+        return {
+          get: (v) => ({
+            x: v[o] + v[o + 2] * Math.cos(v[angleIndex]),
+            y: v[o + 1] + v[o + 2] * Math.sin(v[angleIndex]),
+          }),
+          direct: null,
+        };
+      }
+      return null;
+    case 'ellipse':
+      return pointIndex === 0 ? direct(o, o + 1) : null;
+    case 'ellipticalArc':
+      if (pointIndex === 2) return direct(o, o + 1);
+      if (pointIndex === 0 || pointIndex === 1) {
+        const angleIndex = pointIndex === 0 ? o + 5 : o + 6;
+        return {
+          get: (v) => {
+            const u = v[o + 2] * Math.cos(v[angleIndex]);
+            const w = v[o + 3] * Math.sin(v[angleIndex]);
+            return {
+              x: v[o] + u * Math.cos(v[o + 4]) - w * Math.sin(v[o + 4]),
+              y: v[o + 1] + u * Math.sin(v[o + 4]) + w * Math.cos(v[o + 4]),
+            };
+          },
+          direct: null,
+        };
+      }
+      return null;
+    case 'spline':
+      return pointIndex !== undefined && pointIndex >= 0 && pointIndex < entity.points.length
+        ? direct(o + pointIndex * 2, o + pointIndex * 2 + 1)
+        : null;
+  }
+}
+
+/**
+ * Direction vector of a line entity
+ */
+function lineDirection(system: ConstraintSystem, entity: SketchEntity): ((v: Vector) => Point2D) | null {
+  if (entity.type !== 'line') return null;
+  const o = system.ranges.get(entity.id)!.offset;
+  return (v) => ({ x: v[o + 2] - v[o], y: v[o + 3] - v[o + 1] });
+}
+
+/**
+ * Center and radius accessors for circles and arcs
+ */
+function roundGeometry(
+  system: ConstraintSystem,
+  entity: SketchEntity
+): { center: (v: Vector) => Point2D; radius: (v: Vector) => number; radiusIndex: number } | null {
+  if (entity.type !== 'circle' && entity.type !== 'arc') return null;
+  const o = system.ranges.get(entity.id)!.offset;
+  return {
+    center: (v) => ({ x: v[o], y: v[o + 1] }),
+    radius: (v) => v[o + 2],
+    radiusIndex: o + 2,
+  };
+}
+
+/**
+ * Signed distance from a point to the infinite line through a line entity
+ */
+function signedLineDistance(system: ConstraintSystem, line: SketchEntity): ((v: Vector, p: Point2D) => number) {
+  const o = system.ranges.get(line.id)!.offset;
+  return (v, p) => {
+    const dx = v[o + 2] - v[o];
+    const dy = v[o + 3] - v[o + 1];
+    const length = Math.sqrt(dx * dx + dy * dy) + EPSILON;
+    return (dx * (p.y - v[o + 1]) - dy * (p.x - v[o])) / length;
+  };
+}
+
+/**
+ * Translate a constraint into residual equations on the system
+ */
+function addConstraintEquations(
+  system: ConstraintSystem,
+  constraint: Constraint,
+  entityMap: Map<string, SketchEntity>
+): void {
+  const push = (evaluate: (v: Vector) => number) => {
+    system.equations.push({ constraintId: constraint.id, evaluate });
+  };
+
+  switch (constraint.type) {
+    case 'horizontal':
+    case 'vertical': {
+      const entity = entityMap.get(constraint.entityId);
+      const dir = entity && lineDirection(system, entity);
+      if (!dir) return;
+      if (constraint.type === 'horizontal') {
+        push((v) => dir(v).y);
+      } else {
+        push((v) => dir(v).x);
+      }
+      return;
+    }
+
+    case 'fixed': {
+      const entity = entityMap.get(constraint.entityId);
+      if (!entity) return;
+      const range = system.ranges.get(entity.id)!;
+
+      if (constraint.pointIndex === undefined) {
+        for (let i = range.offset; i < range.offset + range.count; i++) {
+          system.free[i] = false;
+        }
+        return;
+      }
+
+      const point = resolvePoint(system, entity, constraint.pointIndex);
+      if (!point) return;
+      if (point.direct) {
+        system.free[point.direct[0]] = false;
+        system.free[point.direct[1]] = false;
+      } else {
+        // Computed points (arc ends) are pinned to their current location
+        const target = point.get(system.values);
+        push((v) => point.get(v).x - target.x);
+        push((v) => point.get(v).y - target.y);
+      }
+      return;
+    }
+
+    case 'coincident': {
+      const e1 = entityMap.get(constraint.entityId1);
+      const e2 = entityMap.get(constraint.entityId2);
+      if (!e1 || !e2) return;
+
+      const p1 = resolvePoint(system, e1, constraint.pointIndex1);
+      const p2 = resolvePoint(system, e2, constraint.pointIndex2);
+
+      if (p1 && p2) {
+        push((v) => p1.get(v).x - p2.get(v).x);
+        push((v) => p1.get(v).y - p2.get(v).y);
+        return;
+      }
+
+      // Point on curve
+      const point = p1 ?? p2;
+      const curve = p1 ? e2 : e1;
+      if (!point) return;
+      if (curve.type === 'line') {
+        const dist = signedLineDistance(system, curve);
+        push((v) => dist(v, point.get(v)));
+      } else {
+        const round = roundGeometry(system, curve);
+        if (!round) return;
+        push((v) => {
+          const p = point.get(v);
+          const c = round.center(v);
+          return Math.hypot(p.x - c.x, p.y - c.y) - round.radius(v);
+        });
+      }
+      return;
+    }
+
+    case 'parallel':
+    case 'perpendicular': {
+      const e1 = entityMap.get(constraint.entityId1);
+      const e2 = entityMap.get(constraint.entityId2);
+      const d1 = e1 && lineDirection(system, e1);
+      const d2 = e2 && lineDirection(system, e2);
+      if (!d1 || !d2) return;
+
+      push((v) => {
+        const a = d1(v);
+        const b = d2(v);
+        const norm = Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y) + EPSILON;
+        return constraint.type === 'parallel'
+          ? (a.x * b.y - a.y * b.x) / norm
+          : (a.x * b.x + a.y * b.y) / norm;
+      });
+      return;
+    }
+
+    case 'equal': {
+      const e1 = entityMap.get(constraint.entityId1);
+      const e2 = entityMap.get(constraint.entityId2);
+      if (!e1 || !e2) return;
+
+      const d1 = lineDirection(system, e1);
+      const d2 = lineDirection(system, e2);
+      if (d1 && d2) {
+        push((v) => {
+          const a = d1(v);
+          const b = d2(v);
+          return Math.hypot(a.x, a.y) - Math.hypot(b.x, b.y);
+        });
+        return;
+      }
+
+      const r1 = roundGeometry(system, e1);
+      const r2 = roundGeometry(system, e2);
+      if (r1 && r2) {
+        push((v) => r1.radius(v) - r2.radius(v));
+      }
+      return;
+    }
+
+    case 'tangent': {
+      const e1 = entityMap.get(constraint.entityId1);
+      const e2 = entityMap.get(constraint.entityId2);
+      if (!e1 || !e2) return;
+
+      if (e1.type === 'spline' || e2.type === 'spline') {
+        addSplineTangentEquation(system, constraint, e1, e2, push);
+        return;
+      }
+
+      const line = e1.type === 'line' ? e1 : e2.type === 'line' ? e2 : null;
+      const other = line === e2 ? e1 : e2;
+      const round = roundGeometry(system, other);
+      if (!round) return;
+
+      if (line) {
+        // At a named arc end (where the two meet) the line runs across the
+        // radius there; the distance form below has a double root at such a
+        // touching point, which leaves the solver without a gradient
+        const endIndex = other === e1 ? constraint.pointIndex1 : constraint.pointIndex2;
+        const end = other.type === 'arc' && (endIndex === 0 || endIndex === 1)
+          ? resolvePoint(system, other, endIndex)
+          : null;
+        if (end) {
+          const dir = lineDirection(system, line)!;
+          push((v) => {
+            const d = dir(v);
+            const p = end.get(v);
+            const c = round.center(v);
+            const r = { x: p.x - c.x, y: p.y - c.y };
+            return (d.x * r.x + d.y * r.y) / (Math.hypot(d.x, d.y) * Math.hypot(r.x, r.y) + EPSILON);
+          });
+          return;
+        }
+
+        const dist = signedLineDistance(system, line);
+        push((v) => Math.abs(dist(v, round.center(v))) - round.radius(v));
+        return;
+      }
+
+      const r1 = roundGeometry(system, e1)!;
+
+      // Circle/arc pair meeting at a named arc end: both radii there lie on
+      // one line (the center distance form has a double root at that point)
+      const meeting = e1.type === 'arc' && (constraint.pointIndex1 === 0 || constraint.pointIndex1 === 1)
+        ? resolvePoint(system, e1, constraint.pointIndex1)
+        : e2.type === 'arc' && (constraint.pointIndex2 === 0 || constraint.pointIndex2 === 1)
+          ? resolvePoint(system, e2, constraint.pointIndex2)
+          : null;
+      if (meeting) {
+        push((v) => {
+          const p = meeting.get(v);
+          const a = r1.center(v);
+          const b = round.center(v);
+          const ra = { x: p.x - a.x, y: p.y - a.y };
+          const rb = { x: p.x - b.x, y: p.y - b.y };
+          return (ra.x * rb.y - ra.y * rb.x) / (Math.hypot(ra.x, ra.y) * Math.hypot(rb.x, rb.y) + EPSILON);
+        });
+        return;
+      }
+
+      // Circle/arc pair: keep whichever tangency (external or internal) is closest now
+      const centerDistance = (v: Vector) => {
+        const a = r1.center(v);
+        const b = round.center(v);
+        return Math.hypot(a.x - b.x, a.y - b.y);
+      };
+      const current = centerDistance(system.values);
+      const external = Math.abs(current - (r1.radius(system.values) + round.radius(system.values)));
+      const internal = Math.abs(current - Math.abs(r1.radius(system.values) - round.radius(system.values)));
+      if (external <= internal) {
+        push((v) => centerDistance(v) - (r1.radius(v) + round.radius(v)));
+      } else {
+        push((v) => centerDistance(v) - Math.abs(r1.radius(v) - round.radius(v)));
+      }
+      return;
+    }
+
+    case 'concentric': {
+      const e1 = entityMap.get(constraint.entityId1);
+      const e2 = entityMap.get(constraint.entityId2);
+      const c1 = e1 && roundGeometry(system, e1);
+      const c2 = e2 && roundGeometry(system, e2);
+      if (!c1 || !c2) return;
+      push((v) => c1.center(v).x - c2.center(v).x);
+      push((v) => c1.center(v).y - c2.center(v).y);
+      return;
+    }
+
+    case 'distance':
+      addDistanceEquations(system, constraint, entityMap, push);
+      return;
+
+    case 'angle':
+      addAngleEquation(system, constraint, entityMap, push);
+      return;
+
+    case 'radius':
+    case 'diameter': {
+      const entity = entityMap.get(constraint.entityId1);
+      const round = entity && roundGeometry(system, entity);
+      if (!round) return;
+      const factor = constraint.type === 'diameter' ? 2 : 1;
+      push((v) => factor * round.radius(v) - constraint.value);
+      return;
+    }
+  }
+}
+
+/**
+ * Tangency between an end of a spline and a line, arc or circle: the
+ * spline's end tangent runs along the line, or across the radius there
+ */
+function addSplineTangentEquation(
+  system: ConstraintSystem,
+  constraint: BinaryConstraint,
+  e1: SketchEntity,
+  e2: SketchEntity,
+  push: (evaluate: (v: Vector) => number) => void
+): void {
+  const spline = (e1.type === 'spline' ? e1 : e2) as SplineEntity;
+  const other = spline === e1 ? e2 : e1;
+  const line = lineDirection(system, other);
+  const round = roundGeometry(system, other);
+  if (!line && !round) return;
+
+  // The end given by the point index, or else the one nearest the other entity
+  const last = spline.points.length - 1;
+  let pointIndex = spline === e1 ? constraint.pointIndex1 : constraint.pointIndex2;
+  if (pointIndex !== 0 && pointIndex !== last) {
+    const gap = (p: Point2D) => {
+      if (line) return Math.abs(signedLineDistance(system, other)(system.values, p));
+      const center = round!.center(system.values);
+      return Math.abs(Math.hypot(p.x - center.x, p.y - center.y) - round!.radius(system.values));
+    };
+    pointIndex = gap(spline.points[0]) <= gap(spline.points[last]) ? 0 : last;
+  }
+  const t = pointIndex === 0 ? 0 : 1;
+
+  const { offset: o } = system.ranges.get(spline.id)!;
+  const tangent = (v: Vector) => {
+    const points = spline.points.map((_, i) => ({ x: v[o + i * 2], y: v[o + i * 2 + 1] }));
+    return splineDerivative(getSplineCurve({ ...spline, points }), t);
+  };
+
+  // The tangent's component across the line (or along the radius) is left
+  // unnormalized: it is near linear in the spline's points, which keeps the
+  // Gauss-Newton steps from overshooting
+  push((v) => {
+    const a = tangent(v);
+    if (line) {
+      const b = line(v);
+      return (a.x * b.y - a.y * b.x) / (Math.hypot(b.x, b.y) + EPSILON);
+    }
+    const end = { x: v[o + pointIndex * 2], y: v[o + pointIndex * 2 + 1] };
+    const center = round!.center(v);
+    const b = { x: end.x - center.x, y: end.y - center.y };
+    return (a.x * b.x + a.y * b.y) / (Math.hypot(b.x, b.y) + EPSILON);
+  });
+}
+
+/**
+ * Distance dimension: line length, radius, point-point, point-line or line-line
+ */
+function addDistanceEquations(
+  system: ConstraintSystem,
+  constraint: DimensionConstraint,
+  entityMap: Map<string, SketchEntity>,
+  push: (evaluate: (v: Vector) => number) => void
+): void {
+  const e1 = entityMap.get(constraint.entityId1);
+  if (!e1) return;
+  const value = constraint.value;
+
+  if (!constraint.entityId2) {
+    const p1 = resolvePoint(system, e1, constraint.pointIndex1);
+    if (e1.type === 'line' && constraint.pointIndex1 === undefined) {
+      const dir = lineDirection(system, e1)!;
+      push((v) => {
+        const d = dir(v);
+        return Math.hypot(d.x, d.y) - value;
+      });
+      return;
+    }
+    const round = roundGeometry(system, e1);
+    if (round && !p1) {
+      push((v) => round.radius(v) - value);
+    }
+    return;
+  }
+
+  const e2 = entityMap.get(constraint.entityId2);
+  if (!e2) return;
+
+  const p1 = resolvePoint(system, e1, constraint.pointIndex1);
+  const p2 = resolvePoint(system, e2, constraint.pointIndex2);
+
+  if (p1 && p2) {
+    push((v) => {
+      const a = p1.get(v);
+      const b = p2.get(v);
+      return Math.hypot(a.x - b.x, a.y - b.y) - value;
+    });
+    return;
+  }
+
+  // Point to line
+  if ((p1 && e2.type === 'line') || (p2 && e1.type === 'line')) {
+    const point = (p1 ?? p2)!;
+    const line = p1 ? e2 : e1;
+    const dist = signedLineDistance(system, line);
+    push((v) => Math.abs(dist(v, point.get(v))) - value);
+    return;
+  }
+
+  // Line to line (parallel offset measured from the first line's start)
+  if (e1.type === 'line' && e2.type === 'line') {
+    const start = resolvePoint(system, e1, 0)!;
+    const dist = signedLineDistance(system, e2);
+    push((v) => Math.abs(dist(v, start.get(v))) - value);
+  }
+}
+
+/**
+ * Angle dimension between two lines (value in degrees)
+ */
+function addAngleEquation(
+  system: ConstraintSystem,
+  constraint: DimensionConstraint,
+  entityMap: Map<string, SketchEntity>,
+  push: (evaluate: (v: Vector) => number) => void
+): void {
+  if (!constraint.entityId2) return;
+  const e1 = entityMap.get(constraint.entityId1);
+  const e2 = entityMap.get(constraint.entityId2);
+  const d1 = e1 && lineDirection(system, e1);
+  const d2 = e2 && lineDirection(system, e2);
+  if (!d1 || !d2) return;
+
+  const signedAngle = (v: Vector) => {
+    const a = d1(v);
+    const b = d2(v);
+    return Math.atan2(a.x * b.y - a.y * b.x, a.x * b.x + a.y * b.y);
+  };
+
+  // Measure in whichever rotational sense the lines currently have
+  const target = (constraint.value * Math.PI) / 180;
+  const sign = signedAngle(system.values) < 0 ? -1 : 1;
+
+  push((v) => wrapAngle(signedAngle(v) - sign * target));
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+// ============ NUMERICS ============
+
+function evaluateResiduals(system: ConstraintSystem, v: Vector): Float64Array {
+  const residuals = new Float64Array(system.equations.length);
+  for (let i = 0; i < system.equations.length; i++) {
+    residuals[i] = system.equations[i].evaluate(v);
+  }
+  return residuals;
+}
+
+function maxAbs(values: Float64Array): number {
+  let max = 0;
+  for (const value of values) {
+    max = Math.max(max, Math.abs(value));
+  }
+  return max;
+}
+
+/**
+ * Jacobian of the residuals with respect to the free parameters
+ * (central finite differences). Rows are equations, columns free parameters.
+ */
+function computeJacobian(system: ConstraintSystem, v: Vector): Float64Array[] {
+  const freeIndices = getFreeIndices(system);
+  const rows = system.equations.map(() => new Float64Array(freeIndices.length));
+  const probe = Float64Array.from(v);
+
+  freeIndices.forEach((paramIndex, column) => {
+    const original = probe[paramIndex];
+    const h = FINITE_DIFFERENCE_STEP * Math.max(1, Math.abs(original));
+
+    probe[paramIndex] = original + h;
+    const plus = evaluateResiduals(system, probe);
+    probe[paramIndex] = original - h;
+    const minus = evaluateResiduals(system, probe);
+    probe[paramIndex] = original;
+
+    for (let row = 0; row < rows.length; row++) {
+      rows[row][column] = (plus[row] - minus[row]) / (2 * h);
+    }
+  });
+
+  return rows;
+}
+
+function getFreeIndices(system: ConstraintSystem): number[] {
+  const indices: number[] = [];
+  system.free.forEach((isFree, i) => {
+    if (isFree) indices.push(i);
+  });
+  return indices;
+}
+
+/**
+ * Damped minimum-norm Gauss-Newton iteration:
+ *   dx = -J^T (J J^T + lambda I)^-1 F
+ * lambda is raised whenever a step fails to reduce the residual.
+ */
+function iterate(system: ConstraintSystem): { iterations: number; maxResidual: number } {
+  const freeIndices = getFreeIndices(system);
+  let residuals = evaluateResiduals(system, system.values);
+  let error = maxAbs(residuals);
+  let lambda = 1e-9;
+  let iterations = 0;
+
+  if (freeIndices.length === 0) {
+    return { iterations, maxResidual: error };
+  }
+
+  while (error >= RESIDUAL_TOLERANCE && iterations < MAX_ITERATIONS) {
+    iterations++;
+    const jacobian = computeJacobian(system, system.values);
+    const m = jacobian.length;
+
+    // Normal matrix J J^T
+    const normal: Float64Array[] = [];
+    for (let i = 0; i < m; i++) {
+      normal.push(new Float64Array(m));
+      for (let j = 0; j <= i; j++) {
+        const value = dot(jacobian[i], jacobian[j]);
+        normal[i][j] = value;
+        if (j < i) normal[j][i] = value;
+      }
+    }
+
+    let improved = false;
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const damped = normal.map((row, i) => {
+        const copy = Float64Array.from(row);
+        copy[i] += lambda * (1 + row[i]);
+        return copy;
+      });
+
+      const y = solveLinearSystem(damped, residuals);
+      if (!y) {
+        lambda *= 10;
+        continue;
+      }
+
+      const candidate = Float64Array.from(system.values);
+      freeIndices.forEach((paramIndex, column) => {
+        let step = 0;
+        for (let row = 0; row < m; row++) {
+          step += jacobian[row][column] * y[row];
+        }
+        candidate[paramIndex] -= step;
+      });
+
+      const candidateResiduals = evaluateResiduals(system, candidate);
+      const candidateError = maxAbs(candidateResiduals);
+
+      if (candidateError < error) {
+        system.values = candidate;
+        residuals = candidateResiduals;
+        error = candidateError;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = true;
+        break;
+      }
+
+      lambda *= 10;
+    }
+
+    if (!improved) break;
+  }
+
+  return { iterations, maxResidual: error };
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Solve A x = b with Gaussian elimination and partial pivoting.
+ * Returns null when the matrix is singular.
+ */
+function solveLinearSystem(matrix: Float64Array[], rhs: Float64Array): Float64Array | null {
+  const n = rhs.length;
+  const a = matrix.map(row => Float64Array.from(row));
+  const b = Float64Array.from(rhs);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < EPSILON) return null;
+
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Float64Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+
+  return x;
+}
+
+/**
+ * Modified Gram-Schmidt step: orthogonalize a row against an orthonormal
+ * basis and append it when it is linearly independent.
+ * Returns false when the row is dependent on the basis.
+ */
+function extendBasis(basis: Float64Array[], row: Float64Array): boolean {
+  const residual = Float64Array.from(row);
+  const originalNorm = Math.sqrt(dot(row, row));
+
+  for (const b of basis) {
+    const projection = dot(residual, b);
+    for (let k = 0; k < residual.length; k++) {
+      residual[k] -= projection * b[k];
+    }
+  }
+
+  const norm = Math.sqrt(dot(residual, residual));
+  if (norm <= RANK_TOLERANCE * Math.max(1, originalNorm)) {
+    return false;
+  }
+
+  for (let k = 0; k < residual.length; k++) {
+    residual[k] /= norm;
+  }
+  basis.push(residual);
+  return true;
+}
+
+/**
+ * Indices of rows that are linearly dependent on the rows before them
+ */
+function findDependentRows(rows: Float64Array[]): number[] {
+  const basis: Float64Array[] = [];
+  const dependent: number[] = [];
+
+  rows.forEach((row, index) => {
+    if (!extendBasis(basis, row)) {
+      dependent.push(index);
+    }
+  });
+
+  return dependent;
+}
+
+// ============ WRITE BACK ============
+
+/**
+ * Copy solved parameters back into new entity objects
+ */
+function writeBack(entities: SketchEntity[], system: ConstraintSystem): SketchEntity[] {
+  return entities.map((entity) => {
+    const { offset: o } = system.ranges.get(entity.id)!;
+    const v = system.values;
+
+    switch (entity.type) {
+      case 'point':
+        return { ...entity, position: { x: v[o], y: v[o + 1] } };
+      case 'line':
+        return { ...entity, start: { x: v[o], y: v[o + 1] }, end: { x: v[o + 2], y: v[o + 3] } };
+      case 'rectangle':
+        return { ...entity, corner1: { x: v[o], y: v[o + 1] }, corner2: { x: v[o + 2], y: v[o + 3] } };
+      case 'circle':
+        return { ...entity, center: { x: v[o], y: v[o + 1] }, radius: Math.abs(v[o + 2]) };
+      case 'arc':
+        return {
+          ...entity,
+          center: { x: v[o], y: v[o + 1] },
+          radius: Math.abs(v[o + 2]),
+          startAngle: v[o + 3],
+          endAngle: v[o + 4],
+        };
+      case 'ellipse':
+        return {
+          ...entity,
+          center: { x: v[o], y: v[o + 1] },
+          majorRadius: Math.abs(v[o + 2]),
+          minorRadius: Math.abs(v[o + 3]),
+          rotation: v[o + 4],
+        };
+      case 'ellipticalArc':
+        return {
+          ...entity,
+          center: { x: v[o], y: v[o + 1] },
+          majorRadius: Math.abs(v[o + 2]),
+          minorRadius: Math.abs(v[o + 3]),
+          rotation: v[o + 4],
+          startAngle: v[o + 5],
+          endAngle: v[o + 6],
+        };
+      case 'spline':
+        return { ...entity, points: entity.points.map((_, i) => ({ x: v[o + i * 2], y: v[o + i * 2 + 1] })) };
+    }
+  });
+}
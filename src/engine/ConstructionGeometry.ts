@@ -0,0 +1,203 @@
+/**
+ * ConstructionGeometry - Planes, axes and points built from other geometry
+ *
+ * Pure math for construction features. Inputs are already resolved to world
+ * space by FeatureEvaluator; every plane returned has its offset folded into
+ * its origin, so it can be used directly as a sketch plane.
+ */
+
+import type { Point3D } from '../types/features';
+import type { SketchPlane } from '../types/sketch';
+
+// Construction geometry counts as lying in a plane within this distance
+// (mesh positions are single precision)
+const ON_PLANE_TOLERANCE = 1e-3;
+
+// Directions count as parallel, or perpendicular, within about one degree
+const PARALLEL_TOLERANCE = 0.9998;
+const PERPENDICULAR_TOLERANCE = 0.017;
+
+function add(a: Point3D, b: Point3D): Point3D {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function sub(a: Point3D, b: Point3D): Point3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(a: Point3D, factor: number): Point3D {
+  return { x: a.x * factor, y: a.y * factor, z: a.z * factor };
+}
+
+function dot(a: Point3D, b: Point3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Point3D, b: Point3D): Point3D {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function normalize(a: Point3D): Point3D | null {
+  const length = Math.hypot(a.x, a.y, a.z);
+  return length > 1e-9 ? scale(a, 1 / length) : null;
+}
+
+/**
+ * Rotate a vector about a unit axis (Rodrigues' formula)
+ */
+function rotate(v: Point3D, axis: Point3D, radians: number): Point3D {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return add(add(scale(v, cos), scale(cross(axis, v), sin)), scale(axis, dot(axis, v) * (1 - cos)));
+}
+
+/**
+ * Plane with its offset folded into the origin
+ */
+function flatten(plane: SketchPlane): SketchPlane {
+  return {
+    ...plane,
+    type: 'face',
+    origin: add(plane.origin, scale(plane.normal, plane.offset)),
+    offset: 0,
+  };
+}
+
+// ============ PLANES ============
+
+/**
+ * Plane parallel to another at a distance along its normal
+ */
+export function offsetPlane(plane: SketchPlane, distance: number): SketchPlane {
+  const flat = flatten(plane);
+  return { ...flat, origin: add(flat.origin, scale(flat.normal, distance)) };
+}
+
+/**
+ * Plane turned about an axis lying in another plane
+ */
+export function rotatePlane(plane: SketchPlane, axisOrigin: Point3D, axisDirection: Point3D, degrees: number): SketchPlane {
+  const flat = flatten(plane);
+  if (Math.abs(dot(axisDirection, flat.normal)) > PERPENDICULAR_TOLERANCE ||
+      Math.abs(dot(sub(axisOrigin, flat.origin), flat.normal)) > ON_PLANE_TOLERANCE) {
+    throw new Error('Plane: The axis does not lie in the reference plane');
+  }
+
+  const radians = degrees * Math.PI / 180;
+  // Keep the origin on the axis, nearest the reference origin
+  const along = dot(sub(flat.origin, axisOrigin), axisDirection);
+  return {
+    ...flat,
+    origin: add(axisOrigin, scale(axisDirection, along)),
+    normal: rotate(flat.normal, axisDirection, radians),
+    xAxis: rotate(flat.xAxis, axisDirection, radians),
+    yAxis: rotate(flat.yAxis, axisDirection, radians),
+  };
+}
+
+/**
+ * Plane halfway between two parallel planes, oriented like the first
+ */
+export function midPlane(first: SketchPlane, second: SketchPlane): SketchPlane {
+  const a = flatten(first);
+  const b = flatten(second);
+  if (Math.abs(dot(a.normal, b.normal)) < PARALLEL_TOLERANCE) {
+    throw new Error('Plane: A midplane needs two parallel planes');
+  }
+
+  const gap = dot(sub(b.origin, a.origin), a.normal);
+  if (Math.abs(gap) < ON_PLANE_TOLERANCE) {
+    throw new Error('Plane: The planes coincide');
+  }
+  return { ...a, origin: add(a.origin, scale(a.normal, gap / 2)) };
+}
+
+/**
+ * Plane through three points: origin at the first, x axis toward the second
+ */
+export function planeThroughPoints(a: Point3D, b: Point3D, c: Point3D): SketchPlane {
+  const xAxis = normalize(sub(b, a));
+  const normal = xAxis && normalize(cross(sub(b, a), sub(c, a)));
+  if (!xAxis || !normal) {
+    throw new Error('Plane: The three points must not lie on one line');
+  }
+
+  return {
+    type: 'face',
+    origin: { ...a },
+    normal,
+    xAxis,
+    yAxis: cross(normal, xAxis),
+    offset: 0,
+  };
+}
+
+// ============ AXES ============
+
+/**
+ * Axis from the first point toward the second
+ */
+export function axisThroughPoints(a: Point3D, b: Point3D): { origin: Point3D; direction: Point3D } {
+  const direction = normalize(sub(b, a));
+  if (!direction) {
+    throw new Error('Axis: The two points coincide');
+  }
+  return { origin: { ...a }, direction };
+}
+
+/**
+ * Axis along a straight run of edge segments
+ */
+export function axisAlongSegments(segments: Array<[Point3D, Point3D]>): { origin: Point3D; direction: Point3D } {
+  // The two segment ends farthest apart span the edge
+  const points = segments.flat();
+  let start = points[0];
+  let end = points[0];
+  for (const p of points) {
+    for (const q of points) {
+      if (dot(sub(q, p), sub(q, p)) > dot(sub(end, start), sub(end, start))) {
+        start = p;
+        end = q;
+      }
+    }
+  }
+
+  const { origin, direction } = axisThroughPoints(start, end);
+  for (const p of points) {
+    const offset = sub(p, origin);
+    const along = dot(offset, direction);
+    if (dot(offset, offset) - along * along > ON_PLANE_TOLERANCE * ON_PLANE_TOLERANCE) {
+      throw new Error('Axis: The edge is not straight');
+    }
+  }
+  return { origin, direction };
+}
+
+/**
+ * Express a world axis in a plane's 2D coordinates, or null when the axis
+ * does not lie in the plane
+ */
+export function projectAxisToPlane(
+  plane: SketchPlane,
+  origin: Point3D,
+  direction: Point3D
+): { origin: { x: number; y: number }; direction: { x: number; y: number } } | null {
+  const flat = flatten(plane);
+  const local = sub(origin, flat.origin);
+  if (Math.abs(dot(direction, flat.normal)) > PERPENDICULAR_TOLERANCE ||
+      Math.abs(dot(local, flat.normal)) > ON_PLANE_TOLERANCE) {
+    return null;
+  }
+
+  const dx = dot(direction, flat.xAxis);
+  const dy = dot(direction, flat.yAxis);
+  const length = Math.hypot(dx, dy);
+  return {
+    origin: { x: dot(local, flat.xAxis), y: dot(local, flat.yAxis) },
+    direction: { x: dx / length, y: dy / length },
+  };
+}
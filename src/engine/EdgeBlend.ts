@@ -0,0 +1,317 @@
+/**
+ * EdgeBlend - Tool solids that round or bevel straight edges
+ *
+ * A fillet or chamfer of an edge between two flat faces is a prism along the
+ * edge. Its cross-section fills the corner between the faces up to a circular
+ * arc (fillet) or a straight cut (chamfer). The prism is cut from the body at
+ * convex edges and added to it at concave ones. Where three convex fillets
+ * meet at a corner, a spherical patch rounds the corner between them.
+ *
+ * Bodies are tessellated, so a curved surface is a run of flat facets.
+ * Edges along or between such facets are rejected rather than blended one
+ * facet at a time.
+ */
+
+import type { Manifold, Mesh } from 'manifold-3d';
+import { ManifoldEngine } from './ManifoldEngine';
+import { segmentsPerTurn } from './ProfileDetector';
+import { TopologyNaming, type BodyFace } from './TopologyNaming';
+
+type Vec3 = [number, number, number];
+
+export type BlendShape = 'fillet' | 'chamfer';
+
+// Corner between the two faces of an edge
+export interface EdgeCorner {
+  start: Vec3;
+  end: Vec3;
+  // Directions from the edge across each face, perpendicular to it
+  across: [Vec3, Vec3];
+  // How far each face reaches from the edge
+  widths: [number, number];
+  // Outward normals of the two faces
+  normals: [Vec3, Vec3];
+  // Angle between the faces on the side the blend fills, in radians
+  angle: number;
+  // Convex edges have material between the faces; concave edges have air
+  convex: boolean;
+}
+
+// Mesh positions count as coplanar or collinear within this distance
+// (mesh positions are single precision)
+const FLAT_TOLERANCE = 1e-3;
+
+// Faces closer to tangent than this (radians) have no corner to blend
+const MIN_CORNER = 1e-3;
+
+// Facets of a tessellated curve turn by at most this much (radians; curves
+// get at least 12 chords per turn), so flatter turns are not real corners
+const SMOOTH_ANGLE = Math.PI / 6 + 1e-3;
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(a: Vec3): Vec3 {
+  const length = Math.hypot(a[0], a[1], a[2]) || 1;
+  return [a[0] / length, a[1] / length, a[2] / length];
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Distance from a point to the line through the edge
+ */
+function distanceToLine(p: Vec3, start: Vec3, direction: Vec3): number {
+  const offset = sub(p, start);
+  const along = dot(offset, direction);
+  return Math.sqrt(Math.max(0, dot(offset, offset) - along * along));
+}
+
+/**
+ * Corner of an edge, from the segments the two faces share. Throws when the
+ * edge is not straight or either face is not flat.
+ */
+export function getEdgeCorner(
+  manifold: Manifold,
+  faces: [BodyFace, BodyFace],
+  segments: Array<[Vec3, Vec3]>,
+  label: string
+): EdgeCorner {
+  // The two segment ends farthest apart span the edge
+  const points = segments.flat();
+  let start = points[0];
+  let end = points[0];
+  for (const p of points) {
+    for (const q of points) {
+      if (dot(sub(q, p), sub(q, p)) > dot(sub(end, start), sub(end, start))) {
+        start = p;
+        end = q;
+      }
+    }
+  }
+  const direction = normalize(sub(end, start));
+  if (points.some(p => distanceToLine(p, start, direction) > FLAT_TOLERANCE)) {
+    throw new Error(`${label}: Only straight edges can be blended`);
+  }
+
+  const mesh: Mesh = manifold.getMesh();
+  if (continuesSmoothly(manifold, mesh, faces, start, end)) {
+    throw new Error(`${label}: Only straight edges can be blended`);
+  }
+
+  const position = (tri: number, corner: number): Vec3 => {
+    const vert = mesh.triVerts[tri * 3 + corner] * mesh.numProp;
+    return [mesh.vertProperties[vert], mesh.vertProperties[vert + 1], mesh.vertProperties[vert + 2]];
+  };
+
+  const across = faces.map(face => {
+    const vertices = face.triangles.flatMap(tri => [0, 1, 2].map(corner => position(tri, corner)));
+    if (vertices.some(v => Math.abs(dot(sub(v, face.centroid), face.normal)) > FLAT_TOLERANCE)) {
+      throw new Error(`${label}: Only edges between flat faces can be blended`);
+    }
+
+    // The face lies on the side of the edge its off-edge vertices are on
+    const candidate = normalize(cross(direction, face.normal));
+    const side = vertices.find(v => distanceToLine(v, start, direction) > FLAT_TOLERANCE);
+    return side && dot(sub(side, start), candidate) < 0
+      ? [-candidate[0], -candidate[1], -candidate[2]] as Vec3
+      : candidate;
+  }) as [Vec3, Vec3];
+
+  const widths = faces.map((face, i) => Math.max(0, ...face.triangles.flatMap(tri =>
+    [0, 1, 2].map(corner => dot(sub(position(tri, corner), start), across[i]))
+  ))) as [number, number];
+
+  const angle = Math.acos(Math.max(-1, Math.min(1, dot(across[0], across[1]))));
+  if (angle < MIN_CORNER || angle > Math.PI - SMOOTH_ANGLE) {
+    throw new Error(`${label}: The faces at the edge do not form a corner`);
+  }
+
+  return {
+    start,
+    end,
+    across,
+    normals: [faces[0].normal, faces[1].normal],
+    widths,
+    angle,
+    // At a convex edge the second face heads away from the first face's outside
+    convex: dot(across[1], faces[0].normal) < 0,
+  };
+}
+
+/**
+ * Whether an edge runs on into a neighbouring edge of one of its faces with
+ * hardly a turn, between faces that meet smoothly: the facet edges along a
+ * tessellated circle or curve do
+ */
+function continuesSmoothly(manifold: Manifold, mesh: Mesh, faces: [BodyFace, BodyFace], start: Vec3, end: Vec3): boolean {
+  const topology = TopologyNaming.getTopology(manifold);
+  const [first, second] = faces.map(face => topology.triangleFaces[face.triangles[0]]);
+
+  // Vertices split along property seams are merged back for adjacency
+  const merged = new Map<number, number>();
+  for (let i = 0; i < (mesh.mergeFromVert?.length ?? 0); i++) {
+    merged.set(mesh.mergeFromVert[i], mesh.mergeToVert[i]);
+  }
+  const vertex = (tri: number, corner: number) => {
+    const vert = mesh.triVerts[tri * 3 + corner];
+    return merged.get(vert) ?? vert;
+  };
+  const position = (vert: number): Vec3 => [
+    mesh.vertProperties[vert * mesh.numProp],
+    mesh.vertProperties[vert * mesh.numProp + 1],
+    mesh.vertProperties[vert * mesh.numProp + 2],
+  ];
+
+  // Triangle on each half-edge, to find the one across a triangle side
+  const halfEdges = new Map<string, number>();
+  for (let tri = 0; tri < mesh.numTri; tri++) {
+    for (let corner = 0; corner < 3; corner++) {
+      halfEdges.set(`${vertex(tri, corner)}:${vertex(tri, (corner + 1) % 3)}`, tri);
+    }
+  }
+
+  const smooth = Math.cos(SMOOTH_ANGLE);
+  for (const [from, to] of [[start, end], [end, start]]) {
+    const onward = normalize(sub(to, from));
+    for (const [face, other] of [[first, second], [second, first]]) {
+      // Sides of the face leaving this end of the edge, towards a third face
+      for (const tri of topology.faces[face].triangles) {
+        for (let corner = 0; corner < 3; corner++) {
+          const a = vertex(tri, corner);
+          const b = vertex(tri, (corner + 1) % 3);
+          const twin = halfEdges.get(`${b}:${a}`);
+          const neighbour = twin === undefined ? face : topology.triangleFaces[twin];
+          if (neighbour === face || neighbour === other) continue;
+
+          const [pa, pb] = [position(a), position(b)];
+          const far = distance(pa, to) < FLAT_TOLERANCE ? pb : distance(pb, to) < FLAT_TOLERANCE ? pa : null;
+          if (far &&
+              dot(normalize(sub(far, to)), onward) >= smooth &&
+              dot(topology.faces[neighbour].normal, topology.faces[other].normal) >= smooth) {
+            return true;
+          }
+        }
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * How far a blend of the given size reaches across each face
+ */
+export function getBlendSetback(corner: EdgeCorner, shape: BlendShape, size: number): number {
+  return shape === 'fillet' ? size / Math.tan(corner.angle / 2) : size;
+}
+
+/**
+ * Prism filling the corner of an edge up to the blend surface; fillet arcs
+ * stay within the chord tolerance
+ */
+export function createBlendTool(corner: EdgeCorner, shape: BlendShape, size: number, tolerance: number): Manifold {
+  const { angle } = corner;
+  const setback = getBlendSetback(corner, shape, size);
+
+  // Cross-section in the corner: x along the first face, the second face at angle
+  const section: [number, number][] = [[0, 0], [setback, 0]];
+  if (shape === 'fillet') {
+    // Arc around the center on the bisector, from tangent point to tangent point
+    const center = size / Math.sin(angle / 2);
+    const cx = center * Math.cos(angle / 2);
+    const cy = center * Math.sin(angle / 2);
+    const segments = Math.max(2, Math.ceil(segmentsPerTurn(size, tolerance) * (Math.PI - angle) / (2 * Math.PI)));
+    for (let i = 1; i < segments; i++) {
+      const a = -Math.PI / 2 - (Math.PI - angle) * i / segments;
+      section.push([cx + size * Math.cos(a), cy + size * Math.sin(a)]);
+    }
+  }
+  section.push([setback * Math.cos(angle), setback * Math.sin(angle)]);
+
+  // Section axes in world space; the prism runs along the edge
+  const [u, second] = corner.across;
+  const along = dot(second, u);
+  const v = normalize([second[0] - u[0] * along, second[1] - u[1] * along, second[2] - u[2] * along]);
+  const w = cross(u, v);
+  const from = Math.min(0, dot(sub(corner.end, corner.start), w));
+  const length = Math.abs(dot(sub(corner.end, corner.start), w));
+
+  const prism = ManifoldEngine.extrude(section, length);
+  const [ox, oy, oz] = [0, 1, 2].map(i => corner.start[i] + w[i] * from);
+  return ManifoldEngine.transform(prism, [
+    u[0], u[1], u[2], 0,
+    v[0], v[1], v[2], 0,
+    w[0], w[1], w[2], 0,
+    ox, oy, oz, 1,
+  ]);
+}
+
+/**
+ * Spherical patches for the corners where three convex fillets meet. Each
+ * is the cell between the ball touching all three faces and the corner,
+ * bounded by the planes where the ball meets the fillets, less the ball.
+ */
+export function createCornerPatches(corners: EdgeCorner[], radius: number, tolerance: number): Manifold[] {
+  const ends = corners
+    .filter(corner => corner.convex)
+    .flatMap(corner => [corner.start, corner.end].map(point => ({ corner, point })));
+
+  const patches: Manifold[] = [];
+  const visited: Vec3[] = [];
+  for (const { point: vertex } of ends) {
+    if (visited.some(p => distance(p, vertex) < FLAT_TOLERANCE)) continue;
+    visited.push(vertex);
+
+    const meeting = ends.filter(end => distance(end.point, vertex) < FLAT_TOLERANCE).map(end => end.corner);
+    if (meeting.length !== 3) continue;
+
+    // The three faces at the corner, by their normals
+    const normals: Vec3[] = [];
+    for (const normal of meeting.flatMap(corner => corner.normals)) {
+      if (!normals.some(n => dot(n, normal) > 1 - FLAT_TOLERANCE)) normals.push(normal);
+    }
+    if (normals.length !== 3) continue;
+
+    // Ball center: the radius inside all three faces
+    const center = solvePlanes(normals as [Vec3, Vec3, Vec3], normals.map(n => dot(n, vertex) - radius));
+    if (!center) continue;
+
+    const feet = normals.map(n => [0, 1, 2].map(i => center[i] + n[i] * radius) as Vec3);
+    const edgePoints = meeting.map(corner => {
+      const direction = normalize(sub(corner.end, corner.start));
+      const along = dot(sub(center, vertex), direction);
+      return [0, 1, 2].map(i => vertex[i] + direction[i] * along) as Vec3;
+    });
+
+    const cell = ManifoldEngine.createHull([vertex, center, ...feet, ...edgePoints]);
+    const ball = ManifoldEngine.translate(ManifoldEngine.createSphere(radius, segmentsPerTurn(radius, tolerance)), center[0], center[1], center[2]);
+    patches.push(ManifoldEngine.difference(cell, ball));
+  }
+  return patches;
+}
+
+/**
+ * Point on three planes dot(normal, p) = offset, or null when they do not
+ * meet in one point
+ */
+function solvePlanes(normals: [Vec3, Vec3, Vec3], offsets: number[]): Vec3 | null {
+  const [a, b, c] = normals;
+  const bc = cross(b, c);
+  const det = dot(a, bc);
+  if (Math.abs(det) < FLAT_TOLERANCE) return null;
+
+  const ca = cross(c, a);
+  const ab = cross(a, b);
+  return [0, 1, 2].map(i => (offsets[0] * bc[i] + offsets[1] * ca[i] + offsets[2] * ab[i]) / det) as Vec3;
+}
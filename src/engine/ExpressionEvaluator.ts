@@ -0,0 +1,501 @@
+/**
+ * ExpressionEvaluator - Parameter expression language
+ *
+ * Parses and evaluates numeric expressions such as `width / 2 + 5 mm`
+ * or `max(depth, 10) * sin(30 deg)`.
+ *
+ * - Arithmetic: + - * / % ^ and parentheses
+ * - Unit suffixes on literals and groups: mm, cm, m, in, ft (lengths, base mm)
+ *   and deg, rad (angles, base degrees)
+ * - References to named global parameters
+ * - Functions: min, max, abs, sqrt, pow, floor, ceil, round, exp, log,
+ *   sin, cos, tan (degrees in), asin, acos, atan, atan2 (degrees out)
+ * - Constants: pi, e
+ */
+
+import type { Feature, NumberParameter, Parameter } from '../types/features';
+
+// ============ TYPES ============
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'reference'; name: string }
+  | { kind: 'unary'; operator: '-' | '+'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '%' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export interface ParameterResolution {
+  // Evaluated value of every global parameter that resolved
+  values: Record<string, number>;
+  // Error message per global parameter name
+  errors: Record<string, string>;
+}
+
+export interface FeatureParameterResolution {
+  features: Feature[];
+  // Error message per feature id
+  errors: Map<string, string>;
+}
+
+// ============ UNITS, FUNCTIONS AND CONSTANTS ============
+
+const DEG_PER_RAD = 180 / Math.PI;
+
+const UNITS: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8,
+  deg: 1,
+  rad: DEG_PER_RAD,
+};
+
+const FUNCTIONS: Record<string, { arity: number | 'variadic'; fn: (...args: number[]) => number }> = {
+  min: { arity: 'variadic', fn: Math.min },
+  max: { arity: 'variadic', fn: Math.max },
+  abs: { arity: 1, fn: Math.abs },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  pow: { arity: 2, fn: Math.pow },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  sin: { arity: 1, fn: (x) => Math.sin(x / DEG_PER_RAD) },
+  cos: { arity: 1, fn: (x) => Math.cos(x / DEG_PER_RAD) },
+  tan: { arity: 1, fn: (x) => Math.tan(x / DEG_PER_RAD) },
+  asin: { arity: 1, fn: (x) => Math.asin(x) * DEG_PER_RAD },
+  acos: { arity: 1, fn: (x) => Math.acos(x) * DEG_PER_RAD },
+  atan: { arity: 1, fn: (x) => Math.atan(x) * DEG_PER_RAD },
+  atan2: { arity: 2, fn: (y, x) => Math.atan2(y, x) * DEG_PER_RAD },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+// ============ TOKENIZER ============
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i));
+      if (!match) throw new Error(`Invalid number at position ${i + 1}`);
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if ('+-*/%^(),'.includes(ch)) {
+      tokens.push({ type: 'operator', value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${ch}' at position ${i + 1}`);
+  }
+
+  tokens.push({ type: 'end', position: text.length });
+  return tokens;
+}
+
+// ============ PARSER ============
+
+/**
+ * Recursive-descent parser:
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/' | '%') unary)*
+ *   unary      := ('-' | '+') unary | power
+ *   power      := postfix ('^' unary)?
+ *   postfix    := primary unit?
+ *   primary    := number | identifier | identifier '(' args ')' | '(' expression ')'
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') {
+      throw new Error('Expression is empty');
+    }
+    const node = this.parseExpression();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new Error(`Unexpected '${this.describe(next)}' at position ${next.position + 1}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new Error(`Expected '${value}' at position ${token.position + 1}`);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of expression' : String(token.value);
+  }
+
+  private parseExpression(): ExpressionNode {
+    let left = this.parseTerm();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.next() as { value: '+' | '-' };
+      left = { kind: 'binary', operator: operator.value, left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const operator = this.next() as { value: '*' | '/' | '%' };
+      left = { kind: 'binary', operator: operator.value, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-') || this.isOperator('+')) {
+      const operator = this.next() as { value: '-' | '+' };
+      return { kind: 'unary', operator: operator.value, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePostfix();
+    if (this.isOperator('^')) {
+      this.next();
+      // Right associative: 2^3^2 = 2^(3^2)
+      return { kind: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePostfix(): ExpressionNode {
+    const startToken = this.peek();
+    const node = this.parsePrimary();
+
+    // Unit suffix is only allowed directly after a literal or a parenthesized group
+    const token = this.peek();
+    const allowsUnit = startToken.type === 'number' || (startToken.type === 'operator' && startToken.value === '(');
+    if (allowsUnit && token.type === 'identifier' && Object.hasOwn(UNITS, token.value)) {
+      this.next();
+      return { kind: 'binary', operator: '*', left: node, right: { kind: 'number', value: UNITS[token.value] } };
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      if (this.isOperator('(')) {
+        this.next();
+        const args: ExpressionNode[] = [];
+        if (!this.isOperator(')')) {
+          args.push(this.parseExpression());
+          while (this.isOperator(',')) {
+            this.next();
+            args.push(this.parseExpression());
+          }
+        }
+        this.expect(')');
+        return { kind: 'call', name: token.value, args };
+      }
+      return { kind: 'reference', name: token.value };
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const node = this.parseExpression();
+      this.expect(')');
+      return node;
+    }
+
+    throw new Error(`Unexpected '${this.describe(token)}' at position ${token.position + 1}`);
+  }
+}
+
+// ============ PUBLIC API ============
+
+/**
+ * Parse an expression into a syntax tree. Throws on syntax errors.
+ */
+export function parseExpression(text: string): ExpressionNode {
+  return new Parser(text).parse();
+}
+
+/**
+ * Evaluate an expression against named parameter values.
+ * Throws on syntax errors, unknown names or non-finite results.
+ */
+export function evaluateExpression(text: string, scope: Record<string, number> = {}): number {
+  const result = evaluateNode(parseExpression(text), scope);
+  if (!Number.isFinite(result)) {
+    throw new Error('Expression does not evaluate to a finite number');
+  }
+  return result;
+}
+
+/**
+ * Names of the parameters an expression refers to
+ */
+export function getExpressionReferences(text: string): string[] {
+  const references = new Set<string>();
+  collectReferences(parseExpression(text), references);
+  return Array.from(references);
+}
+
+/**
+ * Rewrite references to a renamed parameter, leaving the rest of the text untouched.
+ * Text that does not tokenize is returned unchanged.
+ */
+export function renameReference(text: string, oldName: string, newName: string): string {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(text);
+  } catch {
+    return text;
+  }
+
+  let result = text;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+    const isCall = next?.type === 'operator' && next.value === '(';
+    if (token.type === 'identifier' && token.value === oldName && !isCall) {
+      result = result.slice(0, token.position) + newName + result.slice(token.position + oldName.length);
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether a string is a plain numeric literal (no expression needed)
+ */
+export function isPlainNumber(text: string): boolean {
+  return /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/.test(text);
+}
+
+/**
+ * Whether a name can be used for a global parameter
+ */
+export function isValidParameterName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+    && !Object.hasOwn(UNITS, name)
+    && !Object.hasOwn(FUNCTIONS, name)
+    && !Object.hasOwn(CONSTANTS, name);
+}
+
+/**
+ * Evaluate all global parameters in dependency order.
+ * Parameters that take part in (or depend on) a circular reference get an error.
+ */
+export function resolveParameters(globals: Record<string, Parameter>): ParameterResolution {
+  const resolution: ParameterResolution = { values: {}, errors: {} };
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (name: string, path: string[]): void => {
+    if (state.get(name) === 'done') return;
+    if (state.get(name) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      const message = `Circular reference: ${cycle.join(' → ')}`;
+      for (const member of cycle) {
+        resolution.errors[member] = message;
+      }
+      return;
+    }
+
+    const param = globals[name];
+    if (!param || param.type !== 'number') {
+      state.set(name, 'done');
+      return;
+    }
+
+    state.set(name, 'visiting');
+
+    try {
+      const text = getParameterExpression(param);
+      for (const reference of getExpressionReferences(text)) {
+        if (reference in globals) {
+          visit(reference, [...path, name]);
+        }
+      }
+
+      if (!(name in resolution.errors)) {
+        const failed = getExpressionReferences(text).find(ref => ref in resolution.errors);
+        if (failed) {
+          resolution.errors[name] = `Depends on invalid parameter '${failed}'`;
+        } else {
+          resolution.values[name] = evaluateExpression(text, resolution.values);
+        }
+      }
+    } catch (error) {
+      resolution.errors[name] = error instanceof Error ? error.message : String(error);
+    }
+
+    state.set(name, 'done');
+  };
+
+  for (const name of Object.keys(globals)) {
+    visit(name, []);
+  }
+
+  return resolution;
+}
+
+/**
+ * Evaluate the expressions of every number parameter in the features
+ * against the global parameters. Features whose expressions fail keep
+ * their last value and report an error.
+ */
+export function resolveFeatureParameters(
+  features: Feature[],
+  globals: Record<string, Parameter>
+): FeatureParameterResolution {
+  const { values } = resolveParameters(globals);
+  const errors = new Map<string, string>();
+
+  const resolved = features.map((feature) => {
+    const params = feature.parameters as Record<string, Parameter | undefined>;
+    let updated: Record<string, Parameter | undefined> | null = null;
+
+    for (const [key, param] of Object.entries(params)) {
+      if (param?.type !== 'number' || param.expression === undefined) continue;
+
+      try {
+        const value = evaluateExpression(param.expression, values);
+        if (value !== param.value) {
+          updated = updated ?? { ...params };
+          updated[key] = { ...param, value };
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.set(feature.id, `${param.name}: ${message}`);
+      }
+    }
+
+    return updated ? ({ ...feature, parameters: updated } as Feature) : feature;
+  });
+
+  return { features: resolved, errors };
+}
+
+/**
+ * Text of a number parameter, whether it is an expression or a literal
+ */
+export function getParameterExpression(param: NumberParameter): string {
+  return param.expression ?? String(param.value);
+}
+
+// ============ EVALUATION ============
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, number>): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'reference':
+      if (Object.hasOwn(scope, node.name)) return scope[node.name];
+      if (Object.hasOwn(CONSTANTS, node.name)) return CONSTANTS[node.name];
+      throw new Error(`Unknown parameter '${node.name}'`);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === '-' ? -operand : operand;
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new Error('Division by zero');
+          return left / right;
+        case '%': return left % right;
+        case '^': return Math.pow(left, right);
+      }
+      break;
+    }
+
+    case 'call': {
+      const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) throw new Error(`Unknown function '${node.name}'`);
+      if (fn.arity === 'variadic' ? node.args.length === 0 : node.args.length !== fn.arity) {
+        throw new Error(`Function '${node.name}' expects ${fn.arity === 'variadic' ? 'at least 1' : fn.arity} argument(s)`);
+      }
+      return fn.fn(...node.args.map(arg => evaluateNode(arg, scope)));
+    }
+  }
+
+  throw new Error('Invalid expression');
+}
+
+function collectReferences(node: ExpressionNode, references: Set<string>): void {
+  switch (node.kind) {
+    case 'reference':
+      if (!Object.hasOwn(CONSTANTS, node.name)) references.add(node.name);
+      break;
+    case 'unary':
+      collectReferences(node.operand, references);
+      break;
+    case 'binary':
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, references));
+      break;
+  }
+}
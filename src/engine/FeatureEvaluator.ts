@@ -3,63 +3,121 @@
  *
  * Evaluates features in order, skipping suppressed ones,
  * using cached results for non-dirty features.
+ *
+ * Runs inside the rebuild worker (see RebuildService), which owns the
+ * manifold cache; the UI thread only receives tessellated meshes.
  */
 
-import type { Manifold } from 'manifold-3d';
+import type { Manifold, Vec3 } from 'manifold-3d';
 import type {
   Feature,
   PrimitiveFeature,
   SketchFeature,
   ExtrudeFeature,
+  ExtrudeExtent,
+  RevolveFeature,
+  RevolveAxisRef,
   BooleanFeature,
+  FilletFeature,
+  ChamferFeature,
+  ConstructionPlaneFeature,
+  ConstructionAxisFeature,
+  ConstructionPointFeature,
+  ConstructionGeometry,
+  PlaneRef,
+  AxisRef,
+  PointRef,
+  Point3D,
   CachedBody,
+  FaceName,
+  EdgeName,
+  GeometryRef,
 } from '../types/features';
+import type { LineEntity, Point2D, Profile, SketchPlane } from '../types/sketch';
+import { CHORD_TOLERANCES } from '../types/document';
 import { ManifoldEngine } from './ManifoldEngine';
+import { getProfileLoops, resolveProfileRef, segmentsPerTurn } from './ProfileDetector';
+import { TopologyNaming } from './TopologyNaming';
+import type { BodyFace } from './TopologyNaming';
+import { getEdgeCorner, getBlendSetback, createBlendTool, createCornerPatches, type EdgeCorner } from './EdgeBlend';
+import {
+  offsetPlane,
+  rotatePlane,
+  midPlane,
+  planeThroughPoints,
+  axisThroughPoints,
+  axisAlongSegments,
+  projectAxisToPlane,
+} from './ConstructionGeometry';
 import { generateBodyId } from '../utils/idGenerator';
+import { getFacePlane, getOriginPlane, getSketchPlane, sketchToWorld } from '../utils/sketchPlane';
 
 // ============ TYPES ============
 
 export interface EvaluationContext {
   features: Feature[];
+  // Largest distance between a sketch curve and the polygon built from it
+  chordTolerance: number;
   bodies: Map<string, CachedBody>;
   featureResults: Map<string, CachedBody[]>;
+  // Planes of face sketches, resolved on the bodies before them
+  sketchPlanes: Map<string, SketchPlane>;
+  // Planes, axes and points of construction features
+  construction: Map<string, ConstructionGeometry>;
   errors: Map<string, string>;
 }
 
 export interface RebuildResult {
   success: boolean;
+  // True when the rebuild was aborted before every feature was evaluated
+  cancelled: boolean;
   bodies: Map<string, CachedBody>;
+  // Bodies produced by each evaluated or cached feature
+  featureResults: Map<string, CachedBody[]>;
+  sketchPlanes: Map<string, SketchPlane>;
+  construction: Map<string, ConstructionGeometry>;
   errors: Map<string, string>;
   duration: number;
 }
 
-// ============ FEATURE EVALUATOR ============
+// Reach of an extrude along its sketch normal (forward) and against it (backward)
+interface ExtrudeSpan {
+  forward: number;
+  backward: number;
+  // World plane (dot(normal, p) >= offset is kept) trimming the far end
+  trim?: { normal: Vec3; offset: number };
+}
 
-class FeatureEvaluatorClass {
-  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+// Profiles may touch the revolve axis within this distance
+const AXIS_TOLERANCE = 1e-6;
 
-  /**
-   * Rebuild all dirty features with debouncing
-   */
-  rebuildDebounced(
-    features: Feature[],
-    onComplete: (result: RebuildResult) => void,
-    debounceMs: number = 150
-  ): void {
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-    }
+// How far a through-all extrude overshoots the bodies it passes through
+const THROUGH_ALL_MARGIN = 1;
 
-    this.debounceTimer = setTimeout(async () => {
-      const result = await this.rebuild(features);
-      onComplete(result);
-    }, debounceMs);
-  }
+// Blends may reach this far past the faces they lie on (mesh precision)
+const BLEND_TOLERANCE = 1e-3;
+
+// Farthest a tapered corner may move, in multiples of the inset
+const TAPER_MITER_LIMIT = 100;
+
+// Relative area mismatch that means a tapered profile changed shape
+const TAPER_AREA_TOLERANCE = 1e-6;
+
+// ============ FEATURE EVALUATOR ============
 
+class FeatureEvaluatorClass {
   /**
    * Rebuild all features, using cache for non-dirty ones
+   *
+   * When a signal is given, control returns to the event loop between
+   * features so an abort message can arrive mid-rebuild. Sketch arcs are
+   * sampled to the chord tolerance.
    */
-  async rebuild(features: Feature[]): Promise<RebuildResult> {
+  async rebuild(
+    features: Feature[],
+    signal?: AbortSignal,
+    chordTolerance: number = CHORD_TOLERANCES.normal
+  ): Promise<RebuildResult> {
     const start = performance.now();
 
     // Ensure ManifoldEngine is initialized
@@ -67,13 +125,26 @@ class FeatureEvaluatorClass {
 
     const context: EvaluationContext = {
       features,
+      chordTolerance,
       bodies: new Map(),
       featureResults: new Map(),
+      sketchPlanes: new Map(),
+      construction: new Map(),
       errors: new Map(),
     };
 
+    let cancelled = false;
+
     // Evaluate features in order
     for (const feature of features) {
+      if (signal) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal.aborted) {
+          cancelled = true;
+          break;
+        }
+      }
+
       if (feature.suppressed) {
         continue;
       }
@@ -84,6 +155,12 @@ class FeatureEvaluatorClass {
           context.bodies.set(body.bodyId, body);
         }
         context.featureResults.set(feature.id, feature._cachedResult.bodies);
+        if (feature._cachedResult.sketchPlane) {
+          context.sketchPlanes.set(feature.id, feature._cachedResult.sketchPlane);
+        }
+        if (feature._cachedResult.construction) {
+          context.construction.set(feature.id, feature._cachedResult.construction);
+        }
         continue;
       }
 
@@ -102,11 +179,15 @@ class FeatureEvaluatorClass {
     }
 
     const duration = performance.now() - start;
-    console.log(`[FeatureEvaluator] Rebuild complete in ${duration.toFixed(1)}ms`);
+    console.log(`[FeatureEvaluator] Rebuild ${cancelled ? 'cancelled' : 'complete'} in ${duration.toFixed(1)}ms`);
 
     return {
-      success: context.errors.size === 0,
+      success: !cancelled && context.errors.size === 0,
+      cancelled,
       bodies: context.bodies,
+      featureResults: context.featureResults,
+      sketchPlanes: context.sketchPlanes,
+      construction: context.construction,
       errors: context.errors,
       duration,
     };
@@ -123,11 +204,22 @@ class FeatureEvaluatorClass {
       case 'primitive':
         return this.evalPrimitive(feature);
       case 'sketch':
-        return this.evalSketch(feature);
+        return this.evalSketch(feature, context);
       case 'extrude':
         return this.evalExtrude(feature, context);
+      case 'revolve':
+        return this.evalRevolve(feature, context);
       case 'boolean':
         return this.evalBoolean(feature, context);
+      case 'fillet':
+      case 'chamfer':
+        return this.evalEdgeBlend(feature, context);
+      case 'plane':
+        return this.evalConstructionPlane(feature, context);
+      case 'axis':
+        return this.evalConstructionAxis(feature, context);
+      case 'point':
+        return this.evalConstructionPoint(feature, context);
       default:
         throw new Error(`Unknown feature type: ${(feature as Feature).type}`);
     }
@@ -175,8 +267,8 @@ class FeatureEvaluatorClass {
     }
 
     return [{
-      manifold,
-      bodyId: generateBodyId(),
+      manifold: TopologyNaming.markOriginal(manifold, feature.id, 0),
+      bodyId: generateBodyId(feature.id, 0),
       originFeatureId: feature.id,
     }];
   }
@@ -184,19 +276,57 @@ class FeatureEvaluatorClass {
   /**
    * Evaluate sketch feature - sketches don't produce bodies directly
    */
-  private evalSketch(_feature: SketchFeature): CachedBody[] {
+  private evalSketch(feature: SketchFeature, context: EvaluationContext): CachedBody[] {
+    // Sketches on a construction plane follow it
+    if (feature.parameters.plane.value === 'plane') {
+      const plane = this.getConstruction(feature.planeRef?.featureId, 'plane', context, 'Sketch');
+      context.sketchPlanes.set(feature.id, plane.plane);
+    }
+
+    // Sketches on a face follow it: find where the face is now
+    if (feature.parameters.plane.value === 'face') {
+      const face = feature.faceRef?.face;
+      if (!face || !feature.facePlane) {
+        throw new Error('Sketch: No face selected');
+      }
+
+      const bodies = Array.from(context.bodies.values());
+      const resolved = TopologyNaming.resolveFace(bodies.map(body => body.manifold), face);
+      if (!resolved) {
+        throw new Error(`Sketch: ${this.describeFace(face, context)} no longer exists`);
+      }
+      const [nx, ny, nz] = resolved.face.normal;
+      const [px, py, pz] = resolved.face.centroid;
+      context.sketchPlanes.set(
+        feature.id,
+        getFacePlane({ x: nx, y: ny, z: nz }, { x: px, y: py, z: pz }, feature.facePlane)
+      );
+    }
+
     // Sketches don't create bodies - they create profiles for extrusion
     // The profiles are stored in feature.sketchData.profiles
     return [];
   }
 
+  /**
+   * Where a sketch lies in world space; face and construction plane sketches
+   * on the plane resolved when the sketch was evaluated
+   */
+  private resolveSketchPlane(sketch: SketchFeature, context: EvaluationContext, label: string): SketchPlane {
+    const planeType = sketch.parameters.plane.value;
+    if ((planeType === 'face' || planeType === 'plane') && !context.sketchPlanes.has(sketch.id)) {
+      throw new Error(`${label}: The plane of ${sketch.name} could not be found`);
+    }
+    return getSketchPlane(sketch, context.sketchPlanes);
+  }
+
   /**
    * Evaluate extrude feature
    */
   private evalExtrude(feature: ExtrudeFeature, context: EvaluationContext): CachedBody[] {
     const params = feature.parameters;
-    const distance = params.distance.value;
-    const direction = params.direction.value;
+    const extent = (params.extent?.value ?? 'distance') as ExtrudeExtent;
+    const taperAngle = extent === 'distance' || extent === 'twoSides' ? params.taperAngle?.value ?? 0 : 0;
     const mode = params.mode.value;
 
     // Get the sketch profiles
@@ -207,95 +337,497 @@ class FeatureEvaluatorClass {
       throw new Error(`Extrude: Cannot find referenced sketch ${sketchFeatureId}`);
     }
 
-    const profiles = (sketchFeature as SketchFeature).sketchData?.profiles;
+    const profiles = sketchFeature.sketchData?.profiles;
     if (!profiles || profiles.length === 0) {
       throw new Error('Extrude: No profiles found in sketch');
     }
 
-    // Extrude each profile
-    const results: CachedBody[] = [];
+    if (Math.abs(taperAngle) >= 90) {
+      throw new Error('Extrude: Taper angle must be between -90 and 90 degrees');
+    }
+
+    const plane = this.resolveSketchPlane(sketchFeature, context, 'Extrude');
+    const solids: Manifold[] = [];
+    const regions = this.resolveProfiles(feature, profiles, 'Extrude');
 
-    for (const profile of profiles) {
-      // Convert profile to 2D points
-      const points = profile.outerLoop.map(p => [p.x, p.y] as [number, number]);
+    for (const profile of regions) {
+      // Convert profile to 2D polygons: outer loop then holes
+      const points = getProfileLoops(profile, context.chordTolerance).map(
+        loop => loop.map(p => [p.x, p.y] as [number, number])
+      );
 
-      // Calculate height based on direction
-      let height = distance;
-      let offset = 0;
+      const span = this.resolveExtrudeSpan(feature, extent, plane, profile, context);
 
-      if (direction === 'reverse') {
-        height = -distance;
-      } else if (direction === 'symmetric') {
-        height = distance;
-        offset = -distance / 2;
+      // Create the extruded solid, from -backward to +forward along the sketch normal
+      let manifold: Manifold;
+      if (taperAngle === 0) {
+        manifold = ManifoldEngine.extrude(points, span.forward + span.backward);
+        if (span.backward > 0) {
+          manifold = ManifoldEngine.translate(manifold, 0, 0, -span.backward);
+        }
+      } else {
+        // Each side tapers away from the sketch plane, so build them separately
+        const sides: Manifold[] = [];
+        if (span.forward > 0) {
+          sides.push(this.extrudeTapered(points, span.forward, taperAngle));
+        }
+        if (span.backward > 0) {
+          const side = this.extrudeTapered(points, span.backward, taperAngle);
+          sides.push(ManifoldEngine.scale(side, 1, 1, -1));
+        }
+        manifold = sides.length === 2 ? ManifoldEngine.union(sides[0], sides[1]) : sides[0];
       }
 
-      // Create the extruded solid
-      let manifold = ManifoldEngine.extrude(points, Math.abs(height));
+      // Apply sketch plane transformation
+      manifold = this.transformToPlane(manifold, plane);
 
-      // Apply direction offset
-      if (direction === 'reverse') {
-        manifold = ManifoldEngine.translate(manifold, 0, 0, -distance);
-      } else if (direction === 'symmetric') {
-        manifold = ManifoldEngine.translate(manifold, 0, 0, offset);
+      if (span.trim) {
+        manifold = ManifoldEngine.trimByPlane(manifold, span.trim.normal, span.trim.offset);
       }
 
-      // Apply sketch plane transformation
-      const sketchParams = (sketchFeature as SketchFeature).parameters;
-      const plane = sketchParams.plane.value;
-      const planeOffset = sketchParams.planeOffset.value;
-
-      manifold = this.transformToPlane(manifold, plane, planeOffset);
-
-      // Handle modes
-      if (mode === 'new') {
-        results.push({
-          manifold,
-          bodyId: generateBodyId(),
-          originFeatureId: feature.id,
-        });
-      } else if (mode === 'join' && feature.targetBodyRef) {
-        const targetBody = context.bodies.get(this.findBodyIdForFeature(feature.targetBodyRef.featureId, context));
-        if (targetBody) {
-          const joined = ManifoldEngine.union(targetBody.manifold, manifold);
-          // Remove old body and add new one
-          context.bodies.delete(targetBody.bodyId);
-          results.push({
-            manifold: joined,
-            bodyId: targetBody.bodyId,
-            originFeatureId: feature.id,
-          });
-        } else {
-          // No target body, create as new
-          results.push({
-            manifold,
-            bodyId: generateBodyId(),
-            originFeatureId: feature.id,
-          });
+      solids.push(TopologyNaming.markOriginal(manifold, feature.id, solids.length));
+    }
+
+    return this.applyBodyMode(feature, solids, mode, context);
+  }
+
+  /**
+   * How far an extrude reaches on either side of its sketch plane, plus the
+   * world plane to trim it back to when it ends at a face that is not parallel
+   * to the sketch
+   */
+  private resolveExtrudeSpan(
+    feature: ExtrudeFeature,
+    extent: ExtrudeExtent,
+    plane: SketchPlane,
+    profile: Profile,
+    context: EvaluationContext
+  ): ExtrudeSpan {
+    const params = feature.parameters;
+    const distance = params.distance.value;
+    const direction = params.direction.value;
+
+    switch (extent) {
+      case 'distance':
+      case 'twoSides': {
+        const span = extent === 'twoSides'
+          ? { forward: distance, backward: params.distance2?.value ?? distance }
+          : direction === 'reverse'
+            ? { forward: 0, backward: distance }
+            : direction === 'symmetric'
+              ? { forward: distance / 2, backward: distance / 2 }
+              : { forward: distance, backward: 0 };
+        if (span.forward < 0 || span.backward < 0 || span.forward + span.backward <= 0) {
+          throw new Error('Extrude: Distance must be greater than zero');
+        }
+        return span;
+      }
+
+      case 'throughAll': {
+        if (context.bodies.size === 0) {
+          throw new Error('Extrude: Through All needs an existing body');
         }
-      } else if (mode === 'cut' && feature.targetBodyRef) {
-        const targetBody = context.bodies.get(this.findBodyIdForFeature(feature.targetBodyRef.featureId, context));
-        if (targetBody) {
-          const cut = ManifoldEngine.difference(targetBody.manifold, manifold);
-          // Remove old body and add new one
-          context.bodies.delete(targetBody.bodyId);
-          results.push({
-            manifold: cut,
-            bodyId: targetBody.bodyId,
-            originFeatureId: feature.id,
-          });
+        let min = Infinity;
+        let max = -Infinity;
+        for (const body of context.bodies.values()) {
+          const range = this.getNormalRange(body.manifold, plane);
+          min = Math.min(min, range.min);
+          max = Math.max(max, range.max);
         }
+        const forward = Math.max(max, 0) + THROUGH_ALL_MARGIN;
+        const backward = Math.max(-min, 0) + THROUGH_ALL_MARGIN;
+        if (direction === 'reverse') return { forward: 0, backward };
+        if (direction === 'symmetric') return { forward, backward };
+        return { forward, backward: 0 };
+      }
+
+      case 'toObject':
+        return this.resolveToObjectSpan(feature, plane, profile, context);
+
+      default:
+        throw new Error(`Extrude: Unknown extent ${extent}`);
+    }
+  }
+
+  /**
+   * Span of an extrude that ends at a body or at the plane of a face
+   */
+  private resolveToObjectSpan(
+    feature: ExtrudeFeature,
+    plane: SketchPlane,
+    profile: Profile,
+    context: EvaluationContext
+  ): ExtrudeSpan {
+    const ref = feature.extentRef;
+    if (!ref) {
+      throw new Error('Extrude: No object selected to extrude to');
+    }
+
+    if (ref.type === 'body') {
+      const bodyIds = this.findBodyIdsForRef({ featureId: ref.featureId, type: 'body' }, context);
+      if (bodyIds.length === 0) {
+        throw new Error('Extrude: The body to extrude to no longer exists');
+      }
+
+      // Reach all the way through the bodies on whichever sides they lie
+      let min = Infinity;
+      let max = -Infinity;
+      for (const bodyId of bodyIds) {
+        const range = this.getNormalRange(context.bodies.get(bodyId)!.manifold, plane);
+        min = Math.min(min, range.min);
+        max = Math.max(max, range.max);
+      }
+      const span = { forward: Math.max(max, 0), backward: Math.max(-min, 0) };
+      if (span.forward + span.backward <= 0) {
+        throw new Error('Extrude: The body lies on the sketch plane');
+      }
+      return span;
+    }
+
+    // The face may have moved to another body since it was picked (e.g. by a join)
+    const bodies = Array.from(context.bodies.values());
+    const resolved = TopologyNaming.resolveFace(bodies.map(body => body.manifold), ref.face);
+    if (!resolved) {
+      throw new Error(`Extrude: ${this.describeFace(ref.face, context)} no longer exists`);
+    }
+    const face = { normal: resolved.face.normal, point: resolved.face.centroid };
+
+    const n = plane.normal;
+    const m = face.normal;
+    const facing = n.x * m[0] + n.y * m[1] + n.z * m[2];
+    if (Math.abs(facing) < AXIS_TOLERANCE) {
+      throw new Error('Extrude: The face is parallel to the extrude direction');
+    }
+
+    // Distance along the normal from each outer loop point to the face plane
+    const faceOffset = face.point[0] * m[0] + face.point[1] * m[1] + face.point[2] * m[2];
+    const reach = profile.outerLoop.map(p => {
+      const world = sketchToWorld(plane, p.x, p.y);
+      return (faceOffset - (world[0] * m[0] + world[1] * m[1] + world[2] * m[2])) / facing;
+    });
+    const min = Math.min(...reach);
+    const max = Math.max(...reach);
+    if (min < -AXIS_TOLERANCE && max > AXIS_TOLERANCE) {
+      throw new Error('Extrude: The face plane cuts through the profile');
+    }
+    if (Math.max(-min, max) <= AXIS_TOLERANCE) {
+      throw new Error('Extrude: The profile already lies on the face');
+    }
+
+    const span: ExtrudeSpan = max > AXIS_TOLERANCE
+      ? { forward: max, backward: 0 }
+      : { forward: 0, backward: -min };
+
+    // A slanted face ends the solid unevenly: keep the sketch side of its plane
+    if (max - min > AXIS_TOLERANCE) {
+      const side = max > AXIS_TOLERANCE ? -Math.sign(facing) : Math.sign(facing);
+      span.trim = { normal: [m[0] * side, m[1] * side, m[2] * side], offset: faceOffset * side };
+    }
+    return span;
+  }
+
+  /**
+   * Extrude a profile with its side walls drafted inward by the taper angle:
+   * at the far end every loop is offset into the region by height * tan(angle).
+   */
+  private extrudeTapered(points: [number, number][][], height: number, taperAngle: number): Manifold {
+    const inset = height * Math.tan(taperAngle * Math.PI / 180);
+    const top = points.map(loop => this.miterOffset(loop, inset));
+
+    // Moving the corners only holds while no edge shrinks away and no loops
+    // run into each other, which would show in the true offset
+    const topArea = top.reduce((sum, loop) => sum + loop.reduce((loopSum, [x, y], i) => {
+      const [nx, ny] = loop[(i + 1) % loop.length];
+      return loopSum + (x * ny - nx * y) / 2;
+    }, 0), 0);
+    const offsetArea = ManifoldEngine.offsetArea(points, -inset, TAPER_MITER_LIMIT);
+    const edgesKept = top.every((loop, l) => loop.every(([x, y], i) => {
+      const [nx, ny] = loop[(i + 1) % loop.length];
+      const [bx, by] = points[l][i];
+      const [bnx, bny] = points[l][(i + 1) % loop.length];
+      return (nx - x) * (bnx - bx) + (ny - y) * (bny - by) > 0;
+    }));
+    if (!edgesKept || topArea <= 0 || Math.abs(topArea - offsetArea) > TAPER_AREA_TOLERANCE * Math.max(1, offsetArea)) {
+      throw new Error('Extrude: Taper angle changes the shape of the profile before the extrude ends');
+    }
+
+    return ManifoldEngine.loft(points, top, height);
+  }
+
+  /**
+   * Loop with each edge moved distance to its left (into the region for
+   * CCW outer loops and CW holes), corners meeting where the edges do
+   */
+  private miterOffset(loop: [number, number][], distance: number): [number, number][] {
+    return loop.map(([x, y], i) => {
+      const [px, py] = loop[(i + loop.length - 1) % loop.length];
+      const [nx, ny] = loop[(i + 1) % loop.length];
+      const inLength = Math.hypot(x - px, y - py);
+      const outLength = Math.hypot(nx - x, ny - y);
+      // Left normals of the edges into and out of the corner
+      const n1 = [-(y - py) / inLength, (x - px) / inLength];
+      const n2 = [-(ny - y) / outLength, (nx - x) / outLength];
+      const scale = distance / (1 + n1[0] * n2[0] + n1[1] * n2[1]);
+      return [x + (n1[0] + n2[0]) * scale, y + (n1[1] + n2[1]) * scale];
+    });
+  }
+
+  /**
+   * Extent of a manifold along the sketch normal, relative to the sketch plane
+   */
+  private getNormalRange(manifold: Manifold, plane: SketchPlane): { min: number; max: number } {
+    const { min, max } = ManifoldEngine.getBounds(manifold);
+    const n = plane.normal;
+    // Farthest box corners in either direction along the normal
+    const low = (n.x >= 0 ? min[0] : max[0]) * n.x + (n.y >= 0 ? min[1] : max[1]) * n.y + (n.z >= 0 ? min[2] : max[2]) * n.z;
+    const high = (n.x >= 0 ? max[0] : min[0]) * n.x + (n.y >= 0 ? max[1] : min[1]) * n.y + (n.z >= 0 ? max[2] : min[2]) * n.z;
+    const level = plane.origin.x * n.x + plane.origin.y * n.y + plane.origin.z * n.z + plane.offset;
+    return { min: low - level, max: high - level };
+  }
+
+  /**
+   * Evaluate revolve feature
+   */
+  private evalRevolve(feature: RevolveFeature, context: EvaluationContext): CachedBody[] {
+    const params = feature.parameters;
+    const angle = params.angle.value;
+    const mode = params.mode.value;
+
+    if (angle <= 0 || angle > 360) {
+      throw new Error('Revolve: Angle must be between 0 and 360 degrees');
+    }
+
+    // Get the sketch profiles
+    const sketchFeatureId = feature.sketchRef.featureId;
+    const sketchFeature = this.findFeatureInContext(sketchFeatureId, context);
+
+    if (!sketchFeature || sketchFeature.type !== 'sketch') {
+      throw new Error(`Revolve: Cannot find referenced sketch ${sketchFeatureId}`);
+    }
+
+    const profiles = sketchFeature.sketchData?.profiles;
+    if (!profiles || profiles.length === 0) {
+      throw new Error('Revolve: No profiles found in sketch');
+    }
+
+    const plane = this.resolveSketchPlane(sketchFeature, context, 'Revolve');
+    const axis = this.resolveRevolveAxis(feature.axisRef, sketchFeature, plane, context);
+    const solids: Manifold[] = [];
+
+    for (const profile of this.resolveProfiles(feature, profiles, 'Revolve')) {
+      // Express the loops in the axis frame: x is the distance from the axis,
+      // y the position along it (ManifoldEngine.revolve turns around y)
+      const loops = getProfileLoops(profile, context.chordTolerance).map(loop => loop.map(p => {
+        const dx = p.x - axis.origin.x;
+        const dy = p.y - axis.origin.y;
+        return [dx * axis.direction.y - dy * axis.direction.x, dx * axis.direction.x + dy * axis.direction.y] as [number, number];
+      }));
+
+      const radii = loops[0].map(([r]) => r);
+      const minRadius = Math.min(...radii);
+      const maxRadius = Math.max(...radii);
+      if (minRadius < -AXIS_TOLERANCE && maxRadius > AXIS_TOLERANCE) {
+        throw new Error('Revolve: Profile crosses the axis');
+      }
+
+      // Profiles left of the axis are mirrored over to the positive side,
+      // which flips their winding
+      const side = maxRadius > AXIS_TOLERANCE ? 1 : -1;
+      if (side < 0) {
+        for (const loop of loops) {
+          for (const point of loop) point[0] = -point[0];
+          loop.reverse();
+        }
+      }
+
+      // Segments of a full revolution keep the outermost circle within the
+      // chord tolerance (partial revolves get a proportional share)
+      const segments = segmentsPerTurn(Math.max(-minRadius, maxRadius), context.chordTolerance);
+      let manifold = ManifoldEngine.revolve(loops, segments, angle);
+
+      // Place the revolve frame in sketch space: x along the side normal,
+      // z along the axis, y completing a right-handed frame
+      const n = { x: axis.direction.y * side, y: -axis.direction.x * side };
+      const d = axis.direction;
+      const yz = d.x * n.y - d.y * n.x;
+      manifold = ManifoldEngine.transform(manifold, [
+        n.x, n.y, 0, 0,
+        0, 0, yz, 0,
+        d.x, d.y, 0, 0,
+        axis.origin.x, axis.origin.y, 0, 1,
+      ]);
+
+      // Apply sketch plane transformation
+      manifold = this.transformToPlane(manifold, plane);
+
+      solids.push(TopologyNaming.markOriginal(manifold, feature.id, solids.length));
+    }
+
+    return this.applyBodyMode(feature, solids, mode, context);
+  }
+
+  /**
+   * Axis of a revolve as a point and unit direction in sketch coordinates
+   */
+  private resolveRevolveAxis(
+    axisRef: RevolveAxisRef,
+    sketch: SketchFeature,
+    plane: SketchPlane,
+    context: EvaluationContext
+  ): { origin: Point2D; direction: Point2D } {
+    if (axisRef.type === 'line') {
+      const entity = sketch.sketchData?.entities.find(e => e.id === axisRef.entityId);
+      if (!entity || entity.type !== 'line') {
+        throw new Error('Revolve: Axis line no longer exists in the sketch');
+      }
+      const line = entity as LineEntity;
+      const dx = line.end.x - line.start.x;
+      const dy = line.end.y - line.start.y;
+      const length = Math.hypot(dx, dy);
+      if (length < AXIS_TOLERANCE) {
+        throw new Error('Revolve: Axis line has no length');
+      }
+      return { origin: line.start, direction: { x: dx / length, y: dy / length } };
+    }
+
+    if (axisRef.type === 'axis') {
+      const axis = this.getConstruction(axisRef.featureId, 'axis', context, 'Revolve');
+      const projected = projectAxisToPlane(plane, axis.origin, axis.direction);
+      if (!projected) {
+        throw new Error('Revolve: The axis does not lie in the sketch plane');
+      }
+      return projected;
+    }
+
+    // Origin axes are the world axes through the world origin
+    const direction = {
+      x: axisRef.axis === 'X' ? 1 : 0,
+      y: axisRef.axis === 'Y' ? 1 : 0,
+      z: axisRef.axis === 'Z' ? 1 : 0,
+    };
+    const projected = projectAxisToPlane(plane, { x: 0, y: 0, z: 0 }, direction);
+    if (!projected) {
+      throw new Error(`Revolve: The ${axisRef.axis} axis does not lie in the sketch plane`);
+    }
+    return projected;
+  }
+
+  /**
+   * Profiles a sketch-based feature applies to: its selected profiles, or
+   * every material region when none are selected (odd-depth profiles are holes)
+   */
+  private resolveProfiles(feature: ExtrudeFeature | RevolveFeature, profiles: Profile[], label: string): Profile[] {
+    if (!feature.profileRefs || feature.profileRefs.length === 0) {
+      return profiles.filter(profile => profile.depth % 2 === 0);
+    }
+
+    const resolved = new Set<Profile>();
+    let missing = 0;
+    for (const ref of feature.profileRefs) {
+      const profile = resolveProfileRef(ref, profiles);
+      if (profile) {
+        resolved.add(profile);
       } else {
-        // Default to new body
-        results.push({
-          manifold,
-          bodyId: generateBodyId(),
-          originFeatureId: feature.id,
-        });
+        missing++;
       }
     }
 
-    return results;
+    if (missing > 0) {
+      throw new Error(`${label}: ${missing} of ${feature.profileRefs.length} selected profiles no longer exist in the sketch`);
+    }
+
+    return Array.from(resolved);
+  }
+
+  /**
+   * Turn a sketch-based feature's solids into bodies according to its mode:
+   * one new body per solid, or all solids joined to / cut from the target bodies
+   */
+  private applyBodyMode(
+    feature: ExtrudeFeature | RevolveFeature,
+    solids: Manifold[],
+    mode: string,
+    context: EvaluationContext
+  ): CachedBody[] {
+    const newBodies = () => solids.map((manifold, slot) => ({
+      manifold,
+      bodyId: generateBodyId(feature.id, slot),
+      originFeatureId: feature.id,
+    }));
+
+    if (mode !== 'join' && mode !== 'cut') {
+      return newBodies();
+    }
+
+    const tool = solids.reduce((combined, solid) => ManifoldEngine.union(combined, solid));
+    const targets = this.resolveTargetBodies(feature, tool, context);
+    if (targets.length === 0) {
+      // Nothing to cut from; with no target a join creates new bodies
+      return mode === 'join' ? newBodies() : [];
+    }
+
+    return this.combineBodies(feature, targets, tool, mode === 'join' ? 'union' : 'difference', context);
+  }
+
+  /**
+   * Bodies a join, cut or boolean applies to, in reference order. With the
+   * 'intersecting' scope these are every body the tool overlaps, except the
+   * excluded ones (the tool's own bodies).
+   */
+  private resolveTargetBodies(
+    feature: ExtrudeFeature | RevolveFeature | BooleanFeature,
+    tool: Manifold,
+    context: EvaluationContext,
+    excludeIds: string[] = []
+  ): CachedBody[] {
+    if (feature.targetScope === 'intersecting') {
+      return Array.from(context.bodies.values()).filter(
+        body => !excludeIds.includes(body.bodyId) && ManifoldEngine.intersects(body.manifold, tool)
+      );
+    }
+
+    const refs = feature.targetBodyRefs ?? (feature.targetBodyRef ? [feature.targetBodyRef] : []);
+    const ids = new Set(refs.flatMap(ref => this.findBodyIdsForRef(ref, context)));
+    return Array.from(ids)
+      .filter(bodyId => !excludeIds.includes(bodyId))
+      .map(bodyId => context.bodies.get(bodyId)!);
+  }
+
+  /**
+   * Apply a boolean between each target and the tool. Union merges every
+   * target into the first one; the other operations keep one body per target.
+   * Results keep their target's body ID.
+   */
+  private combineBodies(
+    feature: Feature,
+    targets: CachedBody[],
+    tool: Manifold,
+    operation: string,
+    context: EvaluationContext
+  ): CachedBody[] {
+    for (const target of targets) {
+      context.bodies.delete(target.bodyId);
+    }
+
+    if (operation === 'union') {
+      const merged = targets.reduce((combined, target) => ManifoldEngine.union(combined, target.manifold), tool);
+      return [{ manifold: merged, bodyId: targets[0].bodyId, originFeatureId: feature.id }];
+    }
+
+    return targets.map(target => {
+      let manifold: Manifold;
+      switch (operation) {
+        case 'difference':
+          manifold = ManifoldEngine.difference(target.manifold, tool);
+          break;
+        case 'intersect':
+          manifold = ManifoldEngine.intersect(target.manifold, tool);
+          break;
+        default:
+          throw new Error(`Unknown boolean operation: ${operation}`);
+      }
+      return { manifold, bodyId: target.bodyId, originFeatureId: feature.id };
+    });
   }
 
   /**
@@ -305,94 +837,316 @@ class FeatureEvaluatorClass {
     const params = feature.parameters;
     const operation = params.operation.value;
 
-    // Get target and tool bodies
-    const targetBodyId = this.findBodyIdForFeature(feature.targetBodyRef.featureId, context);
-    const toolBodyId = this.findBodyIdForFeature(feature.toolBodyRef.featureId, context);
-
-    const targetBody = context.bodies.get(targetBodyId);
-    const toolBody = context.bodies.get(toolBodyId);
+    // Every body of the tool feature acts as one tool
+    const toolBodyIds = this.findBodyIdsForRef(feature.toolBodyRef, context);
+    if (toolBodyIds.length === 0) {
+      throw new Error(`Boolean: Cannot find tool body from feature ${feature.toolBodyRef.featureId}`);
+    }
+    const tool = toolBodyIds
+      .map(bodyId => context.bodies.get(bodyId)!.manifold)
+      .reduce((combined, manifold) => ManifoldEngine.union(combined, manifold));
 
-    if (!targetBody) {
+    const targets = this.resolveTargetBodies(feature, tool, context, toolBodyIds);
+    if (targets.length === 0) {
       throw new Error(`Boolean: Cannot find target body from feature ${feature.targetBodyRef.featureId}`);
     }
-    if (!toolBody) {
-      throw new Error(`Boolean: Cannot find tool body from feature ${feature.toolBodyRef.featureId}`);
+
+    // The tool is consumed
+    for (const bodyId of toolBodyIds) {
+      context.bodies.delete(bodyId);
+    }
+
+    return this.combineBodies(feature, targets, tool, operation, context);
+  }
+
+  // ============ EDGE BLENDS ============
+
+  /**
+   * Evaluate fillet or chamfer feature: rounds or bevels edges of existing
+   * bodies, which keep their IDs. All edges are measured before any is
+   * blended, so blends meeting at a corner do not disturb each other.
+   */
+  private evalEdgeBlend(feature: FilletFeature | ChamferFeature, context: EvaluationContext): CachedBody[] {
+    const shape = feature.type;
+    const label = shape === 'fillet' ? 'Fillet' : 'Chamfer';
+    const size = shape === 'fillet' ? feature.parameters.radius.value : feature.parameters.distance.value;
+    const sizeName = shape === 'fillet' ? 'Radius' : 'Distance';
+
+    if (!(size > 0)) {
+      throw new Error(`${label}: ${sizeName} must be greater than zero`);
+    }
+    if (feature.edgeRefs.length === 0) {
+      throw new Error(`${label}: No edges selected`);
+    }
+
+    // Tools to cut away (convex edges) and fill in (concave edges), per body
+    const tools = new Map<string, { cut: Manifold[]; fill: Manifold[]; corners: EdgeCorner[] }>();
+    let slot = 0;
+    for (const ref of feature.edgeRefs) {
+      const found = ref.edge ? this.findEdge(ref.edge, context) : null;
+      if (!found) {
+        throw new Error(`${label}: ${this.describeEdge(ref.featureId, context)} no longer exists`);
+      }
+
+      const corner = getEdgeCorner(found.body.manifold, found.faces, found.segments, label);
+      if (getBlendSetback(corner, shape, size) > Math.min(...corner.widths) + BLEND_TOLERANCE) {
+        throw new Error(`${label}: ${sizeName} of ${size} mm is too large for ${this.describeEdge(ref.featureId, context)}`);
+      }
+
+      const tool = TopologyNaming.markOriginal(createBlendTool(corner, shape, size, context.chordTolerance), feature.id, slot++);
+      const bodyTools = tools.get(found.body.bodyId) ?? { cut: [], fill: [], corners: [] };
+      (corner.convex ? bodyTools.cut : bodyTools.fill).push(tool);
+      bodyTools.corners.push(corner);
+      tools.set(found.body.bodyId, bodyTools);
+    }
+
+    // Round the corners where three fillets meet
+    if (shape === 'fillet') {
+      for (const bodyTools of tools.values()) {
+        for (const patch of createCornerPatches(bodyTools.corners, size, context.chordTolerance)) {
+          bodyTools.cut.push(TopologyNaming.markOriginal(patch, feature.id, slot++));
+        }
+      }
     }
 
-    let result: Manifold;
+    return Array.from(tools, ([bodyId, { cut, fill }]) => {
+      let manifold = context.bodies.get(bodyId)!.manifold;
+      if (cut.length > 0) {
+        manifold = ManifoldEngine.difference(manifold, cut.reduce((all, tool) => ManifoldEngine.union(all, tool)));
+      }
+      if (fill.length > 0) {
+        manifold = ManifoldEngine.union(manifold, fill.reduce((all, tool) => ManifoldEngine.union(all, tool)));
+      }
+      if (manifold.isEmpty()) {
+        throw new Error(`${label}: Nothing is left of the body`);
+      }
+      return { manifold, bodyId, originFeatureId: feature.id };
+    });
+  }
 
-    switch (operation) {
-      case 'union':
-        result = ManifoldEngine.union(targetBody.manifold, toolBody.manifold);
+  /**
+   * Find a named edge on the current bodies, with the faces either side of it
+   */
+  private findEdge(
+    edge: EdgeName,
+    context: EvaluationContext
+  ): { body: CachedBody; faces: [BodyFace, BodyFace]; segments: Array<[Vec3, Vec3]> } | null {
+    // The edge may have moved to another body since it was picked
+    for (const body of context.bodies.values()) {
+      const segments = TopologyNaming.resolveEdge(body.manifold, edge);
+      if (!segments) continue;
+
+      const faces = edge.faces.map(face => TopologyNaming.resolveFace([body.manifold], face)!.face);
+      return { body, faces: faces as [BodyFace, BodyFace], segments };
+    }
+    return null;
+  }
+
+  // ============ CONSTRUCTION GEOMETRY ============
+
+  /**
+   * Evaluate construction plane feature - no bodies, just a plane
+   */
+  private evalConstructionPlane(feature: ConstructionPlaneFeature, context: EvaluationContext): CachedBody[] {
+    const params = feature.parameters;
+    const planeRefs = feature.planeRefs ?? [];
+    const pointRefs = feature.pointRefs ?? [];
+    let plane: SketchPlane;
+
+    switch (params.method.value) {
+      case 'offset':
+        if (planeRefs.length < 1) throw new Error('Plane: Select a reference plane');
+        plane = offsetPlane(this.resolvePlaneRef(planeRefs[0], context, 'Plane'), params.offset.value);
         break;
-      case 'difference':
-        result = ManifoldEngine.difference(targetBody.manifold, toolBody.manifold);
+      case 'angle': {
+        if (planeRefs.length < 1 || !feature.axisRef) throw new Error('Plane: Select a reference plane and an axis');
+        const axis = this.resolveAxisRef(feature.axisRef, context, 'Plane');
+        plane = rotatePlane(this.resolvePlaneRef(planeRefs[0], context, 'Plane'), axis.origin, axis.direction, params.angle.value);
         break;
-      case 'intersect':
-        result = ManifoldEngine.intersect(targetBody.manifold, toolBody.manifold);
+      }
+      case 'midplane':
+        if (planeRefs.length < 2) throw new Error('Plane: Select two planes');
+        plane = midPlane(this.resolvePlaneRef(planeRefs[0], context, 'Plane'), this.resolvePlaneRef(planeRefs[1], context, 'Plane'));
+        break;
+      case 'threePoints': {
+        if (pointRefs.length < 3) throw new Error('Plane: Select three points');
+        const [a, b, c] = pointRefs.map(ref => this.resolvePointRef(ref, context, 'Plane'));
+        plane = planeThroughPoints(a, b, c);
         break;
+      }
       default:
-        throw new Error(`Unknown boolean operation: ${operation}`);
+        throw new Error(`Unknown plane method: ${params.method.value}`);
     }
 
-    // Remove both original bodies
-    context.bodies.delete(targetBodyId);
-    context.bodies.delete(toolBodyId);
-
-    return [{
-      manifold: result,
-      bodyId: generateBodyId(),
-      originFeatureId: feature.id,
-    }];
+    context.construction.set(feature.id, { type: 'plane', plane });
+    return [];
   }
 
   /**
-   * Transform manifold from XY plane to target plane
+   * Evaluate construction axis feature - no bodies, just an axis
    */
-  private transformToPlane(manifold: Manifold, plane: string, offset: number): Manifold {
-    let transformed = manifold;
+  private evalConstructionAxis(feature: ConstructionAxisFeature, context: EvaluationContext): CachedBody[] {
+    const method = feature.parameters.method.value;
+    let axis: { origin: Point3D; direction: Point3D };
 
-    switch (plane) {
-      case 'XY':
-        // Default plane, just apply Z offset
-        if (offset !== 0) {
-          transformed = ManifoldEngine.translate(transformed, 0, 0, offset);
-        }
+    switch (method) {
+      case 'twoPoints': {
+        const pointRefs = feature.pointRefs ?? [];
+        if (pointRefs.length < 2) throw new Error('Axis: Select two points');
+        const [a, b] = pointRefs.map(ref => this.resolvePointRef(ref, context, 'Axis'));
+        axis = axisThroughPoints(a, b);
         break;
-      case 'XZ':
-        // Rotate -90 around X, then offset in Y
-        transformed = ManifoldEngine.rotate(transformed, -90, 0, 0);
-        if (offset !== 0) {
-          transformed = ManifoldEngine.translate(transformed, 0, offset, 0);
-        }
+      }
+      case 'edge':
+        if (!feature.axisRef) throw new Error('Axis: Select an edge');
+        axis = this.resolveAxisRef(feature.axisRef, context, 'Axis');
         break;
-      case 'YZ':
-        // Rotate 90 around Y, then offset in X
-        transformed = ManifoldEngine.rotate(transformed, 0, 90, 0);
-        if (offset !== 0) {
-          transformed = ManifoldEngine.translate(transformed, offset, 0, 0);
+      default:
+        throw new Error(`Unknown axis method: ${method}`);
+    }
+
+    context.construction.set(feature.id, { type: 'axis', ...axis });
+    return [];
+  }
+
+  /**
+   * Evaluate construction point feature - no bodies, just a point
+   */
+  private evalConstructionPoint(feature: ConstructionPointFeature, context: EvaluationContext): CachedBody[] {
+    const { x, y, z } = feature.parameters;
+    context.construction.set(feature.id, { type: 'point', position: { x: x.value, y: y.value, z: z.value } });
+    return [];
+  }
+
+  /**
+   * World plane of a plane reference
+   */
+  private resolvePlaneRef(ref: PlaneRef, context: EvaluationContext, label: string): SketchPlane {
+    switch (ref.type) {
+      case 'origin':
+        return getOriginPlane(ref.plane);
+      case 'plane':
+        return this.getConstruction(ref.featureId, 'plane', context, label).plane;
+      case 'face': {
+        const bodies = Array.from(context.bodies.values());
+        const resolved = TopologyNaming.resolveFace(bodies.map(body => body.manifold), ref.face);
+        if (!resolved) {
+          throw new Error(`${label}: ${this.describeFace(ref.face, context)} no longer exists`);
         }
-        break;
+        const [nx, ny, nz] = resolved.face.normal;
+        const [px, py, pz] = resolved.face.centroid;
+        return getFacePlane({ x: nx, y: ny, z: nz }, { x: px, y: py, z: pz });
+      }
     }
+  }
 
-    return transformed;
+  /**
+   * World line of an axis reference, as a point and unit direction
+   */
+  private resolveAxisRef(ref: AxisRef, context: EvaluationContext, label: string): { origin: Point3D; direction: Point3D } {
+    switch (ref.type) {
+      case 'origin':
+        return {
+          origin: { x: 0, y: 0, z: 0 },
+          direction: { x: ref.axis === 'X' ? 1 : 0, y: ref.axis === 'Y' ? 1 : 0, z: ref.axis === 'Z' ? 1 : 0 },
+        };
+      case 'axis': {
+        const { origin, direction } = this.getConstruction(ref.featureId, 'axis', context, label);
+        return { origin, direction };
+      }
+      case 'edge': {
+        // The edge may have moved to another body since it was picked
+        for (const body of context.bodies.values()) {
+          const segments = TopologyNaming.resolveEdge(body.manifold, ref.edge);
+          if (segments) {
+            return axisAlongSegments(segments.map(([a, b]) => [
+              { x: a[0], y: a[1], z: a[2] },
+              { x: b[0], y: b[1], z: b[2] },
+            ]));
+          }
+        }
+        throw new Error(`${label}: ${this.describeEdge(ref.featureId, context)} no longer exists`);
+      }
+    }
+  }
+
+  /**
+   * World position of a point reference
+   */
+  private resolvePointRef(ref: PointRef, context: EvaluationContext, label: string): Point3D {
+    if (ref.type === 'origin') {
+      return { x: 0, y: 0, z: 0 };
+    }
+    return this.getConstruction(ref.featureId, 'point', context, label).position;
   }
 
   /**
-   * Find the body ID for a feature
+   * Geometry of a construction feature evaluated earlier in this rebuild
    */
-  private findBodyIdForFeature(featureId: string, context: EvaluationContext): string {
-    const bodies = context.featureResults.get(featureId);
+  private getConstruction<T extends ConstructionGeometry['type']>(
+    featureId: string | undefined,
+    type: T,
+    context: EvaluationContext,
+    label: string
+  ): Extract<ConstructionGeometry, { type: T }> {
+    const geometry = featureId ? context.construction.get(featureId) : undefined;
+    if (!geometry || geometry.type !== type) {
+      const feature = featureId ? this.findFeatureInContext(featureId, context) : null;
+      throw new Error(feature
+        ? `${label}: ${feature.name} is not an available construction ${type}`
+        : `${label}: Construction ${type} no longer exists`);
+    }
+    return geometry as Extract<ConstructionGeometry, { type: T }>;
+  }
+
+  /**
+   * Transform manifold from XY plane to the sketch plane
+   */
+  private transformToPlane(manifold: Manifold, plane: SketchPlane): Manifold {
+    const { normal: n, xAxis: u, yAxis: v } = plane;
+    const [x, y, z] = sketchToWorld(plane, 0, 0);
+    return ManifoldEngine.transform(manifold, [
+      u.x, u.y, u.z, 0,
+      v.x, v.y, v.z, 0,
+      n.x, n.y, n.z, 0,
+      x, y, z, 1,
+    ]);
+  }
+
+  /**
+   * Find the IDs of the bodies a body reference points at that still exist:
+   * the body at the ref's index, or all bodies of the feature without one
+   */
+  private findBodyIdsForRef(ref: GeometryRef, context: EvaluationContext): string[] {
+    const bodies = context.featureResults.get(ref.featureId);
     if (bodies && bodies.length > 0) {
-      return bodies[0].bodyId;
+      const referenced = ref.index !== undefined ? bodies.slice(ref.index, ref.index + 1) : bodies;
+      return referenced.map(body => body.bodyId).filter(bodyId => context.bodies.has(bodyId));
     }
     // Fallback: search all bodies
+    const ids: string[] = [];
     for (const [bodyId, body] of context.bodies) {
-      if (body.originFeatureId === featureId) {
-        return bodyId;
+      if (body.originFeatureId === ref.featureId) {
+        ids.push(bodyId);
       }
     }
-    return '';
+    return ref.index !== undefined ? ids.slice(ref.index, ref.index + 1) : ids;
+  }
+
+  /**
+   * Describe a named face for error messages, e.g. "Face of Extrude 2"
+   */
+  private describeFace(face: FaceName, context: EvaluationContext): string {
+    const feature = this.findFeatureInContext(face.key.featureId, context);
+    return feature ? `Face of ${feature.name}` : 'Face of a deleted feature';
+  }
+
+  /**
+   * Edge picked on a body of a feature, for error messages
+   */
+  private describeEdge(featureId: string, context: EvaluationContext): string {
+    const feature = this.findFeatureInContext(featureId, context);
+    return feature ? `Edge of ${feature.name}` : 'Edge of a deleted feature';
   }
 
   /**
@@ -406,23 +1160,3 @@ class FeatureEvaluatorClass {
 // Export singleton
 export const FeatureEvaluator = new FeatureEvaluatorClass();
 
-// ============ REBUILD HELPER FUNCTIONS ============
-
-/**
- * Perform a full rebuild and update the viewport
- */
-export async function rebuildAndUpdateViewport(
-  features: Feature[],
-  onBodiesUpdated: (bodies: Map<string, CachedBody>) => void,
-  onError?: (errors: Map<string, string>) => void
-): Promise<RebuildResult> {
-  const result = await FeatureEvaluator.rebuild(features);
-
-  if (result.success) {
-    onBodiesUpdated(result.bodies);
-  } else if (onError) {
-    onError(result.errors);
-  }
-
-  return result;
-}
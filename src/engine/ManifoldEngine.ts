@@ -4,12 +4,12 @@
  * This provides solid modeling operations:
  * - Primitive creation (box, cylinder, sphere)
  * - Boolean operations (union, difference, intersect)
- * - Extrusion from 2D profiles
+ * - Extrusion and revolution of 2D profiles
  * - Tessellation for rendering
  */
 
 import Module from 'manifold-3d';
-import type { ManifoldToplevel, Manifold, Mesh, Vec3 } from 'manifold-3d';
+import type { ManifoldToplevel, Manifold, Mat4, Mesh, Vec3 } from 'manifold-3d';
 
 export interface TessellatedMesh {
   vertices: Float32Array;  // x, y, z interleaved
@@ -31,6 +31,16 @@ export interface PerformanceMetrics {
   memoryUsedMB?: number;
 }
 
+/**
+ * Normalize a single polygon or a list of polygons to a list
+ */
+function toPolygons(points: [number, number][] | [number, number][][]): [number, number][][] {
+  if (points.length === 0) return [];
+  return typeof points[0][0] === 'number'
+    ? [points as [number, number][]]
+    : points as [number, number][][];
+}
+
 class ManifoldEngineClass {
   private wasm: ManifoldToplevel | null = null;
   private initPromise: Promise<void> | null = null;
@@ -48,6 +58,8 @@ class ManifoldEngineClass {
       const start = performance.now();
 
       this.wasm = await Module();
+      // Attach the JS API (Manifold.cube, CrossSection, ...) to the module
+      this.wasm.setup();
 
       const duration = performance.now() - start;
       console.log(`[ManifoldEngine] WASM initialized in ${duration.toFixed(1)}ms`);
@@ -136,6 +148,24 @@ class ManifoldEngineClass {
     return sphere;
   }
 
+  /**
+   * Create the convex hull of a set of points
+   */
+  createHull(points: Vec3[]): Manifold {
+    const wasm = this.ensureInitialized();
+    const start = performance.now();
+
+    const hull = wasm.Manifold.hull(points);
+
+    this.recordMetric({
+      operationName: 'createHull',
+      durationMs: performance.now() - start,
+      outputTriangles: hull.numTri(),
+    });
+
+    return hull;
+  }
+
   // ============ BOOLEAN OPERATIONS ============
 
   /**
@@ -195,6 +225,21 @@ class ManifoldEngineClass {
     return result;
   }
 
+  /**
+   * Whether two manifolds overlap in volume (touching does not count)
+   */
+  intersects(a: Manifold, b: Manifold): boolean {
+    const boxA = a.boundingBox();
+    const boxB = b.boundingBox();
+    for (let i = 0; i < 3; i++) {
+      if (boxA.min[i] > boxB.max[i] || boxB.min[i] > boxA.max[i]) return false;
+    }
+    const overlap = this.intersect(a, b);
+    const empty = overlap.isEmpty();
+    overlap.delete();
+    return !empty;
+  }
+
   // ============ TRANSFORMS ============
 
   /**
@@ -211,6 +256,20 @@ class ManifoldEngineClass {
     return manifold.rotate([x, y, z]);
   }
 
+  /**
+   * Apply an affine transform (4x4 matrix in column-major order)
+   */
+  transform(manifold: Manifold, matrix: Mat4): Manifold {
+    return manifold.transform(matrix);
+  }
+
+  /**
+   * Keep the part of a manifold in front of a plane (dot(normal, p) >= offset)
+   */
+  trimByPlane(manifold: Manifold, normal: Vec3, offset: number): Manifold {
+    return manifold.trimByPlane(normal, offset);
+  }
+
   /**
    * Scale a manifold
    */
@@ -222,14 +281,15 @@ class ManifoldEngineClass {
 
   /**
    * Extrude a 2D polygon profile along Z axis
-   * Points should be in counter-clockwise order for a solid
+   * Points should be in counter-clockwise order for a solid. Pass several
+   * polygons for a profile with holes: CCW outer loop, CW hole loops.
    */
-  extrude(points: [number, number][], height: number, nDivisions: number = 0): Manifold {
+  extrude(points: [number, number][] | [number, number][][], height: number, nDivisions: number = 0): Manifold {
     const wasm = this.ensureInitialized();
     const start = performance.now();
 
-    // Create a CrossSection from the 2D points
-    const crossSection = new wasm.CrossSection([points]);
+    // Create a CrossSection from the 2D points (holes cancel by winding)
+    const crossSection = new wasm.CrossSection(toPolygons(points));
 
     // Extrude along Z
     const result = wasm.Manifold.extrude(crossSection, height, nDivisions);
@@ -247,14 +307,19 @@ class ManifoldEngineClass {
   }
 
   /**
-   * Revolve a 2D polygon profile around Y axis
+   * Revolve a 2D polygon profile around its Y axis, which becomes the Z axis
+   * of the result. Pass several polygons for a profile with holes.
    */
-  revolve(points: [number, number][], circularSegments: number = 32): Manifold {
+  revolve(
+    points: [number, number][] | [number, number][][],
+    circularSegments: number = 32,
+    revolveDegrees: number = 360
+  ): Manifold {
     const wasm = this.ensureInitialized();
     const start = performance.now();
 
-    const crossSection = new wasm.CrossSection([points]);
-    const result = wasm.Manifold.revolve(crossSection, circularSegments);
+    const crossSection = new wasm.CrossSection(toPolygons(points));
+    const result = wasm.Manifold.revolve(crossSection, circularSegments, revolveDegrees);
 
     this.recordMetric({
       operationName: 'revolve',
@@ -267,6 +332,71 @@ class ManifoldEngineClass {
     return result;
   }
 
+  /**
+   * Join two 2D profiles by straight side walls, the first at z = 0 and the
+   * second at z = height (for tapers). Both need the same loops with the same
+   * vertex counts; vertex i of one loop is joined to vertex i of the other.
+   */
+  loft(bottom: [number, number][][], top: [number, number][][], height: number): Manifold {
+    const wasm = this.ensureInitialized();
+    const start = performance.now();
+
+    // Bottom vertices first, then the top ones in the same order
+    const count = bottom.reduce((sum, loop) => sum + loop.length, 0);
+    const vertProperties = new Float32Array(count * 6);
+    [bottom, top].flat(2).forEach(([x, y], i) => {
+      vertProperties.set([x, y, i < count ? 0 : height], i * 3);
+    });
+
+    // Caps: the bottom faces down, the top up
+    const triangles: number[] = [];
+    for (const [a, b, c] of wasm.triangulate(bottom)) {
+      triangles.push(a, c, b);
+    }
+    for (const [a, b, c] of wasm.triangulate(top)) {
+      triangles.push(count + a, count + b, count + c);
+    }
+
+    // Side walls: a quad per loop edge
+    let first = 0;
+    for (const loop of bottom) {
+      for (let i = 0; i < loop.length; i++) {
+        const a = first + i;
+        const b = first + (i + 1) % loop.length;
+        triangles.push(a, b, count + b, a, count + b, count + a);
+      }
+      first += loop.length;
+    }
+
+    const mesh = new wasm.Mesh({ numProp: 3, vertProperties, triVerts: new Uint32Array(triangles) });
+    const result = new wasm.Manifold(mesh);
+
+    this.recordMetric({
+      operationName: 'loft',
+      durationMs: performance.now() - start,
+      outputTriangles: result.numTri(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Area of a 2D profile grown by delta (shrunk when negative), with mitered
+   * corners
+   */
+  offsetArea(points: [number, number][] | [number, number][][], delta: number, miterLimit: number): number {
+    const wasm = this.ensureInitialized();
+
+    const crossSection = new wasm.CrossSection(toPolygons(points));
+    const offset = crossSection.offset(delta, 'Miter', miterLimit);
+    const area = offset.area();
+
+    crossSection.delete();
+    offset.delete();
+
+    return area;
+  }
+
   // ============ TESSELLATION ============
 
   /**
@@ -416,6 +546,14 @@ class ManifoldEngineClass {
     return status === 'NoError' || status === (0 as unknown as string);
   }
 
+  /**
+   * Axis-aligned bounding box
+   */
+  getBounds(manifold: Manifold): { min: Vec3; max: Vec3 } {
+    const box = manifold.boundingBox();
+    return { min: [...box.min] as Vec3, max: [...box.max] as Vec3 };
+  }
+
   /**
    * Get mesh statistics
    */
@@ -0,0 +1,553 @@
+/**
+ * PlanarArrangement - Split sketch curves where they meet and trace the
+ * regions between them
+ *
+ * Every line and arc is cut at each arrangement vertex lying on it (curve
+ * ends and crossings), so the pieces only touch at their ends. Walking the
+ * pieces with the region on the left traces every face of the arrangement:
+ * bounded faces come out counter-clockwise, the outside of each connected
+ * group of curves clockwise. Dangling pieces and bridges bound no region and
+ * are dropped first.
+ *
+ * Splines are intersected as fine polylines; the crossings are then refined
+ * onto the exact curves and cut like any other.
+ */
+
+import type { Point2D, ProfileCurve } from '../types/sketch';
+import {
+  evaluateSpline,
+  nearestSplineParameter,
+  sampleSplineParameters,
+  splineArea,
+  splineDerivative,
+  splineSecondDerivative,
+} from './Spline';
+
+type ArcCurve = Extract<ProfileCurve, { type: 'arc' }>;
+
+// A sketch curve and the entity it came from
+export interface SourceCurve {
+  entityId: string;
+  curve: ProfileCurve;
+}
+
+// Closed walk along curve pieces, each starting where the previous one ends
+export interface ArrangementLoop {
+  edges: SourceCurve[];
+  // Exact enclosed area: positive for faces, negative for the outside of a group
+  area: number;
+  // Connected group of curves the loop runs along
+  component: number;
+}
+
+// Half-edge: a piece of curve in one direction, from one vertex to another
+interface HalfEdge {
+  edge: number;
+  from: number;
+  to: number;
+  curve: ProfileCurve;
+  // Heading and signed curvature leaving the start vertex, to order half-edges around it
+  angle: number;
+  bend: number;
+}
+
+const TWO_PI = Math.PI * 2;
+
+// Headings closer than this (radians) leave a vertex together; curvature orders them
+const ANGLE_EPSILON = 1e-9;
+
+// Splines are intersected as polylines this close to the curve
+const SPLINE_CHORD_TOLERANCE = 0.01;
+
+// Newton steps taking a crossing of a spline's chords onto the curves
+const INTERSECTION_NEWTON_STEPS = 10;
+
+// ============ ARRANGEMENT ============
+
+/**
+ * Trace every loop of the arrangement of the curves. Points closer than the
+ * tolerance are the same vertex.
+ */
+export function buildArrangement(sources: SourceCurve[], tolerance: number): ArrangementLoop[] {
+  const curves = sources.map(source => ({ ...source, curve: forwardCurve(source.curve) }));
+
+  // Vertices: curve ends, crossings, and two points on each full circle (or
+  // a middle point on other closed curves) so that it has pieces to walk
+  const vertices: Point2D[] = [];
+  const addVertex = (p: Point2D) => {
+    if (!vertices.some(v => distance(v, p) < tolerance)) vertices.push({ ...p });
+  };
+  for (const { curve } of curves) {
+    if (isFullCircle(curve)) {
+      addVertex(pointAt(curve, 0));
+      addVertex(pointAt(curve, Math.PI));
+    } else {
+      addVertex(curveStart(curve));
+      addVertex(curveEnd(curve));
+      if (isClosed(curve, tolerance)) addVertex(midpoint(curve));
+    }
+  }
+  for (let i = 0; i < curves.length; i++) {
+    for (let j = i + 1; j < curves.length; j++) {
+      intersectCurves(curves[i].curve, curves[j].curve, tolerance).forEach(addVertex);
+    }
+  }
+
+  // Cut each curve at the vertices on it
+  const pieces: Array<{ entityId: string; from: number; to: number; curve: ProfileCurve }> = [];
+  for (const { entityId, curve } of curves) {
+    const cuts = vertices
+      .map((v, index) => ({ index, at: parameterOf(curve, v) }))
+      .filter(({ index, at }) => distance(vertices[index], pointAt(curve, at)) < tolerance)
+      .sort((a, b) => a.at - b.at);
+    if (isFullCircle(curve) && cuts.length > 0) {
+      cuts.push({ index: cuts[0].index, at: cuts[0].at + TWO_PI });
+    } else if (isClosed(curve, tolerance) && cuts.length > 0) {
+      // The shared start and end vertex is cut at both ends
+      const [start, end] = parameterRange(curve);
+      const index = cuts[0].at - start < end - cuts[cuts.length - 1].at ? cuts[0].index : cuts[cuts.length - 1].index;
+      const inner = cuts.filter(cut => cut.index !== index);
+      cuts.splice(0, cuts.length, { index, at: start }, ...inner, { index, at: end });
+    }
+
+    for (let k = 0; k + 1 < cuts.length; k++) {
+      const from = cuts[k];
+      const to = cuts[k + 1];
+      if (from.index === to.index) continue;
+
+      let piece: ProfileCurve;
+      if (curve.type === 'line') {
+        piece = { type: 'line', start: { ...vertices[from.index] }, end: { ...vertices[to.index] } };
+      } else if (curve.type === 'arc') {
+        piece = { ...curve, startAngle: curve.startAngle + from.at, sweep: to.at - from.at };
+      } else {
+        piece = { ...curve, from: from.at, to: to.at };
+      }
+
+      // Overlapping curves produce the same piece twice
+      const mid = midpoint(piece);
+      const duplicate = pieces.some(other =>
+        ((other.from === from.index && other.to === to.index) || (other.from === to.index && other.to === from.index)) &&
+        distance(midpoint(other.curve), mid) < tolerance
+      );
+      if (!duplicate) {
+        pieces.push({ entityId, from: from.index, to: to.index, curve: piece });
+      }
+    }
+  }
+
+  // Drop dangling pieces and bridges until every piece borders two faces
+  const alive = pieces.map(() => true);
+  for (;;) {
+    pruneDangling(pieces, alive, vertices.length);
+
+    const halfEdges = createHalfEdges(pieces, alive);
+    const faces = traceFaces(halfEdges, vertices.length);
+
+    const faceOf = new Map<number, number>();
+    faces.forEach((face, index) => face.forEach(halfEdge => faceOf.set(halfEdge, index)));
+    const bridges = pieces
+      .map((_, edge) => edge)
+      .filter(edge => alive[edge] && faceOf.get(edge * 2) === faceOf.get(edge * 2 + 1));
+    if (bridges.length > 0) {
+      bridges.forEach(edge => { alive[edge] = false; });
+      continue;
+    }
+
+    const component = findComponents(pieces, alive, vertices.length);
+    return faces.map(face => {
+      const loop = face.map(index => halfEdges.get(index)!);
+      return {
+        edges: loop.map(halfEdge => ({ entityId: pieces[halfEdge.edge].entityId, curve: halfEdge.curve })),
+        area: loop.reduce((sum, halfEdge) => sum + curveArea(halfEdge.curve), 0),
+        component: component[loop[0].from],
+      };
+    });
+  }
+}
+
+/**
+ * Remove pieces ending at a vertex no other piece reaches, repeatedly
+ */
+function pruneDangling(
+  pieces: Array<{ from: number; to: number }>,
+  alive: boolean[],
+  vertexCount: number
+): void {
+  for (;;) {
+    const degree = new Array<number>(vertexCount).fill(0);
+    pieces.forEach((piece, edge) => {
+      if (!alive[edge]) return;
+      degree[piece.from]++;
+      degree[piece.to]++;
+    });
+
+    let removed = false;
+    pieces.forEach((piece, edge) => {
+      if (alive[edge] && (degree[piece.from] < 2 || degree[piece.to] < 2)) {
+        alive[edge] = false;
+        removed = true;
+      }
+    });
+    if (!removed) return;
+  }
+}
+
+/**
+ * Both directions of every live piece, keyed 2 * edge (forward) and 2 * edge + 1
+ */
+function createHalfEdges(
+  pieces: Array<{ from: number; to: number; curve: ProfileCurve }>,
+  alive: boolean[]
+): Map<number, HalfEdge> {
+  const halfEdges = new Map<number, HalfEdge>();
+  pieces.forEach((piece, edge) => {
+    if (!alive[edge]) return;
+    const reversed = reverseCurve(piece.curve);
+    halfEdges.set(edge * 2, { edge, from: piece.from, to: piece.to, curve: piece.curve, ...heading(piece.curve) });
+    halfEdges.set(edge * 2 + 1, { edge, from: piece.to, to: piece.from, curve: reversed, ...heading(reversed) });
+  });
+  return halfEdges;
+}
+
+/**
+ * Walk the faces of the arrangement, each as its half-edges in order with
+ * the face on their left
+ *
+ * Leaving a vertex, a face continues along the half-edge just clockwise of
+ * the one it arrived by (seen from the vertex).
+ */
+function traceFaces(halfEdges: Map<number, HalfEdge>, vertexCount: number): number[][] {
+  // Outgoing half-edges of each vertex, counter-clockwise
+  const outgoing: number[][] = Array.from({ length: vertexCount }, () => []);
+  halfEdges.forEach((halfEdge, index) => outgoing[halfEdge.from].push(index));
+  for (const around of outgoing) {
+    around.sort((a, b) => {
+      const ha = halfEdges.get(a)!;
+      const hb = halfEdges.get(b)!;
+      return Math.abs(ha.angle - hb.angle) > ANGLE_EPSILON ? ha.angle - hb.angle : ha.bend - hb.bend;
+    });
+  }
+
+  const visited = new Set<number>();
+  const faces: number[][] = [];
+  for (const start of halfEdges.keys()) {
+    if (visited.has(start)) continue;
+
+    const face: number[] = [];
+    let current = start;
+    while (!visited.has(current)) {
+      visited.add(current);
+      face.push(current);
+      const around = outgoing[halfEdges.get(current)!.to];
+      const back = around.indexOf(current ^ 1);
+      current = around[(back - 1 + around.length) % around.length];
+    }
+    faces.push(face);
+  }
+  return faces;
+}
+
+/**
+ * Connected component of every vertex, through live pieces
+ */
+function findComponents(
+  pieces: Array<{ from: number; to: number }>,
+  alive: boolean[],
+  vertexCount: number
+): number[] {
+  const parent = Array.from({ length: vertexCount }, (_, i) => i);
+  const root = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]];
+      v = parent[v];
+    }
+    return v;
+  };
+  pieces.forEach((piece, edge) => {
+    if (alive[edge]) parent[root(piece.from)] = root(piece.to);
+  });
+  return parent.map((_, v) => root(v));
+}
+
+// ============ INTERSECTIONS ============
+
+/**
+ * Points where two curves cross or touch
+ */
+function intersectCurves(a: ProfileCurve, b: ProfileCurve, tolerance: number): Point2D[] {
+  let candidates: Point2D[];
+  if (a.type === 'spline') {
+    candidates = splineChords(a).flatMap(chord => intersectCurves(chord, b, tolerance))
+      .map(p => refineIntersection(a, b, p));
+  } else if (b.type === 'spline') {
+    candidates = splineChords(b).flatMap(chord => intersectCurves(a, chord, tolerance))
+      .map(p => refineIntersection(a, b, p));
+  } else if (a.type === 'line' && b.type === 'line') {
+    candidates = intersectLines(a.start, a.end, b.start, b.end);
+  } else if (a.type === 'line' && b.type === 'arc') {
+    candidates = intersectLineCircle(a.start, a.end, b, tolerance);
+  } else if (a.type === 'arc' && b.type === 'line') {
+    candidates = intersectLineCircle(b.start, b.end, a, tolerance);
+  } else {
+    candidates = intersectCircles(a as ArcCurve, b as ArcCurve, tolerance);
+  }
+
+  // Keep points on both curves, not on their extensions
+  return candidates.filter(p =>
+    distance(p, pointAt(a, parameterOf(a, p))) < tolerance &&
+    distance(p, pointAt(b, parameterOf(b, p))) < tolerance
+  );
+}
+
+/**
+ * A crossing found near both curves moved onto them, by Newton steps on their
+ * parameters: the spline chords stray from the spline by up to their tolerance
+ */
+function refineIntersection(a: ProfileCurve, b: ProfileCurve, p: Point2D): Point2D {
+  let s = parameterOf(a, p);
+  let t = parameterOf(b, p);
+  for (let i = 0; i < INTERSECTION_NEWTON_STEPS; i++) {
+    const pa = pointAt(a, s);
+    const pb = pointAt(b, t);
+    const gap = { x: pb.x - pa.x, y: pb.y - pa.y };
+    if (Math.hypot(gap.x, gap.y) < 1e-12) break;
+
+    // Solve da * ds - db * dt = gap; curves touching tangentially stay put
+    const da = derivativeAt(a, s);
+    const db = derivativeAt(b, t);
+    const denominator = cross(da, db);
+    if (Math.abs(denominator) < 1e-12) break;
+    s += cross(gap, db) / denominator;
+    t -= cross(da, gap) / denominator;
+  }
+
+  const pa = pointAt(a, s);
+  const pb = pointAt(b, t);
+  return { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 };
+}
+
+/**
+ * A spline as a polyline of line curves
+ */
+function splineChords(curve: Extract<ProfileCurve, { type: 'spline' }>): ProfileCurve[] {
+  const points = sampleSplineParameters(curve.spline, curve.from, curve.to, SPLINE_CHORD_TOLERANCE)
+    .map(t => evaluateSpline(curve.spline, t));
+  return points.slice(1).map((end, i) => ({ type: 'line', start: points[i], end }));
+}
+
+function intersectLines(a0: Point2D, a1: Point2D, b0: Point2D, b1: Point2D): Point2D[] {
+  const da = { x: a1.x - a0.x, y: a1.y - a0.y };
+  const db = { x: b1.x - b0.x, y: b1.y - b0.y };
+  const denominator = cross(da, db);
+  // Parallel lines only meet where one ends on the other; those ends are vertices already
+  if (Math.abs(denominator) < 1e-12) return [];
+
+  const t = cross({ x: b0.x - a0.x, y: b0.y - a0.y }, db) / denominator;
+  return [{ x: a0.x + da.x * t, y: a0.y + da.y * t }];
+}
+
+function intersectLineCircle(p0: Point2D, p1: Point2D, circle: ArcCurve, tolerance: number): Point2D[] {
+  const d = { x: p1.x - p0.x, y: p1.y - p0.y };
+  const length = Math.hypot(d.x, d.y);
+  if (length === 0) return [];
+  const u = { x: d.x / length, y: d.y / length };
+
+  // Foot of the perpendicular from the center to the line
+  const along = (circle.center.x - p0.x) * u.x + (circle.center.y - p0.y) * u.y;
+  const foot = { x: p0.x + u.x * along, y: p0.y + u.y * along };
+  const offset = distance(foot, circle.center);
+
+  if (offset > circle.radius + tolerance) return [];
+  if (offset > circle.radius - tolerance / 2) return [foot];
+
+  const half = Math.sqrt(circle.radius * circle.radius - offset * offset);
+  return [
+    { x: foot.x - u.x * half, y: foot.y - u.y * half },
+    { x: foot.x + u.x * half, y: foot.y + u.y * half },
+  ];
+}
+
+function intersectCircles(a: ArcCurve, b: ArcCurve, tolerance: number): Point2D[] {
+  const d = distance(a.center, b.center);
+  // Concentric arcs only meet where one ends on the other; those ends are vertices already
+  if (d < 1e-12) return [];
+  if (d > a.radius + b.radius + tolerance || d < Math.abs(a.radius - b.radius) - tolerance) return [];
+
+  const u = { x: (b.center.x - a.center.x) / d, y: (b.center.y - a.center.y) / d };
+  const along = (a.radius * a.radius - b.radius * b.radius + d * d) / (2 * d);
+  const base = { x: a.center.x + u.x * along, y: a.center.y + u.y * along };
+  const half = Math.sqrt(Math.max(0, a.radius * a.radius - along * along));
+  if (half < tolerance / 2) return [base];
+
+  return [
+    { x: base.x - u.y * half, y: base.y + u.x * half },
+    { x: base.x + u.y * half, y: base.y - u.x * half },
+  ];
+}
+
+// ============ CURVES ============
+
+/**
+ * Start of a curve
+ */
+export function curveStart(curve: ProfileCurve): Point2D {
+  if (curve.type === 'line') return { ...curve.start };
+  if (curve.type === 'arc') return pointOnCircle(curve, curve.startAngle);
+  return evaluateSpline(curve.spline, curve.from);
+}
+
+/**
+ * End of a curve
+ */
+export function curveEnd(curve: ProfileCurve): Point2D {
+  if (curve.type === 'line') return { ...curve.end };
+  if (curve.type === 'arc') return pointOnCircle(curve, curve.startAngle + curve.sweep);
+  return evaluateSpline(curve.spline, curve.to);
+}
+
+/**
+ * The same curve traversed from its end to its start
+ */
+export function reverseCurve(curve: ProfileCurve): ProfileCurve {
+  if (curve.type === 'line') return { type: 'line', start: curve.end, end: curve.start };
+  if (curve.type === 'spline') return { ...curve, from: curve.to, to: curve.from };
+  return { ...curve, startAngle: curve.startAngle + curve.sweep, sweep: -curve.sweep };
+}
+
+/**
+ * The curve's share of the signed area of a loop it is part of
+ */
+export function curveArea(curve: ProfileCurve): number {
+  if (curve.type === 'line') {
+    return (curve.start.x * curve.end.y - curve.end.x * curve.start.y) / 2;
+  }
+  if (curve.type === 'spline') return splineArea(curve.spline, curve.from, curve.to);
+  // Integral of (x dy - y dx) / 2 along the arc
+  const { center, radius, startAngle, sweep } = curve;
+  const endAngle = startAngle + sweep;
+  return (
+    center.x * radius * (Math.sin(endAngle) - Math.sin(startAngle)) -
+    center.y * radius * (Math.cos(endAngle) - Math.cos(startAngle)) +
+    radius * radius * sweep
+  ) / 2;
+}
+
+export function pointOnCircle(arc: ArcCurve, angle: number): Point2D {
+  return {
+    x: arc.center.x + arc.radius * Math.cos(angle),
+    y: arc.center.y + arc.radius * Math.sin(angle),
+  };
+}
+
+function isFullCircle(curve: ProfileCurve): curve is ArcCurve {
+  return curve.type === 'arc' && Math.abs(curve.sweep) >= TWO_PI - 1e-9;
+}
+
+/**
+ * Whether a curve (other than a full circle) ends where it starts
+ */
+function isClosed(curve: ProfileCurve, tolerance: number): boolean {
+  return !isFullCircle(curve) && distance(curveStart(curve), curveEnd(curve)) < tolerance;
+}
+
+/**
+ * Arcs turned to run counter-clockwise and splines forwards, so their
+ * parameters grow along them
+ */
+function forwardCurve(curve: ProfileCurve): ProfileCurve {
+  if (curve.type === 'arc' && curve.sweep < 0) return reverseCurve(curve);
+  if (curve.type === 'spline' && curve.to < curve.from) return reverseCurve(curve);
+  return curve;
+}
+
+/**
+ * First and last parameter of a (forward) curve
+ */
+function parameterRange(curve: ProfileCurve): [number, number] {
+  if (curve.type === 'line') return [0, 1];
+  if (curve.type === 'arc') return [0, curve.sweep];
+  return [curve.from, curve.to];
+}
+
+/**
+ * Parameter of the point on a (forward) curve nearest a point: the fraction
+ * along a line, the angle from an arc's start, or the spline parameter
+ */
+function parameterOf(curve: ProfileCurve, p: Point2D): number {
+  if (curve.type === 'spline') return nearestSplineParameter(curve.spline, p, curve.from, curve.to);
+  if (curve.type === 'line') {
+    const dx = curve.end.x - curve.start.x;
+    const dy = curve.end.y - curve.start.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return 0;
+    return Math.max(0, Math.min(1, ((p.x - curve.start.x) * dx + (p.y - curve.start.y) * dy) / lengthSq));
+  }
+
+  const angle = Math.atan2(p.y - curve.center.y, p.x - curve.center.x) - curve.startAngle;
+  const at = ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+  if (at <= curve.sweep) return at;
+  // Past the end: snap to whichever end is nearer
+  return at - curve.sweep < TWO_PI - at ? curve.sweep : 0;
+}
+
+function pointAt(curve: ProfileCurve, at: number): Point2D {
+  if (curve.type === 'spline') return evaluateSpline(curve.spline, at);
+  if (curve.type === 'line') {
+    return {
+      x: curve.start.x + (curve.end.x - curve.start.x) * at,
+      y: curve.start.y + (curve.end.y - curve.start.y) * at,
+    };
+  }
+  return pointOnCircle(curve, curve.startAngle + at);
+}
+
+/**
+ * Derivative of a curve with respect to its parameter
+ */
+function derivativeAt(curve: ProfileCurve, at: number): Point2D {
+  if (curve.type === 'spline') return splineDerivative(curve.spline, at);
+  if (curve.type === 'line') return { x: curve.end.x - curve.start.x, y: curve.end.y - curve.start.y };
+  const angle = curve.startAngle + at;
+  return { x: -curve.radius * Math.sin(angle), y: curve.radius * Math.cos(angle) };
+}
+
+function midpoint(curve: ProfileCurve): Point2D {
+  if (curve.type === 'line') return { x: (curve.start.x + curve.end.x) / 2, y: (curve.start.y + curve.end.y) / 2 };
+  if (curve.type === 'arc') return pointOnCircle(curve, curve.startAngle + curve.sweep / 2);
+  return evaluateSpline(curve.spline, (curve.from + curve.to) / 2);
+}
+
+/**
+ * Direction a curve leaves its start in, and how it bends (left positive)
+ */
+function heading(curve: ProfileCurve): { angle: number; bend: number } {
+  if (curve.type === 'line') {
+    return { angle: Math.atan2(curve.end.y - curve.start.y, curve.end.x - curve.start.x), bend: 0 };
+  }
+  if (curve.type === 'spline') {
+    // Reversing the direction flips the tangent but not the second derivative
+    const direction = Math.sign(curve.to - curve.from);
+    const d1 = splineDerivative(curve.spline, curve.from);
+    const d2 = splineSecondDerivative(curve.spline, curve.from);
+    const tangent = { x: d1.x * direction, y: d1.y * direction };
+    const speed = Math.hypot(tangent.x, tangent.y);
+    return {
+      angle: Math.atan2(tangent.y, tangent.x),
+      bend: speed > 0 ? cross(tangent, d2) / (speed * speed * speed) : 0,
+    };
+  }
+  const turn = Math.sign(curve.sweep);
+  return {
+    angle: Math.atan2(Math.cos(curve.startAngle) * turn, -Math.sin(curve.startAngle) * turn),
+    bend: turn / curve.radius,
+  };
+}
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function cross(a: Point2D, b: Point2D): number {
+  return a.x * b.y - a.y * b.x;
+}
@@ -1,277 +1,325 @@
 /**
- * ProfileDetector - Find closed loops from sketch entities
+ * ProfileDetector - Find the closed regions of a sketch
  *
- * Builds a graph from connected entities and finds cycles
- * that form closed profiles suitable for extrusion.
+ * Lines, arcs, circles, rectangles, ellipses and splines are split wherever
+ * they meet and the faces of the resulting planar arrangement become
+ * profiles, so overlapping shapes (two crossing circles, a line across a
+ * rectangle) yield every bounded region. Groups of curves lying inside a
+ * region become its holes. Features refer to profiles through ProfileRefs,
+ * which survive sketch edits.
+ *
+ * Arcs and circles stay curves in each profile's boundary; their polygons
+ * are sampled so no chord strays further than a tolerance from the curve.
  */
 
 import type {
   SketchEntity,
-  LineEntity,
-  RectangleEntity,
-  CircleEntity,
-  ArcEntity,
   Profile,
+  ProfileCurve,
+  ProfileRef,
   Point2D,
 } from '../types/sketch';
+import { CHORD_TOLERANCES } from '../types/document';
 import { generateProfileId } from '../utils/idGenerator';
-
-// Tolerance for point comparison - increased for sketch coordinate system
-const TOLERANCE = 1.0;
-
-interface Edge {
-  entityId: string;
-  start: Point2D;
-  end: Point2D;
-}
-
-interface GraphNode {
-  point: Point2D;
-  edges: { edgeIndex: number; otherNodeIndex: number }[];
-}
+import {
+  buildArrangement,
+  curveStart,
+  pointOnCircle,
+  reverseCurve,
+  type ArrangementLoop,
+  type SourceCurve,
+} from './PlanarArrangement';
+import { evaluateSpline, getEllipseCurve, getSplineCurve, sampleSplineParameters } from './Spline';
+
+// Points closer than this fraction of the sketch's largest coordinate are one
+// vertex, but never closer than the absolute minimum (mm), well above the
+// solver's residual
+const MERGE_TOLERANCE_RATIO = 1e-6;
+const MIN_MERGE_TOLERANCE = 1e-6;
+
+// Faces enclosing less than this are slivers left by near-coincident curves
+const MIN_FACE_AREA = 1e-9;
+
+// Chords per full turn of an arc, whatever its radius and the tolerance
+const MIN_SEGMENTS_PER_TURN = 12;
+const MAX_SEGMENTS_PER_TURN = 720;
 
 /**
- * Detect closed profiles from sketch entities
+ * Detect closed profiles from sketch entities, sampling their arcs to the
+ * chord tolerance
  */
-export function detectProfiles(entities: SketchEntity[]): Profile[] {
+export function detectProfiles(
+  entities: SketchEntity[],
+  tolerance: number = CHORD_TOLERANCES.normal
+): Profile[] {
   // Filter out construction geometry
   const nonConstruction = entities.filter(e => !e.construction);
 
-  // Handle circles as single-entity profiles
-  const profiles: Profile[] = [];
-
-  const circles = nonConstruction.filter(e => e.type === 'circle') as CircleEntity[];
-  for (const circle of circles) {
-    profiles.push(createCircleProfile(circle));
-  }
-
-  // Handle rectangles as single-entity profiles
-  const rectangles = nonConstruction.filter(e => e.type === 'rectangle') as RectangleEntity[];
-  for (const rect of rectangles) {
-    profiles.push(createRectangleProfile(rect));
-  }
-
-  // Build edge list from lines and arcs
-  const edges = buildEdgeList(nonConstruction);
-
-  if (edges.length === 0) {
-    return profiles;
-  }
-
-  // Build graph from edges
-  const { nodes, adjacency } = buildGraph(edges);
-
-  // Find all closed loops
-  const loops = findClosedLoops(nodes, adjacency, edges);
-
-  // Convert loops to profiles
-  for (const loop of loops) {
-    const points = loopToPoints(loop, edges);
-    if (points.length >= 3) {
-      profiles.push(createProfileFromPoints(points));
-    }
-  }
-
+  const sources = buildSourceCurves(nonConstruction);
+  const loops = buildArrangement(sources, mergeTolerance(sources));
+  const faces = loops.filter(loop => loop.area > MIN_FACE_AREA);
+  const profiles = faces.map(face => ({
+    ...createProfileFromCurves(
+      face.edges.map(edge => edge.curve),
+      Array.from(new Set(face.edges.map(edge => edge.entityId))),
+      tolerance
+    ),
+    area: face.area,
+  }));
+
+  nestComponents(loops, faces, profiles, tolerance);
   return profiles;
 }
 
 /**
- * Build edge list from sketch entities (lines and arcs)
+ * The curves of sketch entities, each tagged with its entity
  */
-function buildEdgeList(entities: SketchEntity[]): Edge[] {
-  const edges: Edge[] = [];
+function buildSourceCurves(entities: SketchEntity[]): SourceCurve[] {
+  const sources: SourceCurve[] = [];
 
   for (const entity of entities) {
     switch (entity.type) {
-      case 'line': {
-        const line = entity as LineEntity;
-        edges.push({
-          entityId: line.id,
-          start: { ...line.start },
-          end: { ...line.end },
+      case 'line':
+        sources.push({
+          entityId: entity.id,
+          curve: { type: 'line', start: { ...entity.start }, end: { ...entity.end } },
         });
         break;
+      case 'rectangle': {
+        const { corner1, corner2 } = entity;
+        const corners: Point2D[] = [
+          { x: corner1.x, y: corner1.y },
+          { x: corner2.x, y: corner1.y },
+          { x: corner2.x, y: corner2.y },
+          { x: corner1.x, y: corner2.y },
+        ];
+        corners.forEach((start, i) => sources.push({
+          entityId: entity.id,
+          curve: { type: 'line', start, end: corners[(i + 1) % corners.length] },
+        }));
+        break;
       }
+      case 'circle':
+        sources.push({
+          entityId: entity.id,
+          curve: { type: 'arc', center: { ...entity.center }, radius: entity.radius, startAngle: 0, sweep: Math.PI * 2 },
+        });
+        break;
       case 'arc': {
-        const arc = entity as ArcEntity;
-        // Convert arc to start/end points
-        const startX = arc.center.x + arc.radius * Math.cos(arc.startAngle);
-        const startY = arc.center.y + arc.radius * Math.sin(arc.startAngle);
-        const endX = arc.center.x + arc.radius * Math.cos(arc.endAngle);
-        const endY = arc.center.y + arc.radius * Math.sin(arc.endAngle);
-        edges.push({
-          entityId: arc.id,
-          start: { x: startX, y: startY },
-          end: { x: endX, y: endY },
+        // Arcs run counter-clockwise from the start angle to the end angle,
+        // less than a turn even when the stored angles are further apart
+        const sweep = normalizeAngle(entity.endAngle - entity.startAngle) || Math.PI * 2;
+        sources.push({
+          entityId: entity.id,
+          curve: { type: 'arc', center: { ...entity.center }, radius: entity.radius, startAngle: entity.startAngle, sweep },
         });
         break;
       }
+      case 'ellipse':
+      case 'ellipticalArc':
+        // Ellipses are exact rational splines
+        sources.push({
+          entityId: entity.id,
+          curve: { type: 'spline', spline: getEllipseCurve(entity), from: 0, to: 1 },
+        });
+        break;
+      case 'spline':
+        sources.push({
+          entityId: entity.id,
+          curve: { type: 'spline', spline: getSplineCurve(entity), from: 0, to: 1 },
+        });
+        break;
     }
   }
 
-  return edges;
+  return sources;
 }
 
 /**
- * Build adjacency graph from edges
+ * Distance below which two points of the curves are the same vertex, scaled
+ * to the sketch so that sub-millimetre features keep their own vertices
  */
-function buildGraph(edges: Edge[]): { nodes: GraphNode[]; adjacency: Map<number, number[]> } {
-  const pointMap = new Map<string, number>(); // point key -> node index
-  const nodes: GraphNode[] = [];
-  const adjacency = new Map<number, number[]>();
-
-  function getNodeIndex(p: Point2D): number {
-    const key = pointKey(p);
-    if (pointMap.has(key)) {
-      return pointMap.get(key)!;
+function mergeTolerance(sources: SourceCurve[]): number {
+  let extent = 0;
+  const include = (p: Point2D) => {
+    extent = Math.max(extent, Math.abs(p.x), Math.abs(p.y));
+  };
+  for (const { curve } of sources) {
+    if (curve.type === 'line') {
+      include(curve.start);
+      include(curve.end);
+    } else if (curve.type === 'arc') {
+      include({ x: Math.abs(curve.center.x) + curve.radius, y: Math.abs(curve.center.y) + curve.radius });
+    } else {
+      curve.spline.controlPoints.forEach(include);
     }
-    const index = nodes.length;
-    nodes.push({ point: { ...p }, edges: [] });
-    pointMap.set(key, index);
-    adjacency.set(index, []);
-    return index;
   }
+  return Math.max(MIN_MERGE_TOLERANCE, extent * MERGE_TOLERANCE_RATIO);
+}
 
-  for (let edgeIndex = 0; edgeIndex < edges.length; edgeIndex++) {
-    const edge = edges[edgeIndex];
-
-    // Find or create nodes for start and end
-    const startNode = getNodeIndex(edge.start);
-    const endNode = getNodeIndex(edge.end);
-
-    // Add edge references to nodes
-    nodes[startNode].edges.push({ edgeIndex, otherNodeIndex: endNode });
-    nodes[endNode].edges.push({ edgeIndex, otherNodeIndex: startNode });
+/**
+ * Resolve containment between separate groups of curves
+ *
+ * The outside of each group lying within a face of another group becomes a
+ * hole of that face, so every profile describes a distinct region: a circle
+ * inside a rectangle yields the plate (rectangle minus circle, depth 0) and
+ * the disk (depth 1).
+ */
+function nestComponents(
+  loops: ArrangementLoop[],
+  faces: ArrangementLoop[],
+  profiles: Profile[],
+  tolerance: number
+): void {
+  // Parents before children: a container is always larger than what it contains
+  const outsides = loops
+    .filter(loop => loop.area < -MIN_FACE_AREA)
+    .sort((a, b) => a.area - b.area);
+
+  const componentDepth = new Map<number, number>();
+  for (const outside of outsides) {
+    const point = curveStart(outside.edges[0].curve);
+
+    // The smallest enclosing face of another group is the direct parent
+    let parent = -1;
+    faces.forEach((face, index) => {
+      if (face.component === outside.component || !isPointInPolygon(point, profiles[index].outerLoop)) return;
+      if (parent < 0 || face.area < faces[parent].area) parent = index;
+    });
 
-    // Update adjacency
-    adjacency.get(startNode)!.push(endNode);
-    adjacency.get(endNode)!.push(startNode);
+    if (parent < 0) {
+      componentDepth.set(outside.component, 0);
+      continue;
+    }
+    const curves = outside.edges.map(edge => edge.curve);
+    profiles[parent].innerLoops.push(sampleLoop(curves, tolerance));
+    profiles[parent].curves.push(curves);
+    profiles[parent].area += outside.area;
+    componentDepth.set(outside.component, (componentDepth.get(faces[parent].component) ?? 0) + 1);
   }
 
-  return { nodes, adjacency };
+  faces.forEach((face, index) => {
+    profiles[index].depth = componentDepth.get(face.component) ?? 0;
+  });
 }
 
 /**
- * Find all closed loops in the graph using DFS
+ * A profile's outer loop and holes sampled to a chord tolerance, for
+ * building solids at a quality other than the one it was detected at
  */
-function findClosedLoops(
-  nodes: GraphNode[],
-  adjacency: Map<number, number[]>,
-  _edges: Edge[]
-): number[][] {
-  const loops: number[][] = [];
-  const visited = new Set<string>(); // Track visited edge combinations
-
-  // Try to find loops starting from each node
-  for (let startNode = 0; startNode < nodes.length; startNode++) {
-    const neighbors = adjacency.get(startNode) || [];
-    if (neighbors.length < 2) continue; // Need at least 2 edges to form a loop
-
-    // DFS to find cycles
-    const path: number[] = [startNode];
-    const edgesUsed: number[] = [];
-    const visitedInPath = new Set<number>([startNode]);
-
-    function dfs(current: number, depth: number): void {
-      if (depth > 100) return; // Prevent infinite loops
-
-      const currentEdges = nodes[current].edges;
-
-      for (const { edgeIndex, otherNodeIndex } of currentEdges) {
-        // Don't use the same edge we just used
-        if (edgesUsed.length > 0 && edgesUsed[edgesUsed.length - 1] === edgeIndex) {
-          continue;
-        }
-
-        if (otherNodeIndex === startNode && depth >= 2) {
-          // Found a cycle back to start
-          const loopKey = [...edgesUsed, edgeIndex].sort().join(',');
-          if (!visited.has(loopKey)) {
-            visited.add(loopKey);
-            loops.push([...edgesUsed, edgeIndex]);
-          }
-        } else if (!visitedInPath.has(otherNodeIndex)) {
-          // Continue DFS
-          path.push(otherNodeIndex);
-          edgesUsed.push(edgeIndex);
-          visitedInPath.add(otherNodeIndex);
-
-          dfs(otherNodeIndex, depth + 1);
-
-          path.pop();
-          edgesUsed.pop();
-          visitedInPath.delete(otherNodeIndex);
-        }
-      }
-    }
-
-    dfs(startNode, 0);
-  }
+export function getProfileLoops(profile: Profile, tolerance: number): Point2D[][] {
+  return profile.curves.map(curves => sampleLoop(curves, tolerance));
+}
 
-  // Filter to keep only simple cycles (no overlapping edges)
-  return filterSimpleCycles(loops);
+/**
+ * Create a persistent reference to a detected profile
+ */
+export function createProfileRef(profile: Profile): ProfileRef {
+  return {
+    entityIds: [...profile.entityIds].sort(),
+    point: findInteriorPoint(profile),
+  };
 }
 
 /**
- * Filter to keep only simple (non-overlapping) cycles
+ * Find the profile a reference points to after the sketch was edited
+ *
+ * A profile whose outer loop is made of the same entities wins, so moving or
+ * resizing geometry keeps the reference. Otherwise the region containing the
+ * recorded point is used (e.g. after a loop was split by a new line), and as
+ * a last resort the profile sharing the most boundary entities. A reference
+ * whose entities are all gone resolves to nothing.
  */
-function filterSimpleCycles(loops: number[][]): number[][] {
-  // Sort by length (prefer smaller loops)
-  loops.sort((a, b) => a.length - b.length);
-
-  const result: number[][] = [];
-  const usedEdges = new Set<number>();
-
-  for (const loop of loops) {
-    // Check if this loop shares any edges with already found loops
-    const hasOverlap = loop.some(e => usedEdges.has(e));
-    if (!hasOverlap) {
-      result.push(loop);
-      loop.forEach(e => usedEdges.add(e));
+export function resolveProfileRef(ref: ProfileRef, profiles: Profile[]): Profile | null {
+  const refIds = new Set(ref.entityIds);
+  const sharedCount = (profile: Profile) => profile.entityIds.filter(id => refIds.has(id)).length;
+
+  const sameLoop = profiles.filter(
+    profile => profile.entityIds.length === refIds.size && sharedCount(profile) === refIds.size
+  );
+  if (sameLoop.length === 1) return sameLoop[0];
+
+  // Among identical loops (or profiles still bounded by some of the same
+  // entities) prefer the region around the point
+  const candidates = sameLoop.length > 0 ? sameLoop : profiles.filter(profile => sharedCount(profile) > 0);
+  const containing = candidates
+    .filter(profile => isPointInRegion(ref.point, profile))
+    .sort((a, b) => a.area - b.area);
+  if (containing.length > 0) return containing[0];
+  if (sameLoop.length > 0) return sameLoop[0];
+
+  let best: Profile | null = null;
+  let bestShared = 0;
+  for (const profile of profiles) {
+    const shared = sharedCount(profile);
+    if (shared > bestShared) {
+      best = profile;
+      bestShared = shared;
     }
   }
-
-  return result;
+  return best;
 }
 
 /**
- * Convert a loop (sequence of edge indices) to a sequence of points
+ * Whether a point lies inside a profile's outer loop but not in its holes
  */
-function loopToPoints(loop: number[], edges: Edge[]): Point2D[] {
-  if (loop.length === 0) return [];
+function isPointInRegion(p: Point2D, profile: Profile): boolean {
+  return isPointInPolygon(p, profile.outerLoop) &&
+    !profile.innerLoops.some(loop => isPointInPolygon(p, loop));
+}
 
-  const points: Point2D[] = [];
-  let currentPoint = edges[loop[0]].start;
-  points.push({ ...currentPoint });
-
-  for (const edgeIndex of loop) {
-    const edge = edges[edgeIndex];
-
-    if (pointsEqual(currentPoint, edge.start)) {
-      points.push({ ...edge.end });
-      currentPoint = edge.end;
-    } else if (pointsEqual(currentPoint, edge.end)) {
-      points.push({ ...edge.start });
-      currentPoint = edge.start;
+/**
+ * Pick a point well inside a profile's region
+ *
+ * Scans a few horizontal lines across the bounding box and returns the
+ * middle of the widest span that is inside the outer loop and outside
+ * every hole.
+ */
+function findInteriorPoint(profile: Profile): Point2D {
+  const { min, max } = profile.boundingBox;
+  const loops = [profile.outerLoop, ...profile.innerLoops];
+
+  let best: Point2D | null = null;
+  let bestWidth = 0;
+
+  for (const fraction of [0.5, 0.25, 0.75, 0.125, 0.375, 0.625, 0.875]) {
+    const y = min.y + (max.y - min.y) * fraction;
+
+    // Crossings of the scanline with every loop edge; pairs bound inside spans
+    const crossings: number[] = [];
+    for (const loop of loops) {
+      for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+        const a = loop[j];
+        const b = loop[i];
+        if ((a.y > y) !== (b.y > y)) {
+          crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+        }
+      }
     }
-  }
+    crossings.sort((a, b) => a - b);
 
-  // Remove duplicate final point (same as start)
-  if (points.length > 1 && pointsEqual(points[0], points[points.length - 1])) {
-    points.pop();
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const width = crossings[i + 1] - crossings[i];
+      if (width > bestWidth) {
+        bestWidth = width;
+        best = { x: (crossings[i] + crossings[i + 1]) / 2, y };
+      }
+    }
   }
 
-  return points;
+  return best ?? { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 };
 }
 
 /**
- * Create a profile from a set of points
+ * Create a profile from the curves of a closed loop
  */
-function createProfileFromPoints(points: Point2D[]): Profile {
+function createProfileFromCurves(curves: ProfileCurve[], entityIds: string[], tolerance: number): Profile {
   // Ensure counter-clockwise winding for positive area
+  let points = sampleLoop(curves, tolerance);
   const signedArea = calculateSignedArea(points);
   if (signedArea < 0) {
-    points.reverse();
+    curves = reverseCurves(curves);
+    points = sampleLoop(curves, tolerance);
   }
 
   const boundingBox = calculateBoundingBox(points);
@@ -280,74 +328,71 @@ function createProfileFromPoints(points: Point2D[]): Profile {
     id: generateProfileId(),
     outerLoop: points,
     innerLoops: [],
+    curves: [curves],
+    entityIds,
+    depth: 0,
     area: Math.abs(signedArea),
     boundingBox,
   };
 }
 
-/**
- * Create a profile from a circle entity
- */
-function createCircleProfile(circle: CircleEntity): Profile {
-  const segments = 32;
-  const points: Point2D[] = [];
+// ============ CURVES ============
 
-  for (let i = 0; i < segments; i++) {
-    const angle = (i / segments) * Math.PI * 2;
-    points.push({
-      x: circle.center.x + circle.radius * Math.cos(angle),
-      y: circle.center.y + circle.radius * Math.sin(angle),
-    });
-  }
+function reverseCurves(curves: ProfileCurve[]): ProfileCurve[] {
+  return curves.map(reverseCurve).reverse();
+}
 
-  const area = Math.PI * circle.radius * circle.radius;
-  const boundingBox = {
-    min: { x: circle.center.x - circle.radius, y: circle.center.y - circle.radius },
-    max: { x: circle.center.x + circle.radius, y: circle.center.y + circle.radius },
-  };
+/**
+ * Number of chords per full turn that keep a circle of the given radius
+ * within the tolerance; also used for revolves and fillets
+ */
+export function segmentsPerTurn(radius: number, tolerance: number): number {
+  // A chord spanning angle a strays r * (1 - cos(a / 2)) from its arc
+  const step = tolerance < radius ? 2 * Math.acos(1 - tolerance / radius) : Math.PI;
+  return Math.min(MAX_SEGMENTS_PER_TURN, Math.max(MIN_SEGMENTS_PER_TURN, Math.ceil(Math.PI * 2 / step)));
+}
 
-  return {
-    id: generateProfileId(),
-    outerLoop: points,
-    innerLoops: [],
-    area,
-    boundingBox,
-  };
+/**
+ * Number of chords that keep an arc within the tolerance
+ */
+function arcSegmentCount(radius: number, sweep: number, tolerance: number): number {
+  return Math.max(1, Math.ceil(segmentsPerTurn(radius, tolerance) * Math.abs(sweep) / (Math.PI * 2)));
 }
 
 /**
- * Create a profile from a rectangle entity
+ * Normalize an angle to [0, 2π)
  */
-function createRectangleProfile(rect: RectangleEntity): Profile {
-  const minX = Math.min(rect.corner1.x, rect.corner2.x);
-  const maxX = Math.max(rect.corner1.x, rect.corner2.x);
-  const minY = Math.min(rect.corner1.y, rect.corner2.y);
-  const maxY = Math.max(rect.corner1.y, rect.corner2.y);
-
-  // Counter-clockwise points
-  const points: Point2D[] = [
-    { x: minX, y: minY },
-    { x: maxX, y: minY },
-    { x: maxX, y: maxY },
-    { x: minX, y: maxY },
-  ];
-
-  const width = maxX - minX;
-  const height = maxY - minY;
-  const area = width * height;
+function normalizeAngle(angle: number): number {
+  const twoPi = Math.PI * 2;
+  return ((angle % twoPi) + twoPi) % twoPi;
+}
 
-  return {
-    id: generateProfileId(),
-    outerLoop: points,
-    innerLoops: [],
-    area,
-    boundingBox: {
-      min: { x: minX, y: minY },
-      max: { x: maxX, y: maxY },
-    },
-  };
+/**
+ * Polygon of a closed loop of curves; each curve contributes its start
+ * point and the samples along it, the next curve supplies its end point
+ */
+function sampleLoop(curves: ProfileCurve[], tolerance: number): Point2D[] {
+  const points: Point2D[] = [];
+  for (const curve of curves) {
+    if (curve.type === 'line') {
+      points.push({ ...curve.start });
+      continue;
+    }
+    if (curve.type === 'spline') {
+      const params = sampleSplineParameters(curve.spline, curve.from, curve.to, tolerance);
+      params.slice(0, -1).forEach(t => points.push(evaluateSpline(curve.spline, t)));
+      continue;
+    }
+    const segments = arcSegmentCount(curve.radius, curve.sweep, tolerance);
+    for (let i = 0; i < segments; i++) {
+      points.push(pointOnCircle(curve, curve.startAngle + (curve.sweep * i) / segments));
+    }
+  }
+  return points;
 }
 
+// ============ POLYGONS ============
+
 /**
  * Calculate signed area of a polygon (positive for CCW)
  */
@@ -361,6 +406,21 @@ function calculateSignedArea(points: Point2D[]): number {
   return area / 2;
 }
 
+/**
+ * Ray-casting point in polygon test
+ */
+function isPointInPolygon(p: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
 /**
  * Calculate bounding box of points
  */
@@ -381,18 +441,3 @@ function calculateBoundingBox(points: Point2D[]): { min: Point2D; max: Point2D }
   };
 }
 
-/**
- * Create a unique key for a point (for graph construction)
- */
-function pointKey(p: Point2D): string {
-  const roundedX = Math.round(p.x / TOLERANCE) * TOLERANCE;
-  const roundedY = Math.round(p.y / TOLERANCE) * TOLERANCE;
-  return `${roundedX.toFixed(3)},${roundedY.toFixed(3)}`;
-}
-
-/**
- * Check if two points are equal within tolerance
- */
-function pointsEqual(a: Point2D, b: Point2D): boolean {
-  return Math.abs(a.x - b.x) < TOLERANCE && Math.abs(a.y - b.y) < TOLERANCE;
-}
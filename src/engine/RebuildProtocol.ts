@@ -0,0 +1,70 @@
+/**
+ * RebuildProtocol - Messages exchanged with the rebuild worker
+ *
+ * Features cross the boundary in their serialized form; bodies come back
+ * as tessellated meshes whose buffers are transferred, not copied.
+ */
+
+import type { SerializedFeature } from '../types/document';
+import type { BodyMesh, ConstructionGeometry } from '../types/features';
+import type { SketchPlane } from '../types/sketch';
+
+// ============ REQUESTS (UI -> WORKER) ============
+
+export interface InitRequest {
+  type: 'init';
+}
+
+export interface RebuildRequest {
+  type: 'rebuild';
+  requestId: number;
+  features: SerializedFeature[];
+  // Features whose cached results must not be reused
+  dirtyIds: string[];
+  // Largest distance between a sketch curve and its polygon
+  chordTolerance: number;
+}
+
+// Evaluate every feature afresh at another quality, leaving the cache alone
+export interface ExportRequest {
+  type: 'export';
+  requestId: number;
+  features: SerializedFeature[];
+  chordTolerance: number;
+}
+
+export interface CancelRequest {
+  type: 'cancel';
+  requestId: number;
+}
+
+export type RebuildWorkerRequest = InitRequest | RebuildRequest | ExportRequest | CancelRequest;
+
+// ============ RESPONSES (WORKER -> UI) ============
+
+export interface RebuildCompleteResponse {
+  type: 'complete';
+  requestId: number;
+  bodies: BodyMesh[];
+  // Planes of face sketches as resolved on the current bodies
+  sketchPlanes: Array<[featureId: string, plane: SketchPlane]>;
+  construction: Array<[featureId: string, geometry: ConstructionGeometry]>;
+  errors: Array<[featureId: string, message: string]>;
+  duration: number;
+}
+
+export interface RebuildCancelledResponse {
+  type: 'cancelled';
+  requestId: number;
+}
+
+export interface RebuildFailedResponse {
+  type: 'failed';
+  requestId: number;
+  message: string;
+}
+
+export type RebuildWorkerResponse =
+  | RebuildCompleteResponse
+  | RebuildCancelledResponse
+  | RebuildFailedResponse;
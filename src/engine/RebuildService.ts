@@ -0,0 +1,222 @@
+/**
+ * RebuildService - UI-side client of the rebuild worker
+ *
+ * Sends serialized features to the worker and resolves with the tessellated
+ * bodies. Starting a rebuild supersedes the previous one: the worker aborts
+ * it between features and its promise resolves with cancelled = true.
+ * Export rebuilds run alongside and supersede nothing.
+ */
+
+import type { BodyMesh, ConstructionGeometry, Feature } from '../types/features';
+import type { SketchPlane } from '../types/sketch';
+import { CHORD_TOLERANCES } from '../types/document';
+import { serializeFeature } from '../utils/serialization';
+import type { RebuildWorkerRequest, RebuildWorkerResponse } from './RebuildProtocol';
+
+// ============ TYPES ============
+
+export interface MeshRebuildResult {
+  success: boolean;
+  // True when a newer rebuild superseded this one; bodies and errors are empty
+  cancelled: boolean;
+  bodies: Map<string, BodyMesh>;
+  // Planes of face sketches, by sketch feature ID
+  sketchPlanes: Map<string, SketchPlane>;
+  // Planes, axes and points of construction features
+  construction: Map<string, ConstructionGeometry>;
+  errors: Map<string, string>;
+  duration: number;
+}
+
+interface PendingRebuild {
+  resolve: (result: MeshRebuildResult) => void;
+  reject: (error: Error) => void;
+  // Export rebuilds are never superseded
+  isExport?: boolean;
+}
+
+/**
+ * Result for a rebuild that was aborted or superseded
+ */
+function cancelledResult(): MeshRebuildResult {
+  return {
+    success: false,
+    cancelled: true,
+    bodies: new Map(),
+    sketchPlanes: new Map(),
+    construction: new Map(),
+    errors: new Map(),
+    duration: 0,
+  };
+}
+
+// ============ REBUILD SERVICE ============
+
+class RebuildServiceClass {
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private latestRequestId = 0;
+  private pending = new Map<number, PendingRebuild>();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start the worker and load the WASM kernel ahead of the first rebuild
+   */
+  initialize(): void {
+    this.getWorker();
+  }
+
+  /**
+   * Rebuild all features in the worker, reusing its cache for non-dirty ones
+   */
+  rebuild(features: Feature[], chordTolerance: number = CHORD_TOLERANCES.normal): Promise<MeshRebuildResult> {
+    const worker = this.getWorker();
+    const requestId = this.nextRequestId++;
+    this.latestRequestId = requestId;
+
+    const result = new Promise<MeshRebuildResult>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+    });
+
+    this.send(worker, {
+      type: 'rebuild',
+      requestId,
+      features: features.map(serializeFeature),
+      dirtyIds: features.filter(f => f._dirty).map(f => f.id),
+      chordTolerance,
+    });
+
+    return result;
+  }
+
+  /**
+   * Evaluate all features afresh at another chord tolerance, e.g. for export
+   * at a finer quality than the viewport shows
+   */
+  rebuildForExport(features: Feature[], chordTolerance: number): Promise<MeshRebuildResult> {
+    const worker = this.getWorker();
+    const requestId = this.nextRequestId++;
+
+    const result = new Promise<MeshRebuildResult>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject, isExport: true });
+    });
+
+    this.send(worker, {
+      type: 'export',
+      requestId,
+      features: features.map(serializeFeature),
+      chordTolerance,
+    });
+
+    return result;
+  }
+
+  /**
+   * Rebuild all dirty features with debouncing
+   */
+  rebuildDebounced(
+    features: Feature[],
+    onComplete: (result: MeshRebuildResult) => void,
+    debounceMs: number = 150
+  ): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(async () => {
+      this.debounceTimer = null;
+      try {
+        const result = await this.rebuild(features);
+        if (!result.cancelled) {
+          onComplete(result);
+        }
+      } catch (error) {
+        console.error('[RebuildService] Rebuild failed:', error);
+      }
+    }, debounceMs);
+  }
+
+  /**
+   * Cancel the pending debounced rebuild and the one in progress
+   */
+  cancel(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.worker && this.pending.has(this.latestRequestId)) {
+      this.send(this.worker, { type: 'cancel', requestId: this.latestRequestId });
+    }
+  }
+
+  /**
+   * Whether a rebuild is waiting for the worker
+   */
+  isRebuilding(): boolean {
+    return this.pending.size > 0;
+  }
+
+  // ============ WORKER ============
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('./rebuild.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<RebuildWorkerResponse>) => {
+      this.handleResponse(event.data);
+    });
+    worker.addEventListener('error', (event) => {
+      // A crashed worker can't answer; fail everything in flight and start fresh next time
+      const error = new Error(event.message || 'Rebuild worker failed');
+      console.error('[RebuildService] Worker error:', event);
+      this.pending.forEach(({ reject }) => reject(error));
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    });
+
+    this.worker = worker;
+    this.send(worker, { type: 'init' });
+    return worker;
+  }
+
+  private send(worker: Worker, request: RebuildWorkerRequest): void {
+    worker.postMessage(request);
+  }
+
+  private handleResponse(response: RebuildWorkerResponse): void {
+    const pending = this.pending.get(response.requestId);
+    if (!pending) return;
+    this.pending.delete(response.requestId);
+
+    // A result that finished before the worker saw the newer request is stale
+    const superseded = !pending.isExport && response.requestId !== this.latestRequestId;
+
+    switch (response.type) {
+      case 'complete':
+        if (superseded) {
+          pending.resolve(cancelledResult());
+          break;
+        }
+        pending.resolve({
+          success: response.errors.length === 0,
+          cancelled: false,
+          bodies: new Map(response.bodies.map(body => [body.bodyId, body])),
+          sketchPlanes: new Map(response.sketchPlanes),
+          construction: new Map(response.construction),
+          errors: new Map(response.errors),
+          duration: response.duration,
+        });
+        break;
+      case 'cancelled':
+        pending.resolve(cancelledResult());
+        break;
+      case 'failed':
+        pending.reject(new Error(response.message));
+        break;
+    }
+  }
+}
+
+// Export singleton
+export const RebuildService = new RebuildServiceClass();
@@ -12,19 +12,52 @@ import type {
   CircleEntity,
   PointEntity,
   ArcEntity,
+  EllipseEntity,
+  EllipticalArcEntity,
+  SplineEntity,
+  SplineMode,
+  PolygonMode,
   Constraint,
+  BinaryConstraint,
   Point2D,
   SketchPlane,
   SnapType,
   SnapResult,
 } from '../types/sketch';
-import { createSketchData } from '../types/sketch';
+import { createSketchData, getEllipsePoint, getEntityPoint, getEntityPointCount } from '../types/sketch';
 import { detectProfiles } from './ProfileDetector';
+import { evaluateSpline, getEllipseCurve, getSplineCurve, sampleSplineParameters, splineDerivative } from './Spline';
+import {
+  polygonVertices,
+  threePointRectangleCorners,
+  filletCorner,
+  chamferCorner,
+  type CornerSide,
+} from './SketchShapes';
+import {
+  solveConstraints,
+  addUnconstrainedEntity,
+  analyzeDegreesOfFreedom,
+  type SolverReport,
+  type DofAnalysis,
+} from './ConstraintSolver';
 import { generateId } from '../utils/idGenerator';
 
 // Snap distance threshold (increased for better UX)
 const SNAP_DISTANCE = 10;
 
+// Splines are picked against a polyline this close to the curve
+const SPLINE_PICK_TOLERANCE = 0.1;
+
+// Degree of new control point splines
+const DEFAULT_SPLINE_DEGREE = 3;
+
+// A spline end drawn within this angle of a joined line or arc is made tangent to it
+const SPLINE_TANGENT_ANGLE = Math.PI / 6;
+
+// Line and arc ends closer than this form a corner for fillets and chamfers
+const CORNER_TOLERANCE = 1e-6;
+
 /**
  * Deep copy a sketch entity including all nested Point2D objects
  */
@@ -57,14 +90,52 @@ function deepCopyEntity(entity: SketchEntity): SketchEntity {
         ...entity,
         center: { ...entity.center },
       };
+    case 'ellipse':
+    case 'ellipticalArc':
+      return {
+        ...entity,
+        center: { ...entity.center },
+      };
+    case 'spline':
+      return {
+        ...entity,
+        points: entity.points.map(p => ({ ...p })),
+        weights: entity.weights ? [...entity.weights] : undefined,
+      };
   }
 }
 
+/**
+ * Entities and constraints captured for sketch undo/redo
+ */
+export interface SketchSnapshot {
+  entities: SketchEntity[];
+  constraints: Constraint[];
+}
+
+/**
+ * An end of a line or arc, by point index (0 = start, 1 = end)
+ */
+export interface CornerEnd {
+  entity: LineEntity | ArcEntity;
+  pointIndex: 0 | 1;
+}
+
+/**
+ * A point where exactly two lines or arcs end, for the fillet and chamfer tools
+ */
+export interface SketchCorner {
+  point: Point2D;
+  ends: [CornerEnd, CornerEnd];
+}
+
 // ============ SKETCH ENGINE CLASS ============
 
 export class SketchEngineClass {
   private activeSketch: SketchData | null = null;
   private plane: SketchPlane | null = null;
+  private solverReport: SolverReport | null = null;
+  private degreesOfFreedom: DofAnalysis | null = null;
 
   /**
    * Start a new sketch on the given plane
@@ -72,6 +143,8 @@ export class SketchEngineClass {
   startSketch(plane: SketchPlane): SketchData {
     this.activeSketch = createSketchData();
     this.plane = plane;
+    this.solverReport = null;
+    this.degreesOfFreedom = { total: 0, entities: {} };
     return this.activeSketch;
   }
 
@@ -95,6 +168,7 @@ export class SketchEngineClass {
       })),
     };
     this.plane = plane;
+    this.solve();
   }
 
   /**
@@ -123,6 +197,8 @@ export class SketchEngineClass {
     const result = this.activeSketch;
     this.activeSketch = null;
     this.plane = null;
+    this.solverReport = null;
+    this.degreesOfFreedom = null;
 
     return result;
   }
@@ -133,6 +209,33 @@ export class SketchEngineClass {
   cancelSketch(): void {
     this.activeSketch = null;
     this.plane = null;
+    this.solverReport = null;
+    this.degreesOfFreedom = null;
+  }
+
+  // ============ HISTORY ============
+
+  /**
+   * Copy the current entities and constraints
+   */
+  createSnapshot(): SketchSnapshot | null {
+    if (!this.activeSketch) return null;
+
+    return {
+      entities: this.activeSketch.entities.map(e => deepCopyEntity(e)),
+      constraints: this.activeSketch.constraints.map(c => ({ ...c })),
+    };
+  }
+
+  /**
+   * Replace the entities and constraints with a snapshot and re-solve
+   */
+  restoreSnapshot(snapshot: SketchSnapshot): void {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    this.activeSketch.entities = snapshot.entities.map(e => deepCopyEntity(e));
+    this.activeSketch.constraints = snapshot.constraints.map(c => ({ ...c }));
+    this.solve();
   }
 
   // ============ ENTITY CREATION ============
@@ -152,6 +255,7 @@ export class SketchEngineClass {
     };
 
     this.activeSketch.entities.push(line);
+    this.countNewEntity(line);
     return line;
   }
 
@@ -170,6 +274,7 @@ export class SketchEngineClass {
     };
 
     this.activeSketch.entities.push(rect);
+    this.countNewEntity(rect);
     return rect;
   }
 
@@ -188,6 +293,7 @@ export class SketchEngineClass {
     };
 
     this.activeSketch.entities.push(circle);
+    this.countNewEntity(circle);
     return circle;
   }
 
@@ -205,6 +311,7 @@ export class SketchEngineClass {
     };
 
     this.activeSketch.entities.push(point);
+    this.countNewEntity(point);
     return point;
   }
 
@@ -225,9 +332,292 @@ export class SketchEngineClass {
     };
 
     this.activeSketch.entities.push(arc);
+    this.countNewEntity(arc);
     return arc;
   }
 
+  /**
+   * Add an ellipse entity; the longer radius becomes the major axis
+   */
+  addEllipse(center: Point2D, majorRadius: number, minorRadius: number, rotation: number): EllipseEntity {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    const swap = minorRadius > majorRadius;
+    const ellipse: EllipseEntity = {
+      id: generateId(),
+      type: 'ellipse',
+      construction: false,
+      center: { ...center },
+      majorRadius: swap ? minorRadius : majorRadius,
+      minorRadius: swap ? majorRadius : minorRadius,
+      rotation: swap ? rotation + Math.PI / 2 : rotation,
+    };
+
+    this.activeSketch.entities.push(ellipse);
+    this.countNewEntity(ellipse);
+    return ellipse;
+  }
+
+  /**
+   * Add an elliptical arc entity running counterclockwise from the start
+   * angle to the end angle; the longer radius becomes the major axis
+   */
+  addEllipticalArc(
+    center: Point2D,
+    majorRadius: number,
+    minorRadius: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number
+  ): EllipticalArcEntity {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    // Turning the axes a quarter turn shifts the parametric angles back by one
+    const swap = minorRadius > majorRadius;
+    const shift = swap ? Math.PI / 2 : 0;
+    const arc: EllipticalArcEntity = {
+      id: generateId(),
+      type: 'ellipticalArc',
+      construction: false,
+      center: { ...center },
+      majorRadius: swap ? minorRadius : majorRadius,
+      minorRadius: swap ? majorRadius : minorRadius,
+      rotation: rotation + shift,
+      startAngle: startAngle - shift,
+      endAngle: endAngle - shift,
+    };
+
+    this.activeSketch.entities.push(arc);
+    this.countNewEntity(arc);
+    return arc;
+  }
+
+  /**
+   * Add a spline through (fit) or controlled by (control) the points
+   */
+  addSpline(mode: SplineMode, points: Point2D[], degree: number = DEFAULT_SPLINE_DEGREE): SplineEntity {
+    if (!this.activeSketch) throw new Error('No active sketch');
+    if (points.length < 2) throw new Error('Spline: needs at least two points');
+
+    const spline: SplineEntity = {
+      id: generateId(),
+      type: 'spline',
+      construction: false,
+      mode,
+      points: points.map(p => ({ ...p })),
+      degree,
+    };
+
+    this.activeSketch.entities.push(spline);
+    this.countNewEntity(spline);
+    return spline;
+  }
+
+  /**
+   * Join the ends of a spline that lie on the end of a line or arc to it:
+   * coincident there, and tangent to it where the spline was drawn nearly
+   * tangent. The spline bends to meet the joined entities, which only move
+   * if it cannot. Returns the constraints added.
+   */
+  attachSplineEnds(splineId: string): Constraint[] {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    const spline = this.activeSketch.entities.find(e => e.id === splineId);
+    if (!spline || spline.type !== 'spline') return [];
+
+    const curve = getSplineCurve(spline);
+    const added: Constraint[] = [];
+    const joined = new Set<string>();
+    for (const pointIndex of [0, spline.points.length - 1]) {
+      const end = spline.points[pointIndex];
+      const other = this.activeSketch.entities.find((e): e is LineEntity | ArcEntity =>
+        (e.type === 'line' || e.type === 'arc') &&
+        [0, 1].some(i => distance(getEntityPoint(e, i)!, end) < 1e-6)
+      );
+      if (!other) continue;
+
+      joined.add(other.id);
+      const otherIndex = distance(getEntityPoint(other, 0)!, end) < 1e-6 ? 0 : 1;
+
+      // Sine of the angle between the spline's end tangent and the other entity's
+      const tangent = splineDerivative(curve, pointIndex === 0 ? 0 : 1);
+      const across = other.type === 'line'
+        ? { x: other.end.y - other.start.y, y: other.start.x - other.end.x }
+        : { x: end.x - other.center.x, y: end.y - other.center.y };
+      const deviation = Math.abs(tangent.x * across.x + tangent.y * across.y) /
+        (Math.hypot(tangent.x, tangent.y) * Math.hypot(across.x, across.y));
+      const types = deviation < Math.sin(SPLINE_TANGENT_ANGLE)
+        ? ['coincident', 'tangent'] as const
+        : ['coincident'] as const;
+
+      for (const type of types) {
+        const constraint: Constraint = {
+          id: generateId(),
+          type,
+          entityId1: spline.id,
+          pointIndex1: pointIndex,
+          entityId2: other.id,
+          pointIndex2: type === 'coincident' ? otherIndex : undefined,
+        };
+        this.activeSketch.constraints.push(constraint);
+        added.push(constraint);
+      }
+    }
+
+    if (added.length === 0) return added;
+
+    // Solve once with the joined entities held in place, then release them
+    const constraints = this.activeSketch.constraints;
+    this.activeSketch.constraints = [
+      ...constraints,
+      ...[...joined].map(entityId => ({ id: generateId(), type: 'fixed' as const, entityId })),
+    ];
+    this.solve();
+    this.activeSketch.constraints = constraints;
+    this.solve();
+    return added;
+  }
+
+  // ============ COMPOSITE SHAPES ============
+
+  /**
+   * Add a regular polygon as lines on a construction circle through its
+   * corners, kept regular by equal sides. A circumscribed polygon also gets
+   * its inscribed construction circle, tangent to the sides.
+   */
+  addPolygon(center: Point2D, point: Point2D, sides: number, mode: PolygonMode): SketchEntity[] {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    const vertices = polygonVertices(center, point, sides, mode);
+    const lines = vertices.map((start, i) => this.createLine(start, vertices[(i + 1) % vertices.length]));
+    const circumcircle = this.createCircle(center, distance(center, vertices[0]), true);
+    const entities: SketchEntity[] = [...lines, circumcircle];
+
+    const constraints: Omit<BinaryConstraint, 'id'>[] = [];
+    lines.forEach((line, i) => {
+      const next = lines[(i + 1) % lines.length];
+      constraints.push({ type: 'coincident', entityId1: line.id, pointIndex1: 1, entityId2: next.id, pointIndex2: 0 });
+      constraints.push({ type: 'coincident', entityId1: line.id, pointIndex1: 0, entityId2: circumcircle.id });
+      if (i > 0) constraints.push({ type: 'equal', entityId1: lines[0].id, entityId2: line.id });
+    });
+
+    if (mode === 'circumscribed') {
+      const incircle = this.createCircle(center, distance(center, point), true);
+      entities.push(incircle);
+      constraints.push({ type: 'concentric', entityId1: circumcircle.id, entityId2: incircle.id });
+      constraints.push({ type: 'tangent', entityId1: lines[0].id, entityId2: incircle.id });
+    }
+
+    this.addShapeConstraints(constraints);
+    return entities;
+  }
+
+  /**
+   * Add a slot (obround) between two centers: two half-circle arcs joined
+   * by tangent lines, with a construction line between the centers
+   */
+  addSlot(center1: Point2D, center2: Point2D, radius: number): SketchEntity[] {
+    if (!this.activeSketch) throw new Error('No active sketch');
+    if (distance(center1, center2) === 0) throw new Error('Slot: centers must differ');
+
+    const axis = Math.atan2(center2.y - center1.y, center2.x - center1.x);
+    const cap1 = this.createArc(center1, radius, axis + Math.PI / 2, axis + Math.PI * 1.5);
+    const cap2 = this.createArc(center2, radius, axis - Math.PI / 2, axis + Math.PI / 2);
+    const side1 = this.createLine(getEntityPoint(cap1, 1)!, getEntityPoint(cap2, 0)!);
+    const side2 = this.createLine(getEntityPoint(cap2, 1)!, getEntityPoint(cap1, 0)!);
+    const centerLine = this.createLine(center1, center2, true);
+
+    const constraints: Omit<BinaryConstraint, 'id'>[] = [
+      { type: 'coincident', entityId1: side1.id, pointIndex1: 0, entityId2: cap1.id, pointIndex2: 1 },
+      { type: 'coincident', entityId1: side1.id, pointIndex1: 1, entityId2: cap2.id, pointIndex2: 0 },
+      { type: 'coincident', entityId1: side2.id, pointIndex1: 0, entityId2: cap2.id, pointIndex2: 1 },
+      { type: 'coincident', entityId1: side2.id, pointIndex1: 1, entityId2: cap1.id, pointIndex2: 0 },
+      { type: 'coincident', entityId1: centerLine.id, pointIndex1: 0, entityId2: cap1.id, pointIndex2: 2 },
+      { type: 'coincident', entityId1: centerLine.id, pointIndex1: 1, entityId2: cap2.id, pointIndex2: 2 },
+      { type: 'tangent', entityId1: side1.id, entityId2: cap1.id, pointIndex2: 1 },
+      { type: 'tangent', entityId1: side1.id, entityId2: cap2.id, pointIndex2: 0 },
+      { type: 'tangent', entityId1: side2.id, entityId2: cap1.id, pointIndex2: 0 },
+      { type: 'tangent', entityId1: side2.id, entityId2: cap2.id, pointIndex2: 1 },
+      { type: 'equal', entityId1: cap1.id, entityId2: cap2.id },
+    ];
+
+    this.addShapeConstraints(constraints);
+    return [cap1, side1, cap2, side2, centerLine];
+  }
+
+  /**
+   * Add a rectangle at any angle: one side from p1 to p2, the opposite side
+   * through p3. Its four lines are kept square by parallel and perpendicular
+   * constraints.
+   */
+  addThreePointRectangle(p1: Point2D, p2: Point2D, p3: Point2D): LineEntity[] {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    const corners = threePointRectangleCorners(p1, p2, p3);
+    const lines = corners.map((start, i) => this.createLine(start, corners[(i + 1) % corners.length]));
+
+    const constraints: Omit<BinaryConstraint, 'id'>[] = lines.map((line, i) => ({
+      type: 'coincident',
+      entityId1: line.id,
+      pointIndex1: 1,
+      entityId2: lines[(i + 1) % lines.length].id,
+      pointIndex2: 0,
+    }));
+    constraints.push(
+      { type: 'perpendicular', entityId1: lines[0].id, entityId2: lines[1].id },
+      { type: 'parallel', entityId1: lines[0].id, entityId2: lines[2].id },
+      { type: 'parallel', entityId1: lines[1].id, entityId2: lines[3].id },
+    );
+
+    this.addShapeConstraints(constraints);
+    return lines;
+  }
+
+  /**
+   * Push a line without re-analyzing the sketch, for composite shapes
+   */
+  private createLine(start: Point2D, end: Point2D, construction = false): LineEntity {
+    const line: LineEntity = { id: generateId(), type: 'line', construction, start: { ...start }, end: { ...end } };
+    this.activeSketch!.entities.push(line);
+    return line;
+  }
+
+  /**
+   * Push a circle without re-analyzing the sketch, for composite shapes
+   */
+  private createCircle(center: Point2D, radius: number, construction = false): CircleEntity {
+    const circle: CircleEntity = { id: generateId(), type: 'circle', construction, center: { ...center }, radius };
+    this.activeSketch!.entities.push(circle);
+    return circle;
+  }
+
+  /**
+   * Push an arc without re-analyzing the sketch, for composite shapes
+   */
+  private createArc(center: Point2D, radius: number, startAngle: number, endAngle: number): ArcEntity {
+    const arc: ArcEntity = {
+      id: generateId(),
+      type: 'arc',
+      construction: false,
+      center: { ...center },
+      radius,
+      startAngle,
+      endAngle,
+    };
+    this.activeSketch!.entities.push(arc);
+    return arc;
+  }
+
+  /**
+   * Add the constraints that hold a composite shape together, then solve once
+   */
+  private addShapeConstraints(constraints: Omit<BinaryConstraint, 'id'>[]): void {
+    for (const constraint of constraints) {
+      this.activeSketch!.constraints.push({ ...constraint, id: generateId() });
+    }
+    this.solve();
+  }
+
   // ============ ENTITY MODIFICATION ============
 
   /**
@@ -242,6 +632,7 @@ export class SketchEngineClass {
         ...this.activeSketch.entities[index],
         ...updates,
       } as SketchEntity;
+      this.solve();
     }
   }
 
@@ -252,8 +643,16 @@ export class SketchEngineClass {
     if (!this.activeSketch) throw new Error('No active sketch');
 
     this.activeSketch.entities = this.activeSketch.entities.filter(e => e.id !== id);
+    this.removeConstraintsForEntity(id);
+    this.solve();
+  }
+
+  /**
+   * Remove constraints referencing an entity
+   */
+  private removeConstraintsForEntity(id: string): void {
+    if (!this.activeSketch) return;
 
-    // Remove constraints referencing this entity
     this.activeSketch.constraints = this.activeSketch.constraints.filter(c => {
       if ('entityId' in c && c.entityId === id) return false;
       if ('entityId1' in c && (c.entityId1 === id || c.entityId2 === id)) return false;
@@ -262,21 +661,23 @@ export class SketchEngineClass {
   }
 
   /**
-   * Toggle construction mode for an entity
+   * Toggle construction mode for an entity. Returns false if there is no
+   * such entity.
    */
-  toggleConstruction(id: string): void {
+  toggleConstruction(id: string): boolean {
     if (!this.activeSketch) throw new Error('No active sketch');
 
     const entity = this.activeSketch.entities.find(e => e.id === id);
-    if (entity) {
-      entity.construction = !entity.construction;
-    }
+    if (!entity) return false;
+
+    entity.construction = !entity.construction;
+    return true;
   }
 
   // ============ CONSTRAINTS ============
 
   /**
-   * Add a constraint
+   * Add a constraint and re-solve the sketch
    */
   addConstraint(constraint: Omit<Constraint, 'id'>): Constraint {
     if (!this.activeSketch) throw new Error('No active sketch');
@@ -287,15 +688,96 @@ export class SketchEngineClass {
     } as Constraint;
 
     this.activeSketch.constraints.push(newConstraint);
+    this.solve();
     return newConstraint;
   }
 
   /**
-   * Remove a constraint
+   * Remove a constraint and re-solve the sketch
    */
   removeConstraint(id: string): void {
     if (!this.activeSketch) throw new Error('No active sketch');
     this.activeSketch.constraints = this.activeSketch.constraints.filter(c => c.id !== id);
+    this.solve();
+  }
+
+  /**
+   * Change the value of a driving dimension and re-solve.
+   * If the new value cannot be satisfied the previous value is restored
+   * and false is returned.
+   */
+  setDimensionValue(id: string, value: number): boolean {
+    if (!this.activeSketch) throw new Error('No active sketch');
+
+    const index = this.activeSketch.constraints.findIndex(c => c.id === id);
+    const constraint = this.activeSketch.constraints[index];
+    if (!constraint || !('value' in constraint)) return false;
+
+    this.activeSketch.constraints[index] = { ...constraint, value };
+    const report = this.solve();
+
+    if (report?.status === 'inconsistent') {
+      this.activeSketch.constraints[index] = constraint;
+      this.solve();
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Solve all constraints, moving entities to satisfy them.
+   * Geometry is only updated when the solver converges.
+   */
+  solve(): SolverReport | null {
+    if (!this.activeSketch) return null;
+
+    const { entities, ...report } = solveConstraints(
+      this.activeSketch.entities,
+      this.activeSketch.constraints
+    );
+
+    this.activeSketch.entities = entities;
+    this.solverReport = report;
+    this.updateDegreesOfFreedom();
+    return report;
+  }
+
+  /**
+   * Result of the most recent solve
+   */
+  getSolverReport(): SolverReport | null {
+    return this.solverReport;
+  }
+
+  /**
+   * Remaining degrees of freedom per entity and for the whole sketch
+   */
+  getDegreesOfFreedom(): DofAnalysis | null {
+    return this.degreesOfFreedom;
+  }
+
+  /**
+   * Add a new entity's parameters to the DOF analysis; nothing constrains
+   * it yet, so the full analysis can wait for the next solve
+   */
+  private countNewEntity(entity: SketchEntity): void {
+    if (!this.degreesOfFreedom) {
+      this.updateDegreesOfFreedom();
+      return;
+    }
+    this.degreesOfFreedom = addUnconstrainedEntity(this.degreesOfFreedom, entity);
+  }
+
+  /**
+   * Re-run the DOF analysis for the current geometry
+   */
+  private updateDegreesOfFreedom(): void {
+    if (!this.activeSketch) return;
+    this.degreesOfFreedom = analyzeDegreesOfFreedom(
+      this.activeSketch.entities,
+      this.activeSketch.constraints
+    );
   }
 
   // ============ SNAPPING ============
@@ -494,6 +976,7 @@ export class SketchEngineClass {
 
     // Remove the original line
     this.activeSketch.entities.splice(lineIndex, 1);
+    this.removeConstraintsForEntity(lineId);
 
     // Create new line segments for the remaining parts
     if (leftT > 0.001) {
@@ -512,6 +995,7 @@ export class SketchEngineClass {
       this.addLine(rightStart, line.end);
     }
 
+    this.solve();
     return true;
   }
 
@@ -658,6 +1142,228 @@ export class SketchEngineClass {
 
     return nearest;
   }
+
+  // ============ CORNER TOOLS ============
+
+  /**
+   * Find the corner nearest a point where exactly two lines or arcs end
+   */
+  findNearestCorner(point: Point2D, maxDistance: number = 15): SketchCorner | null {
+    if (!this.activeSketch) return null;
+
+    const ends: CornerEnd[] = [];
+    for (const entity of this.activeSketch.entities) {
+      if ((entity.type !== 'line' && entity.type !== 'arc') || entity.construction) continue;
+      ends.push({ entity, pointIndex: 0 }, { entity, pointIndex: 1 });
+    }
+
+    let nearest: { corner: SketchCorner; distance: number } | null = null;
+
+    for (const end of ends) {
+      const position = getEntityPoint(end.entity, end.pointIndex)!;
+      const dist = distance(point, position);
+      if (dist >= maxDistance || (nearest && dist >= nearest.distance)) continue;
+
+      const meeting = ends.filter(other => distance(getEntityPoint(other.entity, other.pointIndex)!, position) < CORNER_TOLERANCE);
+      if (meeting.length !== 2 || meeting[0].entity.id === meeting[1].entity.id) continue;
+
+      nearest = { corner: { point: position, ends: [meeting[0], meeting[1]] }, distance: dist };
+    }
+
+    return nearest?.corner ?? null;
+  }
+
+  /**
+   * Round the corner nearest a point with a tangent arc of a radius,
+   * trimming both entities back to it. Returns null when there is no corner
+   * there or the radius does not fit.
+   */
+  filletCorner(point: Point2D, radius: number): ArcEntity | null {
+    if (!this.activeSketch) return null;
+
+    const corner = this.findNearestCorner(point);
+    if (!corner) return null;
+
+    const [end1, end2] = corner.ends;
+    const fillet = filletCorner(toCornerSide(end1), toCornerSide(end2), radius);
+    if (!fillet) return null;
+
+    // The fillet arc runs counterclockwise, so it may start on either side
+    const [from, to] = fillet.counterClockwise ? [fillet.start, fillet.end] : [fillet.end, fillet.start];
+    const arc = this.createArc(
+      fillet.center,
+      radius,
+      Math.atan2(from.y - fillet.center.y, from.x - fillet.center.x),
+      Math.atan2(to.y - fillet.center.y, to.x - fillet.center.x)
+    );
+    const index1 = fillet.counterClockwise ? 0 : 1;
+    const index2 = 1 - index1;
+
+    this.trimCornerEnd(end1, fillet.start);
+    this.trimCornerEnd(end2, fillet.end);
+
+    this.addShapeConstraints([
+      { type: 'coincident', entityId1: end1.entity.id, pointIndex1: end1.pointIndex, entityId2: arc.id, pointIndex2: index1 },
+      { type: 'coincident', entityId1: end2.entity.id, pointIndex1: end2.pointIndex, entityId2: arc.id, pointIndex2: index2 },
+      { type: 'tangent', entityId1: end1.entity.id, entityId2: arc.id, pointIndex2: index1 },
+      { type: 'tangent', entityId1: end2.entity.id, entityId2: arc.id, pointIndex2: index2 },
+    ]);
+    return arc;
+  }
+
+  /**
+   * Cut the corner nearest a point with a line a distance from it along
+   * both entities, trimming them back to it. Returns null when there is no
+   * corner there or the distance does not fit.
+   */
+  chamferCorner(point: Point2D, chamferDistance: number): LineEntity | null {
+    if (!this.activeSketch) return null;
+
+    const corner = this.findNearestCorner(point);
+    if (!corner) return null;
+
+    const [end1, end2] = corner.ends;
+    const chamfer = chamferCorner(toCornerSide(end1), toCornerSide(end2), chamferDistance);
+    if (!chamfer) return null;
+
+    const line = this.createLine(chamfer[0], chamfer[1]);
+    this.trimCornerEnd(end1, chamfer[0]);
+    this.trimCornerEnd(end2, chamfer[1]);
+
+    this.addShapeConstraints([
+      { type: 'coincident', entityId1: end1.entity.id, pointIndex1: end1.pointIndex, entityId2: line.id, pointIndex2: 0 },
+      { type: 'coincident', entityId1: end2.entity.id, pointIndex1: end2.pointIndex, entityId2: line.id, pointIndex2: 1 },
+    ]);
+    return line;
+  }
+
+  /**
+   * Move a corner end to a point on its entity. Constraints that held the
+   * end where it was go, and so do those on a trimmed line's length, which
+   * it can no longer keep.
+   */
+  private trimCornerEnd(end: CornerEnd, point: Point2D): void {
+    const { entity, pointIndex } = end;
+
+    this.activeSketch!.constraints = this.activeSketch!.constraints.filter(c => {
+      if ('entityId' in c) return c.entityId !== entity.id || c.pointIndex !== pointIndex;
+      if ((c.entityId1 === entity.id && c.pointIndex1 === pointIndex) || (c.entityId2 === entity.id && c.pointIndex2 === pointIndex)) {
+        return false;
+      }
+      if (entity.type === 'line' && c.type === 'equal' && (c.entityId1 === entity.id || c.entityId2 === entity.id)) return false;
+      if (entity.type === 'line' && c.type === 'distance' && c.entityId1 === entity.id && c.entityId2 === undefined) return false;
+      return true;
+    });
+
+    let updates: Partial<LineEntity> | Partial<ArcEntity>;
+    if (entity.type === 'line') {
+      updates = { [pointIndex === 0 ? 'start' : 'end']: { ...point } };
+    } else {
+      // Measure the new end from the fixed one so the sweep stays within a turn
+      const angle = Math.atan2(point.y - entity.center.y, point.x - entity.center.x);
+      updates = pointIndex === 0
+        ? { startAngle: entity.endAngle - normalizeAngle(entity.endAngle - angle) }
+        : { endAngle: entity.startAngle + normalizeAngle(angle - entity.startAngle) };
+    }
+    const index = this.activeSketch!.entities.findIndex(e => e.id === entity.id);
+    this.activeSketch!.entities[index] = { ...entity, ...updates } as SketchEntity;
+  }
+
+  // ============ PICKING ============
+
+  /**
+   * Find the entity closest to a point.
+   * For rectangles, `edge` holds the point indices of the nearest side.
+   */
+  findNearestEntity(
+    point: Point2D,
+    maxDistance: number = 15
+  ): { entity: SketchEntity; distance: number; edge?: [number, number] } | null {
+    if (!this.activeSketch) return null;
+
+    let nearest: { entity: SketchEntity; distance: number; edge?: [number, number] } | null = null;
+
+    for (const entity of this.activeSketch.entities) {
+      let dist = Infinity;
+      let edge: [number, number] | undefined;
+
+      switch (entity.type) {
+        case 'point':
+          dist = distance(point, entity.position);
+          break;
+        case 'line':
+          dist = pointToLineDistance(point, entity.start, entity.end).distance;
+          break;
+        case 'rectangle':
+          for (let i = 0; i < 4; i++) {
+            const a = getEntityPoint(entity, i)!;
+            const b = getEntityPoint(entity, (i + 1) % 4)!;
+            const edgeDist = pointToLineDistance(point, a, b).distance;
+            if (edgeDist < dist) {
+              dist = edgeDist;
+              edge = [i, (i + 1) % 4];
+            }
+          }
+          break;
+        case 'circle':
+          dist = Math.abs(distance(point, entity.center) - entity.radius);
+          break;
+        case 'arc': {
+          const angle = Math.atan2(point.y - entity.center.y, point.x - entity.center.x);
+          const sweep = normalizeAngle(entity.endAngle - entity.startAngle);
+          if (normalizeAngle(angle - entity.startAngle) <= sweep) {
+            dist = Math.abs(distance(point, entity.center) - entity.radius);
+          } else {
+            dist = Math.min(distance(point, getEntityPoint(entity, 0)!), distance(point, getEntityPoint(entity, 1)!));
+          }
+          break;
+        }
+        case 'ellipse':
+        case 'ellipticalArc':
+        case 'spline': {
+          const curve = entity.type === 'spline' ? getSplineCurve(entity) : getEllipseCurve(entity);
+          const points = sampleSplineParameters(curve, 0, 1, SPLINE_PICK_TOLERANCE).map(t => evaluateSpline(curve, t));
+          for (let i = 0; i + 1 < points.length; i++) {
+            dist = Math.min(dist, pointToLineDistance(point, points[i], points[i + 1]).distance);
+          }
+          break;
+        }
+      }
+
+      if (dist < maxDistance && (!nearest || dist < nearest.distance)) {
+        nearest = { entity, distance: dist, edge };
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Find the entity point (endpoint, corner or center) closest to a point
+   */
+  findNearestEntityPoint(
+    point: Point2D,
+    maxDistance: number = SNAP_DISTANCE
+  ): { entityId: string; pointIndex: number; point: Point2D; distance: number } | null {
+    if (!this.activeSketch) return null;
+
+    let nearest: { entityId: string; pointIndex: number; point: Point2D; distance: number } | null = null;
+
+    for (const entity of this.activeSketch.entities) {
+      const count = getEntityPointCount(entity);
+      for (let pointIndex = 0; pointIndex < count; pointIndex++) {
+        const candidate = getEntityPoint(entity, pointIndex);
+        if (!candidate) continue;
+
+        const dist = distance(point, candidate);
+        if (dist < maxDistance && (!nearest || dist < nearest.distance)) {
+          nearest = { entityId: entity.id, pointIndex, point: candidate, distance: dist };
+        }
+      }
+    }
+
+    return nearest;
+  }
 }
 
 // ============ HELPER FUNCTIONS ============
@@ -718,6 +1424,33 @@ function getEntitySnapPoints(entity: SketchEntity): SnapPointWithType[] {
         { point: { x: midX, y: midY }, type: 'midpoint' },
       ];
     }
+    case 'ellipse':
+      return [
+        { point: entity.center, type: 'center' },
+        ...[0, Math.PI / 2, Math.PI, Math.PI * 1.5].map(angle => ({
+          point: getEllipsePoint(entity, angle),
+          type: 'quadrant' as const,
+        })),
+      ];
+    case 'ellipticalArc': {
+      let endAngle = entity.endAngle;
+      if (endAngle <= entity.startAngle) endAngle += Math.PI * 2;
+      return [
+        { point: entity.center, type: 'center' },
+        { point: getEllipsePoint(entity, entity.startAngle), type: 'endpoint' },
+        { point: getEllipsePoint(entity, entity.endAngle), type: 'endpoint' },
+        { point: getEllipsePoint(entity, (entity.startAngle + endAngle) / 2), type: 'midpoint' },
+      ];
+    }
+    case 'spline': {
+      // Both ends, the fit points the curve passes through, and its middle
+      const last = entity.points.length - 1;
+      const onCurve = entity.mode === 'fit' ? entity.points : [entity.points[0], entity.points[last]];
+      return [
+        ...onCurve.map(point => ({ point, type: 'endpoint' as const })),
+        { point: evaluateSpline(getSplineCurve(entity), 0.5), type: 'midpoint' },
+      ];
+    }
     default:
       return [];
   }
@@ -742,6 +1475,31 @@ function midpoint(a: Point2D, b: Point2D): Point2D {
   };
 }
 
+/**
+ * Normalize an angle to [0, 2π)
+ */
+function normalizeAngle(angle: number): number {
+  const twoPi = Math.PI * 2;
+  return ((angle % twoPi) + twoPi) % twoPi;
+}
+
+/**
+ * A corner end's line or arc as seen from the corner
+ */
+function toCornerSide(end: CornerEnd): CornerSide {
+  const { entity, pointIndex } = end;
+  if (entity.type === 'line') {
+    return pointIndex === 0
+      ? { type: 'line', corner: entity.start, far: entity.end }
+      : { type: 'line', corner: entity.end, far: entity.start };
+  }
+
+  const sweep = normalizeAngle(entity.endAngle - entity.startAngle) || Math.PI * 2;
+  return pointIndex === 0
+    ? { type: 'arc', center: entity.center, radius: entity.radius, cornerAngle: entity.startAngle, sweep }
+    : { type: 'arc', center: entity.center, radius: entity.radius, cornerAngle: entity.endAngle, sweep: -sweep };
+}
+
 /**
  * Calculate the distance from a point to a line segment
  * Returns distance and t parameter (0-1) along the line
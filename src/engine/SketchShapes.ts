@@ -0,0 +1,345 @@
+/**
+ * SketchShapes - Geometry of composite sketch shapes from picked points
+ *
+ * Turns the points clicked with the polygon, slot, three-point rectangle and
+ * ellipse tools into corners, radii and angles. SketchEngine builds the
+ * entities from these, and the sketch store previews them while drawing.
+ * Also places the fillets and chamfers cut into existing corners.
+ */
+
+import type { Point2D, PolygonMode } from '../types/sketch';
+
+// ============ POLYGONS ============
+
+/**
+ * Corners of a regular polygon about a center. The picked point is a corner
+ * of an inscribed polygon, or the middle of a side of a circumscribed one.
+ */
+export function polygonVertices(center: Point2D, point: Point2D, sides: number, mode: PolygonMode): Point2D[] {
+  const n = Math.max(3, Math.round(sides));
+  const step = (Math.PI * 2) / n;
+  const distance = Math.hypot(point.x - center.x, point.y - center.y);
+  const radius = mode === 'inscribed' ? distance : distance / Math.cos(step / 2);
+  const first = Math.atan2(point.y - center.y, point.x - center.x) - (mode === 'inscribed' ? 0 : step / 2);
+
+  return Array.from({ length: n }, (_, i) => ({
+    x: center.x + radius * Math.cos(first + i * step),
+    y: center.y + radius * Math.sin(first + i * step),
+  }));
+}
+
+// ============ RECTANGLES ============
+
+/**
+ * Corners of a rectangle with one side from p1 to p2 and the opposite side
+ * through p3, in order around it
+ */
+export function threePointRectangleCorners(p1: Point2D, p2: Point2D, p3: Point2D): Point2D[] {
+  const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+  if (length === 0) return [p1, p2, p2, p1];
+
+  const normal = { x: -(p2.y - p1.y) / length, y: (p2.x - p1.x) / length };
+  const height = (p3.x - p1.x) * normal.x + (p3.y - p1.y) * normal.y;
+  const offset = { x: normal.x * height, y: normal.y * height };
+
+  return [
+    { ...p1 },
+    { ...p2 },
+    { x: p2.x + offset.x, y: p2.y + offset.y },
+    { x: p1.x + offset.x, y: p1.y + offset.y },
+  ];
+}
+
+// ============ SLOTS ============
+
+/**
+ * Radius of a slot between two centers whose side passes through a point
+ */
+export function slotRadius(center1: Point2D, center2: Point2D, point: Point2D): number {
+  const dx = center2.x - center1.x;
+  const dy = center2.y - center1.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(point.x - center1.x, point.y - center1.y);
+  return Math.abs((dx * (point.y - center1.y) - dy * (point.x - center1.x)) / length);
+}
+
+/**
+ * Outline of a slot as a closed polygon, for previews
+ */
+export function slotOutline(center1: Point2D, center2: Point2D, radius: number, segments = 16): Point2D[] {
+  const axis = Math.atan2(center2.y - center1.y, center2.x - center1.x);
+  const points: Point2D[] = [];
+
+  // Round end about each center, each sweeping the half turn away from the other
+  for (const [center, start] of [[center2, axis - Math.PI / 2], [center1, axis + Math.PI / 2]] as const) {
+    for (let i = 0; i <= segments; i++) {
+      const angle = start + (i / segments) * Math.PI;
+      points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+    }
+  }
+  points.push({ ...points[0] });
+  return points;
+}
+
+// ============ ELLIPSES ============
+
+/**
+ * Ellipse about a center with one axis ending at axisPoint, passing through
+ * a third point. The radii are not ordered here; SketchEngine makes the
+ * longer one the major axis.
+ */
+export function ellipseFromPoints(
+  center: Point2D,
+  axisPoint: Point2D,
+  point: Point2D
+): { majorRadius: number; minorRadius: number; rotation: number } {
+  const majorRadius = Math.hypot(axisPoint.x - center.x, axisPoint.y - center.y);
+  const rotation = Math.atan2(axisPoint.y - center.y, axisPoint.x - center.x);
+  const { u, v } = toEllipseFrame(center, rotation, point);
+
+  // Solve u²/a² + v²/b² = 1 for b; outside the axis span fall back to |v|
+  const along = majorRadius > 0 ? u / majorRadius : 1;
+  const minorRadius = Math.abs(along) < 1 ? Math.abs(v) / Math.sqrt(1 - along * along) : Math.abs(v);
+
+  return { majorRadius, minorRadius, rotation };
+}
+
+/**
+ * Parametric angle of the ellipse point in the direction of a point
+ */
+export function ellipseAngle(
+  ellipse: { center: Point2D; majorRadius: number; minorRadius: number; rotation: number },
+  point: Point2D
+): number {
+  const { u, v } = toEllipseFrame(ellipse.center, ellipse.rotation, point);
+  return Math.atan2(v / (ellipse.minorRadius || 1), u / (ellipse.majorRadius || 1));
+}
+
+function toEllipseFrame(center: Point2D, rotation: number, point: Point2D): { u: number; v: number } {
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return { u: dx * cos + dy * sin, v: -dx * sin + dy * cos };
+}
+
+// ============ CORNERS ============
+
+/**
+ * A line or arc leaving a corner. An arc runs from the corner through a
+ * signed sweep: positive when its far end is counterclockwise of the corner.
+ */
+export type CornerSide =
+  | { type: 'line'; corner: Point2D; far: Point2D }
+  | { type: 'arc'; center: Point2D; radius: number; cornerAngle: number; sweep: number };
+
+/**
+ * Arc of a corner fillet from its tangent point on the first side to the
+ * one on the second, turning counterclockwise or clockwise on the way
+ */
+export interface CornerFillet {
+  center: Point2D;
+  start: Point2D;
+  end: Point2D;
+  counterClockwise: boolean;
+}
+
+// Tangent points closer than this to either end of a side are rejected
+const CORNER_EPSILON = 1e-9;
+
+/**
+ * Fillet of a radius between two sides meeting at a corner: the circle
+ * tangent to both whose tangent points lie on them and whose arc continues
+ * each side smoothly. Null when the radius does not fit.
+ */
+export function filletCorner(side1: CornerSide, side2: CornerSide, radius: number): CornerFillet | null {
+  if (radius <= 0) return null;
+
+  let best: CornerFillet | null = null;
+  let bestReach = Infinity;
+
+  for (const offset1 of offsetSide(side1, radius)) {
+    for (const offset2 of offsetSide(side2, radius)) {
+      for (const center of intersectOffsets(offset1, offset2)) {
+        const start = tangentPoint(side1, center);
+        const end = tangentPoint(side2, center);
+        if (!start || !end) continue;
+
+        // Run along side 1 into the fillet, then along side 2 away from the corner
+        const inward = negate(sideDirection(side1, start));
+        const turn = cross(inward, { x: center.x - start.x, y: center.y - start.y });
+        if (Math.abs(turn) < CORNER_EPSILON) continue;
+        const sense = Math.sign(turn);
+        const exit = { x: -(end.y - center.y) * sense / radius, y: (end.x - center.x) * sense / radius };
+        if (dot(exit, sideDirection(side2, end)) < 0.5) continue;
+
+        const corner = sidePoint(side1, 0);
+        const reach = Math.hypot(start.x - corner.x, start.y - corner.y) + Math.hypot(end.x - corner.x, end.y - corner.y);
+        if (reach < bestReach) {
+          best = { center, start, end, counterClockwise: sense > 0 };
+          bestReach = reach;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Ends of a chamfer cutting a corner a distance from it along each side
+ * (a chord distance on arcs). Null when the distance does not fit.
+ */
+export function chamferCorner(side1: CornerSide, side2: CornerSide, distance: number): [Point2D, Point2D] | null {
+  if (distance <= 0) return null;
+  const start = pointAtDistance(side1, distance);
+  const end = pointAtDistance(side2, distance);
+  return start && end ? [start, end] : null;
+}
+
+type OffsetCurve =
+  | { type: 'line'; point: Point2D; direction: Point2D }
+  | { type: 'circle'; center: Point2D; radius: number };
+
+/**
+ * Curves a fillet center may lie on: the side shifted by the radius
+ */
+function offsetSide(side: CornerSide, radius: number): OffsetCurve[] {
+  if (side.type === 'line') {
+    const direction = sideDirection(side, side.corner);
+    const normal = { x: -direction.y, y: direction.x };
+    return [1, -1].map(sign => ({
+      type: 'line' as const,
+      point: { x: side.corner.x + normal.x * radius * sign, y: side.corner.y + normal.y * radius * sign },
+      direction,
+    }));
+  }
+
+  const offsets: OffsetCurve[] = [{ type: 'circle', center: side.center, radius: side.radius + radius }];
+  if (side.radius > radius) offsets.push({ type: 'circle', center: side.center, radius: side.radius - radius });
+  return offsets;
+}
+
+function intersectOffsets(a: OffsetCurve, b: OffsetCurve): Point2D[] {
+  if (a.type === 'line' && b.type === 'line') {
+    const denominator = cross(a.direction, b.direction);
+    if (Math.abs(denominator) < CORNER_EPSILON) return [];
+    const t = cross({ x: b.point.x - a.point.x, y: b.point.y - a.point.y }, b.direction) / denominator;
+    return [{ x: a.point.x + a.direction.x * t, y: a.point.y + a.direction.y * t }];
+  }
+  if (a.type === 'line' && b.type === 'circle') return intersectLineCircle(a, b);
+  if (a.type === 'circle' && b.type === 'line') return intersectLineCircle(b, a);
+  if (a.type === 'circle' && b.type === 'circle') return intersectCircles(a, b);
+  return [];
+}
+
+function intersectLineCircle(
+  line: { point: Point2D; direction: Point2D },
+  circle: { center: Point2D; radius: number }
+): Point2D[] {
+  const w = { x: line.point.x - circle.center.x, y: line.point.y - circle.center.y };
+  const half = dot(w, line.direction);
+  const discriminant = half * half - (dot(w, w) - circle.radius * circle.radius);
+  if (discriminant < 0) return [];
+  const root = Math.sqrt(discriminant);
+  return [-half - root, -half + root].map(t => ({
+    x: line.point.x + line.direction.x * t,
+    y: line.point.y + line.direction.y * t,
+  }));
+}
+
+function intersectCircles(
+  a: { center: Point2D; radius: number },
+  b: { center: Point2D; radius: number }
+): Point2D[] {
+  const dx = b.center.x - a.center.x;
+  const dy = b.center.y - a.center.y;
+  const d = Math.hypot(dx, dy);
+  if (d < CORNER_EPSILON || d > a.radius + b.radius || d < Math.abs(a.radius - b.radius)) return [];
+
+  const along = (d * d + a.radius * a.radius - b.radius * b.radius) / (2 * d);
+  const across = Math.sqrt(Math.max(0, a.radius * a.radius - along * along));
+  const base = { x: a.center.x + (dx * along) / d, y: a.center.y + (dy * along) / d };
+  return [1, -1].map(sign => ({
+    x: base.x - (dy * across * sign) / d,
+    y: base.y + (dx * across * sign) / d,
+  }));
+}
+
+/**
+ * Where a circle about a center touches a side, if that lies strictly
+ * between the corner and the side's far end
+ */
+function tangentPoint(side: CornerSide, center: Point2D): Point2D | null {
+  if (side.type === 'line') {
+    const length = Math.hypot(side.far.x - side.corner.x, side.far.y - side.corner.y);
+    const direction = sideDirection(side, side.corner);
+    const t = dot({ x: center.x - side.corner.x, y: center.y - side.corner.y }, direction);
+    return t > CORNER_EPSILON && t < length - CORNER_EPSILON ? sidePoint(side, t / length) : null;
+  }
+
+  const angle = Math.atan2(center.y - side.center.y, center.x - side.center.x);
+  const turned = wrapAngle((angle - side.cornerAngle) * Math.sign(side.sweep));
+  const sweep = Math.abs(side.sweep);
+  return turned > CORNER_EPSILON && turned < sweep - CORNER_EPSILON ? sidePoint(side, turned / sweep) : null;
+}
+
+/**
+ * Point a straight or chord distance from the corner along a side
+ */
+function pointAtDistance(side: CornerSide, distance: number): Point2D | null {
+  if (side.type === 'line') {
+    const length = Math.hypot(side.far.x - side.corner.x, side.far.y - side.corner.y);
+    return distance < length - CORNER_EPSILON ? sidePoint(side, distance / length) : null;
+  }
+
+  if (distance >= 2 * side.radius) return null;
+  const turned = 2 * Math.asin(distance / (2 * side.radius));
+  return turned < Math.abs(side.sweep) - CORNER_EPSILON ? sidePoint(side, turned / Math.abs(side.sweep)) : null;
+}
+
+/**
+ * Point a fraction of the way from the corner to the far end of a side
+ */
+function sidePoint(side: CornerSide, t: number): Point2D {
+  if (side.type === 'line') {
+    return {
+      x: side.corner.x + (side.far.x - side.corner.x) * t,
+      y: side.corner.y + (side.far.y - side.corner.y) * t,
+    };
+  }
+  const angle = side.cornerAngle + side.sweep * t;
+  return { x: side.center.x + side.radius * Math.cos(angle), y: side.center.y + side.radius * Math.sin(angle) };
+}
+
+/**
+ * Unit direction of travel away from the corner at a point on a side
+ */
+function sideDirection(side: CornerSide, point: Point2D): Point2D {
+  if (side.type === 'line') {
+    const length = Math.hypot(side.far.x - side.corner.x, side.far.y - side.corner.y) || 1;
+    return { x: (side.far.x - side.corner.x) / length, y: (side.far.y - side.corner.y) / length };
+  }
+  const sign = Math.sign(side.sweep);
+  return {
+    x: (-(point.y - side.center.y) * sign) / side.radius,
+    y: ((point.x - side.center.x) * sign) / side.radius,
+  };
+}
+
+function wrapAngle(angle: number): number {
+  const twoPi = Math.PI * 2;
+  return ((angle % twoPi) + twoPi) % twoPi;
+}
+
+function dot(a: Point2D, b: Point2D): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function cross(a: Point2D, b: Point2D): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function negate(a: Point2D): Point2D {
+  return { x: -a.x, y: -a.y };
+}
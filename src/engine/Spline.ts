@@ -0,0 +1,394 @@
+/**
+ * Spline - Rational B-spline (NURBS) curves for sketch splines
+ *
+ * Control splines use their points as the control polygon of a clamped
+ * NURBS curve. Fit splines are interpolated: a cubic B-spline through every
+ * point, parametrized by chord length. Either way the curve runs over the
+ * parameter range 0 to 1 from the first point to the last.
+ *
+ * Ellipses and elliptical arcs are exact rational quadratic curves, so they
+ * share the spline code paths for picking, intersections and profiles.
+ */
+
+import type { EllipseEntity, EllipticalArcEntity, Point2D, SplineCurve, SplineEntity } from '../types/sketch';
+
+// Fit splines are cubic unless they have too few points to be
+const FIT_DEGREE = 3;
+
+// Consecutive fit points closer than this are one point (they would share a
+// parameter and make the interpolation singular)
+const DUPLICATE_FIT_DISTANCE = 1e-6;
+
+// Parameter steps for numeric derivatives
+const DERIVATIVE_STEP = 1e-5;
+const SECOND_DERIVATIVE_STEP = 1e-4;
+
+// Adaptive sampling starts from a few samples per knot span and halves
+// intervals whose chord strays too far from the curve
+const INITIAL_SAMPLES_PER_SPAN = 4;
+const MAX_SUBDIVISIONS = 12;
+
+// Polyline tolerance for the coarse nearest-point search
+const NEAREST_SAMPLE_TOLERANCE = 0.01;
+const NEAREST_NEWTON_STEPS = 6;
+
+// 5-point Gauss-Legendre nodes and weights on [-1, 1]
+const GAUSS_NODES = [0, -0.5384693101056831, 0.5384693101056831, -0.906179845938664, 0.906179845938664];
+const GAUSS_WEIGHTS = [0.5688888888888889, 0.47862867049936647, 0.47862867049936647, 0.23692688505618908, 0.23692688505618908];
+
+// ============ CONSTRUCTION ============
+
+/**
+ * The NURBS curve of a spline entity
+ */
+export function getSplineCurve(entity: SplineEntity): SplineCurve {
+  return entity.mode === 'fit'
+    ? interpolatePoints(entity.points)
+    : createControlCurve(entity.points, entity.degree, entity.weights);
+}
+
+/**
+ * The rational quadratic curve of an ellipse (from the end of its major axis,
+ * counterclockwise) or of an elliptical arc (from its start to its end)
+ */
+export function getEllipseCurve(ellipse: EllipseEntity | EllipticalArcEntity): SplineCurve {
+  let start = 0;
+  let sweep = Math.PI * 2;
+  if (ellipse.type === 'ellipticalArc') {
+    start = ellipse.startAngle;
+    sweep = ellipse.endAngle - ellipse.startAngle;
+    while (sweep <= 0) sweep += Math.PI * 2;
+    while (sweep > Math.PI * 2) sweep -= Math.PI * 2;
+  }
+
+  // Unit circle pieces of at most a quarter turn, mapped onto the ellipse
+  const pieces = Math.max(1, Math.ceil(sweep / (Math.PI / 2) - 1e-9));
+  const step = sweep / pieces;
+  const cos = Math.cos(ellipse.rotation);
+  const sin = Math.sin(ellipse.rotation);
+  const map = (u: number, v: number): Point2D => {
+    const x = ellipse.majorRadius * u;
+    const y = ellipse.minorRadius * v;
+    return { x: ellipse.center.x + x * cos - y * sin, y: ellipse.center.y + x * sin + y * cos };
+  };
+
+  const controlPoints = [map(Math.cos(start), Math.sin(start))];
+  const weights = [1];
+  const knots = [0, 0, 0];
+  for (let i = 0; i < pieces; i++) {
+    const middle = start + (i + 0.5) * step;
+    const end = start + (i + 1) * step;
+    const w = Math.cos(step / 2);
+    controlPoints.push(map(Math.cos(middle) / w, Math.sin(middle) / w), map(Math.cos(end), Math.sin(end)));
+    weights.push(w, 1);
+    knots.push((i + 1) / pieces, (i + 1) / pieces);
+  }
+  knots.push(1);
+
+  return { degree: 2, controlPoints, weights, knots };
+}
+
+function createControlCurve(points: Point2D[], degree: number, weights?: number[]): SplineCurve {
+  const p = Math.max(1, Math.min(degree, points.length - 1));
+  return {
+    degree: p,
+    controlPoints: points.map(point => ({ ...point })),
+    weights: points.map((_, i) => weights?.[i] ?? 1),
+    knots: uniformKnots(points.length, p),
+  };
+}
+
+/**
+ * Clamped knot vector with evenly spaced interior knots
+ */
+function uniformKnots(count: number, degree: number): number[] {
+  const spans = count - degree;
+  return [
+    ...new Array<number>(degree + 1).fill(0),
+    ...Array.from({ length: spans - 1 }, (_, i) => (i + 1) / spans),
+    ...new Array<number>(degree + 1).fill(1),
+  ];
+}
+
+/**
+ * B-spline through the points (global interpolation, chord length
+ * parameters and averaged knots). Repeated points count once; if all of
+ * them coincide the curve is that single point.
+ */
+function interpolatePoints(fitPoints: Point2D[]): SplineCurve {
+  const points = fitPoints.filter((point, i) => i === 0 || distance(point, fitPoints[i - 1]) > DUPLICATE_FIT_DISTANCE);
+  if (points.length < 2) points.push(fitPoints[fitPoints.length - 1]);
+
+  const n = points.length;
+  const p = Math.min(FIT_DEGREE, n - 1);
+
+  const chords = points.slice(1).map((point, i) => distance(point, points[i]));
+  const total = chords.reduce((sum, chord) => sum + chord, 0);
+  const params = [0];
+  for (let i = 0; i < chords.length; i++) {
+    params.push(total > 0 ? params[i] + chords[i] / total : (i + 1) / (n - 1));
+  }
+  params[n - 1] = 1;
+
+  const knots = [
+    ...new Array<number>(p + 1).fill(0),
+    ...Array.from({ length: n - p - 1 }, (_, j) => {
+      let sum = 0;
+      for (let i = j + 1; i <= j + p; i++) sum += params[i];
+      return sum / p;
+    }),
+    ...new Array<number>(p + 1).fill(1),
+  ];
+
+  // Each point is the curve at its parameter: one equation per point
+  const matrix = params.map(t => {
+    const row = new Array<number>(n).fill(0);
+    const span = findSpan(knots, n, p, t);
+    basisFunctions(knots, p, span, t).forEach((value, i) => {
+      row[span - p + i] = value;
+    });
+    return row;
+  });
+  const xs = solveLinear(matrix, points.map(point => point.x));
+  const ys = solveLinear(matrix, points.map(point => point.y));
+
+  return {
+    degree: p,
+    controlPoints: xs.map((x, i) => ({ x, y: ys[i] })),
+    weights: new Array<number>(n).fill(1),
+    knots,
+  };
+}
+
+// ============ EVALUATION ============
+
+/**
+ * Point on the curve at a parameter between 0 and 1
+ */
+export function evaluateSpline(curve: SplineCurve, t: number): Point2D {
+  const { degree, controlPoints, weights, knots } = curve;
+  const u = Math.max(0, Math.min(1, t));
+  const span = findSpan(knots, controlPoints.length, degree, u);
+  const basis = basisFunctions(knots, degree, span, u);
+
+  let x = 0;
+  let y = 0;
+  let w = 0;
+  basis.forEach((value, i) => {
+    const index = span - degree + i;
+    const weighted = value * weights[index];
+    x += weighted * controlPoints[index].x;
+    y += weighted * controlPoints[index].y;
+    w += weighted;
+  });
+  return { x: x / w, y: y / w };
+}
+
+/**
+ * First derivative of the curve with respect to its parameter
+ */
+export function splineDerivative(curve: SplineCurve, t: number): Point2D {
+  const a = Math.max(0, t - DERIVATIVE_STEP);
+  const b = Math.min(1, t + DERIVATIVE_STEP);
+  const pa = evaluateSpline(curve, a);
+  const pb = evaluateSpline(curve, b);
+  return { x: (pb.x - pa.x) / (b - a), y: (pb.y - pa.y) / (b - a) };
+}
+
+/**
+ * Second derivative of the curve with respect to its parameter
+ */
+export function splineSecondDerivative(curve: SplineCurve, t: number): Point2D {
+  const h = SECOND_DERIVATIVE_STEP;
+  const u = Math.max(h, Math.min(1 - h, t));
+  const before = evaluateSpline(curve, u - h);
+  const at = evaluateSpline(curve, u);
+  const after = evaluateSpline(curve, u + h);
+  return {
+    x: (after.x - 2 * at.x + before.x) / (h * h),
+    y: (after.y - 2 * at.y + before.y) / (h * h),
+  };
+}
+
+/**
+ * Parameters from `from` to `to` (both included) whose polyline stays within
+ * the tolerance of the curve
+ */
+export function sampleSplineParameters(curve: SplineCurve, from: number, to: number, tolerance: number): number[] {
+  const spans = Math.max(1, curve.controlPoints.length - curve.degree);
+  const count = Math.max(1, Math.ceil(spans * INITIAL_SAMPLES_PER_SPAN * Math.abs(to - from)));
+
+  const params = [from];
+  for (let i = 0; i < count; i++) {
+    subdivide(curve, from + ((to - from) * i) / count, from + ((to - from) * (i + 1)) / count, tolerance, params, 0);
+  }
+  return params;
+}
+
+function subdivide(curve: SplineCurve, a: number, b: number, tolerance: number, out: number[], depth: number): void {
+  const start = evaluateSpline(curve, a);
+  const end = evaluateSpline(curve, b);
+  const deviation = Math.max(
+    ...[0.25, 0.5, 0.75].map(f => distanceToSegment(evaluateSpline(curve, a + (b - a) * f), start, end))
+  );
+
+  if (depth < MAX_SUBDIVISIONS && deviation > tolerance) {
+    const mid = (a + b) / 2;
+    subdivide(curve, a, mid, tolerance, out, depth + 1);
+    subdivide(curve, mid, b, tolerance, out, depth + 1);
+  } else {
+    out.push(b);
+  }
+}
+
+/**
+ * Parameter of the point on the curve nearest a point, between `from` and `to`
+ */
+export function nearestSplineParameter(curve: SplineCurve, p: Point2D, from = 0, to = 1): number {
+  const lo = Math.min(from, to);
+  const hi = Math.max(from, to);
+
+  // Nearest point on a fine polyline of the curve...
+  const params = sampleSplineParameters(curve, lo, hi, NEAREST_SAMPLE_TOLERANCE);
+  const points = params.map(t => evaluateSpline(curve, t));
+  let best = lo;
+  let bestDistance = Infinity;
+  for (let i = 0; i + 1 < points.length; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    const s = lengthSq > 0
+      ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSq))
+      : 0;
+    const d = distance(p, { x: a.x + (b.x - a.x) * s, y: a.y + (b.y - a.y) * s });
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = params[i] + (params[i + 1] - params[i]) * s;
+    }
+  }
+
+  // ...refined with Newton steps on (C(t) - p) . C'(t) = 0
+  let t = best;
+  for (let i = 0; i < NEAREST_NEWTON_STEPS; i++) {
+    const c = evaluateSpline(curve, t);
+    const d1 = splineDerivative(curve, t);
+    const d2 = splineSecondDerivative(curve, t);
+    const offset = { x: c.x - p.x, y: c.y - p.y };
+    const f = offset.x * d1.x + offset.y * d1.y;
+    const slope = d1.x * d1.x + d1.y * d1.y + offset.x * d2.x + offset.y * d2.y;
+    if (slope <= 0) break;
+    t = Math.max(lo, Math.min(hi, t - f / slope));
+  }
+  return t;
+}
+
+/**
+ * The integral of (x dy - y dx) / 2 along the curve from `from` to `to`: its
+ * share of the signed area of a loop it is part of
+ */
+export function splineArea(curve: SplineCurve, from: number, to: number): number {
+  const spans = Math.max(1, curve.controlPoints.length - curve.degree);
+  const count = Math.max(1, Math.ceil(spans * INITIAL_SAMPLES_PER_SPAN * Math.abs(to - from)));
+  const step = (to - from) / count;
+
+  let area = 0;
+  for (let i = 0; i < count; i++) {
+    const mid = from + step * (i + 0.5);
+    GAUSS_NODES.forEach((node, k) => {
+      const t = mid + (node * step) / 2;
+      const p = evaluateSpline(curve, t);
+      const d = splineDerivative(curve, t);
+      area += (GAUSS_WEIGHTS[k] * (p.x * d.y - p.y * d.x) * step) / 4;
+    });
+  }
+  return area;
+}
+
+// ============ B-SPLINE BASIS ============
+
+/**
+ * Knot span containing a parameter (The NURBS Book, A2.1)
+ */
+function findSpan(knots: number[], count: number, degree: number, t: number): number {
+  if (t >= knots[count]) return count - 1;
+  if (t <= knots[degree]) return degree;
+
+  let low = degree;
+  let high = count;
+  let mid = Math.floor((low + high) / 2);
+  while (t < knots[mid] || t >= knots[mid + 1]) {
+    if (t < knots[mid]) high = mid;
+    else low = mid;
+    mid = Math.floor((low + high) / 2);
+  }
+  return mid;
+}
+
+/**
+ * The degree + 1 basis functions that are non-zero in a span (A2.2)
+ */
+function basisFunctions(knots: number[], degree: number, span: number, t: number): number[] {
+  const values = [1];
+  const left: number[] = [];
+  const right: number[] = [];
+
+  for (let j = 1; j <= degree; j++) {
+    left[j] = t - knots[span + 1 - j];
+    right[j] = knots[span + j] - t;
+    let saved = 0;
+    for (let r = 0; r < j; r++) {
+      const temp = values[r] / (right[r + 1] + left[j - r]);
+      values[r] = saved + right[r + 1] * temp;
+      saved = left[j - r] * temp;
+    }
+    values[j] = saved;
+  }
+  return values;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Solve A x = b with Gaussian elimination and partial pivoting
+ */
+function solveLinear(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map(row => [...row]);
+  const b = [...rhs];
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
@@ -0,0 +1,236 @@
+/**
+ * TopologyNaming - Persistent names for faces and edges of bodies
+ *
+ * Every solid a feature creates is marked as a manifold original and
+ * registered under its feature and output slot. manifold-3d carries the
+ * original's ID and face IDs through later booleans, so a face keeps its key
+ * wherever it ends up. When no face has the key any more (the solid was
+ * rebuilt from different topology), the signature stored with the reference
+ * picks the closest face created by the same feature.
+ */
+
+import type { Manifold, Mesh } from 'manifold-3d';
+import type { EdgeName, FaceKey, FaceName } from '../types/features';
+
+type Vec3 = [number, number, number];
+
+export interface BodyFace {
+  key: FaceKey;
+  triangles: number[];
+  normal: Vec3;
+  centroid: Vec3;
+  area: number;
+}
+
+export interface BodyTopology {
+  faces: BodyFace[];
+  // Index into faces for every triangle, in getMesh() / tessellate() order
+  triangleFaces: Uint32Array;
+}
+
+// Faces count as parallel within about one degree
+const NORMAL_TOLERANCE = 0.9998;
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function sameKey(a: FaceKey, b: FaceKey): boolean {
+  return a.featureId === b.featureId && a.slot === b.slot && a.faceId === b.faceId;
+}
+
+// ============ TOPOLOGY NAMING ============
+
+class TopologyNamingClass {
+  // Feature and output slot of every registered original
+  private originals = new Map<number, { featureId: string; slot: number }>();
+
+  /**
+   * Register a newly created solid so its faces can be named
+   */
+  markOriginal(manifold: Manifold, featureId: string, slot: number): Manifold {
+    const original = manifold.asOriginal();
+    this.originals.set(original.originalID(), { featureId, slot });
+    return original;
+  }
+
+  /**
+   * Group a body's triangles into named faces
+   */
+  getTopology(manifold: Manifold): BodyTopology {
+    const mesh: Mesh = manifold.getMesh();
+    const triangleFaces = new Uint32Array(mesh.numTri);
+    const faces: BodyFace[] = [];
+    const faceIndices = new Map<string, number>();
+
+    for (let run = 0; run < mesh.runOriginalID.length; run++) {
+      const origin = this.originals.get(mesh.runOriginalID[run]) ?? { featureId: '', slot: -1 };
+      const start = mesh.runIndex[run] / 3;
+      const end = mesh.runIndex[run + 1] / 3;
+
+      for (let tri = start; tri < end; tri++) {
+        const faceId = mesh.faceID[tri];
+        const id = `${origin.featureId}:${origin.slot}:${faceId}`;
+        let index = faceIndices.get(id);
+        if (index === undefined) {
+          index = faces.length;
+          faceIndices.set(id, index);
+          faces.push({
+            key: { featureId: origin.featureId, slot: origin.slot, faceId },
+            triangles: [],
+            normal: [0, 0, 0],
+            centroid: [0, 0, 0],
+            area: 0,
+          });
+        }
+        faces[index].triangles.push(tri);
+        triangleFaces[tri] = index;
+      }
+    }
+
+    // Area-weighted normal and centroid of each face
+    for (const face of faces) {
+      for (const tri of face.triangles) {
+        const [a, b, c] = [0, 1, 2].map(i => {
+          const vert = mesh.triVerts[tri * 3 + i] * mesh.numProp;
+          return [mesh.vertProperties[vert], mesh.vertProperties[vert + 1], mesh.vertProperties[vert + 2]];
+        });
+        const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+        const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+        const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+        const area = Math.hypot(n[0], n[1], n[2]) / 2;
+        for (let i = 0; i < 3; i++) {
+          face.normal[i] += n[i];
+          face.centroid[i] += (a[i] + b[i] + c[i]) / 3 * area;
+        }
+        face.area += area;
+      }
+      const length = Math.hypot(...face.normal) || 1;
+      face.normal = face.normal.map(x => x / length) as Vec3;
+      face.centroid = face.centroid.map(x => x / (face.area || 1)) as Vec3;
+    }
+
+    return { faces, triangleFaces };
+  }
+
+  /**
+   * Persistent name of a face, for storing in a reference
+   */
+  getFaceName(face: BodyFace): FaceName {
+    return {
+      key: { ...face.key },
+      signature: { normal: [...face.normal], centroid: [...face.centroid], area: face.area },
+    };
+  }
+
+  /**
+   * Find a named face among several bodies. Faces still carrying the key win
+   * (the nearest one if a cut split it); otherwise the face of the same
+   * feature that is parallel to and nearest the recorded one. Null when the
+   * feature no longer created any such face.
+   */
+  resolveFace(manifolds: Manifold[], name: FaceName): { bodyIndex: number; face: BodyFace } | null {
+    const topologies = manifolds.map(manifold => this.getTopology(manifold));
+    const { normal, centroid } = name.signature;
+
+    const nearest = (matches: (face: BodyFace) => boolean) => {
+      let best: { bodyIndex: number; face: BodyFace } | null = null;
+      let bestDistance = Infinity;
+      for (let bodyIndex = 0; bodyIndex < topologies.length; bodyIndex++) {
+        for (const face of topologies[bodyIndex].faces) {
+          if (!matches(face)) continue;
+          const d = distance(face.centroid, centroid);
+          if (d < bestDistance) {
+            best = { bodyIndex, face };
+            bestDistance = d;
+          }
+        }
+      }
+      return best;
+    };
+
+    return nearest(face => sameKey(face.key, name.key)) ?? nearest(face =>
+      face.key.featureId === name.key.featureId &&
+      face.normal[0] * normal[0] + face.normal[1] * normal[1] + face.normal[2] * normal[2] > NORMAL_TOLERANCE
+    );
+  }
+
+  /**
+   * Find a named edge on a body as the segments its two faces share. When
+   * they meet in several places (e.g. after a cut split one of them), the
+   * connected run nearest the recorded midpoint is returned. Null when either
+   * face is gone or they no longer meet.
+   */
+  resolveEdge(manifold: Manifold, name: EdgeName): Array<[Vec3, Vec3]> | null {
+    const first = this.resolveFace([manifold], name.faces[0]);
+    const second = this.resolveFace([manifold], name.faces[1]);
+    if (!first || !second || sameKey(first.face.key, second.face.key)) return null;
+
+    const mesh: Mesh = manifold.getMesh();
+
+    // Vertices split along property seams are merged back for adjacency
+    const merged = new Map<number, number>();
+    for (let i = 0; i < (mesh.mergeFromVert?.length ?? 0); i++) {
+      merged.set(mesh.mergeFromVert[i], mesh.mergeToVert[i]);
+    }
+    const vertex = (tri: number, corner: number) => {
+      const vert = mesh.triVerts[tri * 3 + corner];
+      return merged.get(vert) ?? vert;
+    };
+    const position = (vert: number): Vec3 => [
+      mesh.vertProperties[vert * mesh.numProp],
+      mesh.vertProperties[vert * mesh.numProp + 1],
+      mesh.vertProperties[vert * mesh.numProp + 2],
+    ];
+
+    // Half-edges of the first face, matched against reversed half-edges of the second
+    const halfEdges = new Set<string>();
+    for (const tri of first.face.triangles) {
+      for (let corner = 0; corner < 3; corner++) {
+        halfEdges.add(`${vertex(tri, corner)}:${vertex(tri, (corner + 1) % 3)}`);
+      }
+    }
+    const shared: Array<[number, number]> = [];
+    for (const tri of second.face.triangles) {
+      for (let corner = 0; corner < 3; corner++) {
+        const from = vertex(tri, corner);
+        const to = vertex(tri, (corner + 1) % 3);
+        if (halfEdges.has(`${to}:${from}`)) shared.push([to, from]);
+      }
+    }
+    if (shared.length === 0) return null;
+
+    // Split into connected runs
+    const parent = new Map<number, number>();
+    const find = (v: number): number => {
+      const p = parent.get(v) ?? v;
+      if (p === v) return v;
+      const root = find(p);
+      parent.set(v, root);
+      return root;
+    };
+    for (const [a, b] of shared) parent.set(find(a), find(b));
+
+    const runs = new Map<number, Array<[Vec3, Vec3]>>();
+    let best: Array<[Vec3, Vec3]> = [];
+    let bestDistance = Infinity;
+    for (const [a, b] of shared) {
+      const segment: [Vec3, Vec3] = [position(a), position(b)];
+      const root = find(a);
+      const run = runs.get(root) ?? [];
+      run.push(segment);
+      runs.set(root, run);
+
+      const mid: Vec3 = [0, 1, 2].map(i => (segment[0][i] + segment[1][i]) / 2) as Vec3;
+      const d = distance(mid, name.midpoint);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = run;
+      }
+    }
+    return best;
+  }
+}
+
+// Export singleton
+export const TopologyNaming = new TopologyNamingClass();
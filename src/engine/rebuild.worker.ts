@@ -0,0 +1,201 @@
+/**
+ * Rebuild worker - Runs FeatureEvaluator off the UI thread
+ *
+ * Keeps the manifold results of every feature between rebuilds, so a
+ * request only re-evaluates the features the UI reports as dirty. A newer
+ * rebuild aborts the one in progress; the old request answers 'cancelled'.
+ * Export requests evaluate everything afresh and leave the cache alone.
+ */
+
+import { FeatureEvaluator } from './FeatureEvaluator';
+import { ManifoldEngine } from './ManifoldEngine';
+import { TopologyNaming } from './TopologyNaming';
+import { deserializeFeature } from '../utils/serialization';
+import type { BodyMesh, CachedResult } from '../types/features';
+import type { Manifold } from 'manifold-3d';
+import type { RebuildResult } from './FeatureEvaluator';
+import type {
+  ExportRequest,
+  RebuildRequest,
+  RebuildWorkerRequest,
+  RebuildWorkerResponse,
+} from './RebuildProtocol';
+
+// Cached evaluation results by feature ID
+const cache = new Map<string, CachedResult>();
+
+// Request currently being evaluated, and the queue behind it
+let active: { requestId: number; controller: AbortController } | null = null;
+let queue: Promise<void> = Promise.resolve();
+
+function post(response: RebuildWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+self.addEventListener('message', (event: MessageEvent<RebuildWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'init':
+      ManifoldEngine.initialize().catch(error => {
+        console.error('[RebuildWorker] Failed to initialize ManifoldEngine:', error);
+      });
+      break;
+
+    case 'rebuild': {
+      // Only the latest rebuild matters
+      active?.controller.abort();
+      const controller = new AbortController();
+      active = { requestId: request.requestId, controller };
+      queue = queue.then(() => runRebuild(request, controller.signal));
+      break;
+    }
+
+    case 'export':
+      queue = queue.then(() => runExport(request));
+      break;
+
+    case 'cancel':
+      if (active?.requestId === request.requestId) {
+        active.controller.abort();
+      }
+      break;
+  }
+});
+
+/**
+ * Evaluate a rebuild request and post the result
+ */
+async function runRebuild(request: RebuildRequest, signal: AbortSignal): Promise<void> {
+  const { requestId } = request;
+  if (signal.aborted) {
+    post({ type: 'cancelled', requestId });
+    return;
+  }
+
+  try {
+    // Attach cached results to the clean features
+    const dirtyIds = new Set(request.dirtyIds);
+    const features = request.features.map(serialized => {
+      const feature = deserializeFeature(serialized);
+      const cached = cache.get(feature.id);
+      feature._dirty = dirtyIds.has(feature.id) || !cached;
+      if (!feature._dirty) {
+        feature._cachedResult = cached;
+      }
+      return feature;
+    });
+
+    const result = await FeatureEvaluator.rebuild(features, signal, request.chordTolerance);
+
+    // Store new results, even from a cancelled rebuild: they are valid for
+    // the features as sent, and the UI still reports them dirty next time
+    const liveIds = new Set(features.map(f => f.id));
+    for (const feature of features) {
+      const bodies = result.featureResults.get(feature.id);
+      if (bodies && feature._dirty) {
+        replaceCacheEntry(feature.id, {
+          bodies,
+          sketchPlane: result.sketchPlanes.get(feature.id),
+          construction: result.construction.get(feature.id),
+          timestamp: Date.now(),
+        });
+      } else if (result.errors.has(feature.id)) {
+        replaceCacheEntry(feature.id, null);
+      }
+    }
+    for (const featureId of Array.from(cache.keys())) {
+      if (!liveIds.has(featureId)) {
+        replaceCacheEntry(featureId, null);
+      }
+    }
+
+    if (result.cancelled) {
+      post({ type: 'cancelled', requestId });
+      return;
+    }
+
+    postResult(requestId, result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[RebuildWorker] Rebuild failed:', error);
+    post({ type: 'failed', requestId, message });
+  } finally {
+    if (active?.requestId === requestId) {
+      active = null;
+    }
+  }
+}
+
+/**
+ * Evaluate an export request without the cache and post the result
+ */
+async function runExport(request: ExportRequest): Promise<void> {
+  const { requestId } = request;
+  let result: RebuildResult | null = null;
+
+  try {
+    const features = request.features.map(serialized => ({ ...deserializeFeature(serialized), _dirty: true }));
+    result = await FeatureEvaluator.rebuild(features, undefined, request.chordTolerance);
+    postResult(requestId, result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[RebuildWorker] Export rebuild failed:', error);
+    post({ type: 'failed', requestId, message });
+  } finally {
+    // Nothing else holds these manifolds
+    const manifolds = new Set<Manifold>();
+    result?.featureResults.forEach(bodies => bodies.forEach(body => manifolds.add(body.manifold)));
+    manifolds.forEach(manifold => ManifoldEngine.delete(manifold));
+  }
+}
+
+/**
+ * Tessellate a rebuild's bodies and post them, transferring the buffers
+ */
+function postResult(requestId: number, result: RebuildResult): void {
+  const bodies: BodyMesh[] = [];
+  const transfer: Transferable[] = [];
+  result.bodies.forEach(body => {
+    const mesh = ManifoldEngine.tessellate(body.manifold);
+    const { faces, triangleFaces } = TopologyNaming.getTopology(body.manifold);
+    bodies.push({
+      bodyId: body.bodyId,
+      originFeatureId: body.originFeatureId,
+      mesh,
+      faces: faces.map(face => TopologyNaming.getFaceName(face)),
+      triangleFaces,
+    });
+    transfer.push(mesh.vertices.buffer, mesh.normals.buffer, mesh.indices.buffer, triangleFaces.buffer);
+  });
+
+  post({
+    type: 'complete',
+    requestId,
+    bodies,
+    sketchPlanes: Array.from(result.sketchPlanes),
+    construction: Array.from(result.construction),
+    errors: Array.from(result.errors),
+    duration: result.duration,
+  }, transfer);
+}
+
+/**
+ * Replace (or remove) a feature's cached result, freeing the old manifolds
+ */
+function replaceCacheEntry(featureId: string, entry: CachedResult | null): void {
+  const previous = cache.get(featureId);
+  if (previous && previous !== entry) {
+    for (const body of previous.bodies) {
+      if (!entry?.bodies.some(b => b.manifold === body.manifold)) {
+        ManifoldEngine.delete(body.manifold);
+      }
+    }
+  }
+
+  if (entry) {
+    cache.set(featureId, entry);
+  } else {
+    cache.delete(featureId);
+  }
+}
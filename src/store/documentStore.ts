@@ -3,20 +3,69 @@
  */
 
 import { create } from 'zustand';
-import type { Document } from '../types/document';
+import type { Document, DocumentSettings } from '../types/document';
 import type {
   Feature,
   Parameter,
+  NumberParameter,
   PrimitiveFeature,
   SketchFeature,
   ExtrudeFeature,
+  RevolveFeature,
+  RevolveAxisRef,
   BooleanFeature,
-  CachedBody,
+  FilletFeature,
+  ChamferFeature,
+  BodyMesh,
+  GeometryRef,
+  ConstructionPlaneFeature,
+  ConstructionPlaneMethod,
+  ConstructionAxisFeature,
+  ConstructionAxisMethod,
+  ConstructionPointFeature,
+  ConstructionGeometry,
+  PlaneRef,
+  AxisRef,
+  PointRef,
 } from '../types/features';
+import type { SketchPlane } from '../types/sketch';
 import { createNumberParam, createEnumParam } from '../types/features';
+import {
+  evaluateExpression,
+  isPlainNumber,
+  isValidParameterName,
+  renameReference,
+  resolveFeatureParameters,
+  resolveParameters,
+} from '../engine/ExpressionEvaluator';
 import { generateId, generateFeatureName, resetFeatureCounters } from '../utils/idGenerator';
 import { createNewDocument } from '../utils/serialization';
 
+// ============ HISTORY ============
+
+// Default number of undo steps kept
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+// Edits with the same coalesce key within this window merge into one undo step
+const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * Document content captured before an edit. Features are stored without
+ * their rebuild caches; unchanged objects are shared with the live document.
+ */
+interface DocumentSnapshot {
+  features: Feature[];
+  globalParameters: Record<string, Parameter>;
+  selectedFeatureId: string | null;
+}
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: DocumentSnapshot;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
 // ============ STORE STATE ============
 
 interface DocumentState {
@@ -31,13 +80,23 @@ interface DocumentState {
   isRebuilding: boolean;
   rebuildError: string | null;
 
-  // Body tracking
-  bodies: Map<string, CachedBody>;
+  // Body tracking (tessellated results of the last rebuild)
+  bodies: Map<string, BodyMesh>;
+  // Planes of face sketches as resolved by the last rebuild
+  sketchPlanes: Map<string, SketchPlane>;
+  // Planes, axes and points of construction features from the last rebuild
+  construction: Map<string, ConstructionGeometry>;
+
+  // Undo/redo history (most recent entry last)
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  historyLimit: number;
 
   // Actions - Document
   newDocument: (name?: string) => void;
   loadDocument: (doc: Document) => void;
   setDocumentName: (name: string) => void;
+  setDocumentSettings: (settings: Partial<DocumentSettings>) => void;
 
   // Actions - Features
   addFeature: (feature: Feature) => void;
@@ -48,6 +107,17 @@ interface DocumentState {
 
   // Actions - Parameters
   updateParameter: (featureId: string, paramKey: string, value: number | string | boolean) => void;
+  setGlobalParameter: (name: string, expression: string, unit?: string) => void;
+  deleteGlobalParameter: (name: string) => void;
+  renameGlobalParameter: (oldName: string, newName: string) => void;
+  setGlobalParameterComment: (name: string, comment: string) => void;
+  setParameterComment: (featureId: string, paramKey: string, comment: string) => void;
+
+  // Actions - History
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+  setHistoryLimit: (limit: number) => void;
 
   // Actions - Selection
   selectFeature: (id: string | null) => void;
@@ -57,12 +127,16 @@ interface DocumentState {
   markAllDirty: () => void;
   setRebuilding: (isRebuilding: boolean) => void;
   setRebuildError: (error: string | null) => void;
-  setCachedResult: (featureId: string, bodies: CachedBody[]) => void;
+  markFeaturesBuilt: (built: Feature[]) => void;
   clearCachedResult: (featureId: string) => void;
 
   // Actions - Bodies
-  updateBodies: (bodies: Map<string, CachedBody>) => void;
-  getBody: (bodyId: string) => CachedBody | undefined;
+  updateBodies: (
+    bodies: Map<string, BodyMesh>,
+    sketchPlanes: Map<string, SketchPlane>,
+    construction: Map<string, ConstructionGeometry>
+  ) => void;
+  getBody: (bodyId: string) => BodyMesh | undefined;
 
   // Helpers
   getFeature: (id: string) => Feature | undefined;
@@ -80,6 +154,11 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
   isRebuilding: false,
   rebuildError: null,
   bodies: new Map(),
+  sketchPlanes: new Map(),
+  construction: new Map(),
+  undoStack: [],
+  redoStack: [],
+  historyLimit: DEFAULT_HISTORY_LIMIT,
 
   // Document actions
   newDocument: (name = 'Untitled') => {
@@ -90,19 +169,28 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
       selectedFeatureId: null,
       rebuildError: null,
       bodies: new Map(),
+      sketchPlanes: new Map(),
+      construction: new Map(),
+      undoStack: [],
+      redoStack: [],
     });
   },
 
   loadDocument: (doc) => {
     resetFeatureCounters();
-    // Mark all features as dirty for rebuild
-    const features = doc.features.map(f => ({ ...f, _dirty: true }));
+    // Re-evaluate parameter expressions and mark all features as dirty for rebuild
+    const { features: resolved } = resolveFeatureParameters(doc.features, doc.globalParameters);
+    const features = resolved.map(f => ({ ...f, _dirty: true }));
     set({
       document: { ...doc, features },
       isModified: false,
       selectedFeatureId: null,
       rebuildError: null,
       bodies: new Map(),
+      sketchPlanes: new Map(),
+      construction: new Map(),
+      undoStack: [],
+      redoStack: [],
     });
   },
 
@@ -111,8 +199,20 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
     isModified: true,
   })),
 
+  setDocumentSettings: (settings) => set((state) => {
+    const updated = { ...state.document.settings, ...settings };
+    // Bodies in the viewport are rebuilt at the new preview quality
+    const features = updated.previewQuality !== state.document.settings.previewQuality
+      ? state.document.features.map(f => ({ ...f, _dirty: true }))
+      : state.document.features;
+    return {
+      document: { ...state.document, features, settings: updated },
+      isModified: true,
+    };
+  }),
+
   // Feature actions
-  addFeature: (feature) => set((state) => ({
+  addFeature: (feature) => set((state) => withHistory(state, `Add ${feature.name}`, {
     document: {
       ...state.document,
       features: [...state.document.features, { ...feature, _dirty: true }],
@@ -135,10 +235,10 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
       features[i] = { ...features[i], _dirty: true } as Feature;
     }
 
-    return {
+    return withHistory(state, `Edit ${getFeatureName(state, id)}`, {
       document: { ...state.document, features },
       isModified: true,
-    };
+    });
   }),
 
   deleteFeature: (id) => set((state) => {
@@ -150,11 +250,11 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
       features[i] = { ...features[i], _dirty: true };
     }
 
-    return {
+    return withHistory(state, `Delete ${getFeatureName(state, id)}`, {
       document: { ...state.document, features },
       isModified: true,
       selectedFeatureId: state.selectedFeatureId === id ? null : state.selectedFeatureId,
-    };
+    });
   }),
 
   reorderFeature: (id, newIndex) => set((state) => {
@@ -171,10 +271,10 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
       features[i] = { ...features[i], _dirty: true };
     }
 
-    return {
+    return withHistory(state, `Reorder ${feature.name}`, {
       document: { ...state.document, features },
       isModified: true,
-    };
+    });
   }),
 
   suppressFeature: (id, suppressed) => set((state) => {
@@ -191,10 +291,11 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
       features[i] = { ...features[i], _dirty: true };
     }
 
-    return {
+    const label = `${suppressed ? 'Suppress' : 'Unsuppress'} ${getFeatureName(state, id)}`;
+    return withHistory(state, label, {
       document: { ...state.document, features },
       isModified: true,
-    };
+    });
   }),
 
   // Parameter actions
@@ -202,8 +303,13 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
     const features: Feature[] = state.document.features.map((f) => {
       if (f.id === featureId) {
         const params = { ...f.parameters } as Record<string, Parameter>;
-        if (params[paramKey]) {
-          params[paramKey] = { ...params[paramKey], value } as Parameter;
+        const param = params[paramKey];
+        if (param?.type === 'number' && typeof value === 'string') {
+          params[paramKey] = applyNumberExpression(param, value, state.document.globalParameters);
+        } else if (param?.type === 'number') {
+          params[paramKey] = { ...param, value: value as number, expression: undefined };
+        } else if (param) {
+          params[paramKey] = { ...param, value } as Parameter;
         }
         return { ...f, parameters: params, _dirty: true } as Feature;
       }
@@ -216,9 +322,164 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
       features[i] = { ...features[i], _dirty: true } as Feature;
     }
 
-    return {
+    // Rapid edits of the same parameter (arrow keys, sliders) coalesce into one step
+    const label = `Change ${getFeatureName(state, featureId)} ${paramKey}`;
+    return withHistory(state, label, {
+      document: { ...state.document, features },
+      isModified: true,
+    }, `parameter:${featureId}:${paramKey}`);
+  }),
+
+  setGlobalParameter: (name, expression, unit) => {
+    // Checked before the update, so a refused name leaves the store as it was
+    if (!isValidParameterName(name)) {
+      throw new Error(`Invalid parameter name: ${name}`);
+    }
+
+    set((state) => {
+      const existing = state.document.globalParameters[name];
+      const previous = existing?.type === 'number' ? existing : createNumberParam(generateId(), name, 0, { unit: 'mm' });
+      const globalParameters = refreshGlobalValues({
+        ...state.document.globalParameters,
+        [name]: {
+          ...previous,
+          ...(isPlainNumber(expression)
+            ? { value: parseFloat(expression), expression: undefined }
+            : { expression: expression.trim() }),
+          unit: unit ?? previous.unit,
+        },
+      });
+
+      const label = existing ? `Change ${name}` : `Add parameter ${name}`;
+      return withHistory(state, label, {
+        document: {
+          ...state.document,
+          globalParameters,
+          features: reevaluateFeatureExpressions(state.document.features, globalParameters),
+        },
+        isModified: true,
+      }, existing ? `global:${name}` : undefined);
+    });
+  },
+
+  deleteGlobalParameter: (name) => set((state) => {
+    if (!Object.hasOwn(state.document.globalParameters, name)) return state;
+
+    const remaining = { ...state.document.globalParameters };
+    delete remaining[name];
+    const globalParameters = refreshGlobalValues(remaining);
+
+    return withHistory(state, `Delete parameter ${name}`, {
+      document: {
+        ...state.document,
+        globalParameters,
+        features: reevaluateFeatureExpressions(state.document.features, globalParameters),
+      },
+      isModified: true,
+    });
+  }),
+
+  renameGlobalParameter: (oldName, newName) => {
+    // Checked before the update, so a refused rename leaves the store as it was
+    const current = get().document.globalParameters;
+    if (!Object.hasOwn(current, oldName) || oldName === newName) return;
+    if (!isValidParameterName(newName)) {
+      throw new Error(`Invalid parameter name: ${newName}`);
+    }
+    if (Object.hasOwn(current, newName)) {
+      throw new Error(`A parameter named ${newName} already exists`);
+    }
+
+    set((state) => {
+      // Rebuild the record in the same order, rewriting references to the old name
+      const globalParameters: Record<string, Parameter> = {};
+      for (const [name, p] of Object.entries(state.document.globalParameters)) {
+        const renamed = name === oldName ? { ...p, name: newName } : p;
+        globalParameters[name === oldName ? newName : name] = renameParameterReferences(renamed, oldName, newName);
+      }
+
+      const features = state.document.features.map((f) => {
+        const params = f.parameters as Record<string, Parameter | undefined>;
+        let updated: Record<string, Parameter | undefined> | null = null;
+        for (const [key, p] of Object.entries(params)) {
+          if (!p) continue;
+          const renamed = renameParameterReferences(p, oldName, newName);
+          if (renamed !== p) {
+            updated = updated ?? { ...params };
+            updated[key] = renamed;
+          }
+        }
+        return updated ? ({ ...f, parameters: updated } as Feature) : f;
+      });
+
+      return withHistory(state, `Rename ${oldName} to ${newName}`, {
+        document: { ...state.document, globalParameters, features },
+        isModified: true,
+      });
+    });
+  },
+
+  setGlobalParameterComment: (name, comment) => set((state) => {
+    const param = state.document.globalParameters[name];
+    if (!param) return state;
+
+    return withHistory(state, `Comment on ${name}`, {
+      document: {
+        ...state.document,
+        globalParameters: { ...state.document.globalParameters, [name]: { ...param, comment } },
+      },
+      isModified: true,
+    });
+  }),
+
+  setParameterComment: (featureId, paramKey, comment) => set((state) => {
+    const features: Feature[] = state.document.features.map((f) => {
+      if (f.id !== featureId) return f;
+      const params = { ...f.parameters } as Record<string, Parameter>;
+      if (params[paramKey]) {
+        params[paramKey] = { ...params[paramKey], comment };
+      }
+      return { ...f, parameters: params } as Feature;
+    });
+
+    return withHistory(state, `Comment on ${getFeatureName(state, featureId)} ${paramKey}`, {
       document: { ...state.document, features },
       isModified: true,
+    });
+  }),
+
+  // History actions
+  undo: () => set((state) => {
+    const entry = state.undoStack[state.undoStack.length - 1];
+    if (!entry) return state;
+
+    return {
+      ...restoreSnapshot(state, entry.snapshot),
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: [...state.redoStack, { ...entry, snapshot: takeSnapshot(state) }],
+    };
+  }),
+
+  redo: () => set((state) => {
+    const entry = state.redoStack[state.redoStack.length - 1];
+    if (!entry) return state;
+
+    return {
+      ...restoreSnapshot(state, entry.snapshot),
+      // Never coalesce into an entry that was undone and redone
+      undoStack: [...state.undoStack, { ...entry, snapshot: takeSnapshot(state), coalesceKey: undefined }],
+      redoStack: state.redoStack.slice(0, -1),
+    };
+  }),
+
+  clearHistory: () => set({ undoStack: [], redoStack: [] }),
+
+  setHistoryLimit: (limit) => set((state) => {
+    const historyLimit = Math.max(1, Math.floor(limit));
+    return {
+      historyLimit,
+      undoStack: state.undoStack.slice(-historyLimit),
+      redoStack: state.redoStack.slice(-historyLimit),
     };
   }),
 
@@ -248,17 +509,12 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
 
   setRebuildError: (error) => set({ rebuildError: error }),
 
-  setCachedResult: (featureId, bodies) => set((state) => {
-    const features = state.document.features.map(f => {
-      if (f.id === featureId) {
-        return {
-          ...f,
-          _dirty: false,
-          _cachedResult: { bodies, timestamp: Date.now() },
-        };
-      }
-      return f;
-    });
+  markFeaturesBuilt: (built) => set((state) => {
+    // Features edited while the rebuild ran are new objects and stay dirty
+    const builtFeatures = new Set(built);
+    const features = state.document.features.map(f =>
+      f._dirty && builtFeatures.has(f) ? { ...f, _dirty: false } as Feature : f
+    );
     return { document: { ...state.document, features } };
   }),
 
@@ -274,7 +530,7 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
   }),
 
   // Body actions
-  updateBodies: (bodies) => set({ bodies }),
+  updateBodies: (bodies, sketchPlanes, construction) => set({ bodies, sketchPlanes, construction }),
 
   getBody: (bodyId) => get().bodies.get(bodyId),
 
@@ -291,8 +547,196 @@ export const useDocumentStore = create<DocumentState>((set, get) => ({
   },
 }));
 
+// ============ HISTORY HELPERS ============
+
+/**
+ * Feature without its cached rebuild result
+ */
+function stripRuntimeState(feature: Feature): Feature {
+  const copy = { ...feature };
+  delete copy._cachedResult;
+  return copy;
+}
+
+function takeSnapshot(state: DocumentState): DocumentSnapshot {
+  return {
+    features: state.document.features.map(stripRuntimeState),
+    globalParameters: state.document.globalParameters,
+    selectedFeatureId: state.selectedFeatureId,
+  };
+}
+
+/**
+ * Whether two features have the same content, ignoring rebuild state
+ */
+function isSameFeature(a: Feature, b: Feature): boolean {
+  const recordA = a as unknown as Record<string, unknown>;
+  const recordB = b as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(recordA), ...Object.keys(recordB)]);
+  keys.delete('_dirty');
+  keys.delete('_cachedResult');
+
+  for (const key of keys) {
+    if (recordA[key] !== recordB[key]) return false;
+  }
+  return true;
+}
+
+/**
+ * Record an undo step for an edit, given the state before it and the update
+ * that applies it. Clears the redo stack and enforces the depth limit.
+ */
+function withHistory(
+  state: DocumentState,
+  label: string,
+  update: Partial<DocumentState>,
+  coalesceKey?: string
+): Partial<DocumentState> {
+  const now = Date.now();
+  const last = state.undoStack[state.undoStack.length - 1];
+
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp < COALESCE_WINDOW_MS) {
+    return {
+      ...update,
+      undoStack: [...state.undoStack.slice(0, -1), { ...last, timestamp: now }],
+      redoStack: [],
+    };
+  }
+
+  const entry: HistoryEntry = { label, snapshot: takeSnapshot(state), coalesceKey, timestamp: now };
+  return {
+    ...update,
+    undoStack: [...state.undoStack, entry].slice(-state.historyLimit),
+    redoStack: [],
+  };
+}
+
+/**
+ * Apply a snapshot to the document. Features up to the first change keep
+ * their cached results; everything from there on is marked dirty.
+ */
+function restoreSnapshot(state: DocumentState, snapshot: DocumentSnapshot): Partial<DocumentState> {
+  const current = state.document.features;
+  let firstChanged = 0;
+  while (
+    firstChanged < snapshot.features.length &&
+    firstChanged < current.length &&
+    isSameFeature(current[firstChanged], snapshot.features[firstChanged])
+  ) {
+    firstChanged++;
+  }
+
+  const features = snapshot.features.map((f, i) => (
+    i < firstChanged ? current[i] : { ...f, _dirty: true } as Feature
+  ));
+
+  const selectedFeatureId = snapshot.selectedFeatureId && features.some(f => f.id === snapshot.selectedFeatureId)
+    ? snapshot.selectedFeatureId
+    : null;
+
+  return {
+    document: { ...state.document, features, globalParameters: snapshot.globalParameters },
+    selectedFeatureId,
+    isModified: true,
+  };
+}
+
+/**
+ * Display name of a feature for history labels
+ */
+function getFeatureName(state: DocumentState, id: string): string {
+  return state.document.features.find(f => f.id === id)?.name ?? 'feature';
+}
+
+// ============ PARAMETER EXPRESSIONS ============
+
+/**
+ * Set a number parameter from text: plain numbers clear the expression,
+ * anything else is stored as an expression and evaluated against the globals
+ */
+function applyNumberExpression(
+  param: NumberParameter,
+  text: string,
+  globals: Record<string, Parameter>
+): NumberParameter {
+  if (isPlainNumber(text)) {
+    return { ...param, value: parseFloat(text), expression: undefined };
+  }
+
+  const expression = text.trim();
+  let value = param.value;
+  try {
+    value = evaluateExpression(expression, resolveParameters(globals).values);
+  } catch {
+    // Keep the last value; the error is reported on the next rebuild
+  }
+
+  return { ...param, value, expression };
+}
+
+/**
+ * Store the evaluated value of every global parameter that resolves.
+ * Parameters with errors keep their last value.
+ */
+function refreshGlobalValues(globals: Record<string, Parameter>): Record<string, Parameter> {
+  const { values } = resolveParameters(globals);
+  const refreshed = { ...globals };
+
+  for (const [name, param] of Object.entries(globals)) {
+    if (param.type === 'number' && name in values && values[name] !== param.value) {
+      refreshed[name] = { ...param, value: values[name] };
+    }
+  }
+
+  return refreshed;
+}
+
+/**
+ * Rewrite references to a renamed global parameter in a number expression
+ */
+function renameParameterReferences(param: Parameter, oldName: string, newName: string): Parameter {
+  if (param.type !== 'number' || param.expression === undefined) return param;
+
+  const expression = renameReference(param.expression, oldName, newName);
+  return expression === param.expression ? param : { ...param, expression };
+}
+
+/**
+ * Re-evaluate feature expressions after the global parameters changed,
+ * marking every feature from the first affected one onward as dirty
+ */
+function reevaluateFeatureExpressions(
+  features: Feature[],
+  globals: Record<string, Parameter>
+): Feature[] {
+  const { features: resolved, errors } = resolveFeatureParameters(features, globals);
+  const firstAffected = resolved.findIndex((f, i) => f !== features[i] || errors.has(f.id));
+  if (firstAffected === -1) return features;
+
+  return resolved.map((f, i) => (i >= firstAffected ? { ...f, _dirty: true } as Feature : f));
+}
+
 // ============ FEATURE FACTORIES ============
 
+export const CONSTRUCTION_PLANE_METHOD_OPTIONS = [
+  { value: 'offset', label: 'Offset Plane' },
+  { value: 'angle', label: 'Plane at Angle' },
+  { value: 'midplane', label: 'Midplane' },
+  { value: 'threePoints', label: 'Plane Through Three Points' },
+];
+
+export const CONSTRUCTION_AXIS_METHOD_OPTIONS = [
+  { value: 'twoPoints', label: 'Axis Through Two Points' },
+  { value: 'edge', label: 'Axis Along Edge' },
+];
+
+export const EXTRUDE_EXTENT_OPTIONS = [
+  { value: 'distance', label: 'Distance' },
+  { value: 'twoSides', label: 'Two Sides' },
+  { value: 'throughAll', label: 'Through All' },
+  { value: 'toObject', label: 'To Object' },
+];
+
 export function createPrimitiveFeature(shape: 'box' | 'cylinder' | 'sphere'): PrimitiveFeature {
   const id = generateId();
   const name = generateFeatureName(shape);
@@ -378,6 +822,56 @@ export function createSketchFeature(plane: 'XY' | 'XZ' | 'YZ' = 'XY', offset: nu
   };
 }
 
+/**
+ * Sketch on a planar face of a body. The plane follows the face when the
+ * body is rebuilt; facePlane is where the face was when it was picked.
+ */
+export function createFaceSketchFeature(faceRef: GeometryRef, facePlane: SketchPlane, offset: number = 0): SketchFeature {
+  return {
+    id: generateId(),
+    type: 'sketch',
+    name: generateFeatureName('sketch'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      plane: createEnumParam('plane', 'Plane', 'face', [
+        { value: 'XY', label: 'XY Plane' },
+        { value: 'XZ', label: 'XZ Plane' },
+        { value: 'YZ', label: 'YZ Plane' },
+        { value: 'face', label: 'Face' },
+      ]),
+      planeOffset: createNumberParam('offset', 'Offset', offset, { unit: 'mm' }),
+    },
+    faceRef,
+    facePlane,
+  };
+}
+
+/**
+ * Sketch on a construction plane. The plane follows the construction feature;
+ * facePlane is where it was when the sketch was created.
+ */
+export function createPlaneSketchFeature(planeFeatureId: string, plane: SketchPlane, offset: number = 0): SketchFeature {
+  return {
+    id: generateId(),
+    type: 'sketch',
+    name: generateFeatureName('sketch'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      plane: createEnumParam('plane', 'Plane', 'plane', [
+        { value: 'XY', label: 'XY Plane' },
+        { value: 'XZ', label: 'XZ Plane' },
+        { value: 'YZ', label: 'YZ Plane' },
+        { value: 'plane', label: 'Construction Plane' },
+      ]),
+      planeOffset: createNumberParam('offset', 'Offset', offset, { unit: 'mm' }),
+    },
+    planeRef: { featureId: planeFeatureId, type: 'plane' },
+    facePlane: plane,
+  };
+}
+
 export function createExtrudeFeature(
   sketchId: string,
   distance: number = 50,
@@ -402,11 +896,37 @@ export function createExtrudeFeature(
         { value: 'join', label: 'Join' },
         { value: 'cut', label: 'Cut' },
       ]),
+      extent: createEnumParam('extent', 'Extent', 'distance', EXTRUDE_EXTENT_OPTIONS),
     },
     sketchRef: { featureId: sketchId, type: 'profile' },
   };
 }
 
+export function createRevolveFeature(
+  sketchId: string,
+  axisRef: RevolveAxisRef,
+  angle: number = 360,
+  mode: 'new' | 'join' | 'cut' = 'new'
+): RevolveFeature {
+  return {
+    id: generateId(),
+    type: 'revolve',
+    name: generateFeatureName('revolve'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      angle: createNumberParam('angle', 'Angle', angle, { min: 0.1, max: 360, unit: 'deg' }),
+      mode: createEnumParam('mode', 'Mode', mode, [
+        { value: 'new', label: 'New Body' },
+        { value: 'join', label: 'Join' },
+        { value: 'cut', label: 'Cut' },
+      ]),
+    },
+    sketchRef: { featureId: sketchId, type: 'sketch' },
+    axisRef,
+  };
+}
+
 export function createBooleanFeature(
   targetBodyFeatureId: string,
   toolBodyFeatureId: string,
@@ -429,3 +949,87 @@ export function createBooleanFeature(
     toolBodyRef: { featureId: toolBodyFeatureId, type: 'body' },
   };
 }
+
+export function createFilletFeature(edgeRefs: GeometryRef[], radius: number = 2): FilletFeature {
+  return {
+    id: generateId(),
+    type: 'fillet',
+    name: generateFeatureName('fillet'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      radius: createNumberParam('radius', 'Radius', radius, { min: 0.01, unit: 'mm' }),
+    },
+    edgeRefs,
+  };
+}
+
+export function createChamferFeature(edgeRefs: GeometryRef[], distance: number = 2): ChamferFeature {
+  return {
+    id: generateId(),
+    type: 'chamfer',
+    name: generateFeatureName('chamfer'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      distance: createNumberParam('distance', 'Distance', distance, { min: 0.01, unit: 'mm' }),
+    },
+    edgeRefs,
+  };
+}
+
+export function createConstructionPlaneFeature(
+  method: ConstructionPlaneMethod,
+  refs: { planeRefs?: PlaneRef[]; axisRef?: AxisRef; pointRefs?: PointRef[] },
+  offset: number = 10,
+  angle: number = 45
+): ConstructionPlaneFeature {
+  return {
+    id: generateId(),
+    type: 'plane',
+    name: generateFeatureName('plane'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      method: createEnumParam('method', 'Method', method, CONSTRUCTION_PLANE_METHOD_OPTIONS),
+      offset: createNumberParam('offset', 'Offset', offset, { unit: 'mm' }),
+      angle: createNumberParam('angle', 'Angle', angle, { min: -360, max: 360, unit: 'deg' }),
+    },
+    planeRefs: refs.planeRefs ?? [],
+    axisRef: refs.axisRef,
+    pointRefs: refs.pointRefs,
+  };
+}
+
+export function createConstructionAxisFeature(
+  method: ConstructionAxisMethod,
+  refs: { axisRef?: AxisRef; pointRefs?: PointRef[] }
+): ConstructionAxisFeature {
+  return {
+    id: generateId(),
+    type: 'axis',
+    name: generateFeatureName('axis'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      method: createEnumParam('method', 'Method', method, CONSTRUCTION_AXIS_METHOD_OPTIONS),
+    },
+    axisRef: refs.axisRef,
+    pointRefs: refs.pointRefs,
+  };
+}
+
+export function createConstructionPointFeature(x: number = 0, y: number = 0, z: number = 0): ConstructionPointFeature {
+  return {
+    id: generateId(),
+    type: 'point',
+    name: generateFeatureName('point'),
+    suppressed: false,
+    _dirty: true,
+    parameters: {
+      x: createNumberParam('x', 'X', x, { unit: 'mm' }),
+      y: createNumberParam('y', 'Y', y, { unit: 'mm' }),
+      z: createNumberParam('z', 'Z', z, { unit: 'mm' }),
+    },
+  };
+}
@@ -1,12 +1,38 @@
 import { create } from 'zustand';
 import * as THREE from 'three';
+import type { EdgeName, FaceName } from '../types/features';
 
 export type SelectionMode = 'face' | 'edge' | 'body';
 
 export interface SelectionInfo {
   objectId: string;
   faceIndex?: number;
+  // Topology name of the face the triangle belonged to when it was picked
+  face?: FaceName;
   edgeIndex?: number;
+  // Edge picked in edge selection mode
+  edge?: EdgeName;
+}
+
+function faceKey({ key }: FaceName): string {
+  return `${key.featureId}:${key.slot}:${key.faceId}`;
+}
+
+// Faces are the same when they have the same topology key
+export function isSameFace(a: FaceName, b: FaceName): boolean {
+  return faceKey(a) === faceKey(b);
+}
+
+// Edges are the same when they lie between the same two faces
+function edgeKey(edge: EdgeName | undefined): string {
+  return edge ? edge.faces.map(faceKey).sort().join('|') : '';
+}
+
+function isSameSelection(a: SelectionInfo, b: SelectionInfo): boolean {
+  return a.objectId === b.objectId &&
+    a.faceIndex === b.faceIndex &&
+    a.edgeIndex === b.edgeIndex &&
+    edgeKey(a.edge) === edgeKey(b.edge);
 }
 
 interface SceneState {
@@ -25,6 +51,8 @@ interface SceneState {
   removeSelection: (selection: SelectionInfo) => void;
   clearSelection: () => void;
   toggleSelection: (selection: SelectionInfo) => void;
+  // Drop selections that no longer point at existing geometry (e.g. after a rebuild)
+  pruneSelection: (isValid: (selection: SelectionInfo) => boolean) => void;
 
   // Object management
   addObject: (id: string, object: THREE.Object3D) => void;
@@ -47,22 +75,14 @@ export const useSceneStore = create<SceneState>((set, get) => ({
   })),
 
   removeSelection: (selection) => set((state) => ({
-    selectedItems: state.selectedItems.filter(
-      (s) => !(s.objectId === selection.objectId &&
-               s.faceIndex === selection.faceIndex &&
-               s.edgeIndex === selection.edgeIndex)
-    )
+    selectedItems: state.selectedItems.filter((s) => !isSameSelection(s, selection))
   })),
 
   clearSelection: () => set({ selectedItems: [] }),
 
   toggleSelection: (selection) => {
     const state = get();
-    const exists = state.selectedItems.some(
-      (s) => s.objectId === selection.objectId &&
-             s.faceIndex === selection.faceIndex &&
-             s.edgeIndex === selection.edgeIndex
-    );
+    const exists = state.selectedItems.some((s) => isSameSelection(s, selection));
     if (exists) {
       state.removeSelection(selection);
     } else {
@@ -70,6 +90,17 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     }
   },
 
+  pruneSelection: (isValid) => set((state) => {
+    const selectedItems = state.selectedItems.filter(isValid);
+    const hoveredSelection = state.hoveredSelection && isValid(state.hoveredSelection)
+      ? state.hoveredSelection
+      : null;
+    if (selectedItems.length === state.selectedItems.length && hoveredSelection === state.hoveredSelection) {
+      return state;
+    }
+    return { selectedItems, hoveredSelection };
+  }),
+
   addObject: (id, object) => set((state) => {
     const newObjects = new Map(state.objects);
     newObjects.set(id, object);
@@ -6,14 +6,27 @@ import { create } from 'zustand';
 import type {
   SketchData,
   SketchEntity,
+  Constraint,
+  DimensionConstraint,
+  DimensionPick,
   SketchTool,
   SketchToolState,
   SketchPlane,
   Point2D,
+  PolygonMode,
   SnapType,
 } from '../types/sketch';
 import { createSketchData } from '../types/sketch';
-import { SketchEngine } from '../engine/SketchEngine';
+import { SketchEngine, type SketchSnapshot } from '../engine/SketchEngine';
+import { measureDimension, type SolverReport, type DofAnalysis } from '../engine/ConstraintSolver';
+import {
+  ellipseAngle,
+  ellipseFromPoints,
+  polygonVertices,
+  slotOutline,
+  slotRadius,
+  threePointRectangleCorners,
+} from '../engine/SketchShapes';
 
 // ============ DISPLAY SETTINGS ============
 
@@ -39,6 +52,19 @@ const defaultDisplaySettings: SketchDisplaySettings = {
   snapEnabled: true,
 };
 
+// ============ HISTORY ============
+
+// Number of undo steps kept while sketching
+const SKETCH_HISTORY_LIMIT = 100;
+
+// Shown when a fillet or chamfer click finds no corner to work on
+const NO_CORNER_MESSAGE = 'No corner of two lines or arcs here';
+
+export interface SketchHistoryEntry {
+  label: string;
+  snapshot: SketchSnapshot;
+}
+
 // ============ STORE STATE ============
 
 interface SketchState {
@@ -63,6 +89,17 @@ interface SketchState {
   // Preview
   previewEntity: SketchEntity | null;
 
+  // Constraint solver
+  solverReport: SolverReport | null;
+  degreesOfFreedom: DofAnalysis | null;
+
+  // Dimension whose value label is being edited
+  editingDimensionId: string | null;
+
+  // Sketch-local undo/redo, discarded when sketch mode ends (most recent entry last)
+  undoStack: SketchHistoryEntry[];
+  redoStack: SketchHistoryEntry[];
+
   // Actions - Mode
   enterSketchMode: (featureId: string, plane: SketchPlane, existingData?: SketchData) => void;
   exitSketchMode: (save: boolean) => SketchData | null;
@@ -88,6 +125,15 @@ interface SketchState {
   deleteSelectedEntities: () => void;
   toggleConstruction: (id: string) => void;
 
+  // Actions - Constraints
+  addConstraint: (constraint: Omit<Constraint, 'id'>) => Constraint | null;
+  removeConstraint: (id: string) => void;
+
+  // Actions - Dimensions
+  dimensionClick: (point: Point2D, preferRadius: boolean) => void;
+  setDimensionValue: (id: string, value: number) => boolean;
+  setEditingDimension: (id: string | null) => void;
+
   // Actions - Trim
   trimAtPoint: (point: Point2D) => boolean;
 
@@ -96,12 +142,26 @@ interface SketchState {
   applyOffset: (referencePoint: Point2D) => boolean;
   setOffsetDistance: (distance: number) => void;
 
+  // Actions - Fillet and chamfer
+  filletAtPoint: (point: Point2D) => boolean;
+  chamferAtPoint: (point: Point2D) => boolean;
+  setFilletRadius: (radius: number) => void;
+  setChamferDistance: (distance: number) => void;
+
+  // Actions - Polygon
+  setPolygonSides: (sides: number) => void;
+  setPolygonMode: (mode: PolygonMode) => void;
+
   // Actions - Preview
   setPreviewEntity: (entity: SketchEntity | null) => void;
 
   // Actions - Profiles
   detectProfiles: () => void;
 
+  // Actions - History
+  undo: () => void;
+  redo: () => void;
+
   // Actions - Display Settings
   setDisplaySetting: <K extends keyof SketchDisplaySettings>(key: K, value: SketchDisplaySettings[K]) => void;
   toggleDisplaySetting: (key: keyof SketchDisplaySettings) => void;
@@ -119,8 +179,16 @@ const initialToolState: SketchToolState = {
   snapType: null,
   arcPoints: [],
   arcStep: 0,
+  splinePoints: [],
+  clickPoints: [],
+  polygonSides: 6,
+  polygonMode: 'inscribed',
   offsetEntityId: null,
   offsetDistance: 10, // Default offset distance
+  filletRadius: 5,
+  chamferDistance: 5,
+  cornerMessage: null,
+  dimensionPick: null,
 };
 
 // Helper: Calculate arc center from 3 points
@@ -181,6 +249,149 @@ function calculateArcFrom3Points(p1: Point2D, p2: Point2D, p3: Point2D): { cente
   return { center, radius, startAngle, endAngle };
 }
 
+// Clicks taken by the tools that place one point per click
+const CLICK_TOOL_POINTS: Partial<Record<SketchTool, number>> = {
+  ellipse: 3,             // center, axis end, point on ellipse
+  ellipticalArc: 4,       // center, axis end, start, end
+  slot: 3,                // first center, second center, point on side
+  threePointRectangle: 3, // two corners, point on opposite side
+};
+
+// Helper: Polyline preview (a degree 1 control spline) for composite shapes
+function createOutlinePreview(points: Point2D[]): SketchEntity {
+  return {
+    id: 'preview',
+    type: 'spline',
+    construction: false,
+    mode: 'control',
+    points,
+    degree: 1,
+  };
+}
+
+// Helper: Preview of a click-by-click tool, the last point being the cursor
+function createClickToolPreview(tool: SketchTool, points: Point2D[]): SketchEntity | null {
+  if (points.length === 2) {
+    return { id: 'preview', type: 'line', construction: false, start: { ...points[0] }, end: { ...points[1] } };
+  }
+
+  const [p1, p2, p3, p4] = points;
+  switch (tool) {
+    case 'ellipse':
+    case 'ellipticalArc': {
+      const ellipse = { center: { ...p1 }, ...ellipseFromPoints(p1, p2, p3) };
+      if (p4) {
+        return {
+          id: 'preview',
+          type: 'ellipticalArc',
+          construction: false,
+          ...ellipse,
+          startAngle: ellipseAngle(ellipse, p3),
+          endAngle: ellipseAngle(ellipse, p4),
+        };
+      }
+      return { id: 'preview', type: 'ellipse', construction: false, ...ellipse };
+    }
+    case 'slot':
+      return createOutlinePreview(slotOutline(p1, p2, slotRadius(p1, p2, p3)));
+    case 'threePointRectangle': {
+      const corners = threePointRectangleCorners(p1, p2, p3);
+      return createOutlinePreview([...corners, corners[0]]);
+    }
+    default:
+      return null;
+  }
+}
+
+// Helper: Create a click-by-click tool's shape; returns its history label,
+// or null when the points are too close together to make one
+function createClickToolShape(tool: SketchTool, points: Point2D[]): string | null {
+  const [p1, p2, p3, p4] = points;
+  switch (tool) {
+    case 'ellipse': {
+      const { majorRadius, minorRadius, rotation } = ellipseFromPoints(p1, p2, p3);
+      if (majorRadius <= 1 || minorRadius <= 1) return null;
+      SketchEngine.addEllipse(p1, majorRadius, minorRadius, rotation);
+      return 'Ellipse';
+    }
+    case 'ellipticalArc': {
+      const ellipse = { center: p1, ...ellipseFromPoints(p1, p2, p3) };
+      const startAngle = ellipseAngle(ellipse, p3);
+      const endAngle = ellipseAngle(ellipse, p4);
+      if (ellipse.majorRadius <= 1 || ellipse.minorRadius <= 1 || Math.abs(endAngle - startAngle) < 1e-6) return null;
+      SketchEngine.addEllipticalArc(p1, ellipse.majorRadius, ellipse.minorRadius, ellipse.rotation, startAngle, endAngle);
+      return 'Elliptical Arc';
+    }
+    case 'slot': {
+      const radius = slotRadius(p1, p2, p3);
+      if (Math.hypot(p2.x - p1.x, p2.y - p1.y) <= 1 || radius <= 1) return null;
+      SketchEngine.addSlot(p1, p2, radius);
+      return 'Slot';
+    }
+    case 'threePointRectangle': {
+      const corners = threePointRectangleCorners(p1, p2, p3);
+      const width = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+      const height = Math.hypot(corners[3].x - p1.x, corners[3].y - p1.y);
+      if (width <= 1 || height <= 1) return null;
+      SketchEngine.addThreePointRectangle(p1, p2, p3);
+      return 'Rectangle';
+    }
+    default:
+      return null;
+  }
+}
+
+// Helper: Undo stacks after an edit made from the given snapshot
+function pushHistory(
+  state: SketchState,
+  label: string,
+  snapshot: SketchSnapshot | null
+): Pick<SketchState, 'undoStack' | 'redoStack'> {
+  if (!snapshot) return { undoStack: state.undoStack, redoStack: state.redoStack };
+
+  return {
+    undoStack: [...state.undoStack, { label, snapshot }].slice(-SKETCH_HISTORY_LIMIT),
+    redoStack: [],
+  };
+}
+
+// Helper: Store state after the engine was restored from a snapshot.
+// Drops selection of removed entities and any drawing in progress.
+function getRestoredState(state: SketchState): Partial<SketchState> {
+  const updatedData = SketchEngine.getSketch();
+  const entityIds = new Set(updatedData?.entities.map(e => e.id) ?? []);
+
+  return {
+    sketchData: updatedData ? { ...updatedData } : state.sketchData,
+    ...getSolverState(),
+    selectedEntityIds: state.selectedEntityIds.filter(id => entityIds.has(id)),
+    hoveredEntityId: null,
+    previewEntity: null,
+    editingDimensionId: null,
+    toolState: {
+      ...state.toolState,
+      isDrawing: false,
+      startPoint: null,
+      previewPoints: [],
+      arcPoints: [],
+      arcStep: 0,
+      splinePoints: [],
+      clickPoints: [],
+      offsetEntityId: null,
+      cornerMessage: null,
+      dimensionPick: null,
+    },
+  };
+}
+
+// Helper: Current solver results from the engine
+function getSolverState(): Pick<SketchState, 'solverReport' | 'degreesOfFreedom'> {
+  return {
+    solverReport: SketchEngine.getSolverReport(),
+    degreesOfFreedom: SketchEngine.getDegreesOfFreedom(),
+  };
+}
+
 // ============ STORE IMPLEMENTATION ============
 
 export const useSketchStore = create<SketchState>((set, get) => ({
@@ -194,21 +405,31 @@ export const useSketchStore = create<SketchState>((set, get) => ({
   selectedEntityIds: [],
   hoveredEntityId: null,
   previewEntity: null,
+  solverReport: null,
+  degreesOfFreedom: null,
+  editingDimensionId: null,
+  undoStack: [],
+  redoStack: [],
 
   // Mode actions
   enterSketchMode: (featureId, plane, existingData) => {
     const data = existingData || createSketchData();
     SketchEngine.loadSketch(data, plane);
+    const loadedData = SketchEngine.getSketch();
 
     set({
       isSketchMode: true,
       sketchFeatureId: featureId,
-      sketchData: data,
+      sketchData: loadedData ? { ...loadedData } : data,
       plane,
       toolState: { ...initialToolState },
       selectedEntityIds: [],
       hoveredEntityId: null,
       previewEntity: null,
+      editingDimensionId: null,
+      undoStack: [],
+      redoStack: [],
+      ...getSolverState(),
     });
   },
 
@@ -229,6 +450,11 @@ export const useSketchStore = create<SketchState>((set, get) => ({
         selectedEntityIds: [],
         hoveredEntityId: null,
         previewEntity: null,
+        solverReport: null,
+        degreesOfFreedom: null,
+        editingDimensionId: null,
+        undoStack: [],
+        redoStack: [],
       });
 
       return finalData;
@@ -245,6 +471,11 @@ export const useSketchStore = create<SketchState>((set, get) => ({
       selectedEntityIds: [],
       hoveredEntityId: null,
       previewEntity: null,
+      solverReport: null,
+      degreesOfFreedom: null,
+      editingDimensionId: null,
+      undoStack: [],
+      redoStack: [],
     });
 
     return null;
@@ -261,7 +492,11 @@ export const useSketchStore = create<SketchState>((set, get) => ({
         previewPoints: [],
         arcPoints: [],
         arcStep: 0,
+        splinePoints: [],
+        clickPoints: [],
         offsetEntityId: null,
+        cornerMessage: null,
+        dimensionPick: null,
       },
       previewEntity: null,
     }));
@@ -277,6 +512,7 @@ export const useSketchStore = create<SketchState>((set, get) => ({
       const dx = point.x - start.x;
       const dy = point.y - start.y;
       if (Math.sqrt(dx * dx + dy * dy) > 1) {
+        const snapshot = SketchEngine.createSnapshot();
         SketchEngine.addLine(start, point);
 
         // Auto-detect profiles after adding a line
@@ -285,6 +521,8 @@ export const useSketchStore = create<SketchState>((set, get) => ({
 
         set({
           sketchData: dataWithProfiles ? { ...dataWithProfiles } : sketchData,
+          ...getSolverState(),
+          ...pushHistory(get(), 'Line', snapshot),
           toolState: {
             ...toolState,
             isDrawing: true,
@@ -304,12 +542,15 @@ export const useSketchStore = create<SketchState>((set, get) => ({
         // Third click - create the arc
         const arcData = calculateArcFrom3Points(newArcPoints[0], newArcPoints[1], newArcPoints[2]);
         if (arcData) {
+          const snapshot = SketchEngine.createSnapshot();
           SketchEngine.addArc(arcData.center, arcData.radius, arcData.startAngle, arcData.endAngle);
           SketchEngine.detectProfiles();
           const dataWithProfiles = SketchEngine.getSketch();
 
           set({
             sketchData: dataWithProfiles ? { ...dataWithProfiles } : sketchData,
+            ...getSolverState(),
+            ...pushHistory(get(), 'Arc', snapshot),
             toolState: {
               ...toolState,
               isDrawing: false,
@@ -344,6 +585,60 @@ export const useSketchStore = create<SketchState>((set, get) => ({
       return;
     }
 
+    // For click-by-click tools, the last click creates the shape
+    const clicks = CLICK_TOOL_POINTS[toolState.activeTool];
+    if (clicks) {
+      const points = [...toolState.clickPoints, point];
+      if (points.length < clicks) {
+        set({
+          toolState: {
+            ...toolState,
+            isDrawing: true,
+            clickPoints: points,
+          },
+        });
+        return;
+      }
+
+      const snapshot = SketchEngine.createSnapshot();
+      let label: string | null = null;
+      try {
+        label = createClickToolShape(toolState.activeTool, points);
+        SketchEngine.detectProfiles();
+      } catch (error) {
+        console.error('[SketchStore] Error creating entity:', error);
+      }
+
+      const updatedData = SketchEngine.getSketch();
+      set({
+        sketchData: updatedData ? { ...updatedData } : sketchData,
+        ...getSolverState(),
+        ...(label ? pushHistory(get(), label, snapshot) : {}),
+        toolState: {
+          ...toolState,
+          isDrawing: false,
+          clickPoints: [],
+        },
+        previewEntity: null,
+      });
+      return;
+    }
+
+    // For spline tools, each click adds a fit or control point until Escape or double-click
+    if (toolState.activeTool === 'spline' || toolState.activeTool === 'controlSpline') {
+      const last = toolState.splinePoints[toolState.splinePoints.length - 1];
+      if (last && Math.hypot(point.x - last.x, point.y - last.y) <= 1) return;
+
+      set({
+        toolState: {
+          ...toolState,
+          isDrawing: true,
+          splinePoints: [...toolState.splinePoints, point],
+        },
+      });
+      return;
+    }
+
     set({
       toolState: {
         ...toolState,
@@ -396,6 +691,37 @@ export const useSketchStore = create<SketchState>((set, get) => ({
       return;
     }
 
+    // For click-by-click tools, preview the shape with the cursor as the next point
+    if (CLICK_TOOL_POINTS[toolState.activeTool] && toolState.isDrawing) {
+      set({
+        toolState: {
+          ...toolState,
+          previewPoints: [point],
+        },
+        previewEntity: createClickToolPreview(toolState.activeTool, [...toolState.clickPoints, point]),
+      });
+      return;
+    }
+
+    // For spline tools, preview the curve through the placed points and the cursor
+    if ((toolState.activeTool === 'spline' || toolState.activeTool === 'controlSpline') && toolState.isDrawing) {
+      set({
+        toolState: {
+          ...toolState,
+          previewPoints: [point],
+        },
+        previewEntity: {
+          id: 'preview',
+          type: 'spline',
+          construction: false,
+          mode: toolState.activeTool === 'spline' ? 'fit' : 'control',
+          points: [...toolState.splinePoints, point],
+          degree: 3,
+        },
+      });
+      return;
+    }
+
     if (!toolState.isDrawing || !toolState.startPoint) return;
 
     // Create preview entity based on tool
@@ -436,6 +762,12 @@ export const useSketchStore = create<SketchState>((set, get) => ({
         };
         break;
       }
+
+      case 'polygon': {
+        const vertices = polygonVertices(start, point, toolState.polygonSides, toolState.polygonMode);
+        preview = createOutlinePreview([...vertices, vertices[0]]);
+        break;
+      }
     }
 
     set({
@@ -449,6 +781,16 @@ export const useSketchStore = create<SketchState>((set, get) => ({
 
   finishDrawing: (point) => {
     const { toolState, sketchData } = get();
+
+    // Spline and click-by-click tools place their points on mouse down
+    if (
+      toolState.activeTool === 'spline' ||
+      toolState.activeTool === 'controlSpline' ||
+      CLICK_TOOL_POINTS[toolState.activeTool]
+    ) {
+      return;
+    }
+
     if (!toolState.isDrawing || !toolState.startPoint || !sketchData) {
       set({
         toolState: { ...toolState, isDrawing: false, startPoint: null, previewPoints: [] },
@@ -467,13 +809,17 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     }
 
     // Create the actual entity for other tools
+    const snapshot = SketchEngine.createSnapshot();
+    let added: SketchEntity | null = null;
+    let label: string | null = null;
+
     try {
       switch (toolState.activeTool) {
         case 'rectangle': {
           const width = Math.abs(point.x - start.x);
           const height = Math.abs(point.y - start.y);
           if (width > 1 && height > 1) {
-            SketchEngine.addRectangle(start, point);
+            added = SketchEngine.addRectangle(start, point);
           }
           break;
         }
@@ -483,22 +829,35 @@ export const useSketchStore = create<SketchState>((set, get) => ({
           const dy = point.y - start.y;
           const radius = Math.sqrt(dx * dx + dy * dy);
           if (radius > 1) {
-            SketchEngine.addCircle(start, radius);
+            added = SketchEngine.addCircle(start, radius);
+          }
+          break;
+        }
+
+        case 'polygon': {
+          const dx = point.x - start.x;
+          const dy = point.y - start.y;
+          if (Math.sqrt(dx * dx + dy * dy) > 1) {
+            added = SketchEngine.addPolygon(start, point, toolState.polygonSides, toolState.polygonMode)[0];
+            label = 'Polygon';
           }
           break;
         }
 
         case 'point':
-          SketchEngine.addPoint(point);
+          added = SketchEngine.addPoint(point);
           break;
       }
 
       // Auto-detect profiles after adding an entity
       SketchEngine.detectProfiles();
       const updatedData = SketchEngine.getSketch();
+      label = label ?? (added ? added.type.charAt(0).toUpperCase() + added.type.slice(1) : '');
 
       set({
         sketchData: updatedData ? { ...updatedData } : sketchData,
+        ...getSolverState(),
+        ...(added ? pushHistory(get(), label, snapshot) : {}),
         toolState: {
           ...toolState,
           isDrawing: false,
@@ -544,6 +903,41 @@ export const useSketchStore = create<SketchState>((set, get) => ({
       return;
     }
 
+    // For spline tools, create the spline from the placed points and join its ends
+    if ((toolState.activeTool === 'spline' || toolState.activeTool === 'controlSpline') && toolState.isDrawing) {
+      const snapshot = SketchEngine.createSnapshot();
+      let added = false;
+
+      if (toolState.splinePoints.length >= 2) {
+        try {
+          const spline = SketchEngine.addSpline(
+            toolState.activeTool === 'spline' ? 'fit' : 'control',
+            toolState.splinePoints
+          );
+          SketchEngine.attachSplineEnds(spline.id);
+          SketchEngine.detectProfiles();
+          added = true;
+        } catch (error) {
+          console.error('[SketchStore] Error creating spline:', error);
+        }
+      }
+
+      const updatedData = SketchEngine.getSketch();
+      set({
+        sketchData: updatedData ? { ...updatedData } : sketchData,
+        ...getSolverState(),
+        ...(added ? pushHistory(get(), 'Spline', snapshot) : {}),
+        toolState: {
+          ...toolState,
+          isDrawing: false,
+          splinePoints: [],
+          previewPoints: [],
+        },
+        previewEntity: null,
+      });
+      return;
+    }
+
     // For arc tool, just reset the arc state
     if (toolState.activeTool === 'arc' && toolState.isDrawing) {
       set({
@@ -566,8 +960,12 @@ export const useSketchStore = create<SketchState>((set, get) => ({
         previewPoints: [],
         arcPoints: [],
         arcStep: 0,
+        splinePoints: [],
+        clickPoints: [],
+        dimensionPick: null,
       },
       previewEntity: null,
+      selectedEntityIds: state.toolState.dimensionPick ? [] : state.selectedEntityIds,
     }));
   },
 
@@ -623,11 +1021,14 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     const { sketchData } = get();
     if (!sketchData) return;
 
+    const snapshot = SketchEngine.createSnapshot();
     SketchEngine.updateEntity(id, updates);
     const updatedData = SketchEngine.getSketch();
 
     set({
       sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...getSolverState(),
+      ...pushHistory(get(), 'Edit', snapshot),
     });
   },
 
@@ -635,6 +1036,7 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     const { sketchData, selectedEntityIds } = get();
     if (!sketchData || selectedEntityIds.length === 0) return;
 
+    const snapshot = SketchEngine.createSnapshot();
     for (const id of selectedEntityIds) {
       SketchEngine.deleteEntity(id);
     }
@@ -644,17 +1046,201 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     set({
       sketchData: updatedData ? { ...updatedData } : sketchData,
       selectedEntityIds: [],
+      ...getSolverState(),
+      ...pushHistory(get(), 'Delete', snapshot),
     });
   },
 
   toggleConstruction: (id) => {
-    SketchEngine.toggleConstruction(id);
+    const { sketchData } = get();
+    if (!sketchData) return;
+
+    // Nothing to undo when the entity is gone
+    const snapshot = SketchEngine.createSnapshot();
+    if (!SketchEngine.toggleConstruction(id)) return;
     const updatedData = SketchEngine.getSketch();
+
+    set({
+      sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...pushHistory(get(), 'Toggle Construction', snapshot),
+    });
+  },
+
+  // Constraint actions
+  addConstraint: (constraint) => {
+    const { sketchData } = get();
+    if (!sketchData) return null;
+
+    const snapshot = SketchEngine.createSnapshot();
+    const newConstraint = SketchEngine.addConstraint(constraint);
+    SketchEngine.detectProfiles();
+    const updatedData = SketchEngine.getSketch();
+    const label = 'value' in newConstraint ? 'Dimension' : 'Constraint';
+
+    set({
+      sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...getSolverState(),
+      ...pushHistory(get(), label, snapshot),
+    });
+
+    return newConstraint;
+  },
+
+  removeConstraint: (id) => {
+    const { sketchData } = get();
+    if (!sketchData) return;
+
+    const snapshot = SketchEngine.createSnapshot();
+    SketchEngine.removeConstraint(id);
+    SketchEngine.detectProfiles();
+    const updatedData = SketchEngine.getSketch();
+
+    set({
+      sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...getSolverState(),
+      ...pushHistory(get(), 'Remove Constraint', snapshot),
+    });
+  },
+
+  // Dimension actions
+  dimensionClick: (point, preferRadius) => {
+    const { toolState, sketchData } = get();
+    if (!sketchData) return;
+
+    const pick = toolState.dimensionPick;
+    const hitPoint = SketchEngine.findNearestEntityPoint(point);
+    const hitEntity = hitPoint ? null : SketchEngine.findNearestEntity(point);
+
+    const setPick = (dimensionPick: DimensionPick | null) => {
+      set((state) => ({
+        toolState: { ...state.toolState, dimensionPick },
+        selectedEntityIds: dimensionPick ? [dimensionPick.entityId] : [],
+      }));
+    };
+
+    // Create a dimension at the currently measured value so nothing moves
+    const createDimension = (dimension: Omit<DimensionConstraint, 'id' | 'value'>) => {
+      const value = measureDimension({ ...dimension, id: '', value: 0 }, sketchData.entities);
+      setPick(null);
+      if (value === null) return;
+
+      const created = get().addConstraint({ ...dimension, value } as Omit<Constraint, 'id'>);
+      if (created) {
+        set({ editingDimensionId: created.id });
+      }
+    };
+
+    if (hitPoint) {
+      if (!pick) {
+        setPick({ entityId: hitPoint.entityId, pointIndex: hitPoint.pointIndex });
+      } else if (pick.pointIndex !== undefined) {
+        if (pick.entityId === hitPoint.entityId && pick.pointIndex === hitPoint.pointIndex) return;
+        // Point to point
+        createDimension({
+          type: 'distance',
+          entityId1: pick.entityId,
+          pointIndex1: pick.pointIndex,
+          entityId2: hitPoint.entityId,
+          pointIndex2: hitPoint.pointIndex,
+        });
+      } else {
+        // Line then point
+        createDimension({
+          type: 'distance',
+          entityId1: hitPoint.entityId,
+          pointIndex1: hitPoint.pointIndex,
+          entityId2: pick.entityId,
+        });
+      }
+      return;
+    }
+
+    if (!hitEntity) {
+      // Clicking empty space places a pending line's length dimension
+      if (pick && pick.pointIndex === undefined) {
+        createDimension({ type: 'distance', entityId1: pick.entityId });
+      } else {
+        setPick(null);
+      }
+      return;
+    }
+
+    const entity = hitEntity.entity;
+
+    switch (entity.type) {
+      case 'circle':
+      case 'arc': {
+        // Circles default to diameter, arcs to radius
+        const useRadius = entity.type === 'arc' ? !preferRadius : preferRadius;
+        createDimension({ type: useRadius ? 'radius' : 'diameter', entityId1: entity.id });
+        return;
+      }
+
+      case 'rectangle':
+        if (hitEntity.edge) {
+          createDimension({
+            type: 'distance',
+            entityId1: entity.id,
+            pointIndex1: hitEntity.edge[0],
+            entityId2: entity.id,
+            pointIndex2: hitEntity.edge[1],
+          });
+        }
+        return;
+
+      case 'line':
+        if (!pick) {
+          setPick({ entityId: entity.id });
+        } else if (pick.pointIndex !== undefined) {
+          // Point to line
+          createDimension({
+            type: 'distance',
+            entityId1: pick.entityId,
+            pointIndex1: pick.pointIndex,
+            entityId2: entity.id,
+          });
+        } else if (pick.entityId === entity.id) {
+          createDimension({ type: 'distance', entityId1: entity.id });
+        } else {
+          // Angle between lines, or offset distance when they are parallel
+          const angle = measureDimension(
+            { id: '', type: 'angle', entityId1: pick.entityId, entityId2: entity.id, value: 0 },
+            sketchData.entities
+          );
+          const parallel = angle === null || angle < 0.5 || angle > 179.5;
+          createDimension({
+            type: parallel ? 'distance' : 'angle',
+            entityId1: pick.entityId,
+            entityId2: entity.id,
+          });
+        }
+        return;
+
+      default:
+        setPick(null);
+    }
+  },
+
+  setDimensionValue: (id, value) => {
     const { sketchData } = get();
+    if (!sketchData) return false;
+
+    const snapshot = SketchEngine.createSnapshot();
+    const success = SketchEngine.setDimensionValue(id, value);
+    SketchEngine.detectProfiles();
+    const updatedData = SketchEngine.getSketch();
 
     set({
       sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...getSolverState(),
+      ...(success ? pushHistory(get(), 'Edit Dimension', snapshot) : {}),
     });
+
+    return success;
+  },
+
+  setEditingDimension: (id) => {
+    set({ editingDimensionId: id });
   },
 
   // Trim action
@@ -662,6 +1248,7 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     const nearest = SketchEngine.findNearestLineEntity(point);
     if (!nearest) return false;
 
+    const snapshot = SketchEngine.createSnapshot();
     const success = SketchEngine.trimLineAt(nearest.entity.id, point);
     if (success) {
       SketchEngine.detectProfiles();
@@ -670,6 +1257,8 @@ export const useSketchStore = create<SketchState>((set, get) => ({
 
       set({
         sketchData: updatedData ? { ...updatedData } : sketchData,
+        ...getSolverState(),
+        ...pushHistory(get(), 'Trim', snapshot),
       });
     }
     return success;
@@ -696,6 +1285,7 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     const entity = sketchData?.entities.find(e => e.id === toolState.offsetEntityId);
     if (!entity) return false;
 
+    const snapshot = SketchEngine.createSnapshot();
     let success = false;
 
     if (entity.type === 'line') {
@@ -712,6 +1302,8 @@ export const useSketchStore = create<SketchState>((set, get) => ({
 
       set({
         sketchData: updatedData ? { ...updatedData } : sketchData,
+        ...getSolverState(),
+        ...pushHistory(get(), 'Offset', snapshot),
         toolState: {
           ...toolState,
           offsetEntityId: null, // Reset after successful offset
@@ -730,6 +1322,96 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     }));
   },
 
+  // Fillet and chamfer actions; a click that changes nothing says why
+  filletAtPoint: (point) => {
+    const { filletRadius } = get().toolState;
+    const snapshot = SketchEngine.createSnapshot();
+    const arc = SketchEngine.filletCorner(point, filletRadius);
+    if (!arc) {
+      const cornerMessage = SketchEngine.findNearestCorner(point)
+        ? `A radius of ${filletRadius} does not fit this corner`
+        : NO_CORNER_MESSAGE;
+      set((state) => ({ toolState: { ...state.toolState, cornerMessage } }));
+      return false;
+    }
+
+    SketchEngine.detectProfiles();
+    const updatedData = SketchEngine.getSketch();
+    const { sketchData, toolState } = get();
+
+    set({
+      sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...getSolverState(),
+      ...pushHistory(get(), 'Fillet', snapshot),
+      toolState: { ...toolState, cornerMessage: null },
+    });
+    return true;
+  },
+
+  chamferAtPoint: (point) => {
+    const { chamferDistance } = get().toolState;
+    const snapshot = SketchEngine.createSnapshot();
+    const line = SketchEngine.chamferCorner(point, chamferDistance);
+    if (!line) {
+      const cornerMessage = SketchEngine.findNearestCorner(point)
+        ? `A distance of ${chamferDistance} does not fit this corner`
+        : NO_CORNER_MESSAGE;
+      set((state) => ({ toolState: { ...state.toolState, cornerMessage } }));
+      return false;
+    }
+
+    SketchEngine.detectProfiles();
+    const updatedData = SketchEngine.getSketch();
+    const { sketchData, toolState } = get();
+
+    set({
+      sketchData: updatedData ? { ...updatedData } : sketchData,
+      ...getSolverState(),
+      ...pushHistory(get(), 'Chamfer', snapshot),
+      toolState: { ...toolState, cornerMessage: null },
+    });
+    return true;
+  },
+
+  setFilletRadius: (radius) => {
+    set((state) => ({
+      toolState: {
+        ...state.toolState,
+        filletRadius: radius,
+        cornerMessage: null,
+      },
+    }));
+  },
+
+  setChamferDistance: (distance) => {
+    set((state) => ({
+      toolState: {
+        ...state.toolState,
+        chamferDistance: distance,
+        cornerMessage: null,
+      },
+    }));
+  },
+
+  // Polygon actions
+  setPolygonSides: (sides) => {
+    set((state) => ({
+      toolState: {
+        ...state.toolState,
+        polygonSides: Math.max(3, Math.min(64, Math.round(sides))),
+      },
+    }));
+  },
+
+  setPolygonMode: (mode) => {
+    set((state) => ({
+      toolState: {
+        ...state.toolState,
+        polygonMode: mode,
+      },
+    }));
+  },
+
   // Preview actions
   setPreviewEntity: (entity) => {
     set({ previewEntity: entity });
@@ -746,6 +1428,39 @@ export const useSketchStore = create<SketchState>((set, get) => ({
     });
   },
 
+  // History actions
+  undo: () => {
+    const { undoStack, redoStack } = get();
+    const entry = undoStack[undoStack.length - 1];
+    const current = SketchEngine.createSnapshot();
+    if (!entry || !current) return;
+
+    SketchEngine.restoreSnapshot(entry.snapshot);
+    SketchEngine.detectProfiles();
+
+    set({
+      ...getRestoredState(get()),
+      undoStack: undoStack.slice(0, -1),
+      redoStack: [...redoStack, { label: entry.label, snapshot: current }],
+    });
+  },
+
+  redo: () => {
+    const { undoStack, redoStack } = get();
+    const entry = redoStack[redoStack.length - 1];
+    const current = SketchEngine.createSnapshot();
+    if (!entry || !current) return;
+
+    SketchEngine.restoreSnapshot(entry.snapshot);
+    SketchEngine.detectProfiles();
+
+    set({
+      ...getRestoredState(get()),
+      undoStack: [...undoStack, { label: entry.label, snapshot: current }],
+      redoStack: redoStack.slice(0, -1),
+    });
+  },
+
   // Display settings actions
   setDisplaySetting: (key, value) => {
     set((state) => ({
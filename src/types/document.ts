@@ -2,7 +2,18 @@
  * Document model and serialization types
  */
 
-import type { Feature, Parameter } from './features';
+import type {
+  AxisRef,
+  ExtentRef,
+  Feature,
+  GeometryRef,
+  Parameter,
+  PlaneRef,
+  PointRef,
+  RevolveAxisRef,
+  TargetScope,
+} from './features';
+import type { ProfileRef, SketchPlane } from './sketch';
 
 // ============ DOCUMENT ============
 
@@ -13,9 +24,39 @@ export interface Document {
   createdAt: string;
   modifiedAt: string;
   features: Feature[];
+  // User parameters keyed by name, referenced by name from parameter expressions
   globalParameters: Record<string, Parameter>;
+  settings: DocumentSettings;
 }
 
+// How finely curved sketch geometry is tessellated
+export type TessellationQuality = 'draft' | 'normal' | 'fine';
+
+export interface DocumentSettings {
+  // Bodies shown in the viewport
+  previewQuality: TessellationQuality;
+  // Bodies written to STL and 3MF files
+  exportQuality: TessellationQuality;
+}
+
+// Largest distance (mm) between a curve and its tessellation, by quality
+export const CHORD_TOLERANCES: Record<TessellationQuality, number> = {
+  draft: 0.1,
+  normal: 0.02,
+  fine: 0.005,
+};
+
+export const TESSELLATION_QUALITY_OPTIONS: Array<{ value: TessellationQuality; label: string }> = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fine', label: 'Fine' },
+];
+
+export const DEFAULT_DOCUMENT_SETTINGS: DocumentSettings = {
+  previewQuality: 'normal',
+  exportQuality: 'fine',
+};
+
 // ============ SERIALIZATION TYPES ============
 
 // Serializable version of Feature (without Manifold objects)
@@ -27,10 +68,23 @@ export interface SerializedFeature {
   parameters: Record<string, SerializedParameter>;
   // Type-specific refs
   sketchRef?: { featureId: string; type: string; index?: number };
+  profileRefs?: ProfileRef[];
+  axisRef?: RevolveAxisRef | AxisRef;
+  extentRef?: ExtentRef;
   targetBodyRef?: { featureId: string; type: string; index?: number };
+  targetBodyRefs?: { featureId: string; type: string; index?: number }[];
+  targetScope?: TargetScope;
   toolBodyRef?: { featureId: string; type: string; index?: number };
+  // Fillet and chamfer edges
+  edgeRefs?: GeometryRef[];
+  // Construction feature refs
+  planeRefs?: PlaneRef[];
+  pointRefs?: PointRef[];
   // Sketch data
   sketchData?: SerializedSketchData;
+  faceRef?: GeometryRef;
+  planeRef?: GeometryRef;
+  facePlane?: SketchPlane;
 }
 
 export interface SerializedParameter {
@@ -42,6 +96,8 @@ export interface SerializedParameter {
   max?: number;
   step?: number;
   unit?: string;
+  expression?: string;
+  comment?: string;
   options?: { value: string; label: string }[];
 }
 
@@ -52,7 +108,7 @@ export interface SerializedSketchData {
 
 export interface SerializedSketchEntity {
   id: string;
-  type: 'line' | 'rectangle' | 'circle' | 'arc' | 'point';
+  type: 'line' | 'rectangle' | 'circle' | 'arc' | 'ellipse' | 'ellipticalArc' | 'point' | 'spline';
   data: Record<string, unknown>;
 }
 
@@ -60,6 +116,7 @@ export interface SerializedConstraint {
   id: string;
   type: string;
   entityRefs: string[];
+  pointIndices?: (number | null)[];
   value?: number;
 }
 
@@ -71,6 +128,8 @@ export interface SerializedDocument {
   modifiedAt: string;
   features: SerializedFeature[];
   globalParameters: Record<string, SerializedParameter>;
+  // Missing in documents saved before settings existed
+  settings?: DocumentSettings;
 }
 
 // ============ DOCUMENT VERSION ============
@@ -3,6 +3,7 @@
  */
 
 import type { Manifold } from 'manifold-3d';
+import type { TessellatedMesh } from '../engine/ManifoldEngine';
 
 // ============ PARAMETERS ============
 
@@ -12,6 +13,7 @@ export interface BaseParameter {
   id: string;
   name: string;
   type: ParameterType;
+  comment?: string;
 }
 
 export interface NumberParameter extends BaseParameter {
@@ -21,6 +23,8 @@ export interface NumberParameter extends BaseParameter {
   max?: number;
   step?: number;
   unit?: string;
+  // Source expression (e.g. "width / 2 + 5 mm"); value holds its last evaluated result
+  expression?: string;
 }
 
 export interface StringParameter extends BaseParameter {
@@ -45,10 +49,70 @@ export type Parameter = NumberParameter | StringParameter | BooleanParameter | E
 
 export interface GeometryRef {
   featureId: string;
-  type: 'body' | 'face' | 'edge' | 'vertex' | 'profile' | 'sketch';
+  type: 'body' | 'face' | 'edge' | 'vertex' | 'profile' | 'sketch' | 'plane' | 'axis' | 'point';
+  // Body refs: position among the feature's bodies
   index?: number;
+  // Face and edge refs: persistent names (see TopologyNaming)
+  face?: FaceName;
+  edge?: EdgeName;
 }
 
+// Face as created: the feature whose solid first produced it, that solid's
+// output slot, and manifold's face ID within the solid
+export interface FaceKey {
+  featureId: string;
+  slot: number;
+  faceId: number;
+}
+
+// Where a face was when it was referenced
+export interface FaceSignature {
+  normal: [number, number, number];
+  centroid: [number, number, number];
+  area: number;
+}
+
+export interface FaceName {
+  key: FaceKey;
+  signature: FaceSignature;
+}
+
+// Edge between two faces; the midpoint picks among several after a split
+export interface EdgeName {
+  faces: [FaceName, FaceName];
+  midpoint: [number, number, number];
+}
+
+// ============ CONSTRUCTION GEOMETRY ============
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// World-space result of a construction feature
+export type ConstructionGeometry =
+  | { type: 'plane'; plane: import('./sketch').SketchPlane }
+  | { type: 'axis'; origin: Point3D; direction: Point3D }
+  | { type: 'point'; position: Point3D };
+
+// Plane a construction feature is built on
+export type PlaneRef =
+  | { type: 'origin'; plane: 'XY' | 'XZ' | 'YZ' }
+  | { type: 'face'; featureId: string; face: FaceName }
+  | { type: 'plane'; featureId: string };
+
+// Straight line a construction feature is built on
+export type AxisRef =
+  | { type: 'origin'; axis: 'X' | 'Y' | 'Z' }
+  | { type: 'axis'; featureId: string }
+  | { type: 'edge'; featureId: string; edge: EdgeName };
+
+export type PointRef =
+  | { type: 'origin' }
+  | { type: 'point'; featureId: string };
+
 // ============ CACHED RESULTS ============
 
 export interface CachedBody {
@@ -59,16 +123,36 @@ export interface CachedBody {
 
 export interface CachedResult {
   bodies: CachedBody[];
+  // Face sketches: the plane as resolved on the face
+  sketchPlane?: import('./sketch').SketchPlane;
+  // Construction features: their plane, axis or point
+  construction?: ConstructionGeometry;
   timestamp: number;
 }
 
+// Tessellated body as delivered to the UI thread by the rebuild worker
+export interface BodyMesh {
+  bodyId: string;
+  originFeatureId: string;
+  mesh: TessellatedMesh;
+  // Persistent names of the body's faces, and the face of each mesh triangle
+  faces: FaceName[];
+  triangleFaces: Uint32Array;
+}
+
 // ============ FEATURE TYPES ============
 
-export type FeatureType = 'primitive' | 'sketch' | 'extrude' | 'boolean';
+export type FeatureType =
+  | 'primitive' | 'sketch' | 'extrude' | 'revolve' | 'boolean' | 'fillet' | 'chamfer' | 'plane' | 'axis' | 'point';
 
 export type PrimitiveShape = 'box' | 'cylinder' | 'sphere';
 export type BooleanOperation = 'union' | 'difference' | 'intersect';
 export type ExtrudeMode = 'new' | 'join' | 'cut';
+export type ExtrudeExtent = 'distance' | 'twoSides' | 'throughAll' | 'toObject';
+// Bodies a join, cut or boolean applies to: the referenced ones, or every body the tool overlaps
+export type TargetScope = 'selected' | 'intersecting';
+export type ConstructionPlaneMethod = 'offset' | 'angle' | 'midplane' | 'threePoints';
+export type ConstructionAxisMethod = 'twoPoints' | 'edge';
 
 // ============ FEATURE DEFINITIONS ============
 
@@ -109,16 +193,69 @@ export interface SketchFeature extends BaseFeature {
     planeOffset: NumberParameter;
   };
   sketchData?: import('./sketch').SketchData;
+  // Face the sketch lies on when its plane is 'face'
+  faceRef?: GeometryRef;
+  // Construction plane the sketch lies on when its plane is 'plane'
+  planeRef?: GeometryRef;
+  // Plane of the face or construction plane when it was picked; keeps the
+  // sketch axes in place as the face moves
+  facePlane?: import('./sketch').SketchPlane;
 }
 
+// Object a 'toObject' extrude ends at
+export type ExtentRef =
+  // Through the whole body
+  | { type: 'body'; featureId: string }
+  // Up to the plane of a face, picked on a body of the feature
+  | { type: 'face'; featureId: string; face: FaceName };
+
 export interface ExtrudeFeature extends BaseFeature {
   type: 'extrude';
   parameters: {
     distance: NumberParameter;
     direction: EnumParameter;
     mode: EnumParameter;
+    // ExtrudeExtent; 'distance' when omitted
+    extent?: EnumParameter;
+    // Second side of a two-sided extrude, against the sketch normal
+    distance2?: NumberParameter;
+    // Draft in degrees for distance extents; positive narrows the profile
+    taperAngle?: NumberParameter;
   };
   sketchRef: GeometryRef;
+  // Profiles to extrude; every material region of the sketch when omitted
+  profileRefs?: import('./sketch').ProfileRef[];
+  extentRef?: ExtentRef;
+  // Join/cut targets; a ref without an index means every body of its feature
+  targetBodyRefs?: GeometryRef[];
+  targetScope?: TargetScope;
+  // Single target of documents saved before targetBodyRefs
+  targetBodyRef?: GeometryRef;
+}
+
+// Axis a revolve turns around
+export type RevolveAxisRef =
+  // Origin axis; must lie in the sketch plane
+  | { type: 'origin'; axis: 'X' | 'Y' | 'Z' }
+  // Line entity of the sketch, construction or not
+  | { type: 'line'; entityId: string }
+  // Construction axis; must lie in the sketch plane
+  | { type: 'axis'; featureId: string };
+
+export interface RevolveFeature extends BaseFeature {
+  type: 'revolve';
+  parameters: {
+    angle: NumberParameter;
+    mode: EnumParameter;
+  };
+  sketchRef: GeometryRef;
+  // Profiles to revolve; every material region of the sketch when omitted
+  profileRefs?: import('./sketch').ProfileRef[];
+  axisRef: RevolveAxisRef;
+  // Join/cut targets; a ref without an index means every body of its feature
+  targetBodyRefs?: GeometryRef[];
+  targetScope?: TargetScope;
+  // Single target of documents saved before targetBodyRefs
   targetBodyRef?: GeometryRef;
 }
 
@@ -127,11 +264,82 @@ export interface BooleanFeature extends BaseFeature {
   parameters: {
     operation: EnumParameter;
   };
+  // First target; targetBodyRefs lists all of them when there are several
   targetBodyRef: GeometryRef;
+  targetBodyRefs?: GeometryRef[];
+  targetScope?: TargetScope;
   toolBodyRef: GeometryRef;
 }
 
-export type Feature = PrimitiveFeature | SketchFeature | ExtrudeFeature | BooleanFeature;
+export interface FilletFeature extends BaseFeature {
+  type: 'fillet';
+  parameters: {
+    radius: NumberParameter;
+  };
+  // Edges to round, each picked on a body of the referenced feature
+  edgeRefs: GeometryRef[];
+}
+
+export interface ChamferFeature extends BaseFeature {
+  type: 'chamfer';
+  parameters: {
+    // Setback along both faces
+    distance: NumberParameter;
+  };
+  // Edges to bevel, each picked on a body of the referenced feature
+  edgeRefs: GeometryRef[];
+}
+
+export interface ConstructionPlaneFeature extends BaseFeature {
+  type: 'plane';
+  parameters: {
+    // ConstructionPlaneMethod
+    method: EnumParameter;
+    // Offset plane: distance along the reference plane's normal
+    offset: NumberParameter;
+    // Plane at angle: rotation about the axis in degrees
+    angle: NumberParameter;
+  };
+  // Offset and angle planes use the first; a midplane lies halfway between two
+  planeRefs: PlaneRef[];
+  // Plane at angle: axis in the reference plane to turn about
+  axisRef?: AxisRef;
+  // Plane through three points
+  pointRefs?: PointRef[];
+}
+
+export interface ConstructionAxisFeature extends BaseFeature {
+  type: 'axis';
+  parameters: {
+    // ConstructionAxisMethod
+    method: EnumParameter;
+  };
+  // Axis through two points
+  pointRefs?: PointRef[];
+  // Axis along an edge
+  axisRef?: AxisRef;
+}
+
+export interface ConstructionPointFeature extends BaseFeature {
+  type: 'point';
+  parameters: {
+    x: NumberParameter;
+    y: NumberParameter;
+    z: NumberParameter;
+  };
+}
+
+export type ConstructionFeature = ConstructionPlaneFeature | ConstructionAxisFeature | ConstructionPointFeature;
+
+export type Feature =
+  | PrimitiveFeature
+  | SketchFeature
+  | ExtrudeFeature
+  | RevolveFeature
+  | BooleanFeature
+  | FilletFeature
+  | ChamferFeature
+  | ConstructionFeature;
 
 // ============ FEATURE FACTORY HELPERS ============
 
@@ -177,3 +385,29 @@ export function createBooleanParam(
     value,
   };
 }
+
+/**
+ * Apply the values of freshly built parameters to a feature's existing ones,
+ * so edits keep each parameter's comment and settings. A number keeps its
+ * expression while its value is still the expression's evaluated result.
+ */
+export function mergeParameterValues<T extends object>(parameters: T, existing: object | undefined): T {
+  if (!existing) return parameters;
+
+  const previous = existing as Record<string, Parameter | undefined>;
+  const merged = { ...parameters } as Record<string, Parameter | undefined>;
+
+  for (const [key, param] of Object.entries(merged)) {
+    const old = previous[key];
+    if (!param || !old || old.type !== param.type) continue;
+
+    if (old.type === 'number') {
+      const value = param.value as number;
+      merged[key] = { ...old, value, expression: value === old.value ? old.expression : undefined };
+    } else {
+      merged[key] = { ...old, value: param.value } as Parameter;
+    }
+  }
+
+  return merged as T;
+}
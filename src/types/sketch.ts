@@ -16,7 +16,7 @@ export interface Vector2D {
 
 // ============ SKETCH ENTITIES ============
 
-export type SketchEntityType = 'point' | 'line' | 'rectangle' | 'circle' | 'arc';
+export type SketchEntityType = 'point' | 'line' | 'rectangle' | 'circle' | 'arc' | 'ellipse' | 'ellipticalArc' | 'spline';
 
 export interface BaseSketchEntity {
   id: string;
@@ -55,7 +55,45 @@ export interface ArcEntity extends BaseSketchEntity {
   endAngle: number;   // radians
 }
 
-export type SketchEntity = PointEntity | LineEntity | RectangleEntity | CircleEntity | ArcEntity;
+export interface EllipseEntity extends BaseSketchEntity {
+  type: 'ellipse';
+  center: Point2D;
+  majorRadius: number;
+  minorRadius: number;
+  rotation: number; // radians, direction of the major axis
+}
+
+export interface EllipticalArcEntity extends BaseSketchEntity {
+  type: 'ellipticalArc';
+  center: Point2D;
+  majorRadius: number;
+  minorRadius: number;
+  rotation: number;   // radians, direction of the major axis
+  startAngle: number; // radians, parametric angle from the major axis (CCW)
+  endAngle: number;   // radians, parametric angle from the major axis (CCW)
+}
+
+// 'fit': the curve passes through every point (cubic, or lower with few points)
+// 'control': the points are the control polygon of a NURBS curve of the given degree
+export type SplineMode = 'fit' | 'control';
+
+export interface SplineEntity extends BaseSketchEntity {
+  type: 'spline';
+  mode: SplineMode;
+  points: Point2D[];
+  degree: number;     // Control splines only; fit splines are cubic
+  weights?: number[]; // Control splines only, one per point (default 1)
+}
+
+export type SketchEntity =
+  | PointEntity
+  | LineEntity
+  | RectangleEntity
+  | CircleEntity
+  | ArcEntity
+  | EllipseEntity
+  | EllipticalArcEntity
+  | SplineEntity;
 
 // ============ CONSTRAINTS ============
 
@@ -70,7 +108,9 @@ export type ConstraintType =
   | 'concentric'
   | 'fixed'
   | 'distance'
-  | 'angle';
+  | 'angle'
+  | 'radius'
+  | 'diameter';
 
 // Position hints for constraint display
 export interface ConstraintDisplayInfo {
@@ -98,8 +138,9 @@ export interface BinaryConstraint extends BaseConstraint {
   pointIndex2?: number;
 }
 
+// Driving dimensions: distance and radius/diameter values are in sketch units, angle in degrees
 export interface DimensionConstraint extends BaseConstraint {
-  type: 'distance' | 'angle';
+  type: 'distance' | 'angle' | 'radius' | 'diameter';
   entityId1: string;
   entityId2?: string;
   pointIndex1?: number;
@@ -107,14 +148,51 @@ export interface DimensionConstraint extends BaseConstraint {
   value: number;
 }
 
+/**
+ * A geometric constraint or driving dimension.
+ *
+ * Point indices address specific points on an entity:
+ * - point: 0 = position
+ * - line: 0 = start, 1 = end
+ * - rectangle: 0 = corner1, 1 = (corner2.x, corner1.y), 2 = corner2, 3 = (corner1.x, corner2.y)
+ * - circle: 0 = center
+ * - arc: 0 = start, 1 = end, 2 = center
+ * - ellipse: 0 = center
+ * - ellipticalArc: 0 = start, 1 = end, 2 = center
+ * - spline: i = i-th fit or control point (the first and last are the curve's ends)
+ * An omitted index refers to the entity as a whole (e.g. point-on-curve).
+ * On a tangent constraint, an arc or spline end index says the two meet there.
+ */
 export type Constraint = UnaryConstraint | BinaryConstraint | DimensionConstraint;
 
 // ============ PROFILES ============
 
+// Rational B-spline with a clamped knot vector running from 0 to 1
+export interface SplineCurve {
+  degree: number;
+  controlPoints: Point2D[];
+  weights: number[];
+  knots: number[];
+}
+
+// Piece of a profile boundary, kept exact so it can be resampled at any
+// tolerance. Arcs run from startAngle through sweep radians (negative = CW),
+// splines from parameter `from` to `to` (to < from runs backwards).
+export type ProfileCurve =
+  | { type: 'line'; start: Point2D; end: Point2D }
+  | { type: 'arc'; center: Point2D; radius: number; startAngle: number; sweep: number }
+  | { type: 'spline'; spline: SplineCurve; from: number; to: number };
+
 export interface Profile {
   id: string;
   outerLoop: Point2D[];     // CCW winding for positive area
   innerLoops: Point2D[][];  // CW winding for holes
+  // The same loops as lines and arcs: outer loop first, then holes
+  curves: ProfileCurve[][];
+  entityIds: string[];      // Entities forming the outer loop
+  // Loops enclosing this one: even for material regions, odd for the holes
+  // inside them (a hole is still its own region, e.g. the disk of a bore)
+  depth: number;
   area: number;
   boundingBox: {
     min: Point2D;
@@ -122,6 +200,15 @@ export interface Profile {
   };
 }
 
+// Persistent reference to a profile. Profile IDs change every time profiles
+// are re-detected, so a reference records what identifies the region instead
+export interface ProfileRef {
+  // Entities forming the profile's outer loop
+  entityIds: string[];
+  // A point inside the region (outside its holes), in sketch coordinates
+  point: Point2D;
+}
+
 // ============ SKETCH DATA ============
 
 export interface SketchData {
@@ -157,7 +244,28 @@ export interface SnapResult {
 
 // ============ SKETCH TOOL STATE ============
 
-export type SketchTool = 'select' | 'line' | 'rectangle' | 'circle' | 'arc' | 'point' | 'trim' | 'offset' | 'dimension';
+export type SketchTool =
+  | 'select'
+  | 'line'
+  | 'rectangle'
+  | 'threePointRectangle'
+  | 'circle'
+  | 'arc'
+  | 'ellipse'
+  | 'ellipticalArc'
+  | 'polygon'
+  | 'slot'
+  | 'spline'
+  | 'controlSpline'
+  | 'point'
+  | 'trim'
+  | 'offset'
+  | 'fillet'
+  | 'chamfer'
+  | 'dimension';
+
+// Whether the polygon's vertices lie on its circle or its sides touch it
+export type PolygonMode = 'inscribed' | 'circumscribed';
 
 export interface SketchToolState {
   activeTool: SketchTool;
@@ -170,9 +278,27 @@ export interface SketchToolState {
   // For multi-point tools like arc (3-point arc: start, end, midpoint)
   arcPoints: Point2D[];
   arcStep: number; // 0: waiting for start, 1: waiting for end, 2: waiting for midpoint
+  // For spline tools (fit or control points clicked so far)
+  splinePoints: Point2D[];
+  // For click-by-click tools (ellipse, elliptical arc, slot, 3-point rectangle)
+  clickPoints: Point2D[];
+  // For polygon tool
+  polygonSides: number;
+  polygonMode: PolygonMode;
   // For offset tool
   offsetEntityId: string | null;
   offsetDistance: number;
+  // For fillet and chamfer tools (message: why the last click did nothing)
+  filletRadius: number;
+  chamferDistance: number;
+  cornerMessage: string | null;
+  // For dimension tool (first picked entity or point)
+  dimensionPick: DimensionPick | null;
+}
+
+export interface DimensionPick {
+  entityId: string;
+  pointIndex?: number;
 }
 
 // ============ FACTORY HELPERS ============
@@ -216,3 +342,75 @@ export function createCircleEntity(id: string, center: Point2D, radius: number):
     radius,
   };
 }
+
+// ============ GEOMETRY HELPERS ============
+
+/**
+ * Resolve a point on an entity using the constraint point index convention
+ */
+export function getEntityPoint(entity: SketchEntity, pointIndex: number): Point2D | null {
+  switch (entity.type) {
+    case 'point':
+      return pointIndex === 0 ? entity.position : null;
+    case 'line':
+      if (pointIndex === 0) return entity.start;
+      if (pointIndex === 1) return entity.end;
+      return null;
+    case 'rectangle':
+      if (pointIndex === 0) return entity.corner1;
+      if (pointIndex === 1) return { x: entity.corner2.x, y: entity.corner1.y };
+      if (pointIndex === 2) return entity.corner2;
+      if (pointIndex === 3) return { x: entity.corner1.x, y: entity.corner2.y };
+      return null;
+    case 'circle':
+      return pointIndex === 0 ? entity.center : null;
+    case 'arc':
+      if (pointIndex === 0 || pointIndex === 1) {
+        const angle = pointIndex === 0 ? entity.startAngle : entity.endAngle;
+        return {
+          x: entity.center.x + entity.radius * Math.cos(angle),
+          y: entity.center.y + entity.radius * Math.sin(angle),
+        };
+      }
+      return pointIndex === 2 ? entity.center : null;
+    case 'ellipse':
+      return pointIndex === 0 ? entity.center : null;
+    case 'ellipticalArc':
+      if (pointIndex === 0 || pointIndex === 1) {
+        return getEllipsePoint(entity, pointIndex === 0 ? entity.startAngle : entity.endAngle);
+      }
+      return pointIndex === 2 ? entity.center : null;
+    case 'spline':
+      return entity.points[pointIndex] ?? null;
+  }
+}
+
+/**
+ * Number of addressable points on an entity
+ */
+export function getEntityPointCount(entity: SketchEntity): number {
+  switch (entity.type) {
+    case 'point': return 1;
+    case 'line': return 2;
+    case 'rectangle': return 4;
+    case 'circle': return 1;
+    case 'arc': return 3;
+    case 'ellipse': return 1;
+    case 'ellipticalArc': return 3;
+    case 'spline': return entity.points.length;
+  }
+}
+
+/**
+ * Point at a parametric angle on an ellipse or elliptical arc
+ */
+export function getEllipsePoint(ellipse: EllipseEntity | EllipticalArcEntity, angle: number): Point2D {
+  const u = ellipse.majorRadius * Math.cos(angle);
+  const v = ellipse.minorRadius * Math.sin(angle);
+  const cos = Math.cos(ellipse.rotation);
+  const sin = Math.sin(ellipse.rotation);
+  return {
+    x: ellipse.center.x + u * cos - v * sin,
+    y: ellipse.center.y + u * sin + v * cos,
+  };
+}
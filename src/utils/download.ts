@@ -0,0 +1,32 @@
+/**
+ * Browser file download utilities
+ */
+
+/**
+ * Turn a document or body name into a safe file name (without extension)
+ */
+export function toFileName(name: string, fallback: string = 'model'): string {
+  const cleaned = name
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .replace(/\s+/g, '_')
+    .replace(/^[.-]+|[.-]+$/g, '');
+  return cleaned || fallback;
+}
+
+/**
+ * Save a blob to the user's downloads
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  // Some browsers start reading the blob only after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
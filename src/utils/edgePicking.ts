@@ -0,0 +1,137 @@
+/**
+ * Edge picking - Name the body edge nearest a point clicked on a face
+ *
+ * Bodies reach the UI as triangle meshes with a face index per triangle, so
+ * an edge is where a triangle of the clicked face meets one of another face.
+ * The same edges tell the facets of a curved surface from planar faces.
+ */
+
+import type { BodyMesh, EdgeName, FaceKey } from '../types/features';
+
+type Vec3 = [number, number, number];
+
+// Mesh vertices within this distance are the same point (tessellation splits them per face)
+const MERGE_PRECISION = 1e4;
+
+// Facets of a tessellated curved surface meet at no more than this (12 per turn)
+const SMOOTH_ANGLE = Math.PI / 6 + 1e-3;
+
+// A mesh edge between triangles of two different faces
+interface BoundarySegment {
+  a: Vec3;
+  b: Vec3;
+  faces: [number, number];
+}
+
+function distanceToSegment(p: Vec3, a: Vec3, b: Vec3): number {
+  const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const ap = [p[0] - a[0], p[1] - a[1], p[2] - a[2]];
+  const lengthSq = ab[0] * ab[0] + ab[1] * ab[1] + ab[2] * ab[2];
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, (ap[0] * ab[0] + ap[1] * ab[1] + ap[2] * ab[2]) / lengthSq)) : 0;
+  return Math.hypot(ap[0] - ab[0] * t, ap[1] - ab[1] * t, ap[2] - ab[2] * t);
+}
+
+function sameKey(a: FaceKey, b: FaceKey): boolean {
+  return a.featureId === b.featureId && a.slot === b.slot && a.faceId === b.faceId;
+}
+
+/**
+ * Every mesh edge of a body that separates two faces
+ */
+function getBoundarySegments(body: BodyMesh): BoundarySegment[] {
+  const { vertices, indices } = body.mesh;
+  const triangleFaces = body.triangleFaces;
+
+  // Merge vertices that share a position
+  const vertexIds = new Map<string, number>();
+  const vertexId = (index: number) => {
+    const key = [0, 1, 2].map(i => Math.round(vertices[index * 3 + i] * MERGE_PRECISION)).join(',');
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertexIds.size;
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+  const position = (index: number): Vec3 => [vertices[index * 3], vertices[index * 3 + 1], vertices[index * 3 + 2]];
+
+  // The first triangle side seen for each mesh edge waits for its twin
+  const open = new Map<string, { a: Vec3; b: Vec3; face: number }>();
+  const segments: BoundarySegment[] = [];
+  for (let tri = 0; tri < indices.length / 3; tri++) {
+    for (let corner = 0; corner < 3; corner++) {
+      const from = indices[tri * 3 + corner];
+      const to = indices[tri * 3 + (corner + 1) % 3];
+      const a = vertexId(from);
+      const b = vertexId(to);
+      const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+      const twin = open.get(key);
+      if (!twin) {
+        open.set(key, { a: position(from), b: position(to), face: triangleFaces[tri] });
+        continue;
+      }
+      open.delete(key);
+      if (twin.face !== triangleFaces[tri]) {
+        segments.push({ a: twin.a, b: twin.b, faces: [twin.face, triangleFaces[tri]] });
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Name the edge of a triangle's face that lies nearest a point on it, or null
+ * when the face has no neighbouring face (a closed surface such as a sphere)
+ */
+export function findEdgeNear(body: BodyMesh, triangle: number, point: Vec3): EdgeName | null {
+  const face = body.triangleFaces[triangle];
+
+  // Boundary segments of the clicked face, nearest first
+  let best: { segment: BoundarySegment; neighbour: number } | null = null;
+  let bestDistance = Infinity;
+  for (const segment of getBoundarySegments(body)) {
+    if (!segment.faces.includes(face)) continue;
+
+    const d = distanceToSegment(point, segment.a, segment.b);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = { segment, neighbour: segment.faces[0] === face ? segment.faces[1] : segment.faces[0] };
+    }
+  }
+
+  if (!best) return null;
+  const { a, b } = best.segment;
+  return {
+    faces: [body.faces[face], body.faces[best.neighbour]],
+    midpoint: [0, 1, 2].map(i => (a[i] + b[i]) / 2) as Vec3,
+  };
+}
+
+/**
+ * Mesh segments of a named edge on a body, for highlighting it. Empty when
+ * its faces no longer meet on the body.
+ */
+export function findEdgeSegments(body: BodyMesh, edge: EdgeName): Array<[Vec3, Vec3]> {
+  const [first, second] = edge.faces.map(face => face.key);
+  return getBoundarySegments(body)
+    .filter(({ faces }) => {
+      const [a, b] = faces.map(face => body.faces[face].key);
+      return (sameKey(a, first) && sameKey(b, second)) || (sameKey(a, second) && sameKey(b, first));
+    })
+    .map(({ a, b }) => [a, b]);
+}
+
+/**
+ * Whether a triangle's face is one facet of a curved surface (a cylinder or
+ * sphere side) rather than a planar face: it meets a neighbouring face at a
+ * shallow angle, as tessellation seams do
+ */
+export function isCurvedFacet(body: BodyMesh, triangle: number): boolean {
+  const face = body.triangleFaces[triangle];
+  const smooth = Math.cos(SMOOTH_ANGLE);
+  return getBoundarySegments(body).some(({ faces }) => {
+    if (!faces.includes(face)) return false;
+    const [a, b] = faces.map(index => body.faces[index].signature.normal);
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2] >= smooth;
+  });
+}
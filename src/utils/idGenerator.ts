@@ -32,7 +32,13 @@ export function generateFeatureName(type: string): string {
     primitive: 'Primitive',
     sketch: 'Sketch',
     extrude: 'Extrude',
+    revolve: 'Revolve',
     boolean: 'Boolean',
+    fillet: 'Fillet',
+    chamfer: 'Chamfer',
+    plane: 'Plane',
+    axis: 'Axis',
+    point: 'Point',
     box: 'Box',
     cylinder: 'Cylinder',
     sphere: 'Sphere',
@@ -53,10 +59,11 @@ export function resetFeatureCounters(): void {
 }
 
 /**
- * Generate a body ID
+ * Generate a body ID from the feature that produced the body and its output
+ * slot. Deterministic, so references to a body survive rebuilds.
  */
-export function generateBodyId(): string {
-  return `body-${generateShortId()}`;
+export function generateBodyId(featureId: string, slot: number): string {
+  return `body-${featureId}-${slot}`;
 }
 
 /**
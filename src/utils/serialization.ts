@@ -5,8 +5,9 @@
 import type { Document, SerializedDocument, SerializedFeature, SerializedParameter } from '../types/document';
 import type { Feature, Parameter } from '../types/features';
 import type { SketchData, SketchEntity, Constraint } from '../types/sketch';
-import { DOCUMENT_VERSION } from '../types/document';
+import { DEFAULT_DOCUMENT_SETTINGS, DOCUMENT_VERSION } from '../types/document';
 import { generateId } from './idGenerator';
+import { detectProfiles } from '../engine/ProfileDetector';
 
 // ============ SERIALIZATION (Document -> JSON) ============
 
@@ -18,11 +19,14 @@ function serializeParameter(param: Parameter): SerializedParameter {
     value: param.value,
   };
 
+  if (param.comment) base.comment = param.comment;
+
   if (param.type === 'number') {
     if (param.min !== undefined) base.min = param.min;
     if (param.max !== undefined) base.max = param.max;
     if (param.step !== undefined) base.step = param.step;
     if (param.unit !== undefined) base.unit = param.unit;
+    if (param.expression !== undefined) base.expression = param.expression;
   }
 
   if (param.type === 'enum') {
@@ -32,7 +36,7 @@ function serializeParameter(param: Parameter): SerializedParameter {
   return base;
 }
 
-function serializeFeature(feature: Feature): SerializedFeature {
+export function serializeFeature(feature: Feature): SerializedFeature {
   const serialized: SerializedFeature = {
     id: feature.id,
     type: feature.type,
@@ -61,23 +65,88 @@ function serializeFeature(feature: Feature): SerializedFeature {
         id: c.id,
         type: c.type,
         entityRefs: getConstraintEntityRefs(c),
+        pointIndices: getConstraintPointIndices(c),
         value: 'value' in c ? c.value : undefined,
       })),
     };
   }
 
+  if (feature.type === 'sketch' && (feature.faceRef || feature.planeRef)) {
+    serialized.faceRef = feature.faceRef;
+    serialized.planeRef = feature.planeRef;
+    serialized.facePlane = feature.facePlane;
+  }
+
   if (feature.type === 'extrude') {
     serialized.sketchRef = feature.sketchRef;
+    if (feature.profileRefs) {
+      serialized.profileRefs = feature.profileRefs;
+    }
+    if (feature.extentRef) {
+      serialized.extentRef = feature.extentRef;
+    }
     if (feature.targetBodyRef) {
       serialized.targetBodyRef = feature.targetBodyRef;
     }
+    if (feature.targetBodyRefs) {
+      serialized.targetBodyRefs = feature.targetBodyRefs;
+    }
+    if (feature.targetScope) {
+      serialized.targetScope = feature.targetScope;
+    }
+  }
+
+  if (feature.type === 'revolve') {
+    serialized.sketchRef = feature.sketchRef;
+    if (feature.profileRefs) {
+      serialized.profileRefs = feature.profileRefs;
+    }
+    serialized.axisRef = feature.axisRef;
+    if (feature.targetBodyRef) {
+      serialized.targetBodyRef = feature.targetBodyRef;
+    }
+    if (feature.targetBodyRefs) {
+      serialized.targetBodyRefs = feature.targetBodyRefs;
+    }
+    if (feature.targetScope) {
+      serialized.targetScope = feature.targetScope;
+    }
   }
 
   if (feature.type === 'boolean') {
     serialized.targetBodyRef = feature.targetBodyRef;
+    if (feature.targetBodyRefs) {
+      serialized.targetBodyRefs = feature.targetBodyRefs;
+    }
+    if (feature.targetScope) {
+      serialized.targetScope = feature.targetScope;
+    }
     serialized.toolBodyRef = feature.toolBodyRef;
   }
 
+  if (feature.type === 'fillet' || feature.type === 'chamfer') {
+    serialized.edgeRefs = feature.edgeRefs;
+  }
+
+  if (feature.type === 'plane') {
+    serialized.planeRefs = feature.planeRefs;
+    if (feature.axisRef) {
+      serialized.axisRef = feature.axisRef;
+    }
+    if (feature.pointRefs) {
+      serialized.pointRefs = feature.pointRefs;
+    }
+  }
+
+  if (feature.type === 'axis') {
+    if (feature.axisRef) {
+      serialized.axisRef = feature.axisRef;
+    }
+    if (feature.pointRefs) {
+      serialized.pointRefs = feature.pointRefs;
+    }
+  }
+
   return serialized;
 }
 
@@ -99,6 +168,32 @@ function serializeEntityData(entity: SketchEntity): Record<string, unknown> {
         endAngle: entity.endAngle,
         construction: entity.construction,
       };
+    case 'ellipse':
+      return {
+        center: entity.center,
+        majorRadius: entity.majorRadius,
+        minorRadius: entity.minorRadius,
+        rotation: entity.rotation,
+        construction: entity.construction,
+      };
+    case 'ellipticalArc':
+      return {
+        center: entity.center,
+        majorRadius: entity.majorRadius,
+        minorRadius: entity.minorRadius,
+        rotation: entity.rotation,
+        startAngle: entity.startAngle,
+        endAngle: entity.endAngle,
+        construction: entity.construction,
+      };
+    case 'spline':
+      return {
+        mode: entity.mode,
+        points: entity.points,
+        degree: entity.degree,
+        weights: entity.weights,
+        construction: entity.construction,
+      };
   }
 }
 
@@ -112,6 +207,16 @@ function getConstraintEntityRefs(constraint: Constraint): string[] {
   return [];
 }
 
+function getConstraintPointIndices(constraint: Constraint): (number | null)[] | undefined {
+  if ('entityId' in constraint) {
+    return constraint.pointIndex !== undefined ? [constraint.pointIndex] : undefined;
+  }
+  if (constraint.pointIndex1 === undefined && constraint.pointIndex2 === undefined) {
+    return undefined;
+  }
+  return [constraint.pointIndex1 ?? null, constraint.pointIndex2 ?? null];
+}
+
 export function serializeDocument(doc: Document): SerializedDocument {
   const serialized: SerializedDocument = {
     id: doc.id,
@@ -121,6 +226,7 @@ export function serializeDocument(doc: Document): SerializedDocument {
     modifiedAt: new Date().toISOString(),
     features: doc.features.map(serializeFeature),
     globalParameters: {},
+    settings: { ...doc.settings },
   };
 
   for (const [key, param] of Object.entries(doc.globalParameters)) {
@@ -139,17 +245,20 @@ function deserializeParameter(serialized: SerializedParameter): Parameter {
         id: serialized.id,
         name: serialized.name,
         type: 'number',
+        comment: serialized.comment,
         value: serialized.value as number,
         min: serialized.min,
         max: serialized.max,
         step: serialized.step,
         unit: serialized.unit,
+        expression: serialized.expression,
       };
     case 'string':
       return {
         id: serialized.id,
         name: serialized.name,
         type: 'string',
+        comment: serialized.comment,
         value: serialized.value as string,
       };
     case 'boolean':
@@ -157,6 +266,7 @@ function deserializeParameter(serialized: SerializedParameter): Parameter {
         id: serialized.id,
         name: serialized.name,
         type: 'boolean',
+        comment: serialized.comment,
         value: serialized.value as boolean,
       };
     case 'enum':
@@ -164,6 +274,7 @@ function deserializeParameter(serialized: SerializedParameter): Parameter {
         id: serialized.id,
         name: serialized.name,
         type: 'enum',
+        comment: serialized.comment,
         value: serialized.value as string,
         options: serialized.options || [],
       };
@@ -215,24 +326,61 @@ function deserializeSketchData(serialized: NonNullable<SerializedFeature['sketch
           endAngle: data.endAngle as number,
           construction: data.construction as boolean || false,
         };
+      case 'ellipse':
+        return {
+          id: e.id,
+          type: 'ellipse' as const,
+          center: data.center as { x: number; y: number },
+          majorRadius: data.majorRadius as number,
+          minorRadius: data.minorRadius as number,
+          rotation: data.rotation as number,
+          construction: data.construction as boolean || false,
+        };
+      case 'ellipticalArc':
+        return {
+          id: e.id,
+          type: 'ellipticalArc' as const,
+          center: data.center as { x: number; y: number },
+          majorRadius: data.majorRadius as number,
+          minorRadius: data.minorRadius as number,
+          rotation: data.rotation as number,
+          startAngle: data.startAngle as number,
+          endAngle: data.endAngle as number,
+          construction: data.construction as boolean || false,
+        };
+      case 'spline':
+        return {
+          id: e.id,
+          type: 'spline' as const,
+          mode: data.mode as 'fit' | 'control',
+          points: data.points as { x: number; y: number }[],
+          degree: data.degree as number,
+          weights: data.weights as number[] | undefined,
+          construction: data.construction as boolean || false,
+        };
     }
   });
 
   const constraints: Constraint[] = serialized.constraints.map(c => {
-    // For now, just recreate basic constraints
+    const pointIndex1 = c.pointIndices?.[0] ?? undefined;
+    const pointIndex2 = c.pointIndices?.[1] ?? undefined;
+
     if (c.type === 'horizontal' || c.type === 'vertical' || c.type === 'fixed') {
       return {
         id: c.id,
         type: c.type,
         entityId: c.entityRefs[0],
+        pointIndex: pointIndex1,
       };
     }
-    if (c.type === 'distance' || c.type === 'angle') {
+    if (c.type === 'distance' || c.type === 'angle' || c.type === 'radius' || c.type === 'diameter') {
       return {
         id: c.id,
         type: c.type,
         entityId1: c.entityRefs[0],
         entityId2: c.entityRefs[1],
+        pointIndex1,
+        pointIndex2,
         value: c.value || 0,
       };
     }
@@ -242,19 +390,21 @@ function deserializeSketchData(serialized: NonNullable<SerializedFeature['sketch
       type: c.type as 'coincident' | 'parallel' | 'perpendicular' | 'equal' | 'tangent' | 'concentric',
       entityId1: c.entityRefs[0],
       entityId2: c.entityRefs[1] || c.entityRefs[0],
+      pointIndex1,
+      pointIndex2,
     };
   });
 
   return {
     entities,
     constraints,
-    profiles: [], // Profiles are regenerated on load
+    profiles: detectProfiles(entities), // Profiles are regenerated on load
     gridSize: 10,
     snapEnabled: true,
   };
 }
 
-function deserializeFeature(serialized: SerializedFeature): Feature {
+export function deserializeFeature(serialized: SerializedFeature): Feature {
   const base = {
     id: serialized.id,
     name: serialized.name,
@@ -282,6 +432,9 @@ function deserializeFeature(serialized: SerializedFeature): Feature {
         type: 'sketch' as const,
         parameters,
         sketchData: serialized.sketchData ? deserializeSketchData(serialized.sketchData) : undefined,
+        faceRef: serialized.faceRef,
+        planeRef: serialized.planeRef,
+        facePlane: serialized.facePlane,
       } as unknown as Feature;
 
     case 'extrude':
@@ -290,7 +443,24 @@ function deserializeFeature(serialized: SerializedFeature): Feature {
         type: 'extrude' as const,
         parameters,
         sketchRef: serialized.sketchRef!,
+        profileRefs: serialized.profileRefs,
+        extentRef: serialized.extentRef,
         targetBodyRef: serialized.targetBodyRef,
+        targetBodyRefs: serialized.targetBodyRefs,
+        targetScope: serialized.targetScope,
+      } as unknown as Feature;
+
+    case 'revolve':
+      return {
+        ...base,
+        type: 'revolve' as const,
+        parameters,
+        sketchRef: serialized.sketchRef!,
+        profileRefs: serialized.profileRefs,
+        axisRef: serialized.axisRef!,
+        targetBodyRef: serialized.targetBodyRef,
+        targetBodyRefs: serialized.targetBodyRefs,
+        targetScope: serialized.targetScope,
       } as unknown as Feature;
 
     case 'boolean':
@@ -299,8 +469,45 @@ function deserializeFeature(serialized: SerializedFeature): Feature {
         type: 'boolean' as const,
         parameters,
         targetBodyRef: serialized.targetBodyRef!,
+        targetBodyRefs: serialized.targetBodyRefs,
+        targetScope: serialized.targetScope,
         toolBodyRef: serialized.toolBodyRef!,
       } as unknown as Feature;
+
+    case 'fillet':
+    case 'chamfer':
+      return {
+        ...base,
+        type: serialized.type,
+        parameters,
+        edgeRefs: serialized.edgeRefs ?? [],
+      } as unknown as Feature;
+
+    case 'plane':
+      return {
+        ...base,
+        type: 'plane' as const,
+        parameters,
+        planeRefs: serialized.planeRefs ?? [],
+        axisRef: serialized.axisRef,
+        pointRefs: serialized.pointRefs,
+      } as unknown as Feature;
+
+    case 'axis':
+      return {
+        ...base,
+        type: 'axis' as const,
+        parameters,
+        axisRef: serialized.axisRef,
+        pointRefs: serialized.pointRefs,
+      } as unknown as Feature;
+
+    case 'point':
+      return {
+        ...base,
+        type: 'point' as const,
+        parameters,
+      } as unknown as Feature;
   }
 }
 
@@ -315,6 +522,7 @@ export function deserializeDocument(json: string | SerializedDocument): Document
     modifiedAt: serialized.modifiedAt,
     features: serialized.features.map(deserializeFeature),
     globalParameters: {},
+    settings: { ...DEFAULT_DOCUMENT_SETTINGS, ...serialized.settings },
   };
 
   for (const [key, param] of Object.entries(serialized.globalParameters)) {
@@ -373,5 +581,6 @@ export function createNewDocument(name: string = 'Untitled'): Document {
     modifiedAt: new Date().toISOString(),
     features: [],
     globalParameters: {},
+    settings: { ...DEFAULT_DOCUMENT_SETTINGS },
   };
 }
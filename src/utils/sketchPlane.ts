@@ -0,0 +1,99 @@
+/**
+ * Sketch plane helpers - Placement of a sketch feature in world space
+ */
+
+import type { SketchFeature } from '../types/features';
+import type { SketchPlane } from '../types/sketch';
+
+type Vector = { x: number; y: number; z: number };
+
+function dot(a: Vector, b: Vector): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Build the plane definition for a sketch feature from its parameters.
+ * Face and construction plane sketches use the plane resolved by the last
+ * rebuild when there is one, otherwise the plane when it was picked.
+ */
+export function getSketchPlane(feature: SketchFeature, resolved?: Map<string, SketchPlane>): SketchPlane {
+  const planeType = feature.parameters.plane.value as 'XY' | 'XZ' | 'YZ' | 'face' | 'plane';
+  const offset = feature.parameters.planeOffset.value;
+
+  const placed = resolved?.get(feature.id) ?? feature.facePlane;
+  if ((planeType === 'face' || planeType === 'plane') && placed) {
+    return { ...placed, offset };
+  }
+
+  return getOriginPlane(planeType === 'face' || planeType === 'plane' ? 'XY' : planeType, offset);
+}
+
+/**
+ * One of the origin planes, offset along its normal
+ */
+export function getOriginPlane(planeType: 'XY' | 'XZ' | 'YZ', offset: number = 0): SketchPlane {
+  return {
+    type: planeType,
+    origin: { x: 0, y: 0, z: 0 },
+    normal: planeType === 'XY' ? { x: 0, y: 0, z: 1 } :
+            planeType === 'XZ' ? { x: 0, y: 1, z: 0 } :
+            { x: 1, y: 0, z: 0 },
+    xAxis: planeType === 'XY' ? { x: 1, y: 0, z: 0 } :
+           planeType === 'XZ' ? { x: 1, y: 0, z: 0 } :
+           { x: 0, y: 0, z: -1 },
+    yAxis: planeType === 'XY' ? { x: 0, y: 1, z: 0 } :
+           planeType === 'XZ' ? { x: 0, y: 0, z: -1 } :
+           { x: 0, y: 1, z: 0 },
+    offset,
+  };
+}
+
+/**
+ * Sketch plane on a planar face, given the face's normal and a point on it
+ * (its centroid), which becomes the origin. With a previous plane (the face
+ * as it was picked), the x axis is carried over onto the face's current
+ * plane so the sketch keeps its orientation; otherwise it is the world axis
+ * closest to lying in the face.
+ */
+export function getFacePlane(normal: Vector, point: Vector, previous?: SketchPlane): SketchPlane {
+  let xAxis = previous?.xAxis;
+
+  if (!xAxis || Math.abs(dot(xAxis, normal)) > 0.99) {
+    xAxis = Math.abs(normal.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 0, z: -1 };
+  }
+
+  // Project the x axis into the face
+  const along = dot(xAxis, normal);
+  const projected = {
+    x: xAxis.x - normal.x * along,
+    y: xAxis.y - normal.y * along,
+    z: xAxis.z - normal.z * along,
+  };
+  const length = Math.hypot(projected.x, projected.y, projected.z);
+  xAxis = { x: projected.x / length, y: projected.y / length, z: projected.z / length };
+
+  return {
+    type: 'face',
+    origin: { ...point },
+    normal: { ...normal },
+    xAxis,
+    yAxis: {
+      x: normal.y * xAxis.z - normal.z * xAxis.y,
+      y: normal.z * xAxis.x - normal.x * xAxis.z,
+      z: normal.x * xAxis.y - normal.y * xAxis.x,
+    },
+    offset: previous?.offset ?? 0,
+  };
+}
+
+/**
+ * Convert a sketch-space point to world coordinates
+ */
+export function sketchToWorld(plane: SketchPlane, x: number, y: number): [number, number, number] {
+  const { origin: o, normal: n, xAxis: u, yAxis: v, offset } = plane;
+  return [
+    o.x + n.x * offset + u.x * x + v.x * y,
+    o.y + n.y * offset + u.y * x + v.y * y,
+    o.z + n.z * offset + u.z * x + v.z * y,
+  ];
+}
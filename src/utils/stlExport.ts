@@ -0,0 +1,201 @@
+/**
+ * STL export - Binary and ASCII STL writers for document bodies
+ *
+ * Body meshes from the last rebuild are written either as one merged file
+ * or one file per body. Model units are millimetres; the unit
+ * option scales coordinates for tools that assume a different unit.
+ */
+
+import type { TessellatedMesh } from '../engine/ManifoldEngine';
+import type { BodyMesh } from '../types/features';
+import { downloadBlob, toFileName } from './download';
+
+// ============ TYPES ============
+
+export type StlFormat = 'binary' | 'ascii';
+export type StlUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export interface StlExportOptions {
+  format: StlFormat;
+  // One file with every body, or one file per body
+  perBody: boolean;
+  unit: StlUnit;
+}
+
+export interface StlFile {
+  fileName: string;
+  blob: Blob;
+}
+
+export interface StlBodyMesh {
+  name: string;
+  mesh: TessellatedMesh;
+}
+
+export const DEFAULT_STL_OPTIONS: StlExportOptions = {
+  format: 'binary',
+  perBody: false,
+  unit: 'mm',
+};
+
+// Millimetres per output unit
+const UNIT_SIZE_MM: Record<StlUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+const BINARY_HEADER_SIZE = 80;
+const BINARY_TRIANGLE_SIZE = 50;
+
+// ============ WRITERS ============
+
+/**
+ * Write meshes as a single binary STL (80-byte header, triangle count, 50 bytes per facet)
+ */
+export function writeBinaryStl(meshes: StlBodyMesh[], scale: number = 1, header: string = ''): ArrayBuffer {
+  const triangleCount = meshes.reduce((sum, { mesh }) => sum + mesh.triCount, 0);
+  const buffer = new ArrayBuffer(BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE);
+  const view = new DataView(buffer);
+
+  // Header must not start with "solid", or readers may treat the file as ASCII
+  const headerText = `Binary STL ${header}`.slice(0, BINARY_HEADER_SIZE);
+  for (let i = 0; i < headerText.length; i++) {
+    view.setUint8(i, headerText.charCodeAt(i) & 0x7f);
+  }
+
+  view.setUint32(BINARY_HEADER_SIZE, triangleCount, true);
+
+  let offset = BINARY_HEADER_SIZE + 4;
+  for (const { mesh } of meshes) {
+    forEachTriangle(mesh, scale, (normal, v0, v1, v2) => {
+      for (const vector of [normal, v0, v1, v2]) {
+        view.setFloat32(offset, vector[0], true);
+        view.setFloat32(offset + 4, vector[1], true);
+        view.setFloat32(offset + 8, vector[2], true);
+        offset += 12;
+      }
+      view.setUint16(offset, 0, true); // attribute byte count
+      offset += 2;
+    });
+  }
+
+  return buffer;
+}
+
+/**
+ * Write meshes as ASCII STL, one solid per mesh
+ */
+export function writeAsciiStl(meshes: StlBodyMesh[], scale: number = 1): string {
+  const lines: string[] = [];
+  const format = (v: [number, number, number]) => v.map(n => n.toExponential(6)).join(' ');
+
+  for (const { name, mesh } of meshes) {
+    const solidName = toFileName(name, 'body');
+    lines.push(`solid ${solidName}`);
+
+    forEachTriangle(mesh, scale, (normal, v0, v1, v2) => {
+      lines.push(`  facet normal ${format(normal)}`);
+      lines.push('    outer loop');
+      lines.push(`      vertex ${format(v0)}`);
+      lines.push(`      vertex ${format(v1)}`);
+      lines.push(`      vertex ${format(v2)}`);
+      lines.push('    endloop');
+      lines.push('  endfacet');
+    });
+
+    lines.push(`endsolid ${solidName}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============ EXPORT ============
+
+/**
+ * Build the STL file(s) to save for the given bodies
+ *
+ * @param bodies - Bodies to export, in display order
+ * @param baseName - File name stem, usually Document.name
+ * @param bodyNames - Display name per body ID (falls back to numbering)
+ */
+export function exportBodiesToStl(
+  bodies: BodyMesh[],
+  baseName: string,
+  options: StlExportOptions = DEFAULT_STL_OPTIONS,
+  bodyNames: Map<string, string> = new Map()
+): StlFile[] {
+  if (bodies.length === 0) {
+    throw new Error('There are no bodies to export');
+  }
+
+  const scale = 1 / UNIT_SIZE_MM[options.unit];
+  const stem = toFileName(baseName);
+
+  const meshes: StlBodyMesh[] = bodies.map((body, index) => ({
+    name: bodyNames.get(body.bodyId) ?? `Body ${index + 1}`,
+    mesh: body.mesh,
+  }));
+
+  const groups = options.perBody && meshes.length > 1
+    ? meshes.map(mesh => ({ fileName: `${stem}-${toFileName(mesh.name, 'body')}.stl`, meshes: [mesh] }))
+    : [{ fileName: `${stem}.stl`, meshes }];
+
+  return groups.map(({ fileName, meshes: groupMeshes }) => {
+    const blob = options.format === 'binary'
+      ? new Blob([writeBinaryStl(groupMeshes, scale, `${baseName} (${options.unit})`)], { type: 'model/stl' })
+      : new Blob([writeAsciiStl(groupMeshes, scale)], { type: 'model/stl' });
+    return { fileName, blob };
+  });
+}
+
+/**
+ * Export bodies and trigger a download for each resulting file
+ */
+export function downloadStl(
+  bodies: BodyMesh[],
+  baseName: string,
+  options: StlExportOptions = DEFAULT_STL_OPTIONS,
+  bodyNames?: Map<string, string>
+): void {
+  for (const file of exportBodiesToStl(bodies, baseName, options, bodyNames)) {
+    downloadBlob(file.blob, file.fileName);
+  }
+}
+
+// ============ HELPERS ============
+
+type Vec3 = [number, number, number];
+
+/**
+ * Visit every triangle with its scaled vertices and unit facet normal
+ */
+function forEachTriangle(
+  mesh: TessellatedMesh,
+  scale: number,
+  visit: (normal: Vec3, v0: Vec3, v1: Vec3, v2: Vec3) => void
+): void {
+  const { vertices, indices } = mesh;
+  const vertex = (index: number): Vec3 => [
+    vertices[index * 3] * scale,
+    vertices[index * 3 + 1] * scale,
+    vertices[index * 3 + 2] * scale,
+  ];
+
+  for (let t = 0; t < mesh.triCount; t++) {
+    const v0 = vertex(indices[t * 3]);
+    const v1 = vertex(indices[t * 3 + 1]);
+    const v2 = vertex(indices[t * 3 + 2]);
+
+    const ax = v1[0] - v0[0], ay = v1[1] - v0[1], az = v1[2] - v0[2];
+    const bx = v2[0] - v0[0], by = v2[1] - v0[1], bz = v2[2] - v0[2];
+    const nx = ay * bz - az * by;
+    const ny = az * bx - ax * bz;
+    const nz = ax * by - ay * bx;
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+
+    const normal: Vec3 = length > 0 ? [nx / length, ny / length, nz / length] : [0, 0, 0];
+    visit(normal, v0, v1, v2);
+  }
+}
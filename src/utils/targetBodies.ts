@@ -0,0 +1,23 @@
+/**
+ * Target body helpers - Join/cut and boolean target references
+ */
+
+import type { GeometryRef } from '../types/features';
+
+/**
+ * Target feature IDs stored on a feature, from its ref list or legacy single ref
+ */
+export function getTargetFeatureIds(feature?: { targetBodyRef?: GeometryRef; targetBodyRefs?: GeometryRef[] }): string[] {
+  const refs = feature?.targetBodyRefs ?? (feature?.targetBodyRef ? [feature.targetBodyRef] : []);
+  return Array.from(new Set(refs.map(ref => ref.featureId)));
+}
+
+/**
+ * Refs for the selected target features, keeping any existing per-body refs
+ */
+export function createTargetBodyRefs(ids: string[], existing: GeometryRef[] = []): GeometryRef[] {
+  return ids.flatMap(id => {
+    const kept = existing.filter(ref => ref.featureId === id);
+    return kept.length > 0 ? kept : [{ featureId: id, type: 'body' as const }];
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * 3MF export - 3D Manufacturing Format writer for document bodies
+ *
+ * Unlike STL, 3MF keeps each body as its own named object and records the
+ * model unit, so slicers import multi-body parts at the right scale.
+ */
+
+import type { TessellatedMesh } from '../engine/ManifoldEngine';
+import type { BodyMesh } from '../types/features';
+import type { Document } from '../types/document';
+import { createZip } from './zip';
+import { downloadBlob, toFileName } from './download';
+
+// ============ TYPES ============
+
+export interface ThreeMfExportOptions {
+  // Display color per body ID as #RRGGBB; bodies without an entry get no material
+  bodyColors?: Map<string, string>;
+  // Object name per body ID (falls back to numbering)
+  bodyNames?: Map<string, string>;
+}
+
+// Matches the material used for bodies in the viewport
+export const DEFAULT_BODY_COLOR = '#4A90D9';
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const MODEL_PATH = '3D/3dmodel.model';
+const APPLICATION_NAME = '3DesignLab';
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/${MODEL_PATH}" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+// ============ WRITER ============
+
+/**
+ * Write the 3D model part (3D/3dmodel.model) for the given meshes
+ */
+export function write3mfModel(
+  meshes: Array<{ bodyId: string; mesh: TessellatedMesh }>,
+  doc: Pick<Document, 'name' | 'createdAt' | 'modifiedAt'>,
+  options: ThreeMfExportOptions = {}
+): string {
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}">`);
+
+  lines.push(`  <metadata name="Title">${escapeXml(doc.name)}</metadata>`);
+  lines.push(`  <metadata name="Application">${APPLICATION_NAME}</metadata>`);
+  lines.push(`  <metadata name="CreationDate">${toDate(doc.createdAt)}</metadata>`);
+  lines.push(`  <metadata name="ModificationDate">${toDate(doc.modifiedAt)}</metadata>`);
+
+  lines.push('  <resources>');
+
+  // One base material per distinct color; resource ID 1 is the material group
+  const colors: string[] = [];
+  for (const { bodyId } of meshes) {
+    const color = options.bodyColors?.get(bodyId);
+    if (color && !colors.includes(color.toUpperCase())) {
+      colors.push(color.toUpperCase());
+    }
+  }
+  if (colors.length > 0) {
+    lines.push('    <basematerials id="1">');
+    colors.forEach((color, index) => {
+      lines.push(`      <base name="Color ${index + 1}" displaycolor="${color}FF"/>`);
+    });
+    lines.push('    </basematerials>');
+  }
+
+  const firstObjectId = colors.length > 0 ? 2 : 1;
+  meshes.forEach(({ bodyId, mesh }, index) => {
+    const name = options.bodyNames?.get(bodyId) ?? `Body ${index + 1}`;
+    const color = options.bodyColors?.get(bodyId)?.toUpperCase();
+    const material = color ? ` pid="1" pindex="${colors.indexOf(color)}"` : '';
+
+    lines.push(`    <object id="${firstObjectId + index}" type="model" name="${escapeXml(name)}"${material}>`);
+    lines.push('      <mesh>');
+    lines.push('        <vertices>');
+    for (let v = 0; v < mesh.vertCount; v++) {
+      const x = formatNumber(mesh.vertices[v * 3]);
+      const y = formatNumber(mesh.vertices[v * 3 + 1]);
+      const z = formatNumber(mesh.vertices[v * 3 + 2]);
+      lines.push(`          <vertex x="${x}" y="${y}" z="${z}"/>`);
+    }
+    lines.push('        </vertices>');
+    lines.push('        <triangles>');
+    for (let t = 0; t < mesh.triCount; t++) {
+      const v1 = mesh.indices[t * 3];
+      const v2 = mesh.indices[t * 3 + 1];
+      const v3 = mesh.indices[t * 3 + 2];
+      lines.push(`          <triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`);
+    }
+    lines.push('        </triangles>');
+    lines.push('      </mesh>');
+    lines.push('    </object>');
+  });
+
+  lines.push('  </resources>');
+
+  lines.push('  <build>');
+  meshes.forEach((_, index) => {
+    lines.push(`    <item objectid="${firstObjectId + index}"/>`);
+  });
+  lines.push('  </build>');
+
+  lines.push('</model>');
+  return lines.join('\n') + '\n';
+}
+
+// ============ EXPORT ============
+
+/**
+ * Package bodies as a 3MF archive
+ */
+export function exportBodiesTo3mf(
+  bodies: BodyMesh[],
+  doc: Pick<Document, 'name' | 'createdAt' | 'modifiedAt'>,
+  options: ThreeMfExportOptions = {}
+): Blob {
+  if (bodies.length === 0) {
+    throw new Error('There are no bodies to export');
+  }
+
+  const archive = createZip([
+    { path: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', data: RELS_XML },
+    { path: MODEL_PATH, data: write3mfModel(bodies, doc, options) },
+  ]);
+
+  return new Blob([archive], { type: 'model/3mf' });
+}
+
+/**
+ * Export bodies as <document name>.3mf and trigger a download
+ */
+export function download3mf(
+  bodies: BodyMesh[],
+  doc: Pick<Document, 'name' | 'createdAt' | 'modifiedAt'>,
+  options: ThreeMfExportOptions = {}
+): void {
+  downloadBlob(exportBodiesTo3mf(bodies, doc, options), `${toFileName(doc.name)}.3mf`);
+}
+
+// ============ HELPERS ============
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Trim float noise without losing sub-micron precision
+ */
+function formatNumber(value: number): string {
+  return Number(value.toFixed(6)).toString();
+}
+
+/**
+ * 3MF metadata dates are ISO 8601 dates (YYYY-MM-DD)
+ */
+function toDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,119 @@
+/**
+ * Minimal ZIP writer - Stored (uncompressed) entries only
+ *
+ * Enough for OPC containers such as 3MF, which readers accept without
+ * compression. Layout follows the PKWARE APPNOTE: local headers with data,
+ * then the central directory and the end-of-central-directory record.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+
+// Fixed DOS timestamp (1980-01-01 00:00) keeps output deterministic
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1; // years since 1980 << 9 | month << 5 | day
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) of a byte array
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive from the given entries
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const dataSize = files.reduce((sum, f) => sum + LOCAL_HEADER_SIZE + f.name.length + f.data.length, 0);
+  const directorySize = files.reduce((sum, f) => sum + CENTRAL_HEADER_SIZE + f.name.length, 0);
+  if (dataSize + directorySize > 0xffffffff || files.length > 0xffff) {
+    throw new Error('Archive is too large for the ZIP format');
+  }
+
+  const output = new Uint8Array(dataSize + directorySize + END_RECORD_SIZE);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  // Local file headers and data
+  for (const file of files) {
+    file.offset = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);           // version needed
+    view.setUint16(offset + 6, 0x0800, true);       // UTF-8 names
+    view.setUint16(offset + 8, 0, true);            // stored
+    view.setUint16(offset + 10, DOS_TIME, true);
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);           // extra length
+    offset += LOCAL_HEADER_SIZE;
+
+    output.set(file.name, offset);
+    offset += file.name.length;
+    output.set(file.data, offset);
+    offset += file.data.length;
+  }
+
+  // Central directory
+  const directoryOffset = offset;
+  for (const file of files) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);           // version made by
+    view.setUint16(offset + 6, 20, true);           // version needed
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, DOS_TIME, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra, comment, disk number, attributes are all zero
+    view.setUint32(offset + 42, file.offset, true);
+    offset += CENTRAL_HEADER_SIZE;
+
+    output.set(file.name, offset);
+    offset += file.name.length;
+  }
+
+  // End of central directory
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - directoryOffset, true);
+  view.setUint32(offset + 16, directoryOffset, true);
+
+  return output;
+}
@@ -0,0 +1,138 @@
+/**
+ * ConstructionRenderer - Show construction planes, axes and points
+ *
+ * Planes are drawn as translucent squares around their origin, axes as
+ * dashed lines through their origin and points as small dots. Construction
+ * geometry is not selectable in the viewport; it is picked in dialogs.
+ */
+
+import * as THREE from 'three';
+import type { ConstructionGeometry } from '../types/features';
+
+// ============ COLORS ============
+
+const COLORS = {
+  plane: 0xd9a441,      // Amber - construction planes
+  axis: 0xd9a441,
+  point: 0xd9a441,
+};
+
+// Half the side of the square a plane is drawn as
+const PLANE_SIZE = 40;
+
+// Half the length an axis is drawn with
+const AXIS_LENGTH = 100;
+
+export class ConstructionRenderer {
+  private scene: THREE.Scene;
+  private group: THREE.Group;
+
+  private planeMaterial: THREE.MeshBasicMaterial;
+  private planeEdgeMaterial: THREE.LineBasicMaterial;
+  private axisMaterial: THREE.LineDashedMaterial;
+  private pointMaterial: THREE.PointsMaterial;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.group = new THREE.Group();
+    this.group.name = 'construction-renderer';
+    scene.add(this.group);
+
+    this.planeMaterial = new THREE.MeshBasicMaterial({
+      color: COLORS.plane,
+      transparent: true,
+      opacity: 0.15,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    this.planeEdgeMaterial = new THREE.LineBasicMaterial({ color: COLORS.plane });
+    this.axisMaterial = new THREE.LineDashedMaterial({ color: COLORS.axis, dashSize: 4, gapSize: 2 });
+    this.pointMaterial = new THREE.PointsMaterial({ color: COLORS.point, size: 6, sizeAttenuation: false });
+  }
+
+  /**
+   * Replace the drawn geometry with the results of a rebuild
+   */
+  update(construction: Map<string, ConstructionGeometry>): void {
+    this.clear();
+
+    construction.forEach((geometry, featureId) => {
+      const object = this.createObject(geometry);
+      object.userData.featureId = featureId;
+      this.group.add(object);
+    });
+  }
+
+  private createObject(geometry: ConstructionGeometry): THREE.Object3D {
+    switch (geometry.type) {
+      case 'plane': {
+        const { origin, normal, xAxis, yAxis, offset } = geometry.plane;
+        const square = new THREE.Group();
+        square.add(new THREE.Mesh(new THREE.PlaneGeometry(PLANE_SIZE * 2, PLANE_SIZE * 2), this.planeMaterial));
+        square.add(new THREE.LineLoop(
+          new THREE.BufferGeometry().setFromPoints([
+            new THREE.Vector3(-PLANE_SIZE, -PLANE_SIZE, 0),
+            new THREE.Vector3(PLANE_SIZE, -PLANE_SIZE, 0),
+            new THREE.Vector3(PLANE_SIZE, PLANE_SIZE, 0),
+            new THREE.Vector3(-PLANE_SIZE, PLANE_SIZE, 0),
+          ]),
+          this.planeEdgeMaterial
+        ));
+
+        // Square axes follow the plane's axes
+        const n = new THREE.Vector3(normal.x, normal.y, normal.z);
+        square.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(
+          new THREE.Vector3(xAxis.x, xAxis.y, xAxis.z),
+          new THREE.Vector3(yAxis.x, yAxis.y, yAxis.z),
+          n
+        ));
+        square.position.set(origin.x, origin.y, origin.z).addScaledVector(n, offset);
+        return square;
+      }
+      case 'axis': {
+        const { origin, direction } = geometry;
+        const center = new THREE.Vector3(origin.x, origin.y, origin.z);
+        const d = new THREE.Vector3(direction.x, direction.y, direction.z);
+        const line = new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints([
+            center.clone().addScaledVector(d, -AXIS_LENGTH),
+            center.clone().addScaledVector(d, AXIS_LENGTH),
+          ]),
+          this.axisMaterial
+        );
+        line.computeLineDistances();
+        return line;
+      }
+      case 'point': {
+        const { position } = geometry;
+        return new THREE.Points(
+          new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(position.x, position.y, position.z)]),
+          this.pointMaterial
+        );
+      }
+    }
+  }
+
+  private clear(): void {
+    for (const object of [...this.group.children]) {
+      this.group.remove(object);
+      object.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Points) {
+          child.geometry.dispose();
+        }
+      });
+    }
+  }
+
+  /**
+   * Dispose of all resources
+   */
+  dispose(): void {
+    this.clear();
+    this.scene.remove(this.group);
+    this.planeMaterial.dispose();
+    this.planeEdgeMaterial.dispose();
+    this.axisMaterial.dispose();
+    this.pointMaterial.dispose();
+  }
+}
@@ -13,13 +13,23 @@ import type {
   RectangleEntity,
   CircleEntity,
   ArcEntity,
+  EllipseEntity,
+  EllipticalArcEntity,
   PointEntity,
+  SplineEntity,
   SketchPlane,
   Profile,
   SnapType,
   Constraint,
   Point2D,
+  DimensionConstraint,
 } from '../types/sketch';
+import { getEllipsePoint, getEntityPoint } from '../types/sketch';
+import type { DofAnalysis } from '../engine/ConstraintSolver';
+import { evaluateSpline, getSplineCurve, sampleSplineParameters } from '../engine/Spline';
+
+// Splines are drawn as polylines within this distance of the curve
+const SPLINE_DISPLAY_TOLERANCE = 0.05;
 
 // ============ COLORS ============
 
@@ -36,6 +46,7 @@ const COLORS = {
   // Profiles
   profile: 0x38abdf,
   profileFill: 0x38abdf,      // Semi-transparent blue fill
+  profileSelected: 0x0696d7,  // Stronger blue - profile picked for a feature
 
   // Grid and origin
   grid: 0x808080,             // Gray grid
@@ -65,6 +76,208 @@ const COLORS = {
   dimensionText: 0xffffff,        // White - dimension text
 };
 
+// Distance between measured geometry and its dimension line
+const DIMENSION_OFFSET = 8;
+
+// ============ DIMENSION GEOMETRY ============
+
+interface LinearDimensionGeometry {
+  kind: 'linear';
+  p1: Point2D;
+  p2: Point2D;
+}
+
+interface RadialDimensionGeometry {
+  kind: 'radial';
+  center: Point2D;
+  radius: number;
+  angle: number; // Direction of the leader
+  diameter: boolean;
+}
+
+interface AngularDimensionGeometry {
+  kind: 'angular';
+  vertex: Point2D;
+  radius: number;
+  startAngle: number;
+  sweep: number; // Signed, |sweep| <= π
+}
+
+type DimensionGeometry = LinearDimensionGeometry | RadialDimensionGeometry | AngularDimensionGeometry;
+
+export function isDimensionConstraint(constraint: Constraint): constraint is DimensionConstraint {
+  return 'value' in constraint;
+}
+
+/**
+ * Work out where a dimension is drawn from the geometry it measures
+ */
+function getDimensionGeometry(constraint: DimensionConstraint, entities: SketchEntity[]): DimensionGeometry | null {
+  const entity1 = entities.find(e => e.id === constraint.entityId1);
+  if (!entity1) return null;
+  const entity2 = constraint.entityId2 ? entities.find(e => e.id === constraint.entityId2) : undefined;
+  if (constraint.entityId2 && !entity2) return null;
+
+  if (constraint.type === 'radius' || constraint.type === 'diameter' || (constraint.type === 'distance' && !entity2 && (entity1.type === 'circle' || entity1.type === 'arc'))) {
+    if (entity1.type !== 'circle' && entity1.type !== 'arc') return null;
+    let angle = Math.PI / 4;
+    if (entity1.type === 'arc') {
+      let endAngle = entity1.endAngle;
+      if (endAngle < entity1.startAngle) endAngle += Math.PI * 2;
+      angle = (entity1.startAngle + endAngle) / 2;
+    }
+    return {
+      kind: 'radial',
+      center: entity1.center,
+      radius: entity1.radius,
+      angle,
+      diameter: constraint.type === 'diameter',
+    };
+  }
+
+  if (constraint.type === 'angle') {
+    if (entity1.type !== 'line' || entity2?.type !== 'line') return null;
+    return getAngularGeometry(entity1, entity2);
+  }
+
+  // Linear distances
+  const p1 = constraint.pointIndex1 !== undefined ? getEntityPoint(entity1, constraint.pointIndex1) : null;
+
+  if (!entity2) {
+    if (entity1.type === 'line' && constraint.pointIndex1 === undefined) {
+      return { kind: 'linear', p1: entity1.start, p2: entity1.end };
+    }
+    return null;
+  }
+
+  const p2 = constraint.pointIndex2 !== undefined ? getEntityPoint(entity2, constraint.pointIndex2) : null;
+
+  if (p1 && p2) {
+    return { kind: 'linear', p1, p2 };
+  }
+
+  // Point to line, or line to line measured from the first line's start
+  const point = p1 ?? p2 ?? (entity1.type === 'line' ? entity1.start : null);
+  const line = p1 ? entity2 : entity1.type === 'line' && !p2 ? entity2 : entity1;
+  if (!point || line.type !== 'line') return null;
+
+  return { kind: 'linear', p1: point, p2: projectOntoLine(point, line.start, line.end) };
+}
+
+/**
+ * Arc between two lines around their intersection
+ */
+function getAngularGeometry(line1: LineEntity, line2: LineEntity): AngularDimensionGeometry | null {
+  const d1 = { x: line1.end.x - line1.start.x, y: line1.end.y - line1.start.y };
+  const d2 = { x: line2.end.x - line2.start.x, y: line2.end.y - line2.start.y };
+  const denom = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(denom) < 1e-9) return null;
+
+  const t = ((line2.start.x - line1.start.x) * d2.y - (line2.start.y - line1.start.y) * d2.x) / denom;
+  const vertex = { x: line1.start.x + t * d1.x, y: line1.start.y + t * d1.y };
+
+  // Point each ray from the vertex towards the far end of its line
+  const farEnd = (line: LineEntity) => {
+    const ds = Math.hypot(line.start.x - vertex.x, line.start.y - vertex.y);
+    const de = Math.hypot(line.end.x - vertex.x, line.end.y - vertex.y);
+    return { point: de >= ds ? line.end : line.start, length: Math.max(ds, de) };
+  };
+  const far1 = farEnd(line1);
+  const far2 = farEnd(line2);
+
+  const a1 = Math.atan2(far1.point.y - vertex.y, far1.point.x - vertex.x);
+  const a2 = Math.atan2(far2.point.y - vertex.y, far2.point.x - vertex.x);
+  const sweep = Math.atan2(Math.sin(a2 - a1), Math.cos(a2 - a1));
+
+  return {
+    kind: 'angular',
+    vertex,
+    radius: Math.max(5, Math.min(far1.length, far2.length) * 0.5),
+    startAngle: a1,
+    sweep,
+  };
+}
+
+function projectOntoLine(point: Point2D, start: Point2D, end: Point2D): Point2D {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return start;
+  const t = ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared;
+  return { x: start.x + t * dx, y: start.y + t * dy };
+}
+
+/**
+ * Sketch-space position for a dimension's value label
+ */
+export function getDimensionLabelPosition(constraint: DimensionConstraint, entities: SketchEntity[]): Point2D | null {
+  const geometry = getDimensionGeometry(constraint, entities);
+  if (!geometry) return null;
+
+  switch (geometry.kind) {
+    case 'linear': {
+      const dx = geometry.p2.x - geometry.p1.x;
+      const dy = geometry.p2.y - geometry.p1.y;
+      const length = Math.hypot(dx, dy);
+      if (length < 0.1) return geometry.p1;
+      return {
+        x: (geometry.p1.x + geometry.p2.x) / 2 - (dy / length) * DIMENSION_OFFSET,
+        y: (geometry.p1.y + geometry.p2.y) / 2 + (dx / length) * DIMENSION_OFFSET,
+      };
+    }
+    case 'radial': {
+      const distance = geometry.radius + DIMENSION_OFFSET;
+      return {
+        x: geometry.center.x + Math.cos(geometry.angle) * distance,
+        y: geometry.center.y + Math.sin(geometry.angle) * distance,
+      };
+    }
+    case 'angular': {
+      const mid = geometry.startAngle + geometry.sweep / 2;
+      const distance = geometry.radius + DIMENSION_OFFSET * 0.5;
+      return {
+        x: geometry.vertex.x + Math.cos(mid) * distance,
+        y: geometry.vertex.y + Math.sin(mid) * distance,
+      };
+    }
+  }
+}
+
+// ============ CURVE SAMPLING ============
+
+/**
+ * Points along an ellipse or elliptical arc for display
+ */
+function sampleEllipsePoints(ellipse: EllipseEntity | EllipticalArcEntity): THREE.Vector3[] {
+  let startAngle = 0;
+  let sweep = Math.PI * 2;
+  let segments = 64;
+  if (ellipse.type === 'ellipticalArc') {
+    startAngle = ellipse.startAngle;
+    sweep = ellipse.endAngle - ellipse.startAngle;
+    if (sweep <= 0) sweep += Math.PI * 2;
+    segments = 32;
+  }
+
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const p = getEllipsePoint(ellipse, startAngle + (i / segments) * sweep);
+    points.push(new THREE.Vector3(p.x, p.y, 0));
+  }
+  return points;
+}
+
+/**
+ * Points along a spline for display
+ */
+function sampleSplinePoints(spline: SplineEntity): THREE.Vector3[] {
+  const curve = getSplineCurve(spline);
+  return sampleSplineParameters(curve, 0, 1, SPLINE_DISPLAY_TOLERANCE).map(t => {
+    const p = evaluateSpline(curve, t);
+    return new THREE.Vector3(p.x, p.y, 0);
+  });
+}
+
 // ============ SKETCH RENDERER CLASS ============
 
 export class SketchRenderer {
@@ -84,13 +297,17 @@ export class SketchRenderer {
 
   // Materials
   private entityMaterial: THREE.LineBasicMaterial;
+  private constrainedMaterial: THREE.LineBasicMaterial;
   private constructionMaterial: THREE.LineDashedMaterial;
   private hoverMaterial: THREE.LineBasicMaterial;
   private selectedMaterial: THREE.LineBasicMaterial;
   private previewMaterial: THREE.LineDashedMaterial;
   private profileMaterial: THREE.MeshBasicMaterial;
+  private profileSelectedMaterial: THREE.MeshBasicMaterial;
   private pointMaterial: THREE.PointsMaterial;
+  private constrainedPointMaterial: THREE.PointsMaterial;
   private snapPointMaterial: THREE.PointsMaterial;
+  private dimensionMaterial: THREE.LineBasicMaterial;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
@@ -100,6 +317,7 @@ export class SketchRenderer {
 
     // Create materials
     this.entityMaterial = new THREE.LineBasicMaterial({ color: COLORS.entity, linewidth: 2 });
+    this.constrainedMaterial = new THREE.LineBasicMaterial({ color: COLORS.entityConstrained, linewidth: 2 });
     this.constructionMaterial = new THREE.LineDashedMaterial({
       color: COLORS.construction,
       dashSize: 5,
@@ -118,12 +336,24 @@ export class SketchRenderer {
       opacity: 0.2,
       side: THREE.DoubleSide,
     });
+    this.profileSelectedMaterial = new THREE.MeshBasicMaterial({
+      color: COLORS.profileSelected,
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide,
+    });
     this.pointMaterial = new THREE.PointsMaterial({ color: COLORS.entity, size: 8, sizeAttenuation: false });
+    this.constrainedPointMaterial = new THREE.PointsMaterial({
+      color: COLORS.entityConstrained,
+      size: 8,
+      sizeAttenuation: false,
+    });
     this.snapPointMaterial = new THREE.PointsMaterial({
       color: COLORS.snapPoint,
       size: 12,
       sizeAttenuation: false,
     });
+    this.dimensionMaterial = new THREE.LineBasicMaterial({ color: COLORS.dimensionLine });
   }
 
   /**
@@ -134,6 +364,14 @@ export class SketchRenderer {
     this.updateTransform();
   }
 
+  /**
+   * Convert a sketch-space point to world coordinates
+   */
+  sketchToWorld(point: Point2D): THREE.Vector3 {
+    this.group.updateMatrixWorld();
+    return this.group.localToWorld(new THREE.Vector3(point.x, point.y, 0));
+  }
+
   /**
    * Update the group transform based on the plane
    */
@@ -157,6 +395,16 @@ export class SketchRenderer {
       case 'YZ':
         this.group.rotation.set(0, Math.PI / 2, 0);
         break;
+      case 'face': {
+        // Sketch x, y and z map onto the face's axes and normal
+        const { xAxis, yAxis, normal } = this.plane;
+        this.group.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(
+          new THREE.Vector3(xAxis.x, xAxis.y, xAxis.z),
+          new THREE.Vector3(yAxis.x, yAxis.y, yAxis.z),
+          new THREE.Vector3(normal.x, normal.y, normal.z)
+        ));
+        break;
+      }
     }
 
     // Apply plane offset along normal
@@ -166,13 +414,15 @@ export class SketchRenderer {
   }
 
   /**
-   * Render the sketch data
+   * Render the sketch data.
+   * Entities with no remaining degrees of freedom are drawn in the constrained color.
    */
   render(
     data: SketchData | null,
     selectedIds: string[],
     hoveredId: string | null,
-    previewEntity: SketchEntity | null
+    previewEntity: SketchEntity | null,
+    degreesOfFreedom: DofAnalysis | null = null
   ): void {
     // Clear previous entities
     this.clearEntities();
@@ -192,7 +442,8 @@ export class SketchRenderer {
     for (const entity of data.entities) {
       const isSelected = selectedIds.includes(entity.id);
       const isHovered = entity.id === hoveredId;
-      this.renderEntity(entity, isSelected, isHovered);
+      const isConstrained = degreesOfFreedom?.entities[entity.id] === 0;
+      this.renderEntity(entity, isSelected, isHovered, isConstrained);
     }
 
     // Render explicit constraints
@@ -207,10 +458,32 @@ export class SketchRenderer {
     }
   }
 
+  /**
+   * Render a finished sketch for picking profiles: profiles and entities
+   * only, with the selected profiles (and e.g. a revolve axis) highlighted
+   */
+  renderProfileSelection(data: SketchData, selectedProfileIds: string[], highlightedEntityIds: string[] = []): void {
+    this.clearEntities();
+
+    this.renderProfiles(data.profiles, selectedProfileIds);
+
+    for (const entity of data.entities) {
+      this.renderEntity(entity, highlightedEntityIds.includes(entity.id), false, false);
+    }
+  }
+
+  /**
+   * Find the profile under the raycaster, if any
+   */
+  pickProfile(raycaster: THREE.Raycaster): string | null {
+    const hits = raycaster.intersectObjects(this.profileMeshes, false);
+    return hits.length > 0 ? (hits[0].object.userData.profileId as string) : null;
+  }
+
   /**
    * Render a single entity
    */
-  private renderEntity(entity: SketchEntity, isSelected: boolean, isHovered: boolean): void {
+  private renderEntity(entity: SketchEntity, isSelected: boolean, isHovered: boolean, isConstrained: boolean): void {
     let mesh: THREE.Line | THREE.Points | null = null;
     let material = entity.construction
       ? this.constructionMaterial
@@ -218,7 +491,9 @@ export class SketchRenderer {
         ? this.selectedMaterial
         : isHovered
           ? this.hoverMaterial
-          : this.entityMaterial;
+          : isConstrained
+            ? this.constrainedMaterial
+            : this.entityMaterial;
 
     switch (entity.type) {
       case 'line':
@@ -233,8 +508,15 @@ export class SketchRenderer {
       case 'arc':
         mesh = this.createArcMesh(entity as ArcEntity, material);
         break;
+      case 'ellipse':
+      case 'ellipticalArc':
+        mesh = this.createEllipseMesh(entity as EllipseEntity | EllipticalArcEntity, material);
+        break;
+      case 'spline':
+        mesh = this.createSplineMesh(entity as SplineEntity, material);
+        break;
       case 'point':
-        mesh = this.createPointMesh(entity as PointEntity, isSelected || isHovered);
+        mesh = this.createPointMesh(entity as PointEntity, isSelected || isHovered, isConstrained);
         break;
     }
 
@@ -342,10 +624,47 @@ export class SketchRenderer {
     return mesh;
   }
 
+  /**
+   * Create mesh for an ellipse or elliptical arc entity
+   */
+  private createEllipseMesh(ellipse: EllipseEntity | EllipticalArcEntity, material: THREE.Material): THREE.Line {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setFromPoints(sampleEllipsePoints(ellipse));
+
+    const mesh = new THREE.Line(geometry, material);
+    if (material === this.constructionMaterial) {
+      mesh.computeLineDistances();
+    }
+    return mesh;
+  }
+
+  /**
+   * Create mesh for a spline entity, with its control polygon for control point splines
+   */
+  private createSplineMesh(spline: SplineEntity, material: THREE.Material): THREE.Line {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setFromPoints(sampleSplinePoints(spline));
+
+    const mesh = new THREE.Line(geometry, material);
+    if (material === this.constructionMaterial) {
+      mesh.computeLineDistances();
+    }
+
+    if (spline.mode === 'control') {
+      const polygon = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(spline.points.map(p => new THREE.Vector3(p.x, p.y, 0))),
+        this.constructionMaterial
+      );
+      polygon.computeLineDistances();
+      mesh.add(polygon);
+    }
+    return mesh;
+  }
+
   /**
    * Create mesh for a point entity
    */
-  private createPointMesh(point: PointEntity, highlight: boolean): THREE.Points {
+  private createPointMesh(point: PointEntity, highlight: boolean, isConstrained: boolean = false): THREE.Points {
     const geometry = new THREE.BufferGeometry();
     geometry.setAttribute('position', new THREE.Float32BufferAttribute(
       [point.position.x, point.position.y, 0],
@@ -354,7 +673,9 @@ export class SketchRenderer {
 
     const material = highlight
       ? new THREE.PointsMaterial({ color: COLORS.entitySelected, size: 10, sizeAttenuation: false })
-      : this.pointMaterial;
+      : isConstrained
+        ? this.constrainedPointMaterial
+        : this.pointMaterial;
 
     return new THREE.Points(geometry, material);
   }
@@ -405,6 +726,21 @@ export class SketchRenderer {
         }
         break;
       }
+      case 'ellipse':
+      case 'ellipticalArc':
+        points.push(...sampleEllipsePoints(entity as EllipseEntity | EllipticalArcEntity));
+        break;
+      case 'spline': {
+        const spline = entity as SplineEntity;
+        points.push(...sampleSplinePoints(spline));
+        // A clamped curve ends on its last control point, so the polygon continues back from there
+        if (spline.mode === 'control') {
+          for (let i = spline.points.length - 2; i >= 0; i--) {
+            points.push(new THREE.Vector3(spline.points[i].x, spline.points[i].y, 0));
+          }
+        }
+        break;
+      }
     }
 
     if (points.length > 0) {
@@ -418,7 +754,7 @@ export class SketchRenderer {
   /**
    * Render profiles as filled areas
    */
-  private renderProfiles(profiles: Profile[]): void {
+  private renderProfiles(profiles: Profile[], selectedIds: string[] = []): void {
     // Clear previous profile meshes
     for (const mesh of this.profileMeshes) {
       this.group.remove(mesh);
@@ -451,8 +787,10 @@ export class SketchRenderer {
       }
 
       const geometry = new THREE.ShapeGeometry(shape);
-      const mesh = new THREE.Mesh(geometry, this.profileMaterial);
+      const material = selectedIds.includes(profile.id) ? this.profileSelectedMaterial : this.profileMaterial;
+      const mesh = new THREE.Mesh(geometry, material);
       mesh.position.z = -0.01; // Slightly behind entities
+      mesh.userData.profileId = profile.id;
       this.group.add(mesh);
       this.profileMeshes.push(mesh);
     }
@@ -488,39 +826,14 @@ export class SketchRenderer {
   private createConstraintMesh(constraint: Constraint, entities: SketchEntity[]): THREE.Group | null {
     const group = new THREE.Group();
 
-    if (constraint.type === 'distance' && 'entityId1' in constraint) {
-      // Distance constraint - show dimension line
-      const entity1 = entities.find(e => e.id === constraint.entityId1);
-      if (!entity1) return null;
-
-      const dimConstraint = constraint as import('../types/sketch').DimensionConstraint;
-      let p1: Point2D | null = null;
-      let p2: Point2D | null = null;
-
-      if (entity1.type === 'line') {
-        const line = entity1 as LineEntity;
-        if (dimConstraint.pointIndex1 === 0) p1 = line.start;
-        else if (dimConstraint.pointIndex1 === 1) p1 = line.end;
-        else p1 = line.start;
-      }
-
-      if (dimConstraint.entityId2) {
-        const entity2 = entities.find(e => e.id === dimConstraint.entityId2);
-        if (entity2?.type === 'line') {
-          const line2 = entity2 as LineEntity;
-          if (dimConstraint.pointIndex2 === 0) p2 = line2.start;
-          else if (dimConstraint.pointIndex2 === 1) p2 = line2.end;
-          else p2 = line2.start;
-        }
-      } else if (entity1.type === 'line') {
-        // Distance constraint on a single line
-        const line = entity1 as LineEntity;
-        p1 = line.start;
-        p2 = line.end;
-      }
-
-      if (p1 && p2) {
-        this.addDimensionLine(group, p1, p2, dimConstraint.value);
+    if (isDimensionConstraint(constraint)) {
+      const geometry = getDimensionGeometry(constraint, entities);
+      if (geometry?.kind === 'linear') {
+        this.addDimensionLine(group, geometry.p1, geometry.p2);
+      } else if (geometry?.kind === 'radial') {
+        this.addRadialDimension(group, geometry);
+      } else if (geometry?.kind === 'angular') {
+        this.addAngularDimension(group, geometry);
       }
     }
 
@@ -528,91 +841,127 @@ export class SketchRenderer {
   }
 
   /**
-   * Add a dimension line between two points
-   * Note: The value parameter will be used for text labels when text rendering is added
+   * Add a dimension line between two points.
+   * The value label is drawn as an HTML overlay positioned with getDimensionLabelPosition.
    */
-  private addDimensionLine(group: THREE.Group, p1: Point2D, p2: Point2D, _value: number): void {
-    const offset = 8; // Offset from geometry
+  private addDimensionLine(group: THREE.Group, p1: Point2D, p2: Point2D): void {
     const dx = p2.x - p1.x;
     const dy = p2.y - p1.y;
     const length = Math.sqrt(dx * dx + dy * dy);
     if (length < 0.1) return;
 
     // Perpendicular direction
-    const perpX = -dy / length * offset;
-    const perpY = dx / length * offset;
+    const perpX = -dy / length * DIMENSION_OFFSET;
+    const perpY = dx / length * DIMENSION_OFFSET;
 
     const offsetP1 = { x: p1.x + perpX, y: p1.y + perpY };
     const offsetP2 = { x: p2.x + perpX, y: p2.y + perpY };
+    const lineMat = this.dimensionMaterial;
 
     // Main dimension line
-    const lineGeom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(offsetP1.x, offsetP1.y, 0.02),
-      new THREE.Vector3(offsetP2.x, offsetP2.y, 0.02),
-    ]);
-    const lineMat = new THREE.LineBasicMaterial({ color: COLORS.dimensionLine });
-    group.add(new THREE.Line(lineGeom, lineMat));
+    this.addDimensionSegment(group, offsetP1, offsetP2);
 
     // Extension lines
-    const ext1Geom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(p1.x, p1.y, 0.02),
-      new THREE.Vector3(offsetP1.x + perpX * 0.3, offsetP1.y + perpY * 0.3, 0.02),
-    ]);
-    group.add(new THREE.Line(ext1Geom, lineMat));
-
-    const ext2Geom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(p2.x, p2.y, 0.02),
-      new THREE.Vector3(offsetP2.x + perpX * 0.3, offsetP2.y + perpY * 0.3, 0.02),
-    ]);
-    group.add(new THREE.Line(ext2Geom, lineMat));
+    this.addDimensionSegment(group, p1, { x: offsetP1.x + perpX * 0.3, y: offsetP1.y + perpY * 0.3 });
+    this.addDimensionSegment(group, p2, { x: offsetP2.x + perpX * 0.3, y: offsetP2.y + perpY * 0.3 });
 
     // Arrow heads
-    const arrowSize = 2;
-    const arrowAngle = Math.PI / 6;
     const dirX = dx / length;
     const dirY = dy / length;
+    this.addArrowHead(group, offsetP1, { x: dirX, y: dirY }, lineMat);
+    this.addArrowHead(group, offsetP2, { x: -dirX, y: -dirY }, lineMat);
+  }
 
-    // Arrow at p1
-    const arrow1Geom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(offsetP1.x, offsetP1.y, 0.02),
-      new THREE.Vector3(
-        offsetP1.x + arrowSize * (dirX * Math.cos(arrowAngle) + dirY * Math.sin(arrowAngle)),
-        offsetP1.y + arrowSize * (dirY * Math.cos(arrowAngle) - dirX * Math.sin(arrowAngle)),
-        0.02
-      ),
-    ]);
-    group.add(new THREE.Line(arrow1Geom, lineMat));
+  /**
+   * Add a radius or diameter leader across a circle or arc
+   */
+  private addRadialDimension(group: THREE.Group, geometry: RadialDimensionGeometry): void {
+    const { center, radius, angle, diameter } = geometry;
+    const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+    const rim = { x: center.x + dir.x * radius, y: center.y + dir.y * radius };
+    const start = diameter
+      ? { x: center.x - dir.x * radius, y: center.y - dir.y * radius }
+      : center;
+
+    this.addDimensionSegment(group, start, rim);
+    // Leader continues outside the rim towards the label
+    this.addDimensionSegment(group, rim, {
+      x: rim.x + dir.x * DIMENSION_OFFSET * 0.6,
+      y: rim.y + dir.y * DIMENSION_OFFSET * 0.6,
+    });
 
-    const arrow1bGeom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(offsetP1.x, offsetP1.y, 0.02),
-      new THREE.Vector3(
-        offsetP1.x + arrowSize * (dirX * Math.cos(-arrowAngle) + dirY * Math.sin(-arrowAngle)),
-        offsetP1.y + arrowSize * (dirY * Math.cos(-arrowAngle) - dirX * Math.sin(-arrowAngle)),
-        0.02
-      ),
-    ]);
-    group.add(new THREE.Line(arrow1bGeom, lineMat));
-
-    // Arrow at p2
-    const arrow2Geom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(offsetP2.x, offsetP2.y, 0.02),
-      new THREE.Vector3(
-        offsetP2.x - arrowSize * (dirX * Math.cos(arrowAngle) + dirY * Math.sin(arrowAngle)),
-        offsetP2.y - arrowSize * (dirY * Math.cos(arrowAngle) - dirX * Math.sin(arrowAngle)),
-        0.02
-      ),
-    ]);
-    group.add(new THREE.Line(arrow2Geom, lineMat));
+    this.addArrowHead(group, rim, { x: -dir.x, y: -dir.y }, this.dimensionMaterial);
+    if (diameter) {
+      this.addArrowHead(group, start, dir, this.dimensionMaterial);
+    }
+  }
+
+  /**
+   * Add an arc between two lines for an angle dimension
+   */
+  private addAngularDimension(group: THREE.Group, geometry: AngularDimensionGeometry): void {
+    const { vertex, radius, startAngle, sweep } = geometry;
+    const segments = 24;
+    const points: THREE.Vector3[] = [];
 
-    const arrow2bGeom = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(offsetP2.x, offsetP2.y, 0.02),
-      new THREE.Vector3(
-        offsetP2.x - arrowSize * (dirX * Math.cos(-arrowAngle) + dirY * Math.sin(-arrowAngle)),
-        offsetP2.y - arrowSize * (dirY * Math.cos(-arrowAngle) - dirX * Math.sin(-arrowAngle)),
+    for (let i = 0; i <= segments; i++) {
+      const angle = startAngle + (i / segments) * sweep;
+      points.push(new THREE.Vector3(
+        vertex.x + radius * Math.cos(angle),
+        vertex.y + radius * Math.sin(angle),
         0.02
-      ),
+      ));
+    }
+
+    const arcGeom = new THREE.BufferGeometry().setFromPoints(points);
+    group.add(new THREE.Line(arcGeom, this.dimensionMaterial));
+
+    // Arrow heads tangent to the arc at both ends
+    const endAngle = startAngle + sweep;
+    const sign = Math.sign(sweep) || 1;
+    this.addArrowHead(
+      group,
+      { x: vertex.x + radius * Math.cos(startAngle), y: vertex.y + radius * Math.sin(startAngle) },
+      { x: -Math.sin(startAngle) * sign, y: Math.cos(startAngle) * sign },
+      this.dimensionMaterial
+    );
+    this.addArrowHead(
+      group,
+      { x: vertex.x + radius * Math.cos(endAngle), y: vertex.y + radius * Math.sin(endAngle) },
+      { x: Math.sin(endAngle) * sign, y: -Math.cos(endAngle) * sign },
+      this.dimensionMaterial
+    );
+  }
+
+  /**
+   * Add a straight dimension segment slightly above the sketch plane
+   */
+  private addDimensionSegment(group: THREE.Group, a: Point2D, b: Point2D): void {
+    const geometry = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(a.x, a.y, 0.02),
+      new THREE.Vector3(b.x, b.y, 0.02),
     ]);
-    group.add(new THREE.Line(arrow2bGeom, lineMat));
+    group.add(new THREE.Line(geometry, this.dimensionMaterial));
+  }
+
+  /**
+   * Add a two-stroke arrow head at `tip`, opening along `dir` (unit vector)
+   */
+  private addArrowHead(group: THREE.Group, tip: Point2D, dir: Point2D, material: THREE.Material): void {
+    const arrowSize = 2;
+    const arrowAngle = Math.PI / 6;
+
+    for (const side of [arrowAngle, -arrowAngle]) {
+      const geometry = new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(tip.x, tip.y, 0.02),
+        new THREE.Vector3(
+          tip.x + arrowSize * (dir.x * Math.cos(side) + dir.y * Math.sin(side)),
+          tip.y + arrowSize * (dir.y * Math.cos(side) - dir.x * Math.sin(side)),
+          0.02
+        ),
+      ]);
+      group.add(new THREE.Line(geometry, material));
+    }
   }
 
   /**
@@ -1142,7 +1491,11 @@ export class SketchRenderer {
   private clearEntities(): void {
     for (const [, mesh] of this.entityMeshes) {
       this.group.remove(mesh);
-      mesh.geometry.dispose();
+      mesh.traverse((child) => {
+        if (child instanceof THREE.Line || child instanceof THREE.Points) {
+          child.geometry.dispose();
+        }
+      });
     }
     this.entityMeshes.clear();
 
@@ -1199,13 +1552,17 @@ export class SketchRenderer {
 
     // Dispose materials
     this.entityMaterial.dispose();
+    this.constrainedMaterial.dispose();
     this.constructionMaterial.dispose();
     this.hoverMaterial.dispose();
     this.selectedMaterial.dispose();
     this.previewMaterial.dispose();
     this.profileMaterial.dispose();
+    this.profileSelectedMaterial.dispose();
     this.pointMaterial.dispose();
+    this.constrainedPointMaterial.dispose();
     this.snapPointMaterial.dispose();
+    this.dimensionMaterial.dispose();
 
     this.scene.remove(this.group);
   }
@@ -35,17 +35,28 @@ export class ViewportManager {
   // Highlight meshes
   private hoverHighlight: THREE.Mesh | null = null;
   private selectionHighlights: Map<string, THREE.Mesh> = new Map();
+  private edgeHighlights: Map<string, THREE.LineSegments> = new Map();
 
   // Materials
   private hoverMaterial: THREE.MeshBasicMaterial;
   private selectionMaterial: THREE.MeshBasicMaterial;
+  private edgeSelectionMaterial: THREE.LineBasicMaterial;
 
   // Object ID tracking
   private objectIds: Map<THREE.Object3D, string> = new Map();
 
+  // Camera as last rendered, to tell listeners only when the view changed
+  private cameraListeners: Set<() => void> = new Set();
+  private renderedView = new THREE.Matrix4();
+  private renderedProjection = new THREE.Matrix4();
+  private viewResized = false;
+
   // Callbacks
   public onHover: ((hit: RaycastHit | null) => void) | null = null;
   public onClick: ((hit: RaycastHit | null, shiftKey: boolean) => void) | null = null;
+  // Set while a command picks its own geometry (e.g. sketch profiles);
+  // returning true consumes the click before selection handling
+  public onPick: ((raycaster: THREE.Raycaster, shiftKey: boolean) => boolean) | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -118,6 +129,11 @@ export class ViewportManager {
       depthTest: false,
     });
 
+    this.edgeSelectionMaterial = new THREE.LineBasicMaterial({
+      color: 0xffaa00,
+      depthTest: false,
+    });
+
     // Setup lighting
     this.setupLighting();
 
@@ -202,6 +218,12 @@ export class ViewportManager {
 
   private handleClick(event: MouseEvent): void {
     this.updateMouse(event);
+
+    if (this.onPick) {
+      this.raycaster.setFromCamera(this.mouse, this.camera);
+      if (this.onPick(this.raycaster, event.shiftKey)) return;
+    }
+
     const hit = this.raycast();
 
     if (this.onClick) {
@@ -211,7 +233,13 @@ export class ViewportManager {
 
   private raycast(): RaycastHit | null {
     this.raycaster.setFromCamera(this.mouse, this.camera);
+    return this.raycastBodies(this.raycaster);
+  }
 
+  /**
+   * Nearest selectable body hit by a ray, e.g. the one given to onPick
+   */
+  public raycastBodies(raycaster: THREE.Raycaster): RaycastHit | null {
     // Get all meshes in the scene that are selectable
     const meshes: THREE.Mesh[] = [];
     this.scene.traverse((obj) => {
@@ -220,7 +248,7 @@ export class ViewportManager {
       }
     });
 
-    const intersects = this.raycaster.intersectObjects(meshes, false);
+    const intersects = raycaster.intersectObjects(meshes, false);
 
     if (intersects.length > 0) {
       const hit = intersects[0];
@@ -356,12 +384,34 @@ export class ViewportManager {
     }
   }
 
+  /**
+   * Highlight a selected edge, given its mesh segments in world space
+   */
+  public addEdgeHighlight(key: string, segments: Array<[number[], number[]]>): void {
+    if (this.edgeHighlights.has(key) || segments.length === 0) return;
+
+    const vertices = new Float32Array(segments.flatMap(([a, b]) => [...a, ...b]));
+    const highlightGeom = new THREE.BufferGeometry();
+    highlightGeom.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+
+    const highlight = new THREE.LineSegments(highlightGeom, this.edgeSelectionMaterial);
+    highlight.renderOrder = 998;
+
+    this.scene.add(highlight);
+    this.edgeHighlights.set(key, highlight);
+  }
+
   public clearSelectionHighlights(): void {
     this.selectionHighlights.forEach((highlight) => {
       this.scene.remove(highlight);
       highlight.geometry.dispose();
     });
     this.selectionHighlights.clear();
+    this.edgeHighlights.forEach((highlight) => {
+      this.scene.remove(highlight);
+      highlight.geometry.dispose();
+    });
+    this.edgeHighlights.clear();
   }
 
   public addMesh(id: string, mesh: THREE.Mesh): void {
@@ -654,30 +704,59 @@ export class ViewportManager {
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(width, height);
+    this.viewResized = true;
   }
 
   private animate = (): void => {
     this.animationFrameId = requestAnimationFrame(this.animate);
     this.controls.update();
     this.renderer.render(this.scene, this.camera);
+    this.notifyCameraChange();
   };
 
+  /**
+   * Call a function whenever the rendered view changes (orbit, pan, zoom or
+   * resize), e.g. to keep overlay elements on their geometry. Returns a
+   * function that removes the listener.
+   */
+  public addCameraListener(listener: () => void): () => void {
+    this.cameraListeners.add(listener);
+    return () => {
+      this.cameraListeners.delete(listener);
+    };
+  }
+
+  private notifyCameraChange(): void {
+    const { matrixWorld, projectionMatrix } = this.camera;
+    if (!this.viewResized && this.renderedView.equals(matrixWorld) && this.renderedProjection.equals(projectionMatrix)) {
+      return;
+    }
+
+    this.renderedView.copy(matrixWorld);
+    this.renderedProjection.copy(projectionMatrix);
+    this.viewResized = false;
+    this.cameraListeners.forEach((listener) => listener());
+  }
+
   public dispose(): void {
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
     }
 
     this.resizeObserver.disconnect();
+    this.cameraListeners.clear();
 
     // Dispose highlights
     if (this.hoverHighlight) {
       this.hoverHighlight.geometry.dispose();
     }
     this.selectionHighlights.forEach((h) => h.geometry.dispose());
+    this.edgeHighlights.forEach((h) => h.geometry.dispose());
 
     // Dispose materials
     this.hoverMaterial.dispose();
     this.selectionMaterial.dispose();
+    this.edgeSelectionMaterial.dispose();
 
     // Dispose BVH trees
     this.scene.traverse((obj) => {
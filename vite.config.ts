@@ -8,4 +8,8 @@ export default defineConfig(({ mode }) => ({
   base: mode === 'production' ? '/3DesignLab/' : '/',
   // Ensure WASM files are served with correct MIME type
   assetsInclude: ['**/*.wasm'],
+  // The rebuild worker is an ES module (it imports the manifold-3d loader)
+  worker: {
+    format: 'es',
+  },
 }))